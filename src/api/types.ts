@@ -4,7 +4,7 @@
  * (hand-duplicated across the two repos — keep in sync manually).
  */
 
-export type FileFormat = "json" | "arb" | "strings" | "stringsdict" | "xcstrings";
+export type FileFormat = "json" | "arb" | "strings" | "stringsdict" | "xcstrings" | "po" | "android" | "yaml" | "properties" | "resx" | "fluent" | "webextension" | "formatjs";
 
 // Key-value pair, still used by locale-detection's key counting.
 export interface KeyValue {
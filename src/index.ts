@@ -9,6 +9,9 @@
  * - list_local_locales: Scan project for locale files
  * - get_translation_status: Compare source vs target locales
  * - sync_translations: Sync translations via LangAPI API
+ * - export_xliff: Export untranslated strings as XLIFF for human translators
+ * - import_xliff: Merge translated XLIFF back into locale files
+ * - check_translations: Check translations for broken placeholders and ICU structure
  *
  * Run with `login`/`logout` as the first CLI argument (e.g.
  * `npx @langapi/mcp-server login`) to run the one-off browser-login flow
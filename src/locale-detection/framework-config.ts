@@ -0,0 +1,341 @@
+/**
+ * Locale settings declared in the app's own i18n configuration
+ *
+ * The configs name the languages the app serves, whether or not they have
+ * translations yet:
+ *   // next-i18next.config.js
+ *   module.exports = {
+ *     i18n: { defaultLocale: "en", locales: ["en", "de", "fr"] },
+ *     localePath: path.resolve("./public/locales"),
+ *     defaultNS: "common",
+ *   };
+ *   // src/i18n/routing.ts (next-intl)
+ *   export const routing = defineRouting({ locales: ["en", "de"], defaultLocale: "en" });
+ *   // next.config.js (Next.js i18n routing)
+ *   module.exports = { i18n: { locales: ["en", "de"], defaultLocale: "en" } };
+ *
+ * The files are read statically and never executed: values must be
+ * literals, or a `const` the config refers to by name (`{ locales }`).
+ * `localePath` may be an expression; its first string literal containing a
+ * `/` is taken, and a public URL path (`/locales`) maps to `public/`.
+ *
+ * Flutter's gen-l10n reads `l10n.yaml` (`arb-dir`, `template-arb-file`);
+ * with `flutter: generate: true` in pubspec.yaml and no l10n.yaml it uses
+ * lib/l10n and app_en.arb. The template ARB's locale is the source language.
+ *
+ * Xcode projects declare `developmentRegion` (the source language) and
+ * `knownRegions` in project.pbxproj. Projects at the root and those a root
+ * .xcworkspace refers to are read; CocoaPods' generated Pods project is not
+ * the app's and is skipped.
+ *
+ * Angular projects declare theirs in angular.json, with the translation
+ * file of each locale:
+ *   "i18n": {
+ *     "sourceLocale": "en",
+ *     "locales": { "de": "src/locale/messages.de.xlf", "fr": { "translation": "src/locale/messages.fr.xlf" } }
+ *   }
+ * The source catalog is `ng extract-i18n`'s output (messages.xlf), in the
+ * extract-i18n target's outputPath, else next to the translations or at the
+ * root.
+ */
+
+import { readFile } from "fs/promises";
+import { dirname, join, normalize } from "path";
+import { glob } from "glob";
+import { getArbLocale, extractLanguageFromArbPath } from "../utils/arb-parser.js";
+import { parseJsonSafe } from "../utils/json-parser.js";
+import { findStaticProperties, type StaticProperty } from "../utils/js-module-parser.js";
+import { parseYamlSafe } from "../utils/yaml-parser.js";
+import { BASE_REGION, parseWorkspaceProjectPaths, parseXcodeRegions } from "../utils/pbxproj-parser.js";
+
+/**
+ * Settings read from the app's i18n config files
+ */
+export interface FrameworkLocaleSettings {
+  /** Config files the settings were read from, relative to the project */
+  files: string[];
+  /** Languages the app serves (`locales`, i18next `supportedLngs`) */
+  locales?: string[];
+  defaultLocale?: string;
+  /** Locale directory relative to the project root (next-i18next `localePath`, Flutter `arb-dir`) */
+  localePath?: string;
+  /** Globs for the locale files in `localePath` */
+  localeGlobs?: string[];
+  /** i18next `defaultNS` */
+  defaultNamespace?: string;
+  /** Flutter template ARB file relative to the project root, holding the source messages */
+  templateFile?: string;
+}
+
+const NEXT_CONFIG_FILES = ["next.config.js", "next.config.mjs", "next.config.ts"];
+
+/**
+ * Config files to read per framework, most specific first. Next.js i18n
+ * routing applies whatever library renders the messages.
+ */
+const FRAMEWORK_CONFIG_FILES: Record<string, string[]> = {
+  i18next: [
+    "next-i18next.config.js",
+    "next-i18next.config.mjs",
+    "next-i18next.config.cjs",
+    "i18next.config.js",
+    "i18next.config.ts",
+    "i18n.js",
+    "i18n.ts",
+    "src/i18n.js",
+    "src/i18n.ts",
+    "src/i18n/index.js",
+    "src/i18n/index.ts",
+  ],
+  "next-intl": ["src/i18n/routing.ts", "i18n/routing.ts", "src/i18n/routing.js", "i18n/routing.js"],
+};
+
+/** Placeholder locales that aren't languages: Next.js `default`, i18next `cimode` */
+const PSEUDO_LOCALES = new Set(["default", "cimode"]);
+
+/**
+ * Read the locale settings a framework's config files declare
+ *
+ * @returns The settings, or null if no config file declares any
+ */
+export async function readFrameworkLocaleSettings(
+  projectPath: string,
+  framework: string
+): Promise<FrameworkLocaleSettings | null> {
+  if (framework === "flutter") return readFlutterL10nSettings(projectPath);
+  if (framework === "ios-macos") return readXcodeRegionSettings(projectPath);
+  if (framework === "angular") return readAngularI18nSettings(projectPath);
+
+  const settings: FrameworkLocaleSettings = { files: [] };
+
+  for (const file of [...(FRAMEWORK_CONFIG_FILES[framework] ?? []), ...NEXT_CONFIG_FILES]) {
+    let content: string;
+    try {
+      content = await readFile(join(projectPath, file), "utf-8");
+    } catch {
+      continue;
+    }
+
+    const found = extractLocaleSettings(content);
+    let used = false;
+    for (const key of ["locales", "defaultLocale", "localePath", "defaultNamespace"] as const) {
+      if (settings[key] === undefined && found[key] !== undefined) {
+        Object.assign(settings, { [key]: found[key] });
+        used = true;
+      }
+    }
+    if (used) settings.files.push(file);
+  }
+
+  if (settings.localePath) {
+    // <lang>/<namespace>.json, or <lang>.json
+    settings.localeGlobs = [`${settings.localePath}/*/*.json`, `${settings.localePath}/*.json`];
+  }
+  return settings.files.length > 0 ? settings : null;
+}
+
+/**
+ * Read Flutter's gen-l10n settings
+ *
+ * @returns The settings, or null if the project doesn't use gen-l10n
+ */
+async function readFlutterL10nSettings(projectPath: string): Promise<FrameworkLocaleSettings | null> {
+  let file = "l10n.yaml";
+  let options: Record<string, unknown>;
+  try {
+    options = parseYamlSafe(await readFile(join(projectPath, file), "utf-8")) ?? {};
+  } catch {
+    file = "pubspec.yaml";
+    let pubspec: Record<string, unknown> | null;
+    try {
+      pubspec = parseYamlSafe(await readFile(join(projectPath, file), "utf-8"));
+    } catch {
+      return null;
+    }
+    const flutter = pubspec?.flutter as Record<string, unknown> | undefined;
+    if (flutter?.generate !== true) return null;
+    options = {};
+  }
+
+  const arbDir = toProjectRelativePath(typeof options["arb-dir"] === "string" ? options["arb-dir"] : "lib/l10n");
+  const templateFile = `${arbDir}/${typeof options["template-arb-file"] === "string" ? options["template-arb-file"] : "app_en.arb"}`;
+
+  let defaultLocale: string | null;
+  try {
+    defaultLocale = getArbLocale(templateFile, await readFile(join(projectPath, templateFile), "utf-8"));
+  } catch {
+    defaultLocale = extractLanguageFromArbPath(templateFile);
+  }
+
+  return {
+    files: [file],
+    defaultLocale: defaultLocale ?? undefined,
+    localePath: arbDir,
+    localeGlobs: [`${arbDir}/*.arb`],
+    templateFile,
+  };
+}
+
+/** Region names that are language codes (not `Base`, nor Xcode's legacy `English`) */
+const REGION_LANGUAGE_CODE = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]+)*$/;
+
+/**
+ * Read the regions the project's Xcode projects declare
+ *
+ * @returns The settings, or null if there is no Xcode project
+ */
+async function readXcodeRegionSettings(projectPath: string): Promise<FrameworkLocaleSettings | null> {
+  const projects = await findXcodeProjects(projectPath);
+  const settings: FrameworkLocaleSettings = { files: [] };
+  const locales: string[] = [];
+
+  for (const project of projects) {
+    const file = `${project}/project.pbxproj`;
+    let content: string;
+    try {
+      content = await readFile(join(projectPath, file), "utf-8");
+    } catch {
+      continue;
+    }
+
+    const { developmentRegion, knownRegions } = parseXcodeRegions(content);
+    if (developmentRegion === null && knownRegions.length === 0) continue;
+    settings.files.push(file);
+
+    if (settings.defaultLocale === undefined && developmentRegion && REGION_LANGUAGE_CODE.test(developmentRegion)) {
+      settings.defaultLocale = developmentRegion;
+    }
+    for (const region of knownRegions) {
+      if (region !== BASE_REGION && REGION_LANGUAGE_CODE.test(region) && !locales.includes(region)) {
+        locales.push(region);
+      }
+    }
+  }
+
+  if (settings.files.length === 0) return null;
+  if (locales.length > 0) settings.locales = locales;
+  return settings;
+}
+
+/**
+ * Read the i18n options of the projects in angular.json
+ *
+ * @returns The settings, or null if no project declares i18n options
+ */
+async function readAngularI18nSettings(projectPath: string): Promise<FrameworkLocaleSettings | null> {
+  const file = "angular.json";
+  let workspace: Record<string, unknown> | null;
+  try {
+    workspace = parseJsonSafe(await readFile(join(projectPath, file), "utf-8"));
+  } catch {
+    return null;
+  }
+
+  const settings: FrameworkLocaleSettings = { files: [] };
+  const locales: string[] = [];
+  const translations: string[] = [];
+  const sourceCatalogs: string[] = [];
+
+  for (const project of Object.values(asRecord(workspace?.projects))) {
+    const i18n = asRecord(asRecord(project).i18n);
+    if (Object.keys(i18n).length === 0) continue;
+    settings.files = [file];
+
+    // "en" or { "code": "en", "baseHref": "/en/" }
+    const sourceLocale = typeof i18n.sourceLocale === "string" ? i18n.sourceLocale : asRecord(i18n.sourceLocale).code;
+    if (typeof sourceLocale === "string") {
+      settings.defaultLocale ??= sourceLocale;
+      if (!locales.includes(sourceLocale)) locales.push(sourceLocale);
+    }
+
+    // "path", ["path", ...] or { "translation": "path" | ["path", ...] }
+    const projectTranslations: string[] = [];
+    for (const [locale, value] of Object.entries(asRecord(i18n.locales))) {
+      if (!locales.includes(locale)) locales.push(locale);
+      const translation = typeof value === "string" || Array.isArray(value) ? value : asRecord(value).translation;
+      for (const path of [translation].flat()) {
+        if (typeof path === "string") projectTranslations.push(toProjectRelativePath(path));
+      }
+    }
+    translations.push(...projectTranslations);
+
+    const extract = asRecord(asRecord(asRecord(asRecord(project).architect)["extract-i18n"]).options);
+    const outFile = typeof extract.outFile === "string" ? extract.outFile : "messages.xlf";
+    const outputDirs =
+      typeof extract.outputPath === "string"
+        ? [toProjectRelativePath(extract.outputPath)]
+        : [...projectTranslations.map((path) => dirname(path)), "."];
+    sourceCatalogs.push(...outputDirs.map((dir) => (dir === "." ? outFile : `${dir}/${outFile}`)));
+  }
+
+  if (settings.files.length === 0) return null;
+  if (locales.length > 0) settings.locales = locales;
+  if (translations.length > 0) {
+    settings.localePath = dirname(translations[0]);
+    settings.localeGlobs = [...new Set([...sourceCatalogs, ...translations])];
+  }
+  return settings;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Xcode projects at the project root and in its workspaces, relative to the root
+ */
+async function findXcodeProjects(projectPath: string): Promise<string[]> {
+  const projects = await glob("*.xcodeproj", { cwd: projectPath, posix: true });
+
+  for (const workspace of await glob("*.xcworkspace/contents.xcworkspacedata", { cwd: projectPath, posix: true })) {
+    let content: string;
+    try {
+      content = await readFile(join(projectPath, workspace), "utf-8");
+    } catch {
+      continue;
+    }
+    const workspaceDir = dirname(dirname(workspace));
+    for (const project of parseWorkspaceProjectPaths(content)) {
+      const relative = normalize(join(workspaceDir, project)).replace(/\\/g, "/");
+      if (!relative.startsWith("..")) projects.push(relative);
+    }
+  }
+
+  return [...new Set(projects.sort())].filter((project) => !/(^|\/)Pods\.xcodeproj$/.test(project));
+}
+
+/**
+ * Extract locale settings from one config file's source
+ */
+export function extractLocaleSettings(content: string): Omit<FrameworkLocaleSettings, "files"> {
+  let properties: StaticProperty[];
+  try {
+    properties = findStaticProperties(content, ["locales", "supportedLngs", "defaultLocale", "localePath", "defaultNS"]);
+  } catch {
+    return {};
+  }
+
+  const settings: Omit<FrameworkLocaleSettings, "files"> = {};
+  for (const { name, value, strings } of properties) {
+    if ((name === "locales" || name === "supportedLngs") && settings.locales === undefined) {
+      if (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "string")) {
+        settings.locales = (value as string[]).filter((lang) => !PSEUDO_LOCALES.has(lang));
+      }
+    } else if (name === "defaultLocale" && settings.defaultLocale === undefined) {
+      if (typeof value === "string" && !PSEUDO_LOCALES.has(value)) settings.defaultLocale = value;
+    } else if (name === "defaultNS" && settings.defaultNamespace === undefined) {
+      if (typeof value === "string") settings.defaultNamespace = value;
+    } else if (name === "localePath" && settings.localePath === undefined) {
+      const path = typeof value === "string" ? value : strings.find((s) => s.includes("/"));
+      if (path) settings.localePath = toProjectRelativePath(path);
+    }
+  }
+  return settings;
+}
+
+/** ./public/locales -> public/locales; /locales (served from public/) -> public/locales */
+function toProjectRelativePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, "");
+  if (trimmed.startsWith("/")) return `public${trimmed}`;
+  return trimmed.replace(/^\.\//, "");
+}
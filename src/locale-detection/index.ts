@@ -12,8 +12,16 @@ import {
   isLikelyLanguageCode,
   type FrameworkPattern,
 } from "./patterns.js";
+import { loadProjectConfig, type LoadedProjectConfig } from "./project-config.js";
+import { readFrameworkLocaleSettings, type FrameworkLocaleSettings } from "./framework-config.js";
 import { countKeys, parseJsonSafe } from "../utils/json-parser.js";
-import { getLocaleFileExtension } from "../utils/arb-parser.js";
+import {
+  extractLanguageFromArbPath,
+  getArbLocale,
+  getLocaleFileExtension,
+  isArbFile,
+  parseArbMessages,
+} from "../utils/arb-parser.js";
 import {
   detectAppleFileType,
   extractLanguageFromLproj,
@@ -22,6 +30,55 @@ import {
 import { parseStringsContent } from "../utils/strings-parser.js";
 import { parseXCStringsContent } from "../utils/xcstrings-parser.js";
 import { parseStringsDictContent } from "../utils/stringsdict-parser.js";
+import { isYamlFile, parseYamlLocaleContent } from "../utils/yaml-parser.js";
+import {
+  extractAndroidEntries,
+  extractLanguageFromAndroidPath,
+  isAndroidDefaultValuesFile,
+  isAndroidStringsFile,
+  parseAndroidStringsContent,
+} from "../utils/android-parser.js";
+import {
+  extractLanguageFromGettextPath,
+  isGettextFile,
+  isPotFile,
+  parsePoContent,
+} from "../utils/po-parser.js";
+import {
+  extractLanguageFromPropertiesPath,
+  isPropertiesDefaultBundle,
+  isPropertiesFile,
+  parsePropertiesContent,
+  readPropertiesFile,
+} from "../utils/properties-parser.js";
+import {
+  extractLanguageFromResxPath,
+  isResxFile,
+  isResxNeutralFile,
+  parseResxContent,
+} from "../utils/resx-parser.js";
+import { extractFluentEntries, isFluentFile, parseFluentContent } from "../utils/fluent-parser.js";
+import {
+  extractLanguageFromWebExtensionPath,
+  isWebExtensionMessagesFile,
+  parseWebExtensionContent,
+} from "../utils/webextension-parser.js";
+import { parseFormatJsContent } from "../utils/formatjs-parser.js";
+import {
+  extractXlfCatalogEntries,
+  getXlfCatalogLanguage,
+  getXlfCatalogName,
+  isXlfCatalogFile,
+  parseXlfCatalog,
+} from "../utils/xlf-catalog-parser.js";
+import { isJsModuleFile, parseJsModuleSafe } from "../utils/js-module-parser.js";
+import { isVueFile, parseVueI18nMessages } from "../utils/vue-i18n-parser.js";
+import { isShopifyLocaleFile, parseShopifyLocaleFileName } from "../utils/shopify-locale.js";
+import {
+  extractLanguageFromLaravelPath,
+  isLaravelPhpFile,
+  parsePhpArraySafe,
+} from "../utils/php-array-parser.js";
 
 export interface LocaleFile {
   /** Absolute path to the file */
@@ -43,6 +100,13 @@ export interface DetectedLocale {
   totalKeys: number;
 }
 
+/**
+ * Where a detected setting came from: the project's langapi.config.json,
+ * the app's own i18n config (next-i18next.config.js, next.config.js i18n,
+ * next-intl routing, l10n.yaml, Xcode project regions), or heuristics
+ */
+export type SettingSource = "config" | "framework_config" | "inferred";
+
 export interface LocaleDetectionResult {
   /** Detected framework */
   framework: string;
@@ -56,29 +120,63 @@ export interface LocaleDetectionResult {
   locales: DetectedLocale[];
   /** Path to i18n config file if found */
   configFile: string | null;
+  /**
+   * Target languages: the config's, else those the app's i18n config
+   * declares, else every detected locale but the source
+   */
+  targetLangs: string[];
+  /** The project's langapi.config.json / .langapirc, if it has one */
+  projectConfig: LoadedProjectConfig | null;
+  /** Locale settings from the app's i18n config files, if it declares any */
+  frameworkSettings: FrameworkLocaleSettings | null;
+  /** Where each setting came from */
+  settingSources: Record<"framework" | "sourceLang" | "targetLangs" | "localeFiles", SettingSource>;
 }
 
 /**
- * Detect i18n framework and locale files in a project
+ * Detect i18n framework and locale files in a project. Settings declared in
+ * the project's langapi.config.json / .langapirc take precedence, then the
+ * locales, default locale and locale directory the app's i18n config
+ * declares, then heuristics. Files under excludeDirs (directories relative
+ * to the project, such as a monorepo's packages) are left out.
+ *
+ * @throws Error when the project config file is invalid
  */
 export async function detectLocales(
   projectPath: string,
-  includeKeyCount = true
+  includeKeyCount = true,
+  excludeDirs: string[] = []
 ): Promise<LocaleDetectionResult> {
+  const projectConfig = await loadProjectConfig(projectPath);
+  const config = projectConfig?.config ?? {};
+
   // Try to detect framework from config files
-  const { framework, configFile, confidence } = await detectFramework(projectPath);
+  const detected = await detectFramework(projectPath);
+  const framework = config.framework ?? detected.framework;
+  const confidence = config.framework ? "high" : detected.confidence;
+  const configFile = framework === detected.framework ? detected.configFile : null;
+
+  const frameworkSettings = await readFrameworkLocaleSettings(projectPath, framework);
+  const declared = frameworkSettings ?? { files: [] };
 
   // Get the pattern for this framework
-  const pattern = FRAMEWORK_PATTERNS[framework] || FRAMEWORK_PATTERNS.generic;
+  const frameworkPattern = FRAMEWORK_PATTERNS[framework] || FRAMEWORK_PATTERNS.generic;
+  const localeGlobs = config.include ?? declared.localeGlobs;
+  const pattern = localeGlobs ? { ...frameworkPattern, localeGlobs } : frameworkPattern;
 
   // Find locale files
-  const localeFiles = await findLocaleFiles(projectPath, pattern);
+  const localeFiles = await findLocaleFiles(projectPath, pattern, [
+    ...(config.exclude ?? []),
+    ...excludeDirs.map((dir) => `${dir}/**`),
+  ]);
 
-  // Group by language
+  // Group by language; files with an implicit locale (Android values/,
+  // messages.properties) are in the declared source language
   const locales = await groupByLanguage(
     projectPath,
     localeFiles,
-    includeKeyCount
+    includeKeyCount,
+    config.sourceLang ?? declared.defaultLocale ?? "en"
   );
 
   // Determine locales path
@@ -86,8 +184,18 @@ export async function detectLocales(
 
   // Try to detect source language (usually 'en' if present, or first one)
   const sourceLang =
-    locales.find((l) => l.lang === "en")?.lang || locales[0]?.lang || null;
-
+    config.sourceLang ??
+    declared.defaultLocale ??
+    (locales.find((l) => l.lang === "en")?.lang || locales[0]?.lang || null);
+
+  const targetLangs = (
+    config.targetLangs ??
+    declared.locales ??
+    locales.map((l) => l.lang)
+  ).filter((lang) => lang !== sourceLang);
+
+  const source = (fromConfig: unknown, fromFramework?: unknown): SettingSource =>
+    fromConfig !== undefined ? "config" : fromFramework !== undefined ? "framework_config" : "inferred";
   return {
     framework,
     confidence,
@@ -95,9 +203,38 @@ export async function detectLocales(
     sourceLang,
     locales,
     configFile,
+    targetLangs,
+    projectConfig,
+    frameworkSettings,
+    settingSources: {
+      framework: source(config.framework),
+      sourceLang: source(config.sourceLang, declared.defaultLocale),
+      targetLangs: source(config.targetLangs, declared.locales),
+      localeFiles: source(config.include, declared.localeGlobs),
+    },
   };
 }
 
+/**
+ * Languages to compare or translate when a tool is called without
+ * target_langs: the project config's targetLangs, else the locales the
+ * app's i18n config declares, else every detected locale but the source
+ */
+export function getDefaultTargetLangs(detection: LocaleDetectionResult, sourceLang: string): string[] {
+  if (detection.settingSources.targetLangs !== "inferred") {
+    return detection.targetLangs.filter((lang) => lang !== sourceLang);
+  }
+  return detection.locales.filter((l) => l.lang !== sourceLang).map((l) => l.lang);
+}
+
+/**
+ * Languages the app's i18n config declares that have no locale files
+ */
+export function getDeclaredLocalesWithoutFiles(detection: LocaleDetectionResult): string[] {
+  const declared = detection.frameworkSettings?.locales ?? [];
+  return declared.filter((lang) => !detection.locales.some((l) => l.lang === lang));
+}
+
 /**
  * Detect the i18n framework from config files
  */
@@ -108,14 +245,21 @@ async function detectFramework(
   for (const [frameworkName, pattern] of Object.entries(FRAMEWORK_PATTERNS)) {
     if (frameworkName === "generic") continue;
 
-    for (const configFile of pattern.configFiles) {
+    for (const configPath of pattern.configFiles) {
+      // *.xcodeproj/project.pbxproj names a file by glob
+      const configFile = configPath.includes("*")
+        ? (await glob(configPath, { cwd: projectPath, posix: true })).sort()[0]
+        : configPath;
+      if (!configFile) continue;
       const fullPath = join(projectPath, configFile);
       if (existsSync(fullPath)) {
-        // Read file and check content pattern
-        if (pattern.configPattern) {
+        // Read file and check content pattern (next-i18next.config.js
+        // names the library itself)
+        const configPattern = pattern.configFilePatterns?.[configPath] ?? pattern.configPattern;
+        if (configPattern) {
           try {
             const content = await readFile(fullPath, "utf-8");
-            if (pattern.configPattern.test(content)) {
+            if (configPattern.test(configFile) || configPattern.test(content)) {
               return {
                 framework: frameworkName,
                 configFile: configFile,
@@ -140,12 +284,29 @@ async function detectFramework(
   return { framework: "generic", configFile: null, confidence: "low" };
 }
 
+/**
+ * Manifests and tool configs that can sit next to locale files (a workspace
+ * package's package.json matches the generic `*.json`) but never are any
+ */
+const NON_LOCALE_FILES = [
+  "**/package.json",
+  "**/package-lock.json",
+  "**/tsconfig*.json",
+  "**/jsconfig.json",
+  "**/project.json",
+  "**/composer.json",
+  "**/nx.json",
+  "**/turbo.json",
+  "**/langapi.config.json",
+];
+
 /**
  * Find locale files matching the framework patterns
  */
 async function findLocaleFiles(
   projectPath: string,
-  pattern: FrameworkPattern
+  pattern: FrameworkPattern,
+  exclude: string[]
 ): Promise<string[]> {
   const allFiles: string[] = [];
 
@@ -155,6 +316,7 @@ async function findLocaleFiles(
         cwd: projectPath,
         absolute: true,
         nodir: true,
+        ignore: [...NON_LOCALE_FILES, ...exclude],
       });
       allFiles.push(...files);
     } catch {
@@ -172,7 +334,8 @@ async function findLocaleFiles(
 async function groupByLanguage(
   projectPath: string,
   files: string[],
-  includeKeyCount: boolean
+  includeKeyCount: boolean,
+  implicitLang: string
 ): Promise<DetectedLocale[]> {
   const languageMap = new Map<string, LocaleFile[]>();
 
@@ -218,7 +381,133 @@ async function groupByLanguage(
       continue;
     }
 
-    const lang = extractLanguageFromPath(filePath);
+    // Vue components carry every language in their <i18n> blocks; each
+    // component is its own namespace
+    if (isVueFile(filePath)) {
+      try {
+        const messages = parseVueI18nMessages(await readFile(filePath, "utf-8"));
+        for (const [lang, data] of messages ?? []) {
+          const localeFile: LocaleFile = {
+            path: filePath,
+            relativePath: relative(projectPath, filePath),
+            namespace: basename(filePath, ".vue"),
+            keyCount: includeKeyCount ? countKeys(data) : 0,
+          };
+
+          if (!languageMap.has(lang)) {
+            languageMap.set(lang, []);
+          }
+          languageMap.get(lang)!.push(localeFile);
+        }
+      } catch {
+        // Ignore read errors
+      }
+      continue;
+    }
+
+    // XLF catalogs: Angular's source catalog (messages.xlf) names its
+    // language only in the content
+    if (isXlfCatalogFile(filePath)) {
+      try {
+        const content = await readFile(filePath, "utf-8");
+        const catalog = parseXlfCatalog(content);
+        const lang = catalog ? getXlfCatalogLanguage(filePath, content) : null;
+        if (catalog && lang) {
+          // Translated catalogs count translated units, source catalogs every unit
+          const role = catalog.targetLang ? "target" : "source";
+          const localeFile: LocaleFile = {
+            path: filePath,
+            relativePath: relative(projectPath, filePath),
+            namespace: getXlfCatalogName(filePath),
+            keyCount: includeKeyCount ? extractXlfCatalogEntries(catalog, role).length : 0,
+          };
+
+          if (!languageMap.has(lang)) {
+            languageMap.set(lang, []);
+          }
+          languageMap.get(lang)!.push(localeFile);
+        }
+      } catch {
+        // Ignore read errors
+      }
+      continue;
+    }
+
+    // Handle gettext templates - a .pot has no language of its own
+    if (isPotFile(filePath)) {
+      try {
+        const content = await readFile(filePath, "utf-8");
+        const parsed = parsePoContent(content);
+        // msgids are in the source language unless the header says otherwise
+        const lang = parsed.header["Language"]?.replace("_", "-") || implicitLang;
+        const localeFile: LocaleFile = {
+          path: filePath,
+          relativePath: relative(projectPath, filePath),
+          namespace: basename(filePath).replace(/\.pot$/i, ""),
+          keyCount: includeKeyCount ? parsed.entries.length : 0,
+        };
+
+        if (!languageMap.has(lang)) {
+          languageMap.set(lang, []);
+        }
+        languageMap.get(lang)!.push(localeFile);
+      } catch {
+        // Ignore read errors
+      }
+      continue;
+    }
+
+    // Handle Android's default values/ directory - the locale is implicit
+    if (isAndroidDefaultValuesFile(filePath)) {
+      try {
+        const content = await readFile(filePath, "utf-8");
+        const parsed = parseAndroidStringsContent(content);
+        // tools:locale declares the default locale; otherwise it's the source language
+        const lang = parsed.toolsLocale?.replace("_", "-") || implicitLang;
+        const localeFile: LocaleFile = {
+          path: filePath,
+          relativePath: relative(projectPath, filePath),
+          namespace: basename(filePath, ".xml"),
+          keyCount: includeKeyCount ? extractAndroidEntries(parsed).length : 0,
+        };
+
+        if (!languageMap.has(lang)) {
+          languageMap.set(lang, []);
+        }
+        languageMap.get(lang)!.push(localeFile);
+      } catch {
+        // Ignore read errors
+      }
+      continue;
+    }
+
+    // Handle default Java bundles (messages.properties) and neutral .NET
+    // resources (Strings.resx) - like Android's values/, the locale is implicit
+    // and the source language
+    if (isPropertiesDefaultBundle(filePath) || isResxNeutralFile(filePath)) {
+      try {
+        const keyCount = includeKeyCount ? await countResourceKeys(filePath) : 0;
+        const localeFile: LocaleFile = {
+          path: filePath,
+          relativePath: relative(projectPath, filePath),
+          namespace: getResourceBundleName(filePath),
+          keyCount,
+        };
+
+        if (!languageMap.has(implicitLang)) {
+          languageMap.set(implicitLang, []);
+        }
+        languageMap.get(implicitLang)!.push(localeFile);
+      } catch {
+        // Ignore read errors
+      }
+      continue;
+    }
+
+    // ARB files may declare their locale (@@locale) rather than name it
+    const lang = isArbFile(filePath)
+      ? await readArbLocale(filePath)
+      : extractLanguageFromPath(filePath);
     if (!lang) continue;
 
     let keyCount = 0;
@@ -235,12 +524,48 @@ async function groupByLanguage(
           if (parsed) {
             keyCount = parsed.entries.length;
           }
-        } else {
-          // JSON or ARB files
-          const parsed = parseJsonSafe(content);
+        } else if (isGettextFile(filePath)) {
+          keyCount = parsePoContent(content).entries.length;
+        } else if (isAndroidStringsFile(filePath)) {
+          keyCount = extractAndroidEntries(parseAndroidStringsContent(content)).length;
+        } else if (isPropertiesFile(filePath) || isResxFile(filePath)) {
+          keyCount = await countResourceKeys(filePath);
+        } else if (isFluentFile(filePath)) {
+          keyCount = extractFluentEntries(parseFluentContent(content)).length;
+        } else if (isWebExtensionMessagesFile(filePath)) {
+          // Only `message` is translatable, not description/placeholders
+          keyCount = parseWebExtensionContent(content)?.messages.length ?? 0;
+        } else if (isJsModuleFile(filePath)) {
+          const parsed = parseJsModuleSafe(content);
           if (parsed) {
             keyCount = countKeys(parsed);
           }
+        } else if (isLaravelPhpFile(filePath)) {
+          const parsed = parsePhpArraySafe(content);
+          if (parsed) {
+            keyCount = countKeys(parsed);
+          }
+        } else if (isYamlFile(filePath)) {
+          const parsed = parseYamlLocaleContent(content, lang);
+          if (parsed) {
+            keyCount = countKeys(parsed);
+          }
+        } else if (isArbFile(filePath)) {
+          // `@key` metadata and `@@locale` are not messages
+          const parsed = parseArbMessages(content);
+          if (parsed) {
+            keyCount = Object.keys(parsed).length;
+          }
+        } else {
+          // JSON files; FormatJS messages count once per id, not once per
+          // defaultMessage/description leaf
+          const formatJs = parseFormatJsContent(content);
+          const parsed = formatJs ? null : parseJsonSafe(content);
+          if (formatJs) {
+            keyCount = formatJs.messages.length;
+          } else if (parsed) {
+            keyCount = countKeys(parsed);
+          }
         }
       } catch {
         // Ignore read errors
@@ -251,8 +576,29 @@ async function groupByLanguage(
     const dirName = basename(dirname(filePath));
     // For .lproj directories, the dir name includes .lproj suffix
     const cleanDirName = dirName.replace(/\.lproj$/i, "");
-    const namespace =
-      cleanDirName !== lang && !isLikelyLanguageCode(cleanDirName) ? cleanDirName : null;
+    // Gettext catalogs are namespaced by their domain (messages.po -> "messages"),
+    // Android, Fluent and Laravel files by their file name (strings.xml ->
+    // "strings", main.ftl -> "main", auth.php -> "auth"), Java and .NET
+    // resources by their bundle name (messages_de.properties -> "messages").
+    // Shopify theme editor files (de.schema.json) are kept apart from the
+    // storefront translations next to them (de.json, en.default.json), which
+    // have no namespace.
+    const shopifyFileName = parseShopifyLocaleFileName(filePath);
+    const namespace = dirName === "LC_MESSAGES"
+      ? basename(filePath).replace(/\.po$/i, "")
+      : isAndroidStringsFile(filePath)
+      ? basename(filePath, ".xml")
+      : isFluentFile(filePath)
+      ? basename(filePath, ".ftl")
+      : isLaravelPhpFile(filePath)
+      ? basename(filePath, ".php")
+      : isPropertiesFile(filePath) || isResxFile(filePath)
+      ? getResourceBundleName(filePath)
+      : isWebExtensionMessagesFile(filePath)
+      ? null
+      : shopifyFileName
+      ? shopifyFileName.isSchema ? "schema" : null
+      : cleanDirName !== lang && !isLikelyLanguageCode(cleanDirName) ? cleanDirName : null;
 
     const localeFile: LocaleFile = {
       path: filePath,
@@ -279,8 +625,17 @@ async function groupByLanguage(
  * Extract language code from file path
  * Supports patterns like:
  * - /locales/en.json, /messages/en/common.json, /public/locales/en/translation.json
- * - /lib/l10n/app_en.arb (Flutter underscore pattern)
+ * - /lib/l10n/app_en.arb, /lib/l10n/app_pt_BR.arb (Flutter underscore pattern)
+ * - /translations/messages.en.yaml (Symfony dot-suffix pattern)
  * - /en.lproj/Localizable.strings (iOS/macOS .lproj directory pattern)
+ * - /locale/pt_BR/LC_MESSAGES/messages.po, /po/de.po (gettext)
+ * - /res/values-pt-rBR/strings.xml (Android resource qualifiers)
+ * - /messages_pt_BR.properties (Java resource bundles)
+ * - /Resources/Strings.pt-BR.resx (.NET resources)
+ * - /locales/en-US/main.ftl (Fluent)
+ * - /_locales/pt_BR/messages.json (WebExtension)
+ * - /lang/pt_BR/auth.php (Laravel)
+ * - /locales/en.default.json, /locales/de.schema.json (Shopify themes)
  */
 function extractLanguageFromPath(filePath: string): string | null {
   // Check for iOS/macOS .lproj directory pattern first
@@ -289,7 +644,57 @@ function extractLanguageFromPath(filePath: string): string | null {
     return lprojLang;
   }
 
+  const gettextLang = extractLanguageFromGettextPath(filePath);
+  if (gettextLang) {
+    return gettextLang;
+  }
+
+  // Android qualifiers are authoritative: values-night or values-v21 are not
+  // locales, and parent directories (app, src, res) must not be mistaken for one
+  if (isAndroidStringsFile(filePath)) {
+    return extractLanguageFromAndroidPath(filePath);
+  }
+
+  // Java and .NET encode the locale in the file name only
+  if (isPropertiesFile(filePath)) {
+    return extractLanguageFromPropertiesPath(filePath);
+  }
+  if (isResxFile(filePath)) {
+    return extractLanguageFromResxPath(filePath);
+  }
+
+  // WebExtension and Laravel locale directories use underscores (pt_BR)
+  if (isWebExtensionMessagesFile(filePath)) {
+    return extractLanguageFromWebExtensionPath(filePath);
+  }
+  if (isLaravelPhpFile(filePath)) {
+    return extractLanguageFromLaravelPath(filePath);
+  }
+
+  // Flutter names ARB files with an underscore locale suffix (app_pt_BR.arb)
+  if (isArbFile(filePath)) {
+    const arbLang = extractLanguageFromArbPath(filePath);
+    if (arbLang) return arbLang;
+  }
+
+  // Shopify marks the default language and theme editor files with infixes
+  if (isShopifyLocaleFile(filePath)) {
+    return parseShopifyLocaleFileName(filePath)!.lang;
+  }
+
   const parts = filePath.split("/");
+
+  // Fluent keeps one directory per locale (locales/en-US/browser/menu.ftl);
+  // file names like app.ftl are never locales
+  if (isFluentFile(filePath)) {
+    for (let i = parts.length - 2; i >= 0; i--) {
+      if (isLikelyLanguageCode(parts[i])) {
+        return parts[i];
+      }
+    }
+    return null;
+  }
+
   const ext = getLocaleFileExtension(filePath);
   const fileName = basename(filePath, ext);
 
@@ -304,6 +709,12 @@ function extractLanguageFromPath(filePath: string): string | null {
     return underscoreMatch[1];
   }
 
+  // Check dot-suffix pattern (e.g., messages.en.yaml, devise.pt_BR.yml)
+  const dotMatch = fileName.match(/\.([a-z]{2,3}(?:[-_][A-Z]{2})?)$/);
+  if (dotMatch && isLikelyLanguageCode(dotMatch[1].replace("_", "-"))) {
+    return dotMatch[1].replace("_", "-");
+  }
+
   // Check parent directories for language code
   for (let i = parts.length - 2; i >= 0; i--) {
     if (isLikelyLanguageCode(parts[i])) {
@@ -314,6 +725,47 @@ function extractLanguageFromPath(filePath: string): string | null {
   return null;
 }
 
+/**
+ * Locale of an ARB file from its `@@locale` or name, falling back to the
+ * path conventions of other formats (l10n/de.arb)
+ */
+async function readArbLocale(filePath: string): Promise<string | null> {
+  try {
+    const locale = getArbLocale(filePath, await readFile(filePath, "utf-8"));
+    if (locale) return locale;
+  } catch {
+    // Ignore read errors
+  }
+  return extractLanguageFromPath(filePath);
+}
+
+/**
+ * Count the entries of a Java bundle or .NET resource file
+ */
+async function countResourceKeys(filePath: string): Promise<number> {
+  if (isPropertiesFile(filePath)) {
+    const { content } = await readPropertiesFile(filePath);
+    return parsePropertiesContent(content).entries.length;
+  }
+  return parseResxContent(await readFile(filePath, "utf-8")).entries.length;
+}
+
+/**
+ * Bundle name of a Java or .NET resource file, without locale suffix
+ * (messages_pt_BR.properties -> "messages", Strings.de.resx -> "Strings")
+ */
+function getResourceBundleName(filePath: string): string {
+  const fileName = basename(filePath);
+  if (isPropertiesFile(filePath)) {
+    const lang = extractLanguageFromPropertiesPath(filePath);
+    const stem = fileName.replace(/\.properties$/i, "");
+    return lang ? stem.slice(0, -(lang.length + 1)) : stem;
+  }
+  const lang = extractLanguageFromResxPath(filePath);
+  const stem = fileName.replace(/\.resx$/i, "");
+  return lang ? stem.slice(0, -(lang.length + 1)) : stem;
+}
+
 /**
  * Determine the common locales directory path
  */
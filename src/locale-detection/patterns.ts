@@ -9,6 +9,11 @@ export interface FrameworkPattern {
   localeGlobs: string[];
   /** Regex pattern to identify framework in config content */
   configPattern?: RegExp;
+  /**
+   * Patterns for config files that many unrelated projects have
+   * (package.json, pyproject.toml), used instead of configPattern
+   */
+  configFilePatterns?: Record<string, RegExp>;
 }
 
 export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
@@ -21,6 +26,8 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
       "i18n.js",
       "src/i18n.ts",
       "src/i18n.js",
+      "src/i18n/routing.ts",
+      "i18n/routing.ts",
     ],
     localeGlobs: [
       "messages/*.json",
@@ -52,15 +59,71 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
     ],
     configPattern: /i18next|next-i18next|react-i18next/,
   },
+  "vue-i18n": {
+    configFiles: [
+      "package.json",
+      "src/i18n.ts",
+      "src/i18n.js",
+      "src/i18n/index.ts",
+      "src/i18n/index.js",
+      "src/main.ts",
+      "src/main.js",
+    ],
+    localeGlobs: [
+      "src/locales/*.json",
+      "src/locales/*.yaml",
+      "src/locales/*.yml",
+      "src/locales/*.ts",
+      "src/locales/*.js",
+      "src/i18n/locales/*.json",
+      "locales/*.json",
+      // Per-component <i18n> blocks
+      "src/**/*.vue",
+    ],
+    configPattern: /vue-i18n|createI18n/,
+    configFilePatterns: { "package.json": /"vue-i18n"\s*:/ },
+  },
   "react-intl": {
-    configFiles: ["src/i18n/index.ts", "src/i18n/index.js", "src/i18n.ts"],
+    configFiles: ["src/i18n/index.ts", "src/i18n/index.js", "src/i18n.ts", "package.json"],
     localeGlobs: [
       "src/lang/*.json",
       "src/locales/*.json",
       "lang/*.json",
+      // `formatjs compile` output (plain strings or --ast)
       "compiled-lang/*.json",
+      "src/compiled-lang/*.json",
     ],
-    configPattern: /react-intl|IntlProvider|formatMessage/,
+    configPattern: /react-intl|IntlProvider|formatMessage|@formatjs\//,
+  },
+  angular: {
+    configFiles: ["angular.json"],
+    // `ng extract-i18n` writes messages.xlf; translations are messages.<locale>.xlf
+    localeGlobs: [
+      "src/locale/*.xlf",
+      "src/locale/*.xliff",
+      "src/locales/*.xlf",
+      "src/i18n/*.xlf",
+      "locale/*.xlf",
+      "messages*.xlf",
+    ],
+    configPattern: /"i18n"\s*:\s*\{[\s\S]*"locales"\s*:/,
+  },
+  webextension: {
+    configFiles: ["manifest.json", "src/manifest.json", "public/manifest.json", "extension/manifest.json"],
+    localeGlobs: [
+      "_locales/*/messages.json",
+      "src/_locales/*/messages.json",
+      "public/_locales/*/messages.json",
+      "extension/_locales/*/messages.json",
+      "app/_locales/*/messages.json",
+    ],
+    configPattern: /"manifest_version"|"default_locale"/,
+  },
+  shopify: {
+    configFiles: ["config/settings_schema.json", "layout/theme.liquid"],
+    // en.default.json, en.default.schema.json, de.json, de.schema.json
+    localeGlobs: ["locales/*.json"],
+    configPattern: /"theme_info"|content_for_header/,
   },
   flutter: {
     configFiles: ["pubspec.yaml", "l10n.yaml", "lib/l10n.dart"],
@@ -71,7 +134,7 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
       "assets/translations/*.arb",
       "lib/src/l10n/*.arb",
     ],
-    configPattern: /flutter_localizations|intl|flutter_gen/,
+    configPattern: /flutter_localizations|intl|flutter_gen|arb-dir|template-arb-file/,
   },
   "ios-macos": {
     configFiles: [
@@ -97,7 +160,120 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
       "**/Localizable.xcstrings",
       "**/*.xcstrings",
     ],
-    configPattern: /import\s+(UIKit|AppKit|SwiftUI|Foundation)|NSLocalizedString/,
+    configPattern: /import\s+(UIKit|AppKit|SwiftUI|Foundation)|NSLocalizedString|knownRegions|\.xcodeproj"/,
+  },
+  rails: {
+    configFiles: ["config/application.rb", "Gemfile"],
+    localeGlobs: ["config/locales/*.yml", "config/locales/**/*.yml"],
+    configPattern: /Rails::Application|gem ["']rails["']|rails-i18n/,
+  },
+  laravel: {
+    configFiles: ["artisan", "composer.json"],
+    localeGlobs: [
+      "lang/*/*.php",
+      "lang/*.json",
+      // Laravel < 9
+      "resources/lang/*/*.php",
+      "resources/lang/*.json",
+    ],
+    configPattern: /laravel\/framework|Illuminate\\/,
+  },
+  symfony: {
+    configFiles: ["config/packages/translation.yaml", "composer.json", "symfony.lock"],
+    localeGlobs: ["translations/*.yaml", "translations/*.yml", "translations/*.xlf", "translations/*.xliff"],
+    configPattern: /symfony\/translation|framework:\s*\n\s*default_locale|translator:/,
+  },
+  hugo: {
+    configFiles: ["hugo.toml", "hugo.yaml", "hugo.json", "config.toml", "config.yaml"],
+    localeGlobs: ["i18n/*.yaml", "i18n/*.yml", "themes/*/i18n/*.yaml"],
+    configPattern: /baseURL|defaultContentLanguage|languageCode/,
+  },
+  android: {
+    configFiles: [
+      "app/build.gradle",
+      "app/build.gradle.kts",
+      "build.gradle",
+      "build.gradle.kts",
+      "app/src/main/AndroidManifest.xml",
+      "src/main/AndroidManifest.xml",
+    ],
+    localeGlobs: [
+      "app/src/main/res/values*/strings.xml",
+      "src/main/res/values*/strings.xml",
+      "res/values*/strings.xml",
+      "*/src/main/res/values*/strings.xml",
+    ],
+    configPattern: /com\.android\.(application|library)|android\s*\{|<manifest\b/,
+  },
+  java: {
+    configFiles: ["pom.xml", "build.gradle", "build.gradle.kts", "src/main/resources/application.properties"],
+    localeGlobs: [
+      "src/main/resources/messages*.properties",
+      "src/main/resources/i18n/*.properties",
+      "*/src/main/resources/messages*.properties",
+      "*/src/main/resources/i18n/*.properties",
+    ],
+    configPattern: /spring|ResourceBundle|MessageSource|<project\b/,
+  },
+  dotnet: {
+    configFiles: ["Directory.Build.props", "global.json", "Program.cs", "Startup.cs"],
+    localeGlobs: [
+      "Resources/*.resx",
+      "Properties/*.resx",
+      "*/Resources/*.resx",
+      "*/Properties/*.resx",
+      "**/Resources/**/*.resx",
+    ],
+    configPattern: /Microsoft\.|System\.|dotnet/,
+  },
+  fluent: {
+    configFiles: ["package.json", "Cargo.toml", "pyproject.toml", "requirements.txt"],
+    localeGlobs: [
+      "locales/*/*.ftl",
+      "src/locales/*/*.ftl",
+      "public/locales/*/*.ftl",
+      "l10n/*/*.ftl",
+      "i18n/*/*.ftl",
+      "*/locales/*/*.ftl",
+    ],
+    configPattern: /@fluent\/|fluent-bundle|fluent-templates|fluent\.runtime|\bfluent\s*=/,
+    configFilePatterns: { "package.json": /"@fluent\/[\w-]+"\s*:/ },
+  },
+  gettext: {
+    configFiles: [
+      "babel.cfg",
+      "setup.cfg",
+      "pyproject.toml",
+      // Django settings module
+      "*/settings.py",
+      "configure.ac",
+      "meson.build",
+      "CMakeLists.txt",
+    ],
+    localeGlobs: [
+      // Babel/Django/GNU LC_MESSAGES layout
+      "locale/*/LC_MESSAGES/*.po",
+      "locales/*/LC_MESSAGES/*.po",
+      "**/locale/*/LC_MESSAGES/*.po",
+      "**/locales/*/LC_MESSAGES/*.po",
+      "translations/*/LC_MESSAGES/*.po",
+      // GNU-style flat po/ directory
+      "po/*.po",
+      // Templates (msgstr left empty) act as the source catalog
+      "locale/*.pot",
+      "locales/*.pot",
+      "translations/*.pot",
+      "po/*.pot",
+    ],
+    configPattern: /gettext|[Bb]abel|extract_messages|makemessages|django|msgfmt|AM_GNU_GETTEXT/,
+    configFilePatterns: {
+      // Babel or Flask-Babel as a dependency, or Babel's extraction settings
+      "setup.cfg": /^\[(?:extract_messages|compile_catalog|init_catalog|update_catalog)\]|(?:^|\s)(?:[Ff]lask-)?[Bb]abel\b/m,
+      "pyproject.toml": /["'\s](?:[Ff]lask-)?[Bb]abel\s*[=<>~!^"'[]|\[tool\.babel|extract_messages/,
+      // Translations turned on (LocaleMiddleware) or stored in the project (LOCALE_PATHS)
+      "*/settings.py": /LocaleMiddleware|LOCALE_PATHS/,
+      "CMakeLists.txt": /find_package\s*\(\s*(?:Gettext|Intl)\b|GETTEXT_/,
+    },
   },
   generic: {
     configFiles: [],
@@ -119,6 +295,15 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
       "src/lang/*.json",
       "src/messages/*.json",
       "public/locales/*.json",
+      // JS/TS locale modules (export default { ... })
+      "src/locales/*.ts",
+      "src/locales/*.js",
+      "locales/*.ts",
+      "locales/*.js",
+      "src/i18n/locales/*.ts",
+      // WebExtension messages
+      "_locales/*/messages.json",
+      "src/_locales/*/messages.json",
       // ARB files (Flutter)
       "lib/l10n/*.arb",
       "l10n/*.arb",
@@ -127,6 +312,43 @@ export const FRAMEWORK_PATTERNS: Record<string, FrameworkPattern> = {
       "*.lproj/*.strings",
       "*.lproj/*.stringsdict",
       "*.xcstrings",
+      // YAML (Rails, Symfony, Hugo)
+      "config/locales/*.yml",
+      "locales/*.yml",
+      "locales/*.yaml",
+      "translations/*.yaml",
+      "translations/*.yml",
+      "i18n/*.yaml",
+      "i18n/*.yml",
+      // XLF catalogs (Angular, Symfony)
+      "src/locale/*.xlf",
+      "translations/*.xlf",
+      // Laravel PHP language files
+      "lang/*/*.php",
+      "resources/lang/*/*.php",
+      // Android resources
+      "res/values*/strings.xml",
+      "values*/strings.xml",
+      // Gettext catalogs
+      "locale/*/LC_MESSAGES/*.po",
+      "locales/*/LC_MESSAGES/*.po",
+      "*/LC_MESSAGES/*.po",
+      "locale/*.pot",
+      "locales/*.pot",
+      "po/*.po",
+      "po/*.pot",
+      // Java resource bundles
+      "src/main/resources/messages*.properties",
+      "src/main/resources/i18n/*.properties",
+      "i18n/*.properties",
+      // .NET resources
+      "Resources/*.resx",
+      "Properties/*.resx",
+      "*/Resources/*.resx",
+      // Fluent resources
+      "locales/*/*.ftl",
+      "l10n/*/*.ftl",
+      "*/*.ftl",
     ],
   },
 };
@@ -190,6 +412,8 @@ export const COMMON_LANGUAGE_CODES = [
   "de-CH",
 ];
 
+const LANGUAGE_NAMES = new Intl.DisplayNames(["en"], { type: "language", fallback: "none" });
+
 /**
  * Check if a string looks like a language code
  */
@@ -198,6 +422,8 @@ export function isLikelyLanguageCode(str: string): boolean {
   if (COMMON_LANGUAGE_CODES.includes(str)) {
     return true;
   }
-  // Check pattern: 2-3 lowercase letters + optional region (-BR) or script (-Hant).
-  return /^[a-z]{2,3}(-([A-Z]{2}|[A-Z][a-z]{3}))?$/.test(str);
+  // Check pattern: 2-3 lowercase letters + optional region (-BR) or script
+  // (-Hant), with a language ICU knows (so not `app`, `web` or `qa`)
+  const match = str.match(/^([a-z]{2,3})(-([A-Z]{2}|[A-Z][a-z]{3}))?$/);
+  return match !== null && LANGUAGE_NAMES.of(match[1]) !== undefined;
 }
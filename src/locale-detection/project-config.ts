@@ -0,0 +1,127 @@
+/**
+ * Project configuration file (langapi.config.json or .langapirc)
+ *
+ * Detection is heuristic: the first framework whose config file matches, a
+ * fixed set of globs per framework and `en` as the source language. A
+ * checked-in config overrides any of those guesses:
+ *
+ *   {
+ *     "framework": "i18next",
+ *     "sourceLang": "de",
+ *     "targetLangs": ["en", "fr", "pt-BR"],
+ *     "include": ["web/locales/*.json"],
+ *     "exclude": ["web/locales/legacy.json"],
+ *     "pathTemplates": { "json": "web/locales/{lang}.json" },
+ *     "glossary": "i18n/glossary.csv"
+ *   }
+ *
+ * `include` replaces the framework's globs; `exclude` applies to either.
+ * A path template is chosen by the source file's extension and names the
+ * target file for a language: `{lang}` (pt-BR), `{lang_underscore}` (pt_BR)
+ * and `{file}` (the source file name without extension). Paths are relative
+ * to the project root and may not leave it. Both file names hold JSON.
+ */
+
+import { readFile } from "fs/promises";
+import { basename, extname, isAbsolute, join, resolve } from "path";
+import { z } from "zod";
+import { languageCodeSchema } from "../utils/validation.js";
+import { FRAMEWORK_PATTERNS } from "./patterns.js";
+
+export const PROJECT_CONFIG_FILES = ["langapi.config.json", ".langapirc"];
+
+const ProjectConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    framework: z
+      .string()
+      .refine((name) => Object.keys(FRAMEWORK_PATTERNS).includes(name), {
+        message: `Unknown framework. Expected one of: ${Object.keys(FRAMEWORK_PATTERNS).join(", ")}`,
+      })
+      .optional(),
+    sourceLang: languageCodeSchema.optional(),
+    targetLangs: z.array(languageCodeSchema).optional(),
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+    pathTemplates: z
+      .record(
+        z
+          .string()
+          .refine((template) => /\{lang(?:_underscore)?\}/.test(template), {
+            message: "A path template needs a {lang} or {lang_underscore} placeholder",
+          })
+          .refine((template) => !isAbsolute(template) && !template.split(/[\\/]/).includes(".."), {
+            message: "A path template must stay within the project",
+          })
+      )
+      .optional(),
+    glossary: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type LangApiProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+/**
+ * A project config as loaded from disk
+ */
+export interface LoadedProjectConfig {
+  /** Config file name (langapi.config.json or .langapirc) */
+  file: string;
+  /** Project root the config's paths are relative to */
+  projectPath: string;
+  config: LangApiProjectConfig;
+}
+
+/**
+ * Load the project's config file, if it has one
+ *
+ * @returns The config, or null if the project has none
+ * @throws Error when the file is not valid JSON or has unknown or invalid settings
+ */
+export async function loadProjectConfig(projectPath: string): Promise<LoadedProjectConfig | null> {
+  for (const file of PROJECT_CONFIG_FILES) {
+    let content: string;
+    try {
+      content = await readFile(join(projectPath, file), "utf-8");
+    } catch {
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = ProjectConfigSchema.safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message));
+      throw new Error(`Invalid ${file}: ${issues.join("; ")}`);
+    }
+    return { file, projectPath: resolve(projectPath), config: parsed.data };
+  }
+  return null;
+}
+
+/**
+ * Target file path from the config's template for the source file's
+ * extension
+ *
+ * @returns The absolute path, or null if no template applies
+ */
+export function applyPathTemplate(
+  projectConfig: LoadedProjectConfig | null | undefined,
+  sourcePath: string,
+  targetLang: string
+): string | null {
+  const extension = extname(sourcePath);
+  const template = projectConfig?.config.pathTemplates?.[extension.slice(1).toLowerCase()];
+  if (!projectConfig || !template) return null;
+
+  const path = template
+    .replace(/\{lang\}/g, targetLang)
+    .replace(/\{lang_underscore\}/g, targetLang.replace(/-/g, "_"))
+    .replace(/\{file\}/g, basename(sourcePath, extension));
+  return join(projectConfig.projectPath, path);
+}
@@ -0,0 +1,215 @@
+/**
+ * Monorepo workspaces
+ *
+ * In a monorepo each package may keep its own locale files, source language
+ * and framework, so each is detected on its own, as if it were the project
+ * root. The packages are read from:
+ *   pnpm-workspace.yaml  packages: ["apps/*", "packages/*", "!packages/legacy"]
+ *   package.json         "workspaces": ["packages/*"] (npm, Yarn, Bun), or
+ *                        "workspaces": { "packages": [...] } (Yarn classic)
+ *   nx.json              every directory with a project.json, and packages
+ *                        in workspaceLayout's appsDir/libsDir
+ *   turbo.json           Turborepo uses the package manager's workspaces;
+ *                        without any, its apps/* and packages/* layout
+ *
+ * A package is a directory with a package.json (or, for Nx, a project.json).
+ * Locale files the root project keeps outside every package make it one more
+ * package, ".".
+ */
+
+import { readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { glob } from "glob";
+import { parseJsonSafe } from "../utils/json-parser.js";
+import { parseYamlSafe } from "../utils/yaml-parser.js";
+import { detectLocales, type LocaleDetectionResult } from "./index.js";
+
+export interface WorkspacePackage {
+  /** Name from the package's package.json or project.json, else its path */
+  name: string;
+  /** Package directory relative to the workspace root */
+  path: string;
+}
+
+export interface Workspace {
+  /** Files that declare the workspace, relative to its root */
+  files: string[];
+  packages: WorkspacePackage[];
+}
+
+export interface WorkspacePackageDetection extends WorkspacePackage {
+  detection: LocaleDetectionResult;
+}
+
+export interface WorkspaceDetectionResult {
+  workspace: Workspace;
+  /** Packages with locale files, the root project (".") first if it has any of its own */
+  packages: WorkspacePackageDetection[];
+}
+
+const IGNORED_DIRECTORIES = ["**/node_modules/**", "**/dist/**", "**/.git/**"];
+
+const ROOT_PACKAGE: WorkspacePackage = { name: ".", path: "." };
+
+/**
+ * Read the workspace's packages
+ *
+ * @returns The workspace, or null if the project isn't a monorepo
+ */
+export async function detectWorkspace(projectPath: string): Promise<Workspace | null> {
+  const files: string[] = [];
+  const manifests: string[] = [];
+
+  const pnpm = parseYamlSafe((await readOptional(projectPath, "pnpm-workspace.yaml")) ?? "");
+  if (Array.isArray(pnpm?.packages)) {
+    files.push("pnpm-workspace.yaml");
+    manifests.push(...(await findManifests(projectPath, stringsOf(pnpm.packages), "package.json")));
+  }
+
+  const packageJson = parseJsonSafe((await readOptional(projectPath, "package.json")) ?? "");
+  const workspaces = packageJson?.workspaces;
+  const workspaceGlobs = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as Record<string, unknown> | undefined)?.packages;
+  if (Array.isArray(workspaceGlobs)) {
+    files.push("package.json");
+    manifests.push(...(await findManifests(projectPath, stringsOf(workspaceGlobs), "package.json")));
+  }
+
+  const nxContent = await readOptional(projectPath, "nx.json");
+  if (nxContent !== null) {
+    files.push("nx.json");
+    const layout = (parseJsonSafe(nxContent)?.workspaceLayout ?? {}) as Record<string, unknown>;
+    const appsDir = typeof layout.appsDir === "string" ? layout.appsDir : "apps";
+    const libsDir = typeof layout.libsDir === "string" ? layout.libsDir : "libs";
+    manifests.push(...(await findManifests(projectPath, ["**"], "project.json")));
+    manifests.push(...(await findManifests(projectPath, [`${appsDir}/*`, `${libsDir}/*`], "package.json")));
+  }
+
+  if ((await readOptional(projectPath, "turbo.json")) !== null) {
+    files.push("turbo.json");
+    if (!files.includes("pnpm-workspace.yaml") && !files.includes("package.json")) {
+      manifests.push(...(await findManifests(projectPath, ["apps/*", "packages/*"], "package.json")));
+    }
+  }
+
+  const packages = new Map<string, WorkspacePackage>();
+  for (const manifest of manifests.sort()) {
+    const path = dirname(manifest);
+    if (path === "." || packages.has(path)) continue;
+    const name = parseJsonSafe((await readOptional(projectPath, manifest)) ?? "")?.name;
+    packages.set(path, { name: typeof name === "string" ? name : path, path });
+  }
+
+  if (packages.size === 0) return null;
+  return { files, packages: [...packages.values()].sort((a, b) => a.path.localeCompare(b.path)) };
+}
+
+/**
+ * Detect locales in every workspace package that has locale files
+ *
+ * @returns null if the project isn't a monorepo
+ * @throws Error when a package's project config file is invalid
+ */
+export async function detectWorkspaceLocales(
+  projectPath: string,
+  includeKeyCount = true
+): Promise<WorkspaceDetectionResult | null> {
+  const workspace = await detectWorkspace(projectPath);
+  if (!workspace) return null;
+
+  const packages: WorkspacePackageDetection[] = [];
+  for (const pkg of workspace.packages) {
+    let detection: LocaleDetectionResult;
+    try {
+      detection = await detectPackageLocales(projectPath, workspace, pkg, includeKeyCount);
+    } catch (error) {
+      throw new Error(`${pkg.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (detection.locales.length > 0) packages.push({ ...pkg, detection });
+  }
+
+  // The root project's own locale files, outside every package
+  if (packages.length > 0) {
+    const detection = await detectPackageLocales(projectPath, workspace, ROOT_PACKAGE, includeKeyCount);
+    if (detection.locales.length > 0) packages.unshift({ ...ROOT_PACKAGE, detection });
+  }
+  return { workspace, packages };
+}
+
+/**
+ * Detect a package's locales; the root project (".") leaves out the files
+ * of every package
+ *
+ * @throws Error when the package's project config file is invalid
+ */
+export async function detectPackageLocales(
+  projectPath: string,
+  workspace: Workspace,
+  pkg: WorkspacePackage,
+  includeKeyCount = true
+): Promise<LocaleDetectionResult> {
+  if (pkg.path === ".") {
+    return detectLocales(projectPath, includeKeyCount, workspace.packages.map((p) => p.path));
+  }
+  return detectLocales(join(projectPath, pkg.path), includeKeyCount);
+}
+
+/**
+ * Find a workspace package by name (`@acme/web`) or path (`apps/web`); `.`
+ * is the root project
+ */
+export function findWorkspacePackage(workspace: Workspace, filter: string): WorkspacePackage | undefined {
+  if (filter === "." || filter === "./") return ROOT_PACKAGE;
+  const path = filter.replace(/^\.\//, "").replace(/\/+$/, "");
+  return workspace.packages.find((pkg) => pkg.name === filter || pkg.path === path);
+}
+
+/**
+ * Why a package can't be compared or synced from the requested source
+ * language: its langapi.config.json or i18n config declares another one.
+ * Null when they agree or the package declares none.
+ */
+export function getSourceLangMismatch(detection: LocaleDetectionResult, sourceLang: string): string | null {
+  const declaredBy = detection.settingSources.sourceLang;
+  if (declaredBy === "inferred" || !detection.sourceLang || detection.sourceLang === sourceLang) return null;
+  const config = declaredBy === "config" ? "langapi.config.json" : "i18n config";
+  return `The package's ${config} declares source language '${detection.sourceLang}', not '${sourceLang}'`;
+}
+
+/**
+ * Manifest files (package.json, project.json) of the packages matching
+ * workspace globs; `!`-prefixed globs exclude
+ */
+async function findManifests(projectPath: string, patterns: string[], manifest: string): Promise<string[]> {
+  const include = patterns.filter((p) => !p.startsWith("!")).map((p) => `${trimGlob(p)}/${manifest}`);
+  const exclude = patterns.filter((p) => p.startsWith("!")).map((p) => `${trimGlob(p.slice(1))}/${manifest}`);
+  if (include.length === 0) return [];
+  try {
+    return await glob(include, {
+      cwd: projectPath,
+      posix: true,
+      nodir: true,
+      ignore: [...IGNORED_DIRECTORIES, ...exclude],
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** ./packages/* -> packages/*; packages/** stays recursive */
+function trimGlob(pattern: string): string {
+  return pattern.replace(/^\.\//, "").replace(/\/+$/, "") || ".";
+}
+
+function stringsOf(values: unknown[]): string[] {
+  return values.filter((v): v is string => typeof v === "string");
+}
+
+async function readOptional(projectPath: string, file: string): Promise<string | null> {
+  try {
+    return await readFile(join(projectPath, file), "utf-8");
+  } catch {
+    return null;
+  }
+}
@@ -7,6 +7,9 @@ import { registerListLocalLocales } from "./tools/list-local-locales.js";
 import { registerGetTranslationStatus } from "./tools/get-translation-status.js";
 import { registerSyncTranslations } from "./tools/sync-translations.js";
 import { registerGetAccountStatus } from "./tools/get-account-status.js";
+import { registerExportXliff } from "./tools/export-xliff.js";
+import { registerImportXliff } from "./tools/import-xliff.js";
+import { registerCheckTranslations } from "./tools/check-translations.js";
 
 /**
  * Create and configure the MCP server
@@ -22,6 +25,9 @@ export function createServer(): McpServer {
   registerGetTranslationStatus(server);
   registerSyncTranslations(server);
   registerGetAccountStatus(server);
+  registerExportXliff(server);
+  registerImportXliff(server);
+  registerCheckTranslations(server);
 
   return server;
 }
@@ -0,0 +1,199 @@
+/**
+ * check_translations MCP Tool
+ *
+ * Offline QA of existing translations: for every source/target string pair,
+ * compares placeholders ({name}, {{count}}, %@, %1$s, ${x}) and ICU
+ * plural/select structure, and reports what a translation lost, added or
+ * broke. Plural messages are also checked against each language's CLDR
+ * plural categories. Files are read with the same parsers as the other local
+ * tools; LangAPI is not called.
+ */
+
+import { z } from "zod";
+import { relative } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { detectLocales, getDefaultTargetLangs } from "../locale-detection/index.js";
+import { isArbFile, parseArbPlaceholderNames } from "../utils/arb-parser.js";
+import { readLocaleFile, readPluralForms, readTranslationUnits } from "../utils/locale-content.js";
+import { checkSourcePlaceholders, comparePlaceholders, type PlaceholderIssue } from "../utils/placeholders.js";
+import { checkPluralCategories, describePluralCategoryCheck, type PluralForm } from "../utils/plural-rules.js";
+import { languageCodeSchema } from "../utils/validation.js";
+import { computeTargetFilePath } from "./sync-translations.js";
+
+const CheckTranslationsSchema = z.object({
+  source_lang: languageCodeSchema.describe("Source language code (e.g., 'en', 'pt-BR')"),
+  target_langs: z
+    .array(languageCodeSchema)
+    .optional()
+    .describe(
+      "Target language codes. If not provided, targetLangs from langapi.config.json, else the locales the app's i18n config declares, else all detected locales except source will be used."
+    ),
+  project_path: z
+    .string()
+    .optional()
+    .describe("Root path of the project. Defaults to current working directory."),
+});
+
+export type CheckTranslationsInput = z.infer<typeof CheckTranslationsSchema>;
+
+type IssueType = PlaceholderIssue["type"] | "plural_categories";
+
+interface TranslationIssue {
+  /** Project-relative file the string lives in */
+  file: string;
+  language: string;
+  key: string;
+  type: IssueType;
+  placeholder?: string;
+  message: string;
+}
+
+export interface CheckTranslationsOutput {
+  success: boolean;
+  source_lang: string;
+  checked: {
+    languages: number;
+    /** Translated strings compared against their source */
+    translations: number;
+  };
+  issues: TranslationIssue[];
+  /** Issue count per type */
+  summary: Record<IssueType, number>;
+  message: string;
+}
+
+function pluralFormId(form: PluralForm): string {
+  return `${form.key}\0${form.argument ?? ""}`;
+}
+
+/**
+ * Issues for plural forms whose categories don't match the language's CLDR
+ * rules. Languages missing from the bundled table are not checked.
+ */
+function checkPluralForms(file: string, language: string, forms: PluralForm[]): TranslationIssue[] {
+  const issues: TranslationIssue[] = [];
+  for (const form of forms) {
+    const check = checkPluralCategories(language, form);
+    if (!check || (check.missing.length === 0 && check.superfluous.length === 0)) continue;
+    issues.push({
+      file,
+      language,
+      key: form.key,
+      type: "plural_categories",
+      placeholder:
+        form.argument === undefined ? undefined : form.syntax === "icu" ? `{${form.argument}}` : `%#@${form.argument}@`,
+      message: describePluralCategoryCheck(language, check),
+    });
+  }
+  return issues;
+}
+
+/**
+ * Register the check_translations tool with the MCP server
+ */
+export function registerCheckTranslations(server: McpServer): void {
+  server.tool(
+    "check_translations",
+    "Check existing translations offline: compares placeholders ({name}, {{count}}, %@, %1$s, ${x}, ARB placeholders) and ICU plural/select structure between each source string and its translation, and lists missing, extra or malformed arguments per key, file and language. Plural messages (.stringsdict, xcstrings, ICU plural, i18next _one/_other keys in i18next projects) are checked against each language's CLDR plural categories. No credits are used.",
+    CheckTranslationsSchema.shape,
+    async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
+      const input = CheckTranslationsSchema.parse(args);
+      const projectPath = input.project_path || process.cwd();
+
+      const detection = await detectLocales(projectPath, false);
+      const sourceLocale = detection.locales.find((l) => l.lang === input.source_lang);
+      if (!sourceLocale) {
+        throw new Error(`Source language '${input.source_lang}' not found in project`);
+      }
+
+      let targetLangs = input.target_langs;
+      if (!targetLangs || targetLangs.length === 0) {
+        targetLangs = getDefaultTargetLangs(detection, input.source_lang);
+      }
+
+      const issues: TranslationIssue[] = [];
+      let translations = 0;
+
+      for (const file of sourceLocale.files) {
+        const sourceContent = await readLocaleFile(file.path);
+        const sourceUnits = readTranslationUnits(file.path, sourceContent, input.source_lang, "source");
+        // ARB messages declare their placeholders; the declaration is the contract
+        const declared = isArbFile(file.path) ? parseArbPlaceholderNames(sourceContent) : new Map<string, string[]>();
+
+        const sourcePluralForms = readPluralForms(file.path, sourceContent, input.source_lang, "source", detection.framework);
+        const sourcePluralIds = new Set(sourcePluralForms.map(pluralFormId));
+
+        for (const unit of sourceUnits) {
+          for (const issue of checkSourcePlaceholders(unit.value, declared.get(unit.key))) {
+            issues.push({ file: file.relativePath, language: input.source_lang, key: unit.key, ...issue });
+          }
+        }
+        issues.push(...checkPluralForms(file.relativePath, input.source_lang, sourcePluralForms));
+
+        for (const targetLang of targetLangs) {
+          const targetPath = computeTargetFilePath(file.path, input.source_lang, targetLang, detection.projectConfig);
+          if (!targetPath) continue;
+
+          let targetContent: string;
+          try {
+            targetContent = targetPath === file.path ? sourceContent : await readLocaleFile(targetPath);
+          } catch {
+            // Not translated yet - nothing to check
+            continue;
+          }
+
+          const targetValues = new Map(
+            readTranslationUnits(targetPath, targetContent, targetLang, "target").map((u) => [u.key, u.value])
+          );
+          const targetFile = relative(projectPath, targetPath);
+
+          for (const unit of sourceUnits) {
+            const target = targetValues.get(unit.key);
+            if (target === undefined || target === "") continue;
+            translations++;
+            for (const issue of comparePlaceholders(unit.value, target, declared.get(unit.key))) {
+              issues.push({ file: targetFile, language: targetLang, key: unit.key, ...issue });
+            }
+          }
+
+          // Only plurals the source has; a plural the target lacks entirely is a missing key
+          const targetPluralForms = readPluralForms(targetPath, targetContent, targetLang, "target", detection.framework).filter(
+            (form) => sourcePluralIds.has(pluralFormId(form))
+          );
+          issues.push(...checkPluralForms(targetFile, targetLang, targetPluralForms));
+        }
+      }
+
+      const summary: CheckTranslationsOutput["summary"] = {
+        missing_placeholder: 0,
+        extra_placeholder: 0,
+        icu_mismatch: 0,
+        malformed: 0,
+        plural_categories: 0,
+      };
+      for (const issue of issues) {
+        summary[issue.type]++;
+      }
+
+      const output: CheckTranslationsOutput = {
+        success: true,
+        source_lang: input.source_lang,
+        checked: { languages: targetLangs.length, translations },
+        issues,
+        summary,
+        message: issues.length
+          ? `Found ${issues.length} issue(s) in ${translations} translation(s) across ${targetLangs.length} language(s).`
+          : `No placeholder or plural issues in ${translations} translation(s) across ${targetLangs.length} language(s).`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
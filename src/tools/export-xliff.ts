@@ -0,0 +1,222 @@
+/**
+ * export_xliff MCP Tool
+ *
+ * Writes one XLIFF file per target language containing the strings a human
+ * translator (agency, CAT tool) needs to work on. Everything happens locally;
+ * LangAPI is not called.
+ */
+
+import { z } from "zod";
+import { mkdir, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { detectLocales, getDefaultTargetLangs, type LocaleFile } from "../locale-detection/index.js";
+import type { LoadedProjectConfig } from "../locale-detection/project-config.js";
+import { readLocaleFile, readTranslationUnits } from "../utils/locale-content.js";
+import { stringifyXliff, type XliffFile, type XliffUnit, type XliffVersion } from "../utils/xliff.js";
+import { languageCodeSchema, isPathWithinProject } from "../utils/validation.js";
+import { findSourcePluralForm } from "../utils/i18next-keys.js";
+import { splitI18nextPluralKey } from "../utils/plural-rules.js";
+import { computeTargetFilePath } from "./sync-translations.js";
+import { compareProjectLocales, type ProjectLocaleComparison } from "./get-translation-status.js";
+
+const ExportXliffSchema = z.object({
+  source_lang: languageCodeSchema.describe("Source language code (e.g., 'en', 'pt-BR')"),
+  target_langs: z
+    .array(languageCodeSchema)
+    .optional()
+    .describe(
+      "Target language codes. If not provided, targetLangs from langapi.config.json, else the locales the app's i18n config declares, else all detected locales except source will be used."
+    ),
+  project_path: z
+    .string()
+    .optional()
+    .describe("Root path of the project. Defaults to current working directory."),
+  output_dir: z
+    .string()
+    .default("xliff")
+    .describe("Directory (relative to the project) to write the XLIFF files to. Default: 'xliff'"),
+  xliff_version: z
+    .enum(["1.2", "2.0"])
+    .default("1.2")
+    .describe("XLIFF version to write. Default: '1.2'"),
+  include: z
+    .enum(["missing", "all"])
+    .default("missing")
+    .describe(
+      "'missing' exports the keys get_translation_status reports as missing or outdated (source changed since the last sync, String Catalog needs_review, i18next plural forms the target language needs); 'all' also exports existing translations for review. Default: 'missing'"
+    ),
+});
+
+export type ExportXliffInput = z.infer<typeof ExportXliffSchema>;
+
+interface ExportedFile {
+  lang: string;
+  file: string;
+  units: number;
+}
+
+export interface ExportXliffOutput {
+  success: boolean;
+  files: ExportedFile[];
+  message: string;
+}
+
+/** Note on exported units whose source text changed since their translation */
+const OUTDATED_NOTE = "The source text changed since this was translated.";
+
+/**
+ * Build the XLIFF <file> entries for one target language
+ *
+ * @param pending Missing and outdated keys, as get_translation_status
+ *   reports them for the target
+ */
+async function buildXliffFiles(
+  sourceFiles: LocaleFile[],
+  sourceLang: string,
+  targetLang: string,
+  include: "missing" | "all",
+  projectConfig: LoadedProjectConfig | null,
+  pending: { missing: Set<string>; outdated: Set<string> },
+  qualifiedKey: ProjectLocaleComparison["qualifiedKey"]
+): Promise<XliffFile[]> {
+  const files: XliffFile[] = [];
+
+  for (const file of sourceFiles) {
+    const sourceContent = await readLocaleFile(file.path);
+    const sourceUnits = readTranslationUnits(file.path, sourceContent, sourceLang, "source");
+
+    const targetPath = computeTargetFilePath(file.path, sourceLang, targetLang, projectConfig);
+    const targetValues = new Map<string, string>();
+    if (targetPath) {
+      try {
+        const content = targetPath === file.path ? sourceContent : await readLocaleFile(targetPath);
+        for (const unit of readTranslationUnits(targetPath, content, targetLang, "target")) {
+          targetValues.set(unit.key, unit.value);
+        }
+      } catch {
+        // No translation yet - every key is missing
+      }
+    }
+
+    // Plural forms the target language needs but the source lacks (Polish
+    // item_few) are translated from the source's item_other
+    const sourceKeys = new Set(sourceUnits.map((unit) => qualifiedKey(file.namespace, unit.key)));
+    const addedPluralForms = new Map<string, string[]>();
+    for (const key of pending.missing) {
+      if (sourceKeys.has(key)) continue;
+      const sourceKey = findSourcePluralForm(key, sourceKeys);
+      const category = splitI18nextPluralKey(key)?.category;
+      if (!sourceKey || !category) continue;
+      addedPluralForms.set(sourceKey, [...(addedPluralForms.get(sourceKey) ?? []), category]);
+    }
+
+    const units: XliffUnit[] = [];
+    for (const unit of sourceUnits) {
+      const key = qualifiedKey(file.namespace, unit.key);
+      const target = targetValues.get(unit.key);
+      const outdated = pending.outdated.has(key);
+      if (include === "all" || pending.missing.has(key) || outdated) {
+        units.push({
+          key: unit.key,
+          source: unit.value,
+          target,
+          notes: [...(unit.note ? [unit.note] : []), ...(outdated ? [OUTDATED_NOTE] : [])],
+          state: target !== undefined && !outdated ? "translated" : "initial",
+        });
+      }
+      const base = splitI18nextPluralKey(unit.key)?.base;
+      for (const category of (base !== undefined && addedPluralForms.get(key)) || []) {
+        units.push({
+          key: `${base}_${category}`,
+          source: unit.value,
+          notes: unit.note ? [unit.note] : [],
+          state: "initial",
+        });
+      }
+    }
+
+    if (units.length > 0) {
+      files.push({ original: file.relativePath, units });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Register the export_xliff tool with the MCP server
+ */
+export function registerExportXliff(server: McpServer): void {
+  server.tool(
+    "export_xliff",
+    "Export untranslated strings as XLIFF 1.2/2.0 files (one per target language) for human translators or CAT tools. Includes source text, developer notes (.strings comments, ARB descriptions, gettext comments) and translation state. Import the result with import_xliff.",
+    ExportXliffSchema.shape,
+    async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
+      const input = ExportXliffSchema.parse(args);
+      const projectPath = input.project_path || process.cwd();
+
+      const detection = await detectLocales(projectPath, false);
+      const sourceLocale = detection.locales.find((l) => l.lang === input.source_lang);
+      if (!sourceLocale) {
+        throw new Error(`Source language '${input.source_lang}' not found in project`);
+      }
+
+      const outputDir = resolve(projectPath, input.output_dir);
+      if (!isPathWithinProject(outputDir, projectPath)) {
+        throw new Error(`Output directory '${input.output_dir}' is outside the project`);
+      }
+
+      let targetLangs = input.target_langs;
+      if (!targetLangs || targetLangs.length === 0) {
+        targetLangs = getDefaultTargetLangs(detection, input.source_lang);
+      }
+
+      const comparison = await compareProjectLocales(projectPath, detection, input.source_lang, targetLangs);
+
+      const exported: ExportedFile[] = [];
+      for (const target of comparison.targets) {
+        const targetLang = target.lang;
+        const files = await buildXliffFiles(
+          sourceLocale.files,
+          input.source_lang,
+          targetLang,
+          input.include,
+          detection.projectConfig,
+          { missing: new Set(target.keys.missing), outdated: new Set(target.keys.outdated_keys) },
+          comparison.qualifiedKey
+        );
+        const unitCount = files.reduce((sum, f) => sum + f.units.length, 0);
+        if (unitCount === 0) continue;
+
+        const xliff = stringifyXliff({
+          version: input.xliff_version as XliffVersion,
+          sourceLang: input.source_lang,
+          targetLang,
+          files,
+        });
+        const outputPath = join(outputDir, `${targetLang}.xlf`);
+        await mkdir(outputDir, { recursive: true });
+        await writeFile(outputPath, xliff, "utf-8");
+        exported.push({ lang: targetLang, file: outputPath, units: unitCount });
+      }
+
+      const output: ExportXliffOutput = {
+        success: true,
+        files: exported,
+        message: exported.length
+          ? `Exported ${exported.reduce((sum, f) => sum + f.units, 0)} unit(s) for ${exported.length} language(s).`
+          : "Nothing to export: all target languages are up to date.",
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
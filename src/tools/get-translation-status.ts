@@ -4,13 +4,32 @@
  */
 
 import { z } from "zod";
-import { readFile } from "fs/promises";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { detectLocales } from "../locale-detection/index.js";
-import { getAllKeys, parseJsonSafe, flattenJson } from "../utils/json-parser.js";
+import { join } from "path";
+import {
+  detectLocales,
+  getDeclaredLocalesWithoutFiles,
+  getDefaultTargetLangs,
+  type LocaleDetectionResult,
+} from "../locale-detection/index.js";
+import {
+  detectPackageLocales,
+  detectWorkspace,
+  detectWorkspaceLocales,
+  findWorkspacePackage,
+  getSourceLangMismatch,
+  type WorkspaceDetectionResult,
+} from "../locale-detection/workspace.js";
+import { getAllKeys, flattenJson } from "../utils/json-parser.js";
+import { compareI18nextKeys, findSourcePluralForm } from "../utils/i18next-keys.js";
+import { parseFormatJsContent } from "../utils/formatjs-parser.js";
+import { parseLocaleFile, readLocaleFile, readPluralForms } from "../utils/locale-content.js";
+import { findChangedSourceKeys, LOCK_FILE_NAME, readLangApiLock, type LangApiLock } from "../utils/lock-file.js";
+import { checkPluralCategories, type PluralForm } from "../utils/plural-rules.js";
 import { isXCStringsFile } from "../utils/apple-common.js";
-import { parseXCStringsContent, extractLocaleFromXCStrings } from "../utils/xcstrings-parser.js";
+import { getXCStringsStates, parseXCStringsContent, type StringUnitState } from "../utils/xcstrings-parser.js";
 import { languageCodeSchema } from "../utils/validation.js";
+import type { KeyValue } from "../api/types.js";
 
 // Input schema
 const GetTranslationStatusSchema = z.object({
@@ -19,25 +38,64 @@ const GetTranslationStatusSchema = z.object({
     .array(languageCodeSchema)
     .optional()
     .describe(
-      "Target language codes. If not provided, all detected locales except source will be used."
+      "Target language codes. If not provided, targetLangs from langapi.config.json, else the locales the app's i18n config declares, else all detected locales except source will be used."
     ),
   project_path: z
     .string()
     .optional()
     .describe("Root path of the project. Defaults to current working directory."),
+  package: z
+    .string()
+    .optional()
+    .describe(
+      "In a monorepo, the workspace package to check, by name or path (e.g. '@acme/web' or 'apps/web'; '.' is the root project's own locale files). Without it, every package with locale files is checked and summarized"
+    ),
 });
 
 export type GetTranslationStatusInput = z.infer<typeof GetTranslationStatusSchema>;
 
 // Output type
-interface TargetStatus {
+interface PluralIssue {
+  key: string;
+  /** ICU argument or stringsdict/xcstrings variable, when the message names one */
+  argument?: string;
+  /** CLDR categories the target language needs but the translation lacks */
+  missing: string[];
+  /** Categories the target language never selects */
+  superfluous: string[];
+}
+
+interface StringCatalogStates {
+  /** Localized entries per String Catalog state */
+  counts: Record<StringUnitState, number>;
+  /** Translations Xcode flagged for review after their source changed */
+  needs_review: string[];
+  /** Localizations added but not translated yet (reported as missing) */
+  new: string[];
+  stale: string[];
+}
+
+export interface TargetStatus {
   lang: string;
   status: "synced" | "outdated" | "missing";
   keys: {
     total: number;
     missing: string[];
     extra: string[];
+    /**
+     * Translated keys whose source text changed since the last sync, per
+     * langapi.lock, and String Catalog translations in the `needs_review`
+     * state. Empty when neither applies.
+     */
+    outdated_keys: string[];
   };
+  /** Translation states from .xcstrings files, when the project has any */
+  xcstrings_states?: StringCatalogStates;
+  /**
+   * Translated plural messages (.stringsdict, xcstrings, ICU, i18next
+   * suffixes) whose categories don't match the target language's CLDR rules
+   */
+  plural_issues: PluralIssue[];
 }
 
 interface CostEstimate {
@@ -46,206 +104,486 @@ interface CostEstimate {
 }
 
 export interface GetTranslationStatusOutput {
+  /** The workspace package checked, when `package` was given */
+  package?: { name: string; path: string };
   source_lang: string;
   source_keys: number;
   targets: TargetStatus[];
+  /**
+   * Languages the app's i18n config declares (next-i18next.config.js,
+   * next.config.js i18n, next-intl routing, Xcode knownRegions) that have
+   * no locale files.
+   * Present only when the app declares its locales.
+   */
+  declared_without_files?: string[];
   cost_estimate: CostEstimate | null;
   /**
-   * Clarifies the meaning of each target's `status` (finding #52): it is
-   * computed from key sets only, so "synced" does not guarantee the translated
-   * text is current — a key whose source text changed but whose name stayed the
-   * same still reads as "synced" here, yet sync_translations would re-translate
-   * it (the server detects changed text via a content hash at sync time).
+   * Clarifies the meaning of each target's `status` (finding #52). Without a
+   * langapi.lock it is computed from key sets only, so "synced" does not
+   * guarantee the translated text is current — a key whose source text
+   * changed but whose name stayed the same still reads as "synced" here, yet
+   * sync_translations would re-translate it (the server detects changed text
+   * via a content hash at sync time). With a lock, such keys are listed in
+   * `outdated_keys`.
    */
   status_semantics: string;
 }
 
+/**
+ * A package filter that can't be checked: unknown package, or one that
+ * declares another source language
+ */
+interface StatusErrorOutput {
+  success: false;
+  error: { code: string; message: string };
+}
+
+/**
+ * Status of every workspace package with locale files
+ */
+interface WorkspaceStatusOutput {
+  /** Files that declare the workspace (pnpm-workspace.yaml, package.json, nx.json, turbo.json) */
+  workspace: string[];
+  packages: Array<PackageStatusSummary | { name: string; path: string; error: string }>;
+  /** Totals across packages */
+  cost_estimate: CostEstimate;
+  message: string;
+}
+
+interface PackageStatusSummary {
+  name: string;
+  path: string;
+  source_lang: string;
+  source_keys: number;
+  targets: Array<{
+    lang: string;
+    status: TargetStatus["status"];
+    missing_keys: number;
+    outdated_keys: number;
+  }>;
+  declared_without_files?: string[];
+  cost_estimate: CostEstimate | null;
+}
+
 /**
  * Count words in translation values (excluding template variables)
  */
 function countWords(text: string): number {
-  // Remove template variables like {{name}}, {count}, %s, %d, ${var}
+  // Remove template variables like {{name}}, {count}, %s, %d, iOS %@ /
+  // %1$lld, ${var} and Laravel's :name (but not times like 10:30 or URLs)
   const cleaned = text
     .replace(/\{\{[^}]+\}\}/g, "")
     .replace(/\{[^}]+\}/g, "")
-    .replace(/%[sd]/g, "")
-    .replace(/\$\{[^}]+\}/g, "");
+    .replace(/%(?:\d+\$)?(?:ll|l|h)?[@sdiuf]/g, "")
+    .replace(/\$\{[^}]+\}/g, "")
+    .replace(/(?<![\w:]):[A-Za-z_]\w*/g, "");
 
   // Count words
   const words = cleaned.trim().split(/\s+/).filter((w) => w.length > 0);
   return words.length;
 }
 
+function pluralFormId(namespace: string | null, form: PluralForm): string {
+  return `${namespace ?? ""}\0${form.key}\0${form.argument ?? ""}`;
+}
+
+function compareKeySets(sourceKeys: string[], targetKeys: string[]): { missing: string[]; extra: string[] } {
+  const sourceKeySet = new Set(sourceKeys);
+  const targetKeySet = new Set(targetKeys);
+  return {
+    missing: sourceKeys.filter((key) => !targetKeySet.has(key)),
+    extra: targetKeys.filter((key) => !sourceKeySet.has(key)),
+  };
+}
+
 /**
- * Register the get_translation_status tool with the MCP server
+ * Locale content per LocaleFile.namespace. Files of different namespaces
+ * may reuse key names (two Vue components' `title`, a Shopify theme's
+ * storefront and theme editor `sections`), so keys are compared within
+ * their namespace.
  */
-export function registerGetTranslationStatus(server: McpServer): void {
-  server.tool(
-    "get_translation_status",
-    "Compare source locale against target locales to identify missing/outdated keys and estimate translation costs.",
-    GetTranslationStatusSchema.shape,
-    async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
-      const input = GetTranslationStatusSchema.parse(args);
-      const projectPath = input.project_path || process.cwd();
+export type NamespacedContent = Map<string | null, Record<string, unknown>>;
+
+function addNamespacedContent(
+  content: NamespacedContent,
+  namespace: string | null,
+  parsed: Record<string, unknown>
+): void {
+  content.set(namespace, Object.assign(content.get(namespace) ?? {}, parsed));
+}
+
+/**
+ * Source and target keys of a project, compared the way
+ * get_translation_status reports them
+ */
+export interface ProjectLocaleComparison {
+  sourceContent: NamespacedContent;
+  /** Source keys, qualified (see qualifiedKey) */
+  sourceKeys: string[];
+  lock: LangApiLock | null;
+  targets: TargetStatus[];
+  /**
+   * A source file's key as it is reported: `namespace:key` (i18next's
+   * notation) when the source spans several namespaces, else the key
+   */
+  qualifiedKey: (namespace: string | null, key: string) => string;
+}
+
+/**
+ * Compare one project's (or workspace package's) target locales against its
+ * source locale
+ *
+ * @throws Error when the source language has no locale files
+ */
+export async function compareProjectLocales(
+  projectPath: string,
+  detection: LocaleDetectionResult,
+  sourceLang: string,
+  requestedTargetLangs: string[] | undefined
+): Promise<ProjectLocaleComparison> {
+  // Find source locale
+  const sourceLocale = detection.locales.find(
+    (l) => l.lang === sourceLang
+  );
+  if (!sourceLocale) {
+    throw new Error(`Source language '${sourceLang}' not found in project`);
+  }
+
+  // Read and parse source files
+  const sourceContent: NamespacedContent = new Map();
+  const sourceEntriesByFile: Array<{ relativePath: string; namespace: string | null; entries: KeyValue[] }> = [];
+  const sourcePluralForms = new Set<string>();
+  for (const file of sourceLocale.files) {
+    const content = await readLocaleFile(file.path);
+    // `formatjs compile` output is regenerated from the translations, so
+    // sync_translations never translates it
+    if (parseFormatJsContent(content)?.shape === "compiled") continue;
+    const parsed = parseLocaleFile(file.path, content, sourceLang, "source");
+    if (parsed) {
+      addNamespacedContent(sourceContent, file.namespace, parsed);
+      sourceEntriesByFile.push({
+        relativePath: file.relativePath,
+        namespace: file.namespace,
+        entries: flattenJson(parsed),
+      });
+    }
+    for (const form of readPluralForms(file.path, content, sourceLang, "source", detection.framework)) {
+      sourcePluralForms.add(pluralFormId(file.namespace, form));
+    }
+  }
 
-      // Detect locales
-      const detection = await detectLocales(projectPath, true);
+  const lock = await readLangApiLock(projectPath);
 
-      // Find source locale
-      const sourceLocale = detection.locales.find(
-        (l) => l.lang === input.source_lang
-      );
-      if (!sourceLocale) {
-        throw new Error(`Source language '${input.source_lang}' not found in project`);
-      }
+  const qualifiedKey = (namespace: string | null, key: string): string =>
+    sourceContent.size > 1 && namespace !== null ? `${namespace}:${key}` : key;
 
-      // Read and parse source files
-      const sourceContent: Record<string, unknown> = {};
-      for (const file of sourceLocale.files) {
-        const content = await readFile(file.path, "utf-8");
+  const sourceKeysByNamespace = new Map<string | null, string[]>();
+  for (const [namespace, content] of sourceContent) {
+    sourceKeysByNamespace.set(namespace, getAllKeys(content));
+  }
+  const sourceKeys = [...sourceKeysByNamespace].flatMap(([namespace, keys]) =>
+    keys.map((key) => qualifiedKey(namespace, key))
+  );
 
-        // Handle xcstrings files specially
+  // Find missing and extra keys per namespace. In i18next projects, plural
+  // groups (item_one, item_other) are expected in the target language's
+  // categories and context variants may differ; other formats compare keys
+  // literally.
+  const isI18next = detection.framework === "i18next";
+  const compareKeys = (targetContent: NamespacedContent, targetLang: string) => {
+    const result = { targetKeys: [] as string[], missing: [] as string[], extra: [] as string[] };
+    for (const namespace of new Set([...sourceKeysByNamespace.keys(), ...targetContent.keys()])) {
+      const targetKeys = getAllKeys(targetContent.get(namespace) ?? {});
+      const namespaceSourceKeys = sourceKeysByNamespace.get(namespace) ?? [];
+      const { missing, extra } = isI18next
+        ? compareI18nextKeys(namespaceSourceKeys, targetKeys, targetLang)
+        : compareKeySets(namespaceSourceKeys, targetKeys);
+      result.targetKeys.push(...targetKeys.map((key) => qualifiedKey(namespace, key)));
+      result.missing.push(...missing.map((key) => qualifiedKey(namespace, key)));
+      result.extra.push(...extra.map((key) => qualifiedKey(namespace, key)));
+    }
+    return result;
+  };
+
+  // Determine target languages
+  let targetLangs = requestedTargetLangs;
+  if (!targetLangs || targetLangs.length === 0) {
+    targetLangs = getDefaultTargetLangs(detection, sourceLang);
+  }
+
+  // Compare with each target
+  const targets: TargetStatus[] = [];
+
+  for (const targetLang of targetLangs) {
+    const targetLocale = detection.locales.find((l) => l.lang === targetLang);
+
+    if (!targetLocale) {
+      // Target language doesn't exist
+      targets.push({
+        lang: targetLang,
+        status: "missing",
+        keys: {
+          total: 0,
+          missing: compareKeys(new Map(), targetLang).missing,
+          extra: [],
+          outdated_keys: [],
+        },
+        plural_issues: [],
+      });
+      continue;
+    }
+
+    // Read and parse target files
+    const targetContent: NamespacedContent = new Map();
+    const pluralIssues: PluralIssue[] = [];
+    let catalogStates: Map<string, StringUnitState> | null = null;
+    for (const file of targetLocale.files) {
+      try {
+        const content = await readLocaleFile(file.path);
+        const parsed = parseLocaleFile(file.path, content, targetLang, "target");
+        if (parsed) {
+          addNamespacedContent(targetContent, file.namespace, parsed);
+        }
         if (isXCStringsFile(file.path)) {
-          const parsed = parseXCStringsContent(content);
-          if (parsed) {
-            // Extract the user-specified source language translations
-            const entries = extractLocaleFromXCStrings(parsed.metadata, input.source_lang);
-            for (const entry of entries) {
-              sourceContent[entry.key] = entry.value;
+          const catalog = parseXCStringsContent(content);
+          if (catalog) {
+            catalogStates ??= new Map();
+            for (const [key, state] of getXCStringsStates(catalog.metadata, targetLang)) {
+              catalogStates.set(key, state);
             }
           }
-        } else {
-          const parsed = parseJsonSafe(content);
-          if (parsed) {
-            Object.assign(sourceContent, parsed);
+        }
+        // Only plurals the source has; other target keys are `extra`
+        for (const form of readPluralForms(file.path, content, targetLang, "target", detection.framework)) {
+          if (!sourcePluralForms.has(pluralFormId(file.namespace, form))) continue;
+          const check = checkPluralCategories(targetLang, form);
+          if (check && (check.missing.length > 0 || check.superfluous.length > 0)) {
+            pluralIssues.push({
+              key: qualifiedKey(file.namespace, form.key),
+              argument: form.argument,
+              missing: check.missing,
+              superfluous: check.superfluous,
+            });
           }
         }
+      } catch {
+        // Ignore read errors
       }
+    }
 
-      const sourceKeys = getAllKeys(sourceContent);
-      const sourceKeySet = new Set(sourceKeys);
+    const { targetKeys, missing, extra } = compareKeys(targetContent, targetLang);
+    const targetKeySet = new Set(targetKeys);
+
+    // Changed source text under an unchanged key name is only visible
+    // through langapi.lock; without one the server catches it by content
+    // hash at sync time (finding #52, documented in `status_semantics`).
+    const outdatedKeys = new Set<string>();
+    if (lock) {
+      for (const { relativePath, namespace, entries } of sourceEntriesByFile) {
+        for (const key of findChangedSourceKeys(lock, relativePath, targetLang, entries)) {
+          if (targetKeySet.has(qualifiedKey(namespace, key))) outdatedKeys.add(qualifiedKey(namespace, key));
+        }
+      }
+    }
 
-      // Determine target languages
-      let targetLangs = input.target_langs;
-      if (!targetLangs || targetLangs.length === 0) {
-        targetLangs = detection.locales
-          .filter((l) => l.lang !== input.source_lang)
-          .map((l) => l.lang);
+    let xcstringsStates: StringCatalogStates | undefined;
+    if (catalogStates) {
+      xcstringsStates = {
+        counts: { translated: 0, needs_review: 0, new: 0, stale: 0 },
+        needs_review: [],
+        new: [],
+        stale: [],
+      };
+      for (const [key, state] of catalogStates) {
+        xcstringsStates.counts[state]++;
+        if (state !== "translated") xcstringsStates[state].push(key);
+        // Xcode's own "source changed" marker, with or without a lock
+        if (state === "needs_review" && targetKeySet.has(key)) outdatedKeys.add(key);
       }
+    }
 
-      // Compare with each target
-      const targets: TargetStatus[] = [];
-
-      for (const targetLang of targetLangs) {
-        const targetLocale = detection.locales.find((l) => l.lang === targetLang);
-
-        if (!targetLocale) {
-          // Target language doesn't exist
-          targets.push({
-            lang: targetLang,
-            status: "missing",
-            keys: {
-              total: 0,
-              missing: sourceKeys,
-              extra: [],
-            },
-          });
-          continue;
-        }
+    const status: "synced" | "outdated" | "missing" =
+      missing.length > 0 || outdatedKeys.size > 0 ? "outdated" : "synced";
+
+    targets.push({
+      lang: targetLang,
+      status,
+      keys: {
+        total: targetKeys.length,
+        missing,
+        extra,
+        outdated_keys: [...outdatedKeys],
+      },
+      plural_issues: pluralIssues,
+      xcstrings_states: xcstringsStates,
+    });
+  }
+
+  return { sourceContent, sourceKeys, lock, targets, qualifiedKey };
+}
 
-        // Read and parse target files
-        const targetContent: Record<string, unknown> = {};
-        for (const file of targetLocale.files) {
-          try {
-            const content = await readFile(file.path, "utf-8");
-
-            // Handle xcstrings files specially
-            if (isXCStringsFile(file.path)) {
-              const parsed = parseXCStringsContent(content);
-              if (parsed) {
-                // Extract only the target language translations
-                const entries = extractLocaleFromXCStrings(parsed.metadata, targetLang);
-                for (const entry of entries) {
-                  targetContent[entry.key] = entry.value;
-                }
-              }
-            } else {
-              const parsed = parseJsonSafe(content);
-              if (parsed) {
-                Object.assign(targetContent, parsed);
-              }
-            }
-          } catch {
-            // Ignore read errors
-          }
-        }
+/**
+ * Report one project's (or workspace package's) translation status
+ *
+ * @throws Error when the source language has no locale files
+ */
+async function getProjectStatus(
+  projectPath: string,
+  detection: LocaleDetectionResult,
+  sourceLang: string,
+  requestedTargetLangs: string[] | undefined
+): Promise<GetTranslationStatusOutput> {
+  const { sourceContent, sourceKeys, lock, targets, qualifiedKey } = await compareProjectLocales(
+    projectPath,
+    detection,
+    sourceLang,
+    requestedTargetLangs
+  );
+  const sourceKeySet = new Set(sourceKeys);
 
-        const targetKeys = getAllKeys(targetContent);
-        const targetKeySet = new Set(targetKeys);
-
-        // Find missing and extra keys
-        const missing = sourceKeys.filter((k) => !targetKeySet.has(k));
-        const extra = targetKeys.filter((k) => !sourceKeySet.has(k));
-
-        // Key-set-only status: "outdated" means keys are missing. It does NOT
-        // detect changed source text under an unchanged key name — that's
-        // caught server-side by the content hash at sync time (finding #52,
-        // documented in `status_semantics` on the output).
-        const status: "synced" | "outdated" | "missing" =
-          missing.length === 0 && extra.length === 0
-            ? "synced"
-            : missing.length > 0
-            ? "outdated"
-            : "synced";
-
-        targets.push({
-          lang: targetLang,
-          status,
-          keys: {
-            total: targetKeys.length,
-            missing,
-            extra,
-          },
-        });
+  // Estimate cost locally - calculate per-language to get accurate totals
+  let costEstimate: CostEstimate | null = null;
 
-      }
+  // Calculate words to translate by summing up per-language missing keys
+  // This is more accurate than multiplying unique missing keys by language count
+  const sourceKeyToWords = new Map<string, number>();
+  for (const [namespace, content] of sourceContent) {
+    for (const item of flattenJson(content)) {
+      sourceKeyToWords.set(qualifiedKey(namespace, item.key), countWords(item.value));
+    }
+  }
+
+  // Sum words for all missing and re-translated (outdated) keys across
+  // all languages. A plural form the source lacks (Polish item_few) is
+  // translated from the source's item_other.
+  let totalWordsToTranslate = 0;
+  for (const target of targets) {
+    for (const key of [...target.keys.missing, ...target.keys.outdated_keys]) {
+      const sourceKey = findSourcePluralForm(key, sourceKeySet);
+      const words = (sourceKey && sourceKeyToWords.get(sourceKey)) || 0;
+      totalWordsToTranslate += words;
+    }
+  }
 
-      // Estimate cost locally - calculate per-language to get accurate totals
-      let costEstimate: CostEstimate | null = null;
+  // credits = total words (already accounts for per-language)
+  const creditsRequired = totalWordsToTranslate;
 
-      // Calculate words to translate by summing up per-language missing keys
-      // This is more accurate than multiplying unique missing keys by language count
-      const flatSource = flattenJson(sourceContent);
-      const sourceKeyToWords = new Map<string, number>();
-      for (const item of flatSource) {
-        sourceKeyToWords.set(item.key, countWords(item.value));
-      }
+  costEstimate = {
+    words_to_translate: totalWordsToTranslate,
+    credits_required: creditsRequired,
+  };
 
-      // Sum words for all missing keys across all languages
-      let totalWordsToTranslate = 0;
-      for (const target of targets) {
-        for (const missingKey of target.keys.missing) {
-          const words = sourceKeyToWords.get(missingKey) || 0;
-          totalWordsToTranslate += words;
-        }
-      }
+  const output: GetTranslationStatusOutput = {
+    source_lang: sourceLang,
+    source_keys: sourceKeys.length,
+    targets,
+    declared_without_files: detection.frameworkSettings?.locales
+      ? getDeclaredLocalesWithoutFiles(detection)
+      : undefined,
+    cost_estimate: costEstimate,
+    status_semantics: lock
+      ? `"status" is "outdated" when source keys are missing from the target or a translated key's source text changed since the last sync (listed in "outdated_keys", from ${LOCK_FILE_NAME}). Strings translated outside sync_translations are not tracked by the lock.`
+      : `"status" is computed from key presence only. "synced" means all source keys exist in the target; it does NOT mean the translated text is up to date — if a source string changed but its key name did not, this still shows "synced", yet running sync_translations will re-translate it (the server detects changed text by content hash). Commit the ${LOCK_FILE_NAME} written by sync_translations to have changed strings listed in "outdated_keys".`,
+  };
 
-      // credits = total words (already accounts for per-language)
-      const creditsRequired = totalWordsToTranslate;
+  return output;
+}
 
-      costEstimate = {
-        words_to_translate: totalWordsToTranslate,
-        credits_required: creditsRequired,
-      };
+/**
+ * Summarize the status of every workspace package with locale files. A
+ * package that declares another source language than the requested one is
+ * listed with the mismatch as its error.
+ */
+async function getWorkspaceStatus(
+  projectPath: string,
+  { workspace, packages }: WorkspaceDetectionResult,
+  sourceLang: string,
+  requestedTargetLangs: string[] | undefined
+): Promise<WorkspaceStatusOutput> {
+  const summaries: WorkspaceStatusOutput["packages"] = [];
+  const total: CostEstimate = { words_to_translate: 0, credits_required: 0 };
+
+  for (const { name, path, detection } of packages) {
+    const mismatch = getSourceLangMismatch(detection, sourceLang);
+    if (mismatch) {
+      summaries.push({ name, path, error: mismatch });
+      continue;
+    }
+    let status: GetTranslationStatusOutput;
+    try {
+      status = await getProjectStatus(join(projectPath, path), detection, sourceLang, requestedTargetLangs);
+    } catch (error) {
+      summaries.push({ name, path, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
 
-      const output: GetTranslationStatusOutput = {
-        source_lang: input.source_lang,
-        source_keys: sourceKeys.length,
-        targets,
-        cost_estimate: costEstimate,
-        status_semantics:
-          '"status" is computed from key presence only. "synced" means all source keys exist in the target; it does NOT mean the translated text is up to date — if a source string changed but its key name did not, this still shows "synced", yet running sync_translations will re-translate it (the server detects changed text by content hash).',
-      };
+    summaries.push({
+      name,
+      path,
+      source_lang: status.source_lang,
+      source_keys: status.source_keys,
+      targets: status.targets.map((t) => ({
+        lang: t.lang,
+        status: t.status,
+        missing_keys: t.keys.missing.length,
+        outdated_keys: t.keys.outdated_keys.length,
+      })),
+      declared_without_files: status.declared_without_files,
+      cost_estimate: status.cost_estimate,
+    });
+    total.words_to_translate += status.cost_estimate?.words_to_translate ?? 0;
+    total.credits_required += status.cost_estimate?.credits_required ?? 0;
+  }
+
+  return {
+    workspace: workspace.files,
+    packages: summaries,
+    cost_estimate: total,
+    message: `${packages.length} workspace package(s) with locale files. Pass package to list a package's missing and outdated keys.`,
+  };
+}
+
+/**
+ * Register the get_translation_status tool with the MCP server
+ */
+export function registerGetTranslationStatus(server: McpServer): void {
+  server.tool(
+    "get_translation_status",
+    "Compare source locale against target locales to identify missing/outdated keys and estimate translation costs. In a monorepo, checks one workspace package (package) or summarizes every package with locale files.",
+    GetTranslationStatusSchema.shape,
+    async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
+      const input = GetTranslationStatusSchema.parse(args);
+      const projectPath = input.project_path || process.cwd();
+
+      let output: GetTranslationStatusOutput | WorkspaceStatusOutput | StatusErrorOutput;
+      if (input.package) {
+        const workspace = await detectWorkspace(projectPath);
+        const pkg = workspace && findWorkspacePackage(workspace, input.package);
+        if (!pkg) {
+          output = {
+            success: false,
+            error: { code: "PACKAGE_NOT_FOUND", message: `Package '${input.package}' not found in the workspace` },
+          };
+        } else {
+          const detection = await detectPackageLocales(projectPath, workspace, pkg, true);
+          const mismatch = getSourceLangMismatch(detection, input.source_lang);
+          output = mismatch
+            ? { success: false, error: { code: "SOURCE_LANG_MISMATCH", message: mismatch } }
+            : {
+                package: { name: pkg.name, path: pkg.path },
+                ...(await getProjectStatus(join(projectPath, pkg.path), detection, input.source_lang, input.target_langs)),
+              };
+        }
+      } else {
+        const workspace = await detectWorkspaceLocales(projectPath, true);
+        if (workspace && workspace.packages.length > 0) {
+          output = await getWorkspaceStatus(projectPath, workspace, input.source_lang, input.target_langs);
+        } else {
+          // Detect locales
+          const detection = await detectLocales(projectPath, true);
+          output = await getProjectStatus(projectPath, detection, input.source_lang, input.target_langs);
+        }
+      }
 
       return {
         content: [
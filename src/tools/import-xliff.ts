@@ -0,0 +1,170 @@
+/**
+ * import_xliff MCP Tool
+ *
+ * Reads an XLIFF file returned by a translator and merges its approved units
+ * into the project's locale files, in each file's native format. Each XLIFF
+ * <file original="..."> names the source locale file the units came from;
+ * the target file is derived from it the same way sync_translations does.
+ */
+
+import { z } from "zod";
+import { readFile, mkdir } from "fs/promises";
+import { dirname, resolve } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { loadProjectConfig } from "../locale-detection/project-config.js";
+import { readLocaleFile } from "../utils/locale-content.js";
+import { mergeTranslations } from "../utils/locale-merge.js";
+import { parseXliffContent, XLIFF_STATE_RANK } from "../utils/xliff.js";
+import { isPathWithinProject } from "../utils/validation.js";
+import { atomicWriteFile, computeTargetFilePath } from "./sync-translations.js";
+
+const ImportXliffSchema = z.object({
+  xliff_file: z.string().describe("Path to the translated XLIFF file (.xlf/.xliff)"),
+  project_path: z
+    .string()
+    .optional()
+    .describe("Root path of the project. Defaults to current working directory."),
+  min_state: z
+    .enum(["translated", "reviewed", "final"])
+    .default("final")
+    .describe(
+      "Lowest unit state to import. 'final' (default) imports only approved units (XLIFF 1.2 approved=\"yes\"/state=\"final\", XLIFF 2.0 state=\"final\")."
+    ),
+  dry_run: z
+    .boolean()
+    .default(true)
+    .describe("If true, only report what would be written. Default: true (safe mode)"),
+});
+
+export type ImportXliffInput = z.infer<typeof ImportXliffSchema>;
+
+interface ImportedFile {
+  source_file: string;
+  target_file: string;
+  imported: number;
+  skipped: string[];
+}
+
+export interface ImportXliffOutput {
+  success: true;
+  dry_run: boolean;
+  source_lang: string;
+  target_lang: string;
+  files: ImportedFile[];
+  units_below_min_state: number;
+  message: string;
+}
+
+interface ImportXliffErrorOutput {
+  success: false;
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Register the import_xliff tool with the MCP server
+ */
+export function registerImportXliff(server: McpServer): void {
+  server.tool(
+    "import_xliff",
+    "Import a translated XLIFF 1.2/2.0 file (e.g. from export_xliff after a human translator finished it) and merge approved units into the project's locale files in their native format. Default is dry_run=true for preview.",
+    ImportXliffSchema.shape,
+    async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
+      const input = ImportXliffSchema.parse(args);
+      const projectPath = input.project_path || process.cwd();
+
+      const xliffPath = resolve(projectPath, input.xliff_file);
+      if (!isPathWithinProject(xliffPath, projectPath)) {
+        const output: ImportXliffErrorOutput = {
+          success: false,
+          error: {
+            code: "INVALID_PATH",
+            message: `XLIFF file '${input.xliff_file}' is outside the project`,
+          },
+        };
+        return { content: [{ type: "text", text: JSON.stringify(output, null, 2) }] };
+      }
+      const doc = parseXliffContent(await readFile(xliffPath, "utf-8"));
+      if (!doc || !doc.sourceLang || !doc.targetLang) {
+        throw new Error(`'${input.xliff_file}' is not an XLIFF file with source and target languages`);
+      }
+
+      const projectConfig = await loadProjectConfig(projectPath);
+      const minRank = XLIFF_STATE_RANK[input.min_state];
+      const files: ImportedFile[] = [];
+      let belowMinState = 0;
+
+      for (const xliffFile of doc.files) {
+        const sourcePath = resolve(projectPath, xliffFile.original);
+        if (!isPathWithinProject(sourcePath, projectPath)) continue;
+
+        const targetPath = computeTargetFilePath(sourcePath, doc.sourceLang, doc.targetLang, projectConfig);
+        if (!targetPath || !isPathWithinProject(targetPath, projectPath)) continue;
+
+        const translations = new Map<string, string>();
+        for (const unit of xliffFile.units) {
+          if (unit.target === undefined || unit.target === "") continue;
+          if (XLIFF_STATE_RANK[unit.state] < minRank) {
+            belowMinState++;
+            continue;
+          }
+          translations.set(unit.key, unit.target);
+        }
+        if (translations.size === 0) continue;
+
+        const sourceContent = await readLocaleFile(sourcePath);
+        let existingContent: string | null = null;
+        try {
+          existingContent = await readLocaleFile(targetPath);
+        } catch {
+          // Target doesn't exist yet - it is created from the source
+        }
+
+        const result = mergeTranslations(
+          targetPath,
+          existingContent,
+          sourceContent,
+          translations,
+          doc.sourceLang,
+          doc.targetLang
+        );
+
+        if (!input.dry_run && result.applied.length > 0) {
+          await mkdir(dirname(targetPath), { recursive: true });
+          await atomicWriteFile(targetPath, result.content);
+        }
+
+        files.push({
+          source_file: xliffFile.original,
+          target_file: targetPath,
+          imported: result.applied.length,
+          skipped: result.skipped,
+        });
+      }
+
+      const imported = files.reduce((sum, f) => sum + f.imported, 0);
+      const output: ImportXliffOutput = {
+        success: true,
+        dry_run: input.dry_run,
+        source_lang: doc.sourceLang,
+        target_lang: doc.targetLang,
+        files,
+        units_below_min_state: belowMinState,
+        message: input.dry_run
+          ? `Preview: ${imported} unit(s) would be imported into ${files.length} file(s). Run with dry_run=false to write.`
+          : `Imported ${imported} unit(s) into ${files.length} file(s).`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,11 +1,17 @@
 /**
  * list_local_locales MCP Tool
- * Scans project for locale files (JSON, ARB, .strings, .xcstrings, .stringsdict) and detects i18n framework
+ * Scans project for locale files (JSON, ARB, .strings, .xcstrings, .stringsdict, .po, strings.xml, YAML) and detects i18n framework
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { detectLocales } from "../locale-detection/index.js";
+import {
+  detectLocales,
+  getDeclaredLocalesWithoutFiles,
+  type LocaleDetectionResult,
+  type SettingSource,
+} from "../locale-detection/index.js";
+import { detectWorkspaceLocales } from "../locale-detection/workspace.js";
 
 // Input schema
 const ListLocalLocalesSchema = z.object({
@@ -24,21 +30,86 @@ const ListLocalLocalesSchema = z.object({
 export type ListLocalLocalesInput = z.infer<typeof ListLocalLocalesSchema>;
 
 // Output type
+type LocalesOutput = Array<{
+  lang: string;
+  files: Array<{
+    path: string;
+    namespace: string | null;
+    key_count: number;
+  }>;
+  total_keys: number;
+}>;
+
 export interface ListLocalLocalesOutput {
   framework: string;
   confidence: "high" | "medium" | "low";
   source_lang: string | null;
   locales_path: string | null;
-  locales: Array<{
-    lang: string;
-    files: Array<{
+  locales: LocalesOutput;
+  config_file: string | null;
+  target_langs: string[];
+  /** langapi.config.json or .langapirc, if the project has one */
+  project_config: string | null;
+  /**
+   * Locale settings the app's own i18n config declares (next-i18next.config.js,
+   * next.config.js i18n, next-intl routing, Flutter l10n.yaml, Xcode
+   * knownRegions), if any
+   */
+  framework_settings: {
+    files: string[];
+    locales: string[] | null;
+    default_locale: string | null;
+    locale_path: string | null;
+    default_namespace: string | null;
+    template_file: string | null;
+  } | null;
+  /**
+   * Declared locales that have no locale files yet. Present only when the
+   * app declares its locales.
+   */
+  declared_without_files?: string[];
+  /**
+   * Whether each value was declared in the project config, read from the
+   * app's i18n config or inferred
+   */
+  value_sources: {
+    framework: SettingSource;
+    source_lang: SettingSource;
+    target_langs: SettingSource;
+    locale_files: SettingSource;
+  };
+  /**
+   * Monorepo packages with locale files (pnpm-workspace.yaml, package.json
+   * workspaces, nx.json, turbo.json), each detected on its own; paths in a
+   * package's entry are relative to the package. Null outside a monorepo.
+   */
+  workspace: {
+    files: string[];
+    packages: Array<{
+      name: string;
       path: string;
-      namespace: string | null;
-      key_count: number;
+      framework: string;
+      confidence: "high" | "medium" | "low";
+      source_lang: string | null;
+      locales_path: string | null;
+      locales: LocalesOutput;
+      target_langs: string[];
+      project_config: string | null;
+      declared_without_files?: string[];
     }>;
-    total_keys: number;
-  }>;
-  config_file: string | null;
+  } | null;
+}
+
+function toLocalesOutput(detection: LocaleDetectionResult): LocalesOutput {
+  return detection.locales.map((locale) => ({
+    lang: locale.lang,
+    files: locale.files.map((file) => ({
+      path: file.relativePath,
+      namespace: file.namespace,
+      key_count: file.keyCount,
+    })),
+    total_keys: locale.totalKeys,
+  }));
 }
 
 /**
@@ -47,29 +118,58 @@ export interface ListLocalLocalesOutput {
 export function registerListLocalLocales(server: McpServer): void {
   server.tool(
     "list_local_locales",
-    "Scan project for locale files (JSON, ARB, .strings, .xcstrings, .stringsdict), detect i18n framework (next-intl, i18next, react-intl, flutter, ios-macos, generic), and return structured information about available translations.",
+    "Scan project for locale files (JSON, ARB, .strings, .xcstrings, .stringsdict, .po/.pot, Android strings.xml, YAML, Java .properties, .NET .resx, Fluent .ftl, WebExtension _locales, Laravel lang/*.php, JS/TS locale modules, Vue <i18n> blocks, Angular/Symfony .xlf), detect i18n framework (next-intl, i18next, vue-i18n, react-intl, angular, webextension, shopify, flutter, ios-macos, rails, laravel, symfony, hugo, android, java, dotnet, fluent, gettext, generic), and return structured information about available translations. Settings in a checked-in langapi.config.json or .langapirc override detection; the locales, default locale and locale directory declared in next-i18next.config.js, next.config.js i18n, next-intl routing, Flutter l10n.yaml or an Xcode project's developmentRegion/knownRegions are used next. value_sources tells where each value came from. In a monorepo (pnpm-workspace.yaml, package.json workspaces, nx.json, turbo.json), workspace lists each package's own detection.",
     ListLocalLocalesSchema.shape,
     async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
       const input = ListLocalLocalesSchema.parse(args);
       const projectPath = input.project_path || process.cwd();
 
       const result = await detectLocales(projectPath, input.include_key_count);
+      const workspace = await detectWorkspaceLocales(projectPath, input.include_key_count);
 
       const output: ListLocalLocalesOutput = {
         framework: result.framework,
         confidence: result.confidence,
         source_lang: result.sourceLang,
         locales_path: result.localesPath,
-        locales: result.locales.map((locale) => ({
-          lang: locale.lang,
-          files: locale.files.map((file) => ({
-            path: file.relativePath,
-            namespace: file.namespace,
-            key_count: file.keyCount,
-          })),
-          total_keys: locale.totalKeys,
-        })),
+        locales: toLocalesOutput(result),
         config_file: result.configFile,
+        target_langs: result.targetLangs,
+        project_config: result.projectConfig?.file ?? null,
+        framework_settings: result.frameworkSettings && {
+          files: result.frameworkSettings.files,
+          locales: result.frameworkSettings.locales ?? null,
+          default_locale: result.frameworkSettings.defaultLocale ?? null,
+          locale_path: result.frameworkSettings.localePath ?? null,
+          default_namespace: result.frameworkSettings.defaultNamespace ?? null,
+          template_file: result.frameworkSettings.templateFile ?? null,
+        },
+        declared_without_files: result.frameworkSettings?.locales
+          ? getDeclaredLocalesWithoutFiles(result)
+          : undefined,
+        value_sources: {
+          framework: result.settingSources.framework,
+          source_lang: result.settingSources.sourceLang,
+          target_langs: result.settingSources.targetLangs,
+          locale_files: result.settingSources.localeFiles,
+        },
+        workspace: workspace && {
+          files: workspace.workspace.files,
+          packages: workspace.packages.map(({ name, path, detection }) => ({
+            name,
+            path,
+            framework: detection.framework,
+            confidence: detection.confidence,
+            source_lang: detection.sourceLang,
+            locales_path: detection.localesPath,
+            locales: toLocalesOutput(detection),
+            target_langs: detection.targetLangs,
+            project_config: detection.projectConfig?.file ?? null,
+            declared_without_files: detection.frameworkSettings?.locales
+              ? getDeclaredLocalesWithoutFiles(detection)
+              : undefined,
+          })),
+        },
       };
 
       return {
@@ -1,24 +1,100 @@
 /**
  * sync_translations MCP Tool
  *
- * Thin client over LangAPI's /v1/translate-file endpoint. For each source
- * file and target language, this tool reads the current source file and
- * the existing translation (if any) and sends both to the server as-is.
- * All comparison, format parsing, and merging happens server-side — this
- * tool never inspects file content beyond reading/writing raw bytes.
+ * Client for LangAPI's /v1/translate-file endpoint. For each source file and
+ * target language, this tool reads the source file and the existing
+ * translation (if any) and sends both to the server, which compares,
+ * translates and merges them. Around that request it works on the files
+ * itself:
+ * - Formats the server has no parser for are converted to JSON before
+ *   sending and written back afterwards: PHP arrays, Vue <i18n> blocks,
+ *   JS/TS message modules and XLF catalogs
+ * - YAML root keys are renamed to the target language, .properties files are
+ *   written in the encoding the project uses, and JSON output keeps the
+ *   existing translation's (or the source's) indentation, flat or nested
+ *   keys and key order
+ * - Source string hashes are recorded in langapi.lock so only changed keys
+ *   are sent on the next run
+ * - Languages new to an Xcode project can be added to project.pbxproj
+ *   knownRegions
  */
 
 import { z } from "zod";
 import { readFile, writeFile, mkdir, rename } from "fs/promises";
-import { dirname, resolve } from "path";
+import { dirname, join, resolve } from "path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { detectLocales } from "../locale-detection/index.js";
-import { isArbFile, getLocaleFileExtension } from "../utils/arb-parser.js";
+import {
+  detectLocales,
+  getDefaultTargetLangs,
+  type LocaleDetectionResult,
+  type LocaleFile,
+} from "../locale-detection/index.js";
+import { applyPathTemplate, type LoadedProjectConfig } from "../locale-detection/project-config.js";
+import {
+  detectPackageLocales,
+  detectWorkspace,
+  detectWorkspaceLocales,
+  findWorkspacePackage,
+  getSourceLangMismatch,
+  type WorkspaceDetectionResult,
+} from "../locale-detection/workspace.js";
+import { isArbFile, getLocaleFileExtension, computeArbTargetPath } from "../utils/arb-parser.js";
 import {
   detectAppleFileType,
   isXCStringsFile,
   computeAppleLprojTargetPath,
 } from "../utils/apple-common.js";
+import { computeGettextTargetPath, isGettextFile } from "../utils/po-parser.js";
+import { computeAndroidTargetPath, isAndroidStringsFile } from "../utils/android-parser.js";
+import { isYamlFile, renameYamlRootKey } from "../utils/yaml-parser.js";
+import {
+  computePropertiesTargetPath,
+  escapePropertiesNonAscii,
+  hasPropertiesUnicodeEscapes,
+  isPropertiesFile,
+  readPropertiesFile,
+} from "../utils/properties-parser.js";
+import { computeResxTargetPath, isResxFile } from "../utils/resx-parser.js";
+import { isFluentFile } from "../utils/fluent-parser.js";
+import {
+  computeWebExtensionTargetPath,
+  isWebExtensionMessagesFile,
+} from "../utils/webextension-parser.js";
+import { getFormatJsShape } from "../utils/formatjs-parser.js";
+import {
+  computeXlfCatalogTargetPath,
+  extractXlfCatalogEntries,
+  isXlfCatalogFile,
+  parseXlfCatalog,
+  writeXlfCatalog,
+} from "../utils/xlf-catalog-parser.js";
+import { isVueFile, parseVueI18nMessages, setVueI18nMessages } from "../utils/vue-i18n-parser.js";
+import { computeShopifyTargetPath, isShopifyLocaleFile } from "../utils/shopify-locale.js";
+import {
+  computeLaravelTargetPath,
+  isLaravelPhpFile,
+  parsePhpArray,
+  stringifyPhpArray,
+} from "../utils/php-array-parser.js";
+import {
+  isJsModuleFile,
+  parseJsModule,
+  renameJsModuleBinding,
+  stringifyJsModule,
+  type JsModuleLayout,
+} from "../utils/js-module-parser.js";
+import { parseLocaleFile, readLocaleFile } from "../utils/locale-content.js";
+import { removeXCStringsLocalizations } from "../utils/xcstrings-parser.js";
+import { addKnownRegions, parseXcodeRegions } from "../utils/pbxproj-parser.js";
+import {
+  createLangApiLock,
+  getLockFilePath,
+  readLangApiLock,
+  recordSyncedSource,
+  stringifyLangApiLock,
+} from "../utils/lock-file.js";
+import { applyJsonFormat } from "../utils/format-preserve.js";
+import { flattenJson, parseJsonSafe } from "../utils/json-parser.js";
 import { LangAPIClient } from "../api/client.js";
 import { delay } from "../utils/delay.js";
 import { loadGlossary, glossaryTermsForLanguage, type Glossary } from "../utils/glossary.js";
@@ -36,7 +112,7 @@ import type { FileFormat, TranslateFileChangeSummary } from "../api/types.js";
  * crash mid-write) never observes a half-written or truncated localization file
  * (finding #32). Last writer wins, but every observable state is a complete file.
  */
-async function atomicWriteFile(path: string, content: string): Promise<void> {
+export async function atomicWriteFile(path: string, content: string): Promise<void> {
   const tmpPath = `${path}.${process.pid}.tmp`;
   await writeFile(tmpPath, content, "utf-8");
   await rename(tmpPath, path);
@@ -44,9 +120,11 @@ async function atomicWriteFile(path: string, content: string): Promise<void> {
 
 const SyncTranslationsSchema = z.object({
   source_lang: languageCodeSchema.describe("Source language code (e.g., 'en', 'pt-BR')"),
-  target_langs: languageCodesArraySchema.describe(
-    "Target language codes to translate to. Can include NEW languages not yet in the project (e.g., ['cs', 'de'] to add Czech and German)"
-  ),
+  target_langs: languageCodesArraySchema
+    .optional()
+    .describe(
+      "Target language codes to translate to. Can include NEW languages not yet in the project (e.g., ['cs', 'de'] to add Czech and German). Defaults to targetLangs from the project's langapi.config.json, else the locales the app's i18n config declares"
+    ),
   dry_run: z
     .boolean()
     .default(true)
@@ -55,15 +133,33 @@ const SyncTranslationsSchema = z.object({
     .string()
     .optional()
     .describe("Root path of the project. Defaults to current working directory."),
+  package: z
+    .string()
+    .optional()
+    .describe(
+      "In a monorepo, the workspace package to sync, by name or path (e.g. '@acme/web' or 'apps/web'; '.' is the root project's own locale files). Without it, every package with locale files is synced, one after another, with a result per package"
+    ),
   write_to_files: z
     .boolean()
     .default(true)
     .describe("If true, write translated content back to local files"),
+  retranslate_needs_review: z
+    .boolean()
+    .default(false)
+    .describe(
+      "If true, String Catalog (.xcstrings) translations that Xcode marked needs_review (their source string changed) are translated again instead of kept"
+    ),
   glossary_file: z
     .string()
     .optional()
     .describe(
-      "Path to a glossary file (CSV with source_term/language/target_term columns, or structured JSON with doNotTranslate + terms). Terms relevant to each target language are attached to that language's request so brand names and domain terms translate consistently. Unverified languages are left untouched."
+      "Path to a glossary file (CSV with source_term/language/target_term columns, or structured JSON with doNotTranslate + terms). Terms relevant to each target language are attached to that language's request so brand names and domain terms translate consistently. Unverified languages are left untouched. Defaults to glossary from the project's langapi.config.json"
+    ),
+  register_known_regions: z
+    .boolean()
+    .default(false)
+    .describe(
+      "If true, languages written to an Xcode project's localizations that its project.pbxproj knownRegions doesn't list yet are added there, so Xcode shows them under Localizations. Otherwise they are only reported in known_regions"
     ),
 });
 
@@ -106,6 +202,7 @@ interface SyncPreviewOutput {
     removed_keys: number;
     reused_from_cache: number;
   }>;
+  known_regions?: KnownRegionsOutput;
   message: string;
 }
 
@@ -131,9 +228,21 @@ interface SyncExecuteOutput {
     words_remaining?: number;
     overage_words?: number;
   };
+  known_regions?: KnownRegionsOutput;
   message: string;
 }
 
+/**
+ * Synced languages that an Xcode project's knownRegions doesn't list
+ */
+interface KnownRegionsOutput {
+  languages: string[];
+  /** project.pbxproj files missing them, relative to the project */
+  projects: string[];
+  /** Whether they were added to knownRegions (register_known_regions) */
+  registered: boolean;
+}
+
 interface SyncErrorOutput {
   success: false;
   error: {
@@ -157,31 +266,176 @@ interface SyncErrorOutput {
 
 type SyncOutput = SyncPreviewOutput | SyncExecuteOutput | SyncErrorOutput;
 
-function textResult(output: SyncOutput) {
+/**
+ * Result of syncing every workspace package with locale files
+ */
+interface SyncWorkspaceOutput {
+  /** False when a package failed; later packages were not synced */
+  success: boolean;
+  dry_run: boolean;
+  /** Files that declare the workspace (pnpm-workspace.yaml, package.json, nx.json, turbo.json) */
+  workspace: string[];
+  packages: Array<{ name: string; path: string } & SyncOutput>;
+  /** Packages left unsynced after a failure */
+  not_synced?: string[];
+  summary: {
+    packages: number;
+    /** credits_required for a preview, credits_used after syncing */
+    credits: number;
+  };
+  message: string;
+}
+
+function textResult(output: SyncOutput | SyncWorkspaceOutput) {
   return { content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }] };
 }
 
+/**
+ * JSON formats whose server output is re-serialized in the existing file's
+ * style (indentation, key structure and order) so a sync doesn't rewrite
+ * untouched lines. .xcstrings is left as the server writes it, in Xcode's
+ * own layout.
+ */
+const JSON_FILE_FORMATS = new Set<FileFormat>(["json", "arb", "formatjs", "webextension"]);
+
+/**
+ * Convert a Laravel PHP language file to the JSON it evaluates to
+ *
+ * @throws Error when the file uses PHP beyond a static array literal
+ */
+function phpArrayToJson(content: string): string {
+  return JSON.stringify(parsePhpArray(content), null, 2);
+}
+
+/**
+ * Convert a JS/TS locale module to the JSON its exported object holds
+ *
+ * @throws Error when the exported value is not a static object literal
+ */
+function jsModuleToJson(content: string): string {
+  return JSON.stringify(parseJsModule(content).data, null, 2);
+}
+
+/**
+ * One language's messages from a Vue component's <i18n> blocks, as JSON
+ */
+function vueMessagesToJson(content: string, lang: string): string | undefined {
+  const messages = parseVueI18nMessages(content)?.get(lang);
+  return messages ? JSON.stringify(messages, null, 2) : undefined;
+}
+
+/**
+ * An XLF catalog's translatable units as flat { key: text } JSON
+ */
+function xlfEntriesToJson(content: string, role: "source" | "target"): string {
+  const catalog = parseXlfCatalog(content);
+  const entries = catalog ? extractXlfCatalogEntries(catalog, role) : [];
+  return JSON.stringify(Object.fromEntries(entries.map((e) => [e.key, e.value])), null, 2);
+}
+
+function parseErrorOutput(
+  file: string,
+  error: unknown,
+  results: PerLanguageResult[]
+): SyncErrorOutput {
+  return {
+    success: false,
+    error: {
+      code: "PARSE_ERROR",
+      message: `Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    },
+    partial_results: results.length
+      ? results.map((r) => ({ language: r.language, file: r.file, file_written: r.fileWritten ?? null }))
+      : undefined,
+  };
+}
+
 function detectFileFormat(filePath: string): FileFormat {
   const appleType = detectAppleFileType(filePath);
   if (appleType) return appleType;
   if (isArbFile(filePath)) return "arb";
+  if (isGettextFile(filePath)) return "po";
+  if (isAndroidStringsFile(filePath)) return "android";
+  if (isYamlFile(filePath)) return "yaml";
+  if (isPropertiesFile(filePath)) return "properties";
+  if (isResxFile(filePath)) return "resx";
+  if (isFluentFile(filePath)) return "fluent";
+  if (isWebExtensionMessagesFile(filePath)) return "webextension";
   return "json";
 }
 
 /**
  * Compute target file path by replacing source language with target language.
- * Handles directory-based (locales/en/file.json), flat (locales/en.json),
- * Flutter underscore (app_en.arb), and iOS/macOS .lproj naming. Pure path
+ * Handles directory-based (locales/en/file.json, locales/en-US/main.ftl),
+ * flat (locales/en.json, config/locales/en.yml), dot-suffix
+ * (translations/messages.en.yaml), Flutter underscore (app_en.arb), iOS/macOS .lproj naming, gettext
+ * (LC_MESSAGES catalogs, .pot templates -> per-language .po), Android
+ * resource qualifiers (values/ -> values-cs/), Java bundle suffixes
+ * (messages.properties -> messages_pt_BR.properties) and .NET culture
+ * suffixes (Strings.resx -> Strings.de.resx), WebExtension locale
+ * directories (_locales/en/ -> _locales/pt_BR/), Laravel locale
+ * directories (lang/en/ -> lang/pt_BR/), Shopify theme locales
+ * (en.default.schema.json -> de.schema.json) and XLF catalogs
+ * (messages.xlf -> messages.de.xlf), Flutter ARB files keep the template's
+ * prefix (app_en.arb -> app_pt_BR.arb). .xcstrings files and Vue
+ * components hold every language and map to themselves. A path template in
+ * the project config takes precedence over these conventions. Pure path
  * math — no file content is read here.
  */
-function computeTargetFilePath(sourcePath: string, sourceLang: string, targetLang: string): string | null {
+function computeTargetFilePath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string,
+  projectConfig?: LoadedProjectConfig | null
+): string | null {
   const ext = getLocaleFileExtension(sourcePath);
 
+  // xcstrings files and Vue components hold every language in one file —
+  // same path for all targets.
+  if (isXCStringsFile(sourcePath) || isVueFile(sourcePath)) return sourcePath;
+
+  const templatePath = applyPathTemplate(projectConfig, sourcePath, targetLang);
+  if (templatePath) return templatePath;
+
   const lprojPath = computeAppleLprojTargetPath(sourcePath, sourceLang, targetLang);
   if (lprojPath) return lprojPath;
 
-  // xcstrings files hold every language in one file — same path for all targets.
-  if (isXCStringsFile(sourcePath)) return sourcePath;
+  if (isGettextFile(sourcePath)) {
+    return computeGettextTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isAndroidStringsFile(sourcePath)) {
+    return computeAndroidTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isPropertiesFile(sourcePath)) {
+    return computePropertiesTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isResxFile(sourcePath)) {
+    return computeResxTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isWebExtensionMessagesFile(sourcePath)) {
+    return computeWebExtensionTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isLaravelPhpFile(sourcePath)) {
+    return computeLaravelTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isShopifyLocaleFile(sourcePath)) {
+    return computeShopifyTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isXlfCatalogFile(sourcePath)) {
+    return computeXlfCatalogTargetPath(sourcePath, sourceLang, targetLang);
+  }
+
+  if (isArbFile(sourcePath)) {
+    const arbPath = computeArbTargetPath(sourcePath, sourceLang, targetLang);
+    if (arbPath) return arbPath;
+  }
 
   const dirPattern = `/${sourceLang}/`;
   if (sourcePath.includes(dirPattern)) {
@@ -206,13 +460,39 @@ function computeTargetFilePath(sourcePath: string, sourceLang: string, targetLan
   return null;
 }
 
+/**
+ * The source file each target file is translated from. A template or
+ * unlocalized default and the source language's own file can map to the
+ * same target (messages.pot and en/LC_MESSAGES/messages.po, messages.properties
+ * and messages_en.properties, values/ and values-en/); the target is then
+ * translated once, from the template or default.
+ */
+function assignTargetSources(
+  files: LocaleFile[],
+  sourceLang: string,
+  targetLangs: string[],
+  projectConfig: LoadedProjectConfig | null
+): Map<string, string> {
+  const isDefault = (path: string) => computeTargetFilePath(path, sourceLang, sourceLang, projectConfig) !== path;
+  const ordered = [...files].sort((a, b) => Number(isDefault(b.path)) - Number(isDefault(a.path)));
+
+  const sources = new Map<string, string>();
+  for (const file of ordered) {
+    for (const targetLang of targetLangs) {
+      const targetPath = computeTargetFilePath(file.path, sourceLang, targetLang, projectConfig);
+      if (targetPath && !sources.has(targetPath)) sources.set(targetPath, file.path);
+    }
+  }
+  return sources;
+}
+
 /**
  * Register the sync_translations tool with the MCP server
  */
 export function registerSyncTranslations(server: McpServer): void {
   server.tool(
     "sync_translations",
-    "Add new languages or sync existing translations via LangAPI. The server compares each file's current content against its previous translation and only translates what's new or changed. Default is dry_run=true for preview.",
+    "Add new languages or sync existing translations via LangAPI. The server compares each file's current content against its previous translation and only translates what's new or changed. Default is dry_run=true for preview. In a monorepo, syncs one workspace package (package) or every package with locale files.",
     SyncTranslationsSchema.shape,
     async (args): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
       const input = SyncTranslationsSchema.parse(args);
@@ -228,229 +508,561 @@ export function registerSyncTranslations(server: McpServer): void {
         });
       }
 
-      // Load the project glossary once (if provided). Failing to read/parse it
-      // is a hard error — silently translating without it would defeat the point.
-      let glossary: Glossary | undefined;
-      if (input.glossary_file) {
-        try {
-          glossary = await loadGlossary(resolve(input.glossary_file));
-        } catch (err) {
-          return textResult({
-            success: false,
-            error: {
-              code: "GLOSSARY_ERROR",
-              message: `Could not read glossary file '${input.glossary_file}': ${err instanceof Error ? err.message : String(err)}`,
-            },
-          });
+      let syncPath = projectPath;
+      let workspaceLocales: WorkspaceDetectionResult | null = null;
+      let detection: LocaleDetectionResult | undefined;
+      try {
+        if (input.package) {
+          const workspace = await detectWorkspace(projectPath);
+          const pkg = workspace && findWorkspacePackage(workspace, input.package);
+          if (!pkg) {
+            return textResult({
+              success: false,
+              error: {
+                code: "PACKAGE_NOT_FOUND",
+                message: `Package '${input.package}' not found in the workspace`,
+              },
+            });
+          }
+          syncPath = join(projectPath, pkg.path);
+          detection = await detectPackageLocales(projectPath, workspace, pkg, false);
+          const mismatch = getSourceLangMismatch(detection, input.source_lang);
+          if (mismatch) {
+            return textResult({ success: false, error: { code: "SOURCE_LANG_MISMATCH", message: mismatch } });
+          }
+        } else {
+          workspaceLocales = await detectWorkspaceLocales(projectPath, false);
+          if (!workspaceLocales?.packages.length) detection = await detectLocales(projectPath, false);
         }
-      }
-
-      const detection = await detectLocales(projectPath, false);
-      const sourceLocale = detection.locales.find((l) => l.lang === input.source_lang);
-      if (!sourceLocale) {
+      } catch (err) {
         return textResult({
           success: false,
           error: {
-            code: "SOURCE_NOT_FOUND",
-            message: `Source language '${input.source_lang}' not found in project`,
+            code: "PROJECT_CONFIG_ERROR",
+            message: err instanceof Error ? err.message : String(err),
           },
         });
       }
 
-      const client = await LangAPIClient.create();
-      const perLanguageResults: PerLanguageResult[] = [];
-      let totalCreditsUsed = 0;
-      let currentBalance = 0;
-      let unlimitedPlan: boolean | undefined;
-      let isFirstCall = true;
-      // Account-level allowance state. plan/monthlyAllowance are constant across
-      // languages; wordsUsed/wordsRemaining evolve as each language consumes, so
-      // the last response holds the final state; overage sums across languages.
-      let planTier: string | undefined;
-      let monthlyAllowance: number | undefined;
-      let wordsUsedThisMonth: number | undefined;
-      let wordsRemaining: number | undefined;
-      let totalOverageWords = 0;
-
-      for (const file of sourceLocale.files) {
-        const fileFormat = detectFileFormat(file.path);
-        const sourceFileContent = await readFile(file.path, "utf-8");
-
-        // Single-file formats (xcstrings) keep every language in one physical
-        // file. We must thread the merged result of each target language into
-        // the next iteration, otherwise each language merges into the stale
-        // original and overwrites the previous language's output (finding #4).
-        let sameFileAccumulated = sourceFileContent;
-
-        for (const targetLang of input.target_langs) {
-          const targetFilePath = computeTargetFilePath(file.path, input.source_lang, targetLang);
-          if (!targetFilePath) continue;
-
-          const isSameFile = targetFilePath === file.path;
-          const resolvedTargetPath = resolve(targetFilePath);
-          if (!isSameFile && !isPathWithinProject(resolvedTargetPath, projectPath)) continue;
-
-          let previousTargetFileContent: string | undefined;
-          if (isSameFile) {
-            // For xcstrings the "previous target" is the same physical file,
-            // accumulated across earlier target languages in this run so the
-            // server merges each new language into a file that already
-            // contains the ones translated before it.
-            previousTargetFileContent = sameFileAccumulated;
-          } else {
-            try {
-              previousTargetFileContent = await readFile(resolvedTargetPath, "utf-8");
-            } catch {
-              // No existing translation yet — fine, everything is "new" to the server.
-            }
-          }
+      if (!detection) return textResult(await syncWorkspace(projectPath, input, workspaceLocales!));
+      return textResult(await syncProject(syncPath, input, detection));
+    }
+  );
+}
 
-          if (!isFirstCall) await delay(300);
-          isFirstCall = false;
+/**
+ * Sync every workspace package with locale files, one after another.
+ * Syncing stops at the first package that fails so a broken setup isn't
+ * billed package after package. Packages that declare another source
+ * language than source_lang are reported before anything is synced; they
+ * are synced on their own, with `package`.
+ */
+async function syncWorkspace(
+  projectPath: string,
+  input: SyncTranslationsInput,
+  { workspace, packages }: WorkspaceDetectionResult
+): Promise<SyncWorkspaceOutput> {
+  const mismatched: SyncWorkspaceOutput["packages"] = [];
+  for (const { name, path, detection } of packages) {
+    const mismatch = getSourceLangMismatch(detection, input.source_lang);
+    if (mismatch) {
+      mismatched.push({ name, path, success: false, error: { code: "SOURCE_LANG_MISMATCH", message: mismatch } });
+    }
+  }
+  if (mismatched.length > 0) {
+    const paths = mismatched.map((p) => p.path);
+    return {
+      success: false,
+      dry_run: input.dry_run,
+      workspace: workspace.files,
+      packages: mismatched,
+      not_synced: packages.map((p) => p.path).filter((path) => !paths.includes(path)),
+      summary: { packages: mismatched.length, credits: 0 },
+      message: `Nothing synced: ${paths.join(", ")} declare${paths.length === 1 ? "s" : ""} another source language; sync ${paths.length === 1 ? "it" : "them"} with package.`,
+    };
+  }
 
-          const glossaryTerms = glossary ? glossaryTermsForLanguage(glossary, targetLang) : undefined;
+  const results: SyncWorkspaceOutput["packages"] = [];
+  let credits = 0;
 
-          const response = await client.translateFile({
-            source_lang: input.source_lang,
-            target_lang: targetLang,
-            file_format: fileFormat,
-            source_file_content: sourceFileContent,
-            previous_target_file_content: previousTargetFileContent,
-            glossary: glossaryTerms && glossaryTerms.length ? glossaryTerms : undefined,
-            dry_run: input.dry_run,
-          });
+  for (const { name, path, detection } of packages) {
+    const output = await syncProject(join(projectPath, path), input, detection);
+    results.push({ name, path, ...output });
+    if (!output.success) break;
+    credits += output.dry_run ? output.summary.credits_required : output.cost.credits_used;
+  }
 
-          if (!response.success) {
-            return textResult({
-              success: false,
-              error: {
-                code: response.error.code,
-                message: response.error.message,
-                current_balance: response.error.currentBalance,
-                required_credits: response.error.requiredCredits,
-              },
-              partial_results: perLanguageResults.length
-                ? perLanguageResults.map((r) => ({
-                    language: r.language,
-                    file: r.file,
-                    file_written: r.fileWritten ?? null,
-                  }))
-                : undefined,
-            });
-          }
+  const failed = results.find((r) => !r.success);
+  const notSynced = packages.slice(results.length).map((p) => p.path);
+  return {
+    success: !failed,
+    dry_run: input.dry_run,
+    workspace: workspace.files,
+    packages: results,
+    not_synced: notSynced.length > 0 ? notSynced : undefined,
+    summary: { packages: results.length, credits },
+    message: failed
+      ? `Stopped at ${failed.path}${notSynced.length > 0 ? `; not synced: ${notSynced.join(", ")}` : ""}.`
+      : input.dry_run
+      ? `Preview across ${results.length} workspace package(s): ${credits} credits required. Run with dry_run=false to execute.`
+      : `Sync complete across ${results.length} workspace package(s).`,
+  };
+}
 
-          const cost = response.cost;
-          planTier = cost.plan ?? planTier;
-          monthlyAllowance = cost.monthlyAllowance ?? monthlyAllowance;
-          wordsUsedThisMonth = cost.wordsUsedThisMonth ?? wordsUsedThisMonth;
-          wordsRemaining = cost.wordsRemaining ?? wordsRemaining;
-          totalOverageWords += cost.overageWords ?? 0;
-
-          if ("translated_file_content" in response) {
-            totalCreditsUsed += response.cost.creditsUsed;
-            currentBalance = response.cost.balanceAfterSync;
-            unlimitedPlan = response.cost.unlimitedPlan;
-
-            // Thread the merged file forward so the next target language for a
-            // single-file format builds on this one instead of the stale
-            // original (finding #4). Done regardless of write_to_files so the
-            // in-memory accumulation stays coherent for preview runs too.
-            if (isSameFile) {
-              sameFileAccumulated = response.translated_file_content;
-            }
-
-            let fileWritten: string | null = null;
-            if (input.write_to_files) {
-              const writePath = isSameFile ? file.path : resolvedTargetPath;
-              await mkdir(dirname(writePath), { recursive: true });
-              await atomicWriteFile(writePath, response.translated_file_content);
-              fileWritten = writePath;
-            }
-
-            perLanguageResults.push({
-              language: targetLang,
-              file: file.relativePath,
-              delta: response.delta,
-              fileWritten,
-              qaWarnings: response.qaWarnings,
-            });
-          } else {
-            totalCreditsUsed += response.cost.creditsRequired;
-            currentBalance = response.cost.currentBalance;
-            unlimitedPlan = response.cost.unlimitedPlan;
-
-            perLanguageResults.push({
-              language: targetLang,
-              file: file.relativePath,
-              delta: response.delta,
-              wordsToTranslate: response.cost.wordsToTranslate,
-              creditsRequired: response.cost.creditsRequired,
-            });
+/**
+ * Sync one project (or workspace package) against its detected locales
+ */
+async function syncProject(
+  projectPath: string,
+  input: SyncTranslationsInput,
+  detection: LocaleDetectionResult
+): Promise<SyncOutput> {
+  const projectConfig = detection.projectConfig;
+
+  // Without target_langs, sync the languages the project declares (never
+  // just every detected locale: a stray file shouldn't trigger billing)
+  const targetLangs =
+    input.target_langs ??
+    (detection.settingSources.targetLangs !== "inferred" ? getDefaultTargetLangs(detection, input.source_lang) : []);
+  if (targetLangs.length === 0) {
+    return {
+      success: false,
+      error: {
+        code: "NO_TARGET_LANGUAGES",
+        message:
+          "No target languages: pass target_langs, declare targetLangs in langapi.config.json or list the locales in the app's i18n config",
+      },
+    };
+  }
+
+  // Load the project glossary once (if provided). Failing to read/parse it
+  // is a hard error — silently translating without it would defeat the point.
+  // The config's glossary path is relative to the project root.
+  let glossary: Glossary | undefined;
+  const configGlossary = projectConfig?.config.glossary;
+  const glossaryFile = input.glossary_file ?? configGlossary;
+  const glossaryPath = input.glossary_file
+    ? resolve(input.glossary_file)
+    : projectConfig && configGlossary
+    ? resolve(projectConfig.projectPath, configGlossary)
+    : undefined;
+  if (glossaryPath) {
+    try {
+      glossary = await loadGlossary(glossaryPath);
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: "GLOSSARY_ERROR",
+          message: `Could not read glossary file '${glossaryFile}': ${err instanceof Error ? err.message : String(err)}`,
+        },
+      };
+    }
+  }
+
+  const sourceLocale = detection.locales.find((l) => l.lang === input.source_lang);
+  if (!sourceLocale) {
+    return {
+      success: false,
+      error: {
+        code: "SOURCE_NOT_FOUND",
+        message: `Source language '${input.source_lang}' not found in project`,
+      },
+    };
+  }
+
+  // Hashes of the source text behind each written translation, so
+  // get_translation_status can report keys whose source changed since
+  const lock = (await readLangApiLock(projectPath)) ?? createLangApiLock();
+  const targetSources = assignTargetSources(sourceLocale.files, input.source_lang, targetLangs, projectConfig);
+
+  const client = await LangAPIClient.create();
+  const perLanguageResults: PerLanguageResult[] = [];
+  let totalCreditsUsed = 0;
+  let currentBalance = 0;
+  let unlimitedPlan: boolean | undefined;
+  let isFirstCall = true;
+  // Account-level allowance state. plan/monthlyAllowance are constant across
+  // languages; wordsUsed/wordsRemaining evolve as each language consumes, so
+  // the last response holds the final state; overage sums across languages.
+  let planTier: string | undefined;
+  let monthlyAllowance: number | undefined;
+  let wordsUsedThisMonth: number | undefined;
+  let wordsRemaining: number | undefined;
+  let totalOverageWords = 0;
+
+  for (const file of sourceLocale.files) {
+    let fileFormat = detectFileFormat(file.path);
+    let sourceFileContent: string;
+    // Pre-Java 9 bundles are ISO-8859-1, or ASCII with \uXXXX escapes;
+    // their translations are written back ASCII-only so they load under
+    // either encoding
+    let asciiOnly = false;
+    if (fileFormat === "properties") {
+      const decoded = await readPropertiesFile(file.path);
+      sourceFileContent = decoded.content;
+      asciiOnly = decoded.encoding === "latin1" || hasPropertiesUnicodeEscapes(decoded.content);
+    } else {
+      sourceFileContent = await readFile(file.path, "utf-8");
+    }
+    const lockEntries = flattenJson(
+      parseLocaleFile(file.path, sourceFileContent, input.source_lang, "source") ?? {}
+    );
+
+    // FormatJS keeps react-intl messages in plain .json files; only the
+    // content tells an extracted file ({ id: { defaultMessage, description } })
+    // from ordinary JSON. `formatjs compile` output is regenerated from the
+    // translations, so it is never a sync source.
+    if (fileFormat === "json") {
+      const data = parseJsonSafe(sourceFileContent);
+      const shape = data ? getFormatJsShape(data) : null;
+      if (shape === "compiled") continue;
+      if (shape === "extracted") fileFormat = "formatjs";
+    }
+
+    // Laravel language files are PHP; they travel to the server as the
+    // JSON they evaluate to and are written back as PHP arrays.
+    const isLaravelPhp = isLaravelPhpFile(file.path);
+    if (isLaravelPhp) {
+      try {
+        sourceFileContent = phpArrayToJson(sourceFileContent);
+      } catch (error) {
+        return parseErrorOutput(file.relativePath, error, perLanguageResults);
+      }
+    }
+
+    // JS/TS locale modules travel as the JSON their exported object
+    // holds; targets are regenerated inside the source module's wrapper
+    // (`export default ... as const`) with its quote style.
+    let jsModuleLayout: JsModuleLayout | null = null;
+    if (isJsModuleFile(file.path)) {
+      try {
+        const parsed = parseJsModule(sourceFileContent);
+        jsModuleLayout = parsed.layout;
+        sourceFileContent = JSON.stringify(parsed.data, null, 2);
+      } catch (error) {
+        return parseErrorOutput(file.relativePath, error, perLanguageResults);
+      }
+    }
+
+    // XLF catalogs (Angular, Symfony) travel as { key: text } JSON; target
+    // catalogs are written from the source catalog so unit ids, context
+    // groups and notes carry over.
+    const xlfSourceCatalog = isXlfCatalogFile(file.path) ? sourceFileContent : null;
+    if (xlfSourceCatalog !== null) {
+      const catalog = parseXlfCatalog(xlfSourceCatalog);
+      if (!catalog) {
+        return parseErrorOutput(file.relativePath, new Error("Not an XLIFF document"), perLanguageResults);
+      }
+      sourceFileContent = xlfEntriesToJson(xlfSourceCatalog, "source");
+    }
+
+    // Single-file formats (xcstrings) keep every language in one physical
+    // file. We must thread the merged result of each target language into
+    // the next iteration, otherwise each language merges into the stale
+    // original and overwrites the previous language's output (finding #4).
+    let sameFileAccumulated = sourceFileContent;
+
+    // Vue components hold every language in their <i18n> blocks. The
+    // server sees one language's messages as JSON; the component itself
+    // is accumulated and only its <i18n> block is rewritten.
+    const isVue = isVueFile(file.path);
+    if (isVue) {
+      sourceFileContent = vueMessagesToJson(sourceFileContent, input.source_lang) ?? "{}";
+    }
+
+    for (const targetLang of targetLangs) {
+      const targetFilePath = computeTargetFilePath(file.path, input.source_lang, targetLang, projectConfig);
+      if (!targetFilePath || targetSources.get(targetFilePath) !== file.path) continue;
+
+      const isSameFile = targetFilePath === file.path;
+      const resolvedTargetPath = resolve(targetFilePath);
+      if (!isSameFile && !isPathWithinProject(resolvedTargetPath, projectPath)) continue;
+
+      let previousTargetFileContent: string | undefined;
+      let previousTargetCatalog: string | null = null;
+      if (isSameFile) {
+        // For xcstrings the "previous target" is the same physical file,
+        // accumulated across earlier target languages in this run so the
+        // server merges each new language into a file that already
+        // contains the ones translated before it.
+        previousTargetFileContent = isVue
+          ? vueMessagesToJson(sameFileAccumulated, targetLang)
+          : sameFileAccumulated;
+        // Without its needs_review localizations the server sees those
+        // keys as new and translates them again
+        if (input.retranslate_needs_review && isXCStringsFile(file.path) && previousTargetFileContent) {
+          previousTargetFileContent = removeXCStringsLocalizations(
+            previousTargetFileContent,
+            targetLang,
+            "needs_review"
+          );
+        }
+      } else {
+        try {
+          previousTargetFileContent = await readLocaleFile(resolvedTargetPath);
+        } catch {
+          // No existing translation yet — fine, everything is "new" to the server.
+        }
+        if (xlfSourceCatalog !== null && previousTargetFileContent !== undefined) {
+          previousTargetCatalog = previousTargetFileContent;
+          previousTargetFileContent = xlfEntriesToJson(previousTargetCatalog, "target");
+        }
+        if (isLaravelPhp && previousTargetFileContent !== undefined) {
+          try {
+            previousTargetFileContent = phpArrayToJson(previousTargetFileContent);
+          } catch (error) {
+            return parseErrorOutput(targetFilePath, error, perLanguageResults);
+          }
+        }
+        if (jsModuleLayout !== null && previousTargetFileContent !== undefined) {
+          try {
+            previousTargetFileContent = jsModuleToJson(previousTargetFileContent);
+          } catch (error) {
+            return parseErrorOutput(targetFilePath, error, perLanguageResults);
           }
         }
       }
 
-      if (input.dry_run) {
-        const totalWordsToTranslate = perLanguageResults.reduce((sum, r) => sum + (r.wordsToTranslate ?? 0), 0);
-        const output: SyncPreviewOutput = {
-          success: true,
-          dry_run: true,
-          summary: {
-            new_keys: sumDelta(perLanguageResults, "newKeys"),
-            changed_keys: sumDelta(perLanguageResults, "changedKeys"),
-            removed_keys: sumDelta(perLanguageResults, "removedKeys"),
-            reused_from_cache: perLanguageResults.reduce((sum, r) => sum + r.delta.reusedFromCacheCount, 0),
-            words_to_translate: totalWordsToTranslate,
-            credits_required: totalCreditsUsed,
-            current_balance: currentBalance,
-            balance_after_sync: unlimitedPlan ? currentBalance : currentBalance - totalCreditsUsed,
-            unlimited_plan: unlimitedPlan,
-            plan: planTier,
-            monthly_allowance: monthlyAllowance,
-            words_used_this_month: wordsUsedThisMonth,
-            words_remaining: wordsRemaining,
-            overage_words: totalOverageWords || undefined,
+      // A target bundle already written with escapes keeps them
+      const escapeNonAscii =
+        asciiOnly ||
+        (fileFormat === "properties" &&
+          previousTargetFileContent !== undefined &&
+          hasPropertiesUnicodeEscapes(previousTargetFileContent));
+
+      if (!isFirstCall) await delay(300);
+      isFirstCall = false;
+
+      const glossaryTerms = glossary ? glossaryTermsForLanguage(glossary, targetLang) : undefined;
+
+      const response = await client.translateFile({
+        source_lang: input.source_lang,
+        target_lang: targetLang,
+        file_format: fileFormat,
+        source_file_content: sourceFileContent,
+        previous_target_file_content: previousTargetFileContent,
+        glossary: glossaryTerms && glossaryTerms.length ? glossaryTerms : undefined,
+        dry_run: input.dry_run,
+      });
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: {
+            code: response.error.code,
+            message: response.error.message,
+            current_balance: response.error.currentBalance,
+            required_credits: response.error.requiredCredits,
           },
-          per_language: perLanguageResults.map((r) => ({
-            language: r.language,
-            file: r.file,
-            new_keys: r.delta.newKeys.length,
-            changed_keys: r.delta.changedKeys.length,
-            removed_keys: r.delta.removedKeys.length,
-            reused_from_cache: r.delta.reusedFromCacheCount,
-          })),
-          message: `Preview: ${totalWordsToTranslate} words to translate across ${new Set(perLanguageResults.map((r) => r.language)).size} language(s), ${totalCreditsUsed} credits required. Run with dry_run=false to execute.`,
+          partial_results: perLanguageResults.length
+            ? perLanguageResults.map((r) => ({
+                language: r.language,
+                file: r.file,
+                file_written: r.fileWritten ?? null,
+              }))
+            : undefined,
         };
-        return textResult(output);
       }
 
-      const output: SyncExecuteOutput = {
-        success: true,
-        dry_run: false,
-        results: perLanguageResults.map((r) => ({
-          language: r.language,
-          file_written: r.fileWritten ?? null,
-          new_keys: r.delta.newKeys.length,
-          changed_keys: r.delta.changedKeys.length,
-          removed_keys: r.delta.removedKeys.length,
-          reused_from_cache: r.delta.reusedFromCacheCount,
-          qa_warnings: r.qaWarnings,
-        })),
-        cost: {
-          credits_used: totalCreditsUsed,
-          balance_after_sync: currentBalance,
-          unlimited_plan: unlimitedPlan,
-          plan: planTier,
-          monthly_allowance: monthlyAllowance,
-          words_used_this_month: wordsUsedThisMonth,
-          words_remaining: wordsRemaining,
-          overage_words: totalOverageWords || undefined,
-        },
-        message: `Sync complete across ${new Set(perLanguageResults.map((r) => r.language)).size} language(s).`,
-      };
-      return textResult(output);
+      const cost = response.cost;
+      planTier = cost.plan ?? planTier;
+      monthlyAllowance = cost.monthlyAllowance ?? monthlyAllowance;
+      wordsUsedThisMonth = cost.wordsUsedThisMonth ?? wordsUsedThisMonth;
+      wordsRemaining = cost.wordsRemaining ?? wordsRemaining;
+      totalOverageWords += cost.overageWords ?? 0;
+
+      if ("translated_file_content" in response) {
+        totalCreditsUsed += response.cost.creditsUsed;
+        currentBalance = response.cost.balanceAfterSync;
+        unlimitedPlan = response.cost.unlimitedPlan;
+
+        // Thread the merged file forward so the next target language for a
+        // single-file format builds on this one instead of the stale
+        // original (finding #4). Done regardless of write_to_files so the
+        // in-memory accumulation stays coherent for preview runs too.
+        if (isSameFile) {
+          sameFileAccumulated = isVue
+            ? setVueI18nMessages(sameFileAccumulated, targetLang, JSON.parse(response.translated_file_content))
+            : response.translated_file_content;
+        }
+
+        let fileWritten: string | null = null;
+        if (input.write_to_files) {
+          const writePath = isSameFile ? file.path : resolvedTargetPath;
+          // Rails nests a YAML file under its language (`en:`); the target
+          // file must be rooted at the target language instead.
+          const content =
+            fileFormat === "yaml"
+              ? renameYamlRootKey(response.translated_file_content, input.source_lang, targetLang)
+              : isLaravelPhp
+              ? stringifyPhpArray(JSON.parse(response.translated_file_content))
+              : isVue
+              ? sameFileAccumulated
+              : jsModuleLayout !== null
+              ? stringifyJsModule(
+                  JSON.parse(response.translated_file_content),
+                  renameJsModuleBinding(jsModuleLayout, input.source_lang, targetLang)
+                )
+              : xlfSourceCatalog !== null
+              ? writeXlfCatalog(
+                  xlfSourceCatalog,
+                  previousTargetCatalog,
+                  Object.fromEntries(
+                    flattenJson(JSON.parse(response.translated_file_content)).map((e) => [e.key, e.value])
+                  ),
+                  targetLang
+                )
+              : escapeNonAscii
+              ? escapePropertiesNonAscii(response.translated_file_content)
+              : JSON_FILE_FORMATS.has(fileFormat)
+              ? applyJsonFormat(response.translated_file_content, previousTargetFileContent ?? sourceFileContent)
+              : response.translated_file_content;
+          await mkdir(dirname(writePath), { recursive: true });
+          await atomicWriteFile(writePath, content);
+          fileWritten = writePath;
+
+          recordSyncedSource(lock, file.relativePath, targetLang, lockEntries);
+          await atomicWriteFile(getLockFilePath(projectPath), stringifyLangApiLock(lock));
+        }
+
+        perLanguageResults.push({
+          language: targetLang,
+          file: file.relativePath,
+          delta: response.delta,
+          fileWritten,
+          qaWarnings: response.qaWarnings,
+        });
+      } else {
+        totalCreditsUsed += response.cost.creditsRequired;
+        currentBalance = response.cost.currentBalance;
+        unlimitedPlan = response.cost.unlimitedPlan;
+
+        perLanguageResults.push({
+          language: targetLang,
+          file: file.relativePath,
+          delta: response.delta,
+          wordsToTranslate: response.cost.wordsToTranslate,
+          creditsRequired: response.cost.creditsRequired,
+        });
+      }
     }
+  }
+
+  const knownRegions = await reconcileKnownRegions(
+    projectPath,
+    detection,
+    perLanguageResults.filter((r) => input.dry_run || r.fileWritten).map((r) => r.language),
+    !input.dry_run && input.register_known_regions
   );
+
+  if (input.dry_run) {
+    const totalWordsToTranslate = perLanguageResults.reduce((sum, r) => sum + (r.wordsToTranslate ?? 0), 0);
+    const output: SyncPreviewOutput = {
+      success: true,
+      dry_run: true,
+      summary: {
+        new_keys: sumDelta(perLanguageResults, "newKeys"),
+        changed_keys: sumDelta(perLanguageResults, "changedKeys"),
+        removed_keys: sumDelta(perLanguageResults, "removedKeys"),
+        reused_from_cache: perLanguageResults.reduce((sum, r) => sum + r.delta.reusedFromCacheCount, 0),
+        words_to_translate: totalWordsToTranslate,
+        credits_required: totalCreditsUsed,
+        current_balance: currentBalance,
+        balance_after_sync: unlimitedPlan ? currentBalance : currentBalance - totalCreditsUsed,
+        unlimited_plan: unlimitedPlan,
+        plan: planTier,
+        monthly_allowance: monthlyAllowance,
+        words_used_this_month: wordsUsedThisMonth,
+        words_remaining: wordsRemaining,
+        overage_words: totalOverageWords || undefined,
+      },
+      per_language: perLanguageResults.map((r) => ({
+        language: r.language,
+        file: r.file,
+        new_keys: r.delta.newKeys.length,
+        changed_keys: r.delta.changedKeys.length,
+        removed_keys: r.delta.removedKeys.length,
+        reused_from_cache: r.delta.reusedFromCacheCount,
+      })),
+      known_regions: knownRegions,
+      message:
+        `Preview: ${totalWordsToTranslate} words to translate across ${new Set(perLanguageResults.map((r) => r.language)).size} language(s), ${totalCreditsUsed} credits required. Run with dry_run=false to execute.` +
+        (knownRegions
+          ? ` ${knownRegions.languages.join(", ")} not in the Xcode project's knownRegions; pass register_known_regions=true to add them.`
+          : ""),
+    };
+    return output;
+  }
+
+  const output: SyncExecuteOutput = {
+    success: true,
+    dry_run: false,
+    results: perLanguageResults.map((r) => ({
+      language: r.language,
+      file_written: r.fileWritten ?? null,
+      new_keys: r.delta.newKeys.length,
+      changed_keys: r.delta.changedKeys.length,
+      removed_keys: r.delta.removedKeys.length,
+      reused_from_cache: r.delta.reusedFromCacheCount,
+      qa_warnings: r.qaWarnings,
+    })),
+    cost: {
+      credits_used: totalCreditsUsed,
+      balance_after_sync: currentBalance,
+      unlimited_plan: unlimitedPlan,
+      plan: planTier,
+      monthly_allowance: monthlyAllowance,
+      words_used_this_month: wordsUsedThisMonth,
+      words_remaining: wordsRemaining,
+      overage_words: totalOverageWords || undefined,
+    },
+    known_regions: knownRegions,
+    message:
+      `Sync complete across ${new Set(perLanguageResults.map((r) => r.language)).size} language(s).` +
+      (knownRegions && !knownRegions.registered
+        ? ` ${knownRegions.languages.join(", ")} not in the Xcode project's knownRegions; pass register_known_regions=true to add them.`
+        : knownRegions
+        ? ` Added ${knownRegions.languages.join(", ")} to knownRegions.`
+        : ""),
+  };
+  return output;
+}
+
+/**
+ * Find the synced languages each of the Xcode projects the detection read
+ * doesn't list in knownRegions, and add them when `register` is set
+ *
+ * @returns undefined unless some project lacks a language
+ */
+async function reconcileKnownRegions(
+  projectPath: string,
+  detection: LocaleDetectionResult,
+  languages: string[],
+  register: boolean
+): Promise<KnownRegionsOutput | undefined> {
+  if (detection.framework !== "ios-macos" || !detection.frameworkSettings) return undefined;
+
+  const missing = new Set<string>();
+  const projects: string[] = [];
+  for (const file of detection.frameworkSettings.files) {
+    const path = join(projectPath, file);
+    let content: string;
+    try {
+      content = await readFile(path, "utf-8");
+    } catch {
+      continue;
+    }
+
+    const { knownRegions } = parseXcodeRegions(content);
+    const absent = [...new Set(languages)].filter((lang) => !knownRegions.includes(lang));
+    if (absent.length === 0) continue;
+    if (register) await atomicWriteFile(path, addKnownRegions(content, absent));
+    absent.forEach((lang) => missing.add(lang));
+    projects.push(file);
+  }
+
+  return missing.size > 0 ? { languages: [...missing], projects, registered: register } : undefined;
 }
 
 function sumDelta(results: PerLanguageResult[], key: "newKeys" | "changedKeys" | "removedKeys"): number {
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseAndroidStringsContent,
+  extractAndroidEntries,
+  androidQualifierToLanguage,
+  languageToAndroidQualifier,
+  extractLanguageFromAndroidPath,
+  computeAndroidTargetPath,
+  isAndroidStringsFile,
+} from "./android-parser.js";
+
+describe("Android Parser", () => {
+  const sampleXml = `<?xml version="1.0" encoding="utf-8"?>
+<resources xmlns:tools="http://schemas.android.com/tools" tools:locale="en">
+    <string name="app_name" translatable="false">Sample</string>
+    <!-- Login button text -->
+    <string name="login">Log in</string>
+    <string name="apostrophe">Don\\'t &amp; won\\'t</string>
+    <string name="quoted">"  spaced  "</string>
+    <string name="cdata"><![CDATA[<b>Bold</b>]]></string>
+    <plurals name="items">
+        <item quantity="one">%d item</item>
+        <item quantity="other">%d items</item>
+    </plurals>
+    <string-array name="planets">
+        <item>Mercury</item>
+        <item>Venus</item>
+    </string-array>
+</resources>`;
+
+  describe("parseAndroidStringsContent", () => {
+    it("should parse strings, plurals and string arrays", () => {
+      const result = parseAndroidStringsContent(sampleXml);
+
+      expect(result.resources.map((r) => `${r.type}:${r.name}`)).toEqual([
+        "string:app_name",
+        "string:login",
+        "string:apostrophe",
+        "string:quoted",
+        "string:cdata",
+        "plurals:items",
+        "string-array:planets",
+      ]);
+      expect(result.resources[5].quantities).toEqual({ one: "%d item", other: "%d items" });
+      expect(result.resources[6].items).toEqual(["Mercury", "Venus"]);
+    });
+
+    it("should not read a <string-array> followed by a <string> as one string", () => {
+      const result = parseAndroidStringsContent(`<resources>
+    <string-array name="arr">
+        <item>x</item>
+    </string-array>
+    <string name="nt" translatable="false">z</string>
+</resources>`);
+
+      expect(result.resources.map((r) => `${r.type}:${r.name}`)).toEqual(["string-array:arr", "string:nt"]);
+      expect(result.resources[0].items).toEqual(["x"]);
+      expect(result.resources[1]).toMatchObject({ value: "z", translatable: false });
+    });
+
+    it("should read tools:locale from the root element", () => {
+      expect(parseAndroidStringsContent(sampleXml).toolsLocale).toBe("en");
+    });
+
+    it("should mark translatable=false resources and keep comments", () => {
+      const result = parseAndroidStringsContent(sampleXml);
+
+      expect(result.resources[0].translatable).toBe(false);
+      expect(result.resources[1].comment).toBe("Login button text");
+    });
+
+    it("should decode escapes, entities, quotes and CDATA", () => {
+      const [, , apostrophe, quoted, cdata] = parseAndroidStringsContent(sampleXml).resources;
+
+      expect(apostrophe.value).toBe("Don't & won't");
+      expect(quoted.value).toBe("  spaced  ");
+      expect(cdata.value).toBe("<b>Bold</b>");
+    });
+
+    it("should return no resources for non-resource XML", () => {
+      expect(parseAndroidStringsContent("<manifest/>").resources).toEqual([]);
+    });
+  });
+
+  describe("extractAndroidEntries", () => {
+    it("should skip untranslatable resources and key array items by index", () => {
+      const keys = extractAndroidEntries(parseAndroidStringsContent(sampleXml)).map((e) => e.key);
+
+      expect(keys).toEqual(["login", "apostrophe", "quoted", "cdata", "items", "planets.0", "planets.1"]);
+    });
+  });
+
+  describe("locale qualifiers", () => {
+    it("should map qualifiers to BCP 47", () => {
+      expect(androidQualifierToLanguage("de")).toBe("de");
+      expect(androidQualifierToLanguage("pt-rBR")).toBe("pt-BR");
+      expect(androidQualifierToLanguage("b+sr+Latn")).toBe("sr-Latn");
+      expect(androidQualifierToLanguage("in")).toBe("id");
+    });
+
+    it("should reject non-locale qualifiers", () => {
+      expect(androidQualifierToLanguage("night")).toBeNull();
+      expect(androidQualifierToLanguage("v21")).toBeNull();
+      expect(androidQualifierToLanguage("sw600dp")).toBeNull();
+    });
+
+    it("should map BCP 47 to qualifiers", () => {
+      expect(languageToAndroidQualifier("cs")).toBe("cs");
+      expect(languageToAndroidQualifier("pt-BR")).toBe("pt-rBR");
+      expect(languageToAndroidQualifier("zh-Hant")).toBe("b+zh+Hant");
+    });
+  });
+
+  describe("paths", () => {
+    it("should recognize value resource files", () => {
+      expect(isAndroidStringsFile("/app/src/main/res/values/strings.xml")).toBe(true);
+      expect(isAndroidStringsFile("/app/src/main/res/values-de/strings.xml")).toBe(true);
+      expect(isAndroidStringsFile("/app/src/main/res/layout/main.xml")).toBe(false);
+      expect(isAndroidStringsFile("/app/src/main/res/values/strings_auth.xml")).toBe(true);
+      expect(isAndroidStringsFile("/app/src/main/res/values/colors.xml")).toBe(false);
+      expect(isAndroidStringsFile("/app/src/main/res/values-night/styles.xml")).toBe(false);
+    });
+
+    it("should extract the language from a qualified directory", () => {
+      expect(extractLanguageFromAndroidPath("/res/values-pt-rBR/strings.xml")).toBe("pt-BR");
+      expect(extractLanguageFromAndroidPath("/res/values/strings.xml")).toBeNull();
+    });
+
+    it("should compute target paths from the default values directory", () => {
+      expect(computeAndroidTargetPath("/res/values/strings.xml", "en", "cs")).toBe(
+        "/res/values-cs/strings.xml"
+      );
+    });
+
+    it("should compute target paths from a qualified source directory", () => {
+      expect(computeAndroidTargetPath("/res/values-en/strings.xml", "en", "pt-BR")).toBe(
+        "/res/values-pt-rBR/strings.xml"
+      );
+    });
+  });
+});
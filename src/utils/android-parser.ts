@@ -0,0 +1,287 @@
+/**
+ * Android string resource (strings.xml) parser
+ *
+ * Android keeps localized resources in qualifier-named directories:
+ * - res/values/strings.xml          (default locale)
+ * - res/values-de/strings.xml       (German)
+ * - res/values-pt-rBR/strings.xml   (Brazilian Portuguese)
+ * - res/values-b+sr+Latn/strings.xml (BCP 47 form, API 24+)
+ *
+ * Supported resource types:
+ *   <string name="app_name">My App</string>
+ *   <plurals name="items"><item quantity="one">%d item</item>...</plurals>
+ *   <string-array name="planets"><item>Mercury</item>...</string-array>
+ *
+ * Resources marked translatable="false" are parsed but excluded from the
+ * translatable key set.
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { decodeXmlText, escapeRegExp, getXmlAttribute } from "./xml-common.js";
+
+export type AndroidResourceType = "string" | "plurals" | "string-array";
+
+/**
+ * A single string resource
+ */
+export interface AndroidResource {
+  /** Resource name attribute */
+  name: string;
+  /** Resource element type */
+  type: AndroidResourceType;
+  /** Whether the resource should be translated (translatable="false" -> false) */
+  translatable: boolean;
+  /** Value for <string> resources */
+  value?: string;
+  /** Quantity -> text for <plurals> resources */
+  quantities?: Record<string, string>;
+  /** Items for <string-array> resources */
+  items?: string[];
+  /** XML comment directly preceding the resource, if any */
+  comment?: string;
+}
+
+/**
+ * Parsed content from a strings.xml file
+ */
+export interface AndroidStringsContent {
+  /** All resources in document order */
+  resources: AndroidResource[];
+  /** Value of tools:locale on the <resources> root, if declared */
+  toolsLocale: string | null;
+}
+
+/** Legacy ISO 639 codes Android still uses for some languages. */
+const LEGACY_LANGUAGE_CODES: Record<string, string> = {
+  in: "id",
+  iw: "he",
+  ji: "yi",
+};
+
+/**
+ * Check if a file is an Android string resource file (res/values*\/strings*.xml).
+ * colors.xml, dimens.xml and styles.xml in the same directories hold no
+ * translatable text.
+ */
+export function isAndroidStringsFile(filePath: string): boolean {
+  return /(?:^|\/)values(?:-[^/]+)?\/strings[^/]*\.xml$/i.test(filePath);
+}
+
+/**
+ * Check if a string resource file lives in the unqualified (default locale)
+ * values directory
+ */
+export function isAndroidDefaultValuesFile(filePath: string): boolean {
+  return /(?:^|\/)values\/strings[^/]*\.xml$/i.test(filePath);
+}
+
+/**
+ * Convert an Android locale qualifier to a BCP 47 language code
+ * - "de" -> "de"
+ * - "pt-rBR" -> "pt-BR"
+ * - "b+sr+Latn" -> "sr-Latn"
+ *
+ * @returns Language code or null if the qualifier is not a locale (e.g. "night", "v21")
+ */
+export function androidQualifierToLanguage(qualifier: string): string | null {
+  if (qualifier.startsWith("b+")) {
+    const parts = qualifier.slice(2).split("+");
+    if (!/^[a-z]{2,3}$/.test(parts[0])) return null;
+    parts[0] = LEGACY_LANGUAGE_CODES[parts[0]] ?? parts[0];
+    return parts.join("-");
+  }
+
+  const match = qualifier.match(/^([a-z]{2,3})(?:-r([A-Z]{2}))?$/);
+  if (!match) return null;
+  const lang = LEGACY_LANGUAGE_CODES[match[1]] ?? match[1];
+  return match[2] ? `${lang}-${match[2]}` : lang;
+}
+
+/**
+ * Convert a BCP 47 language code to an Android locale qualifier
+ * - "de" -> "de"
+ * - "pt-BR" -> "pt-rBR"
+ * - "zh-Hant" -> "b+zh+Hant"
+ */
+export function languageToAndroidQualifier(lang: string): string {
+  const parts = lang.split("-");
+  if (parts.length === 1) return lang;
+  if (parts.length === 2 && /^[A-Z]{2}$/.test(parts[1])) {
+    return `${parts[0]}-r${parts[1]}`;
+  }
+  return `b+${parts.join("+")}`;
+}
+
+/**
+ * Extract the language from an Android resource path
+ *
+ * @returns Language code, or null for the default values directory and
+ *          non-locale qualifiers (values-night, values-v21, ...)
+ */
+export function extractLanguageFromAndroidPath(filePath: string): string | null {
+  const match = filePath.match(/(?:^|\/)values-([^/]+)\/[^/]+\.xml$/i);
+  if (!match) return null;
+  return androidQualifierToLanguage(match[1]);
+}
+
+/**
+ * Compute the target resource path for a new language:
+ * - res/values/strings.xml -> res/values-cs/strings.xml
+ * - res/values-en/strings.xml -> res/values-pt-rBR/strings.xml
+ *
+ * @returns Target path or null if the source is not an Android value resource
+ */
+export function computeAndroidTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const target = `values-${languageToAndroidQualifier(targetLang)}`;
+
+  if (isAndroidDefaultValuesFile(sourcePath)) {
+    return sourcePath.replace(/(^|\/)values\/([^/]+\.xml)$/i, `$1${target}/$2`);
+  }
+
+  const source = `values-${languageToAndroidQualifier(sourceLang)}`;
+  const pattern = new RegExp(`(^|/)${escapeRegExp(source)}/([^/]+\\.xml)$`);
+  if (pattern.test(sourcePath)) {
+    return sourcePath.replace(pattern, `$1${target}/$2`);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a strings.xml file content
+ *
+ * @param content Raw XML content
+ * @returns Parsed resources (empty if the file has no <resources> root)
+ */
+export function parseAndroidStringsContent(content: string): AndroidStringsContent {
+  const resources: AndroidResource[] = [];
+
+  const rootMatch = content.match(/<resources\b([^>]*)>([\s\S]*)<\/resources>/);
+  if (!rootMatch) {
+    return { resources, toolsLocale: null };
+  }
+
+  const toolsLocale = getXmlAttribute(rootMatch[1], "tools:locale");
+  const body = rootMatch[2];
+
+  const elementRegex =
+    /<!--([\s\S]*?)-->|<(string-array|string|plurals)(?=[\s>/])([^>]*?)(?:\/>|>([\s\S]*?)<\/\2>)/g;
+  let pendingComment: string | undefined;
+  let match: RegExpExecArray | null;
+
+  while ((match = elementRegex.exec(body)) !== null) {
+    if (match[1] !== undefined) {
+      pendingComment = match[1].trim();
+      continue;
+    }
+
+    const type = match[2] as AndroidResourceType;
+    const attrs = match[3];
+    const inner = match[4] ?? "";
+    const name = getXmlAttribute(attrs, "name");
+    if (!name) {
+      pendingComment = undefined;
+      continue;
+    }
+
+    const resource: AndroidResource = {
+      name,
+      type,
+      translatable: getXmlAttribute(attrs, "translatable") !== "false",
+      comment: pendingComment,
+    };
+    pendingComment = undefined;
+
+    if (type === "string") {
+      resource.value = decodeAndroidString(inner);
+    } else if (type === "plurals") {
+      resource.quantities = {};
+      for (const item of inner.matchAll(/<item\b([^>]*)>([\s\S]*?)<\/item>/g)) {
+        const quantity = getXmlAttribute(item[1], "quantity");
+        if (quantity) {
+          resource.quantities[quantity] = decodeAndroidString(item[2]);
+        }
+      }
+    } else {
+      resource.items = [...inner.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/g)].map((item) =>
+        decodeAndroidString(item[1])
+      );
+    }
+
+    resources.push(resource);
+  }
+
+  return { resources, toolsLocale };
+}
+
+/**
+ * Translatable key/value pairs. Strings are keyed by name, plurals by name
+ * (valued with their "other" form, falling back to the first quantity) and
+ * array items as `name.index`.
+ */
+export function extractAndroidEntries(parsed: AndroidStringsContent): KeyValue[] {
+  const entries: KeyValue[] = [];
+
+  for (const resource of parsed.resources) {
+    if (!resource.translatable) continue;
+
+    if (resource.type === "string") {
+      entries.push({ key: resource.name, value: resource.value ?? "" });
+    } else if (resource.type === "plurals") {
+      const quantities = resource.quantities ?? {};
+      const value = quantities.other ?? Object.values(quantities)[0];
+      if (value !== undefined) {
+        entries.push({ key: resource.name, value });
+      }
+    } else {
+      (resource.items ?? []).forEach((item, i) => {
+        entries.push({ key: `${resource.name}.${i}`, value: item });
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Decode a resource's text: CDATA, XML entities, Android backslash escapes
+ * and surrounding double quotes. Inline markup (<b>, <xliff:g>) is kept.
+ */
+function decodeAndroidString(raw: string): string {
+  let text = raw.trim();
+
+  const cdata = text.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+  if (cdata) {
+    text = cdata[1];
+  } else {
+    text = decodeXmlText(text);
+  }
+
+  // A fully quoted value preserves whitespace and apostrophes verbatim
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    text = text.slice(1, -1);
+  }
+
+  return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, ch: string) => {
+    if (ch.length === 5) return String.fromCharCode(parseInt(ch.slice(1), 16));
+    switch (ch) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "'":
+      case '"':
+      case "@":
+      case "?":
+      case "\\":
+        return ch;
+      default:
+        return "\\" + ch;
+    }
+  });
+}
+
@@ -11,6 +11,8 @@
  * - de.lproj/Localizable.strings
  */
 
+import { escapeRegExp } from "./xml-common.js";
+
 export type AppleFileType = "strings" | "xcstrings" | "stringsdict";
 
 /**
@@ -130,9 +132,3 @@ export function getAppleFileExtension(filePath: string): string {
   }
 }
 
-/**
- * Escape special regex characters in a string
- */
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
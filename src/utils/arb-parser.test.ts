@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { isArbFile, getLocaleFileExtension } from "./arb-parser.js";
+import {
+  computeArbTargetPath,
+  getArbLocale,
+  getLocaleFileExtension,
+  isArbFile,
+  parseArbMessages,
+} from "./arb-parser.js";
 
 describe("ARB Parser", () => {
   describe("isArbFile", () => {
@@ -22,12 +28,64 @@ describe("ARB Parser", () => {
     });
   });
 
+  describe("parseArbMessages", () => {
+    it("should skip @key metadata and @@ file-level entries", () => {
+      const content = JSON.stringify({
+        "@@locale": "en",
+        "@@last_modified": "2024-01-01",
+        greeting: "Hello {name}",
+        "@greeting": { description: "Greeting", placeholders: { name: { type: "String" } } },
+        title: "Shop",
+      });
+      expect(parseArbMessages(content)).toEqual({ greeting: "Hello {name}", title: "Shop" });
+    });
+
+    it("should return null for invalid JSON", () => {
+      expect(parseArbMessages("{ not json")).toBeNull();
+    });
+  });
+
+  describe("getArbLocale", () => {
+    it("should prefer @@locale over the file name", () => {
+      expect(getArbLocale("lib/l10n/app_en.arb", '{ "@@locale": "pt_BR", "a": "A" }')).toBe("pt-BR");
+    });
+
+    it("should read underscore locale suffixes with script and region", () => {
+      expect(getArbLocale("lib/l10n/app_pt_BR.arb", "{}")).toBe("pt-BR");
+      expect(getArbLocale("lib/l10n/my_app_zh_Hant_TW.arb", "{}")).toBe("zh-Hant-TW");
+      expect(getArbLocale("lib/l10n/strings.arb", "{}")).toBeNull();
+    });
+  });
+
+  describe("computeArbTargetPath", () => {
+    it("should keep the template's prefix and write the locale with underscores", () => {
+      expect(computeArbTargetPath("/p/lib/l10n/app_en.arb", "en", "pt-BR")).toBe("/p/lib/l10n/app_pt_BR.arb");
+      expect(computeArbTargetPath("/p/l10n/intl_en_US.arb", "en-US", "de")).toBe("/p/l10n/intl_de.arb");
+      expect(computeArbTargetPath("/p/l10n/en.arb", "en", "zh-Hant")).toBe("/p/l10n/zh_Hant.arb");
+    });
+
+    it("should return null when the file name doesn't carry the locale", () => {
+      expect(computeArbTargetPath("/p/l10n/en/strings.arb", "en", "de")).toBeNull();
+    });
+  });
+
   describe("getLocaleFileExtension", () => {
     it("should return .arb for ARB files", () => {
       expect(getLocaleFileExtension("app_en.arb")).toBe(".arb");
       expect(getLocaleFileExtension("file.ARB")).toBe(".arb");
     });
 
+    it("should return the YAML extension for YAML files", () => {
+      expect(getLocaleFileExtension("config/locales/en.yml")).toBe(".yml");
+      expect(getLocaleFileExtension("translations/messages.en.yaml")).toBe(".yaml");
+    });
+
+    it("should return the module extension for JS/TS locale modules", () => {
+      expect(getLocaleFileExtension("src/locales/en.ts")).toBe(".ts");
+      expect(getLocaleFileExtension("locales/de.mjs")).toBe(".mjs");
+      expect(getLocaleFileExtension("types/en.d.ts")).toBe(".json");
+    });
+
     it("should return .json for non-ARB files", () => {
       expect(getLocaleFileExtension("en.json")).toBe(".json");
       expect(getLocaleFileExtension("file.txt")).toBe(".json");
@@ -2,12 +2,15 @@
  * ARB (Application Resource Bundle) file helpers.
  *
  * ARB files are JSON-based localization files used by Flutter. Since the pivot,
- * all ARB parsing/merging happens server-side (langapi-api's parsers) — the MCP
- * client only needs to recognize ARB files and pick the right extension. The
- * former parse/reconstruct/merge helpers were dead code and have been removed
- * (finding #19).
+ * all ARB merging for sync happens server-side (langapi-api's parsers) — the
+ * MCP client only needs to recognize ARB files, pick the right extension and
+ * read the messages for local status. The former parse/reconstruct/merge
+ * helpers were dead code and have been removed (finding #19).
  */
 
+import { isJsModuleFile } from "./js-module-parser.js";
+import { parseJsonSafe } from "./json-parser.js";
+
 /**
  * Check if a file is an ARB file based on extension (case-insensitive)
  */
@@ -16,9 +19,89 @@ export function isArbFile(filePath: string): boolean {
 }
 
 /**
- * Get the file extension for locale files (.json or .arb)
+ * Read the translatable messages of an ARB file, skipping `@key` metadata
+ * and `@@` file-level entries (`@@locale`, `@@last_modified`)
+ *
+ * @returns Key -> message, or null if the content isn't a JSON object
+ */
+export function parseArbMessages(content: string): Record<string, string> | null {
+  const data = parseJsonSafe(content);
+  if (!data) return null;
+  const messages: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith("@") || typeof value !== "string") continue;
+    messages[key] = value;
+  }
+  return messages;
+}
+
+/**
+ * Placeholder names each message declares in its `@key.placeholders`
+ * metadata. Messages without a `placeholders` object are left out.
+ */
+export function parseArbPlaceholderNames(content: string): Map<string, string[]> {
+  const names = new Map<string, string[]>();
+  const data = parseJsonSafe(content);
+  if (!data) return names;
+  for (const [key, value] of Object.entries(data)) {
+    if (!key.startsWith("@") || key.startsWith("@@")) continue;
+    const placeholders = (value as { placeholders?: unknown } | null)?.placeholders;
+    if (typeof placeholders === "object" && placeholders !== null) {
+      names.set(key.slice(1), Object.keys(placeholders));
+    }
+  }
+  return names;
+}
+
+/** Locale suffix of an ARB file name: app_de.arb, app_pt_BR.arb, app_zh_Hant_TW.arb */
+const ARB_LOCALE_SUFFIX = /_([a-z]{2,3}(?:_[A-Z][a-z]{3})?(?:_[A-Z]{2})?)\.arb$/;
+
+/**
+ * Locale of an ARB file the way `flutter gen-l10n` resolves it: `@@locale`,
+ * else the file name's suffix (app_pt_BR.arb -> pt-BR)
+ */
+export function getArbLocale(filePath: string, content: string): string | null {
+  const declared = parseJsonSafe(content)?.["@@locale"];
+  if (typeof declared === "string" && declared !== "") return declared.replace(/_/g, "-");
+  return extractLanguageFromArbPath(filePath);
+}
+
+/**
+ * Extract the locale suffix of an ARB file name (app_pt_BR.arb -> pt-BR)
+ */
+export function extractLanguageFromArbPath(filePath: string): string | null {
+  const match = filePath.match(ARB_LOCALE_SUFFIX);
+  return match ? match[1].replace(/_/g, "-") : null;
+}
+
+/**
+ * Compute the ARB file for a new language: the source (template) file's
+ * prefix followed by the locale in gen-l10n's underscore form
+ * (app_en.arb -> app_pt_BR.arb, intl_en_US.arb -> intl_de.arb, en.arb -> de.arb)
+ *
+ * @returns Target path or null if the file name doesn't carry the locale
+ */
+export function computeArbTargetPath(sourcePath: string, sourceLang: string, targetLang: string): string | null {
+  const dir = sourcePath.slice(0, sourcePath.lastIndexOf("/") + 1);
+  const fileName = sourcePath.slice(dir.length);
+  const target = targetLang.replace(/-/g, "_");
+
+  const suffix = fileName.match(ARB_LOCALE_SUFFIX);
+  if (suffix) return `${dir}${fileName.slice(0, suffix.index! + 1)}${target}.arb`;
+  if (fileName === `${sourceLang.replace(/-/g, "_")}.arb` || fileName === `${sourceLang}.arb`) {
+    return `${dir}${target}.arb`;
+  }
+  return null;
+}
+
+/**
+ * Get the file extension for locale files (.arb, .yml/.yaml, .ts/.js
+ * modules, otherwise .json)
  */
 export function getLocaleFileExtension(filePath: string): string {
   if (isArbFile(filePath)) return ".arb";
+  const yamlExt = filePath.match(/\.ya?ml$/i);
+  if (yamlExt) return yamlExt[0];
+  if (isJsModuleFile(filePath)) return filePath.match(/\.[^.]+$/)![0];
   return ".json";
 }
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseFluentContent,
+  extractFluentEntries,
+  findFluentSelectors,
+  formatFluentMessage,
+  isFluentFile,
+} from "./fluent-parser.js";
+
+describe("Fluent Parser", () => {
+  describe("parseFluentContent", () => {
+    it("should parse messages, terms and attributes", () => {
+      const content = `-brand-name = Firefox
+hello = Hello, { $name }!
+login-input = Predefined value
+    .placeholder = email@example.com
+    .title = Type your login email
+`;
+      const result = parseFluentContent(content);
+      expect(result.messages.map((m) => m.id)).toEqual(["-brand-name", "hello", "login-input"]);
+      expect(result.messages[2]).toMatchObject({
+        value: "Predefined value",
+        attributes: [
+          { name: "placeholder", value: "email@example.com" },
+          { name: "title", value: "Type your login email" },
+        ],
+        startLine: 2,
+        endLine: 4,
+      });
+    });
+
+    it("should treat a message without a value as attribute-only", () => {
+      const result = parseFluentContent("close-button =\n    .aria-label = Close\n");
+      expect(result.messages[0]).toMatchObject({ value: null, attributes: [{ name: "aria-label", value: "Close" }] });
+    });
+
+    it("should join multiline patterns and keep blank lines inside them", () => {
+      const content = "about =\n    First line\n\n    Second line\n\nnext = x\n";
+      const result = parseFluentContent(content);
+      expect(result.messages[0].value).toBe("First line\n\nSecond line");
+      expect(result.messages[0].endLine).toBe(3);
+      expect(result.messages[1]).toMatchObject({ id: "next", startLine: 5 });
+    });
+
+    it("should not mistake variant text starting with a dot for an attribute", () => {
+      const content = `files =
+    { $count ->
+        [one] One file
+       *[other] { $count } files
+    }
+    .title = Files
+`;
+      const result = parseFluentContent(content);
+      expect(result.messages[0].value).toBe("{ $count ->\n    [one] One file\n   *[other] { $count } files\n}");
+      expect(result.messages[0].attributes).toEqual([{ name: "title", value: "Files" }]);
+    });
+
+    it("should keep a select expression's closing brace at column 0", () => {
+      const content = `emails =
+    { $count ->
+        [one] One email
+       *[other] { $count } emails
+}
+    .title = Inbox
+next = x
+`;
+      const result = parseFluentContent(content);
+      expect(result.messages[0]).toMatchObject({
+        value: "{ $count ->\n    [one] One email\n   *[other] { $count } emails\n}",
+        attributes: [{ name: "title", value: "Inbox" }],
+        endLine: 5,
+      });
+      expect(result.messages[1]).toMatchObject({ id: "next", startLine: 6 });
+      expect(findFluentSelectors(result.messages[0].value!)[0].variants).toEqual(["one", "other"]);
+    });
+
+    it("should attach single-hash comments only", () => {
+      const content = `### Resource comment
+
+## Group comment
+# Shown on the home page
+# Keep it short
+hello = Hello
+bye = Bye
+`;
+      const result = parseFluentContent(content);
+      expect(result.messages[0].comment).toBe("Shown on the home page\nKeep it short");
+      expect(result.messages[1].comment).toBeUndefined();
+    });
+  });
+
+  describe("extractFluentEntries", () => {
+    it("should return one key per message value and attribute", () => {
+      const content = `login-input = Predefined value
+    .placeholder = email@example.com
+emails =
+    { $count ->
+        [one] You have one new email.
+       *[other] You have { $count } new emails.
+    }
+`;
+      const entries = extractFluentEntries(parseFluentContent(content));
+      expect(entries.map((e) => e.key)).toEqual(["login-input", "login-input.placeholder", "emails"]);
+      expect(entries[2].selectors).toEqual([
+        { selector: "$count", variants: ["one", "other"], defaultVariant: "other" },
+      ]);
+    });
+  });
+
+  describe("findFluentSelectors", () => {
+    it("should report nested selectors and ignore brackets inside variant text", () => {
+      const pattern = `{ $gender ->
+    [male] { $count ->
+        [one] He has [one] item
+       *[other] He has items
+    }
+   *[other] They have items
+}`;
+      expect(findFluentSelectors(pattern)).toEqual([
+        { selector: "$gender", variants: ["male", "other"], defaultVariant: "other" },
+        { selector: "$count", variants: ["one", "other"], defaultVariant: "other" },
+      ]);
+    });
+
+    it("should skip string literals in expressions", () => {
+      expect(findFluentSelectors('Literal { "->" } text')).toEqual([]);
+      expect(findFluentSelectors("{ NUMBER($n) ->\n *[other] x\n}")[0].selector).toBe("NUMBER($n)");
+    });
+  });
+
+  describe("formatFluentMessage", () => {
+    it("should write multiline patterns as indented blocks", () => {
+      expect(
+        formatFluentMessage({
+          id: "emails",
+          value: "{ $count ->\n    [one] One\n   *[other] Many\n}",
+          attributes: [{ name: "title", value: "Mail" }],
+        })
+      ).toBe("emails =\n    { $count ->\n        [one] One\n       *[other] Many\n    }\n    .title = Mail");
+    });
+
+    it("should round-trip through the parser", () => {
+      const message = { id: "about", value: "First\n\nSecond", attributes: [{ name: "hint", value: "A\nB" }] };
+      const parsed = parseFluentContent(formatFluentMessage(message)).messages[0];
+      expect(parsed).toMatchObject(message);
+    });
+  });
+
+  describe("isFluentFile", () => {
+    it("should match .ftl files", () => {
+      expect(isFluentFile("locales/en-US/main.ftl")).toBe(true);
+      expect(isFluentFile("locales/en-US/main.json")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Mozilla Fluent (.ftl) parser
+ *
+ * Fluent projects keep one directory per locale:
+ * - locales/en-US/main.ftl
+ * - locales/de/main.ftl
+ *
+ * Syntax:
+ *   # Comment for the next message
+ *   hello = Hello, { $name }!
+ *   login-input = Predefined value
+ *       .placeholder = email@example.com
+ *       .title = Type your login email
+ *   emails =
+ *       { $count ->
+ *           [one] You have one new email.
+ *          *[other] You have { $count } new emails.
+ *       }
+ *   -brand-name = Firefox
+ *
+ * Each message value and each attribute is one translatable key
+ * (`login-input`, `login-input.placeholder`); terms keep their leading dash.
+ * Select expression variants stay inside the pattern and are reported
+ * separately, so a plural message counts as one key, not one per variant.
+ */
+
+import type { KeyValue } from "../api/types.js";
+
+/**
+ * A message attribute (`.placeholder = ...`)
+ */
+export interface FluentAttribute {
+  name: string;
+  value: string;
+}
+
+/**
+ * A message or term with its line span in the file
+ */
+export interface FluentMessage {
+  /** Message identifier; terms start with "-" */
+  id: string;
+  /** Value pattern, or null for attribute-only messages */
+  value: string | null;
+  /** Attributes in document order */
+  attributes: FluentAttribute[];
+  /** `#` comment directly preceding the message */
+  comment?: string;
+  /** First line of the message (0-based) */
+  startLine: number;
+  /** Last line of the message (0-based, inclusive) */
+  endLine: number;
+}
+
+/**
+ * Parsed content from a .ftl file
+ */
+export interface FluentContent {
+  /** Messages and terms in document order */
+  messages: FluentMessage[];
+}
+
+/**
+ * A select expression inside a pattern
+ */
+export interface FluentSelector {
+  /** Selector expression ($count, NUMBER($n), -brand.gender) */
+  selector: string;
+  /** Variant keys in document order */
+  variants: string[];
+  /** The default (`*`) variant key */
+  defaultVariant: string | null;
+}
+
+/**
+ * A translatable Fluent key
+ */
+export interface FluentEntry extends KeyValue {
+  /** Comment of the message the key belongs to */
+  comment?: string;
+  /** Select expressions in the pattern */
+  selectors: FluentSelector[];
+}
+
+const MESSAGE_START = /^(-?[a-zA-Z][\w-]*)[ \t]*=[ \t]?(.*)$/;
+const ATTRIBUTE_START = /^\.([a-zA-Z][\w-]*)[ \t]*=[ \t]?(.*)$/;
+
+/**
+ * Check if a file is a Fluent resource
+ */
+export function isFluentFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".ftl");
+}
+
+/**
+ * Parse a .ftl file content
+ *
+ * Handles:
+ * - Messages, terms and their `.attribute`s
+ * - Multiline patterns (indented continuation lines, common indent removed)
+ * - Select expressions spanning several lines
+ * - `#` message comments; `##`/`###` group and resource comments are ignored
+ *
+ * @param content Raw file content
+ * @returns Messages with their line spans
+ */
+export function parseFluentContent(content: string): FluentContent {
+  const messages: FluentMessage[] = [];
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let pendingComment: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("#")) {
+      const commentMatch = line.match(/^(#{1,3})(?: (.*))?$/);
+      if (commentMatch && commentMatch[1] === "#") {
+        pendingComment.push(commentMatch[2] ?? "");
+      } else {
+        pendingComment = [];
+      }
+      continue;
+    }
+
+    const match = line.match(MESSAGE_START);
+    if (!match) {
+      pendingComment = [];
+      continue;
+    }
+
+    // Continuation lines are indented, except the `}` closing an open
+    // placeable, which may start at column 0; blank lines belong to the
+    // message only when more continuation lines follow
+    const start = i;
+    let end = i;
+    let depth = braceDepth(match[2]);
+    for (let j = i + 1; j < lines.length; j++) {
+      if (/^[ \t]+\S/.test(lines[j]) || (depth > 0 && lines[j].startsWith("}"))) {
+        end = j;
+        depth += braceDepth(lines[j]);
+      } else if (lines[j].trim() !== "") {
+        break;
+      }
+    }
+    i = end;
+
+    const message = buildMessage(match[1], match[2], lines.slice(start + 1, end + 1));
+    messages.push({
+      ...message,
+      comment: pendingComment.length > 0 ? pendingComment.join("\n") : undefined,
+      startLine: start,
+      endLine: end,
+    });
+    pendingComment = [];
+  }
+
+  return { messages };
+}
+
+/**
+ * Split a message body into its value and attributes
+ */
+function buildMessage(
+  id: string,
+  inline: string,
+  continuation: string[]
+): { id: string; value: string | null; attributes: FluentAttribute[] } {
+  const parts: Array<{ name: string | null; inline: string; lines: string[] }> = [
+    { name: null, inline, lines: [] },
+  ];
+  let depth = braceDepth(inline);
+
+  for (const line of continuation) {
+    const trimmed = line.trim();
+    const attribute = depth === 0 ? trimmed.match(ATTRIBUTE_START) : null;
+    if (attribute) {
+      parts.push({ name: attribute[1], inline: attribute[2], lines: [] });
+      depth = braceDepth(attribute[2]);
+      continue;
+    }
+    parts[parts.length - 1].lines.push(line);
+    depth += braceDepth(line);
+  }
+
+  const [valuePart, ...attributeParts] = parts;
+  const value = joinPattern(valuePart.inline, valuePart.lines);
+  return {
+    id,
+    value: value === "" ? null : value,
+    attributes: attributeParts.map((p) => ({ name: p.name!, value: joinPattern(p.inline, p.lines) })),
+  };
+}
+
+/**
+ * Join a pattern's inline text and continuation lines, removing the
+ * continuation lines' common indent
+ */
+function joinPattern(inline: string, lines: string[]): string {
+  // An unindented closing `}` doesn't count towards the common indent
+  const indents = lines
+    .filter((l) => l.trim() !== "" && !l.startsWith("}"))
+    .map((l) => l.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  const block = lines.map((l) => l.replace(/^[ \t]*/, (indent) => indent.slice(common)).replace(/[ \t]+$/, ""));
+
+  const all = inline.trim() === "" ? block : [inline.replace(/[ \t]+$/, ""), ...block];
+  return all.join("\n").replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Net number of placeables opened on a line
+ */
+function braceDepth(text: string): number {
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === "{") depth++;
+    else if (ch === "}") depth--;
+  }
+  return depth;
+}
+
+/**
+ * Find the select expressions in a pattern
+ *
+ * @param pattern Message or attribute value
+ * @returns Selectors with their variant keys, outermost first
+ */
+export function findFluentSelectors(pattern: string): FluentSelector[] {
+  const selectors: FluentSelector[] = [];
+  // One frame per open placeable; a frame becomes a select after `->`
+  const frames: Array<{ start: number; select: FluentSelector | null }> = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const frame = frames[frames.length - 1];
+
+    if (ch === "{") {
+      frames.push({ start: i + 1, select: null });
+    } else if (ch === "}") {
+      frames.pop();
+    } else if (!frame) {
+      continue;
+    } else if (!frame.select && ch === '"') {
+      // String literal inside an expression
+      i++;
+      while (i < pattern.length && pattern[i] !== '"') {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+    } else if (!frame.select && ch === "-" && pattern[i + 1] === ">") {
+      frame.select = { selector: pattern.slice(frame.start, i).trim(), variants: [], defaultVariant: null };
+      selectors.push(frame.select);
+      i++;
+    } else if (frame.select && ch === "[") {
+      const lineStart = pattern.lastIndexOf("\n", i - 1) + 1;
+      const prefix = pattern.slice(lineStart, i).trim();
+      if (prefix !== "" && prefix !== "*") continue;
+      const close = pattern.indexOf("]", i);
+      if (close === -1) continue;
+      const key = pattern.slice(i + 1, close).trim();
+      frame.select.variants.push(key);
+      if (prefix === "*") frame.select.defaultVariant = key;
+      i = close;
+    }
+  }
+
+  return selectors;
+}
+
+/**
+ * Translatable entries: one per message value and one per attribute
+ * (`id.attribute`)
+ */
+export function extractFluentEntries(parsed: FluentContent): FluentEntry[] {
+  const entries: FluentEntry[] = [];
+  for (const message of parsed.messages) {
+    if (message.value !== null) {
+      entries.push({
+        key: message.id,
+        value: message.value,
+        comment: message.comment,
+        selectors: findFluentSelectors(message.value),
+      });
+    }
+    for (const attribute of message.attributes) {
+      entries.push({
+        key: `${message.id}.${attribute.name}`,
+        value: attribute.value,
+        comment: message.comment,
+        selectors: findFluentSelectors(attribute.value),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Serialize a message (value first, then attributes). Multiline patterns
+ * are written as indented blocks.
+ */
+export function formatFluentMessage(message: Pick<FluentMessage, "id" | "value" | "attributes">): string {
+  const lines: string[] = [];
+  const pattern = (prefix: string, value: string, indent: string) => {
+    if (!value.includes("\n")) {
+      lines.push(`${prefix} = ${value}`);
+      return;
+    }
+    lines.push(`${prefix} =`);
+    for (const line of value.split("\n")) {
+      lines.push(line === "" ? "" : `${indent}${line}`);
+    }
+  };
+
+  if (message.value !== null) {
+    pattern(message.id, message.value, "    ");
+  } else {
+    lines.push(`${message.id} =`);
+  }
+  for (const attribute of message.attributes) {
+    pattern(`    .${attribute.name}`, attribute.value, "        ");
+  }
+  return lines.join("\n");
+}
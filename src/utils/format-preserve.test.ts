@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { applyJsonFormat, detectJsonFormat, stringifyWithFormat } from "./format-preserve.js";
+
+describe("Format Preserve", () => {
+  describe("detectJsonFormat", () => {
+    it("should detect tabs, trailing newline, flat keys and key order", () => {
+      const content = '{\n\t"b.title": "B",\n\t"a.title": "A"\n}\n';
+      expect(detectJsonFormat(content, JSON.parse(content))).toEqual({
+        indent: "\t",
+        trailingNewline: true,
+        keyStructure: "flat",
+        keyOrder: ["b.title", "a.title"],
+      });
+    });
+
+    it("should flatten the key order of nested files", () => {
+      const content = '{\n    "nav": {\n        "home": "Home"\n    },\n    "title": "Shop"\n}';
+      expect(detectJsonFormat(content, JSON.parse(content))).toMatchObject({
+        indent: "    ",
+        trailingNewline: false,
+        keyStructure: "nested",
+        keyOrder: ["nav.home", "title"],
+      });
+    });
+  });
+
+  describe("stringifyWithFormat", () => {
+    it("should reorder nested keys and append unknown ones", () => {
+      const result = stringifyWithFormat(
+        { title: "Shop", nav: { back: "Back", home: "Home" } },
+        { indent: "  ", trailingNewline: false, keyStructure: "nested", keyOrder: ["nav.home", "title"] }
+      );
+      expect(result).toBe('{\n  "nav": {\n    "home": "Home",\n    "back": "Back"\n  },\n  "title": "Shop"\n}');
+    });
+  });
+
+  describe("applyJsonFormat", () => {
+    const serverOutput = JSON.stringify({ app: { name: "Name", tagline: "Tagline" }, title: "Title" }, null, 2) + "\n";
+
+    it("should keep the reference's indentation and missing trailing newline", () => {
+      const reference = '{\n    "app": {\n        "name": "Alt"\n    }\n}';
+      expect(applyJsonFormat(serverOutput, reference)).toBe(
+        '{\n    "app": {\n        "name": "Name",\n        "tagline": "Tagline"\n    },\n    "title": "Title"\n}'
+      );
+    });
+
+    it("should keep the reference's key order, with new keys after it", () => {
+      const reference = '{\n  "title": "Alt",\n  "app": {\n    "tagline": "Alt"\n  }\n}\n';
+      expect(Object.keys(JSON.parse(applyJsonFormat(serverOutput, reference)))).toEqual(["title", "app"]);
+      expect(Object.keys(JSON.parse(applyJsonFormat(serverOutput, reference)).app)).toEqual(["tagline", "name"]);
+    });
+
+    it("should flatten output for a flat reference", () => {
+      const reference = '{\n\t"app.name": "Alt"\n}\n';
+      expect(applyJsonFormat(serverOutput, reference)).toBe(
+        '{\n\t"app.name": "Name",\n\t"app.tagline": "Tagline",\n\t"title": "Title"\n}\n'
+      );
+    });
+
+    it("should nest flat output for a nested reference", () => {
+      const flat = '{\n  "app.name": "Name",\n  "title": "Title"\n}\n';
+      const reference = '{\n  "app": {\n    "name": "Alt"\n  }\n}\n';
+      expect(JSON.parse(applyJsonFormat(flat, reference))).toEqual({ app: { name: "Name" }, title: "Title" });
+    });
+
+    it("should not restructure against an empty or mixed reference", () => {
+      const flat = '{\n  "app.name": "Name"\n}\n';
+      expect(applyJsonFormat(flat, "{}\n")).toBe(flat);
+      const mixed = '{\n  "app.name": "Alt",\n  "nav": {\n    "home": "Home"\n  }\n}\n';
+      expect(JSON.parse(applyJsonFormat(serverOutput, mixed)).app).toEqual({ name: "Name", tagline: "Tagline" });
+    });
+
+    it("should return content unchanged when either side isn't a JSON object", () => {
+      expect(applyJsonFormat("not json", "{}")).toBe("not json");
+      expect(applyJsonFormat(serverOutput, "[]")).toBe(serverOutput);
+    });
+  });
+});
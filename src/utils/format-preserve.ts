@@ -2,6 +2,8 @@
  * Utilities for detecting and preserving JSON file formatting
  */
 
+import { flattenJson, unflattenJson } from "./json-parser.js";
+
 export interface JsonFormat {
   /** Indentation string (spaces or tab) */
   indent: string;
@@ -210,3 +212,35 @@ export function parseJsonWithFormat(content: string): {
     return null;
   }
 }
+
+/**
+ * Rewrite JSON to follow the formatting of a reference file (usually the
+ * existing file being overwritten): indentation, trailing newline, flat or
+ * nested key structure and key order. Keys the reference doesn't have go
+ * after the known ones, in the order they appear in `content`.
+ *
+ * @returns The reformatted JSON, or `content` unchanged if either side isn't a JSON object
+ */
+export function applyJsonFormat(content: string, referenceContent: string): string {
+  const parsed = parseJsonWithFormat(content);
+  const reference = parseJsonWithFormat(referenceContent);
+  if (!parsed || !reference) return content;
+
+  let data = parsed.data;
+  const referenceValues = Object.values(reference.data);
+  const hasObjects = (values: unknown[]) => values.some((v) => typeof v === "object" && v !== null);
+  if (reference.format.keyStructure === "flat" && !hasObjects(referenceValues) && hasObjects(Object.values(data))) {
+    // nested -> flat, only when the reference is flat all the way through
+    data = Object.fromEntries(flattenJson(data).map((e) => [e.key, e.value]));
+  } else if (
+    reference.format.keyStructure === "nested" &&
+    hasObjects(referenceValues) &&
+    Object.keys(reference.data).every((key) => !key.includes(".")) &&
+    parsed.format.keyStructure === "flat"
+  ) {
+    // flat -> nested
+    data = unflattenJson(flattenJson(data));
+  }
+
+  return stringifyWithFormat(data, reference.format);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFormatJsShape,
+  parseFormatJsContent,
+  extractFormatJsEntries,
+  printFormatJsAst,
+} from "./formatjs-parser.js";
+
+describe("FormatJS Parser", () => {
+  describe("getFormatJsShape", () => {
+    it("should recognize extracted and compiled messages", () => {
+      expect(getFormatJsShape({ a: { defaultMessage: "A", description: "d" } })).toBe("extracted");
+      expect(getFormatJsShape({ a: [{ type: 0, value: "A" }] })).toBe("compiled");
+    });
+
+    it("should leave ordinary JSON alone", () => {
+      expect(getFormatJsShape({ a: "A" })).toBeNull();
+      expect(getFormatJsShape({ nav: { home: "Home" } })).toBeNull();
+      expect(getFormatJsShape({ a: { defaultMessage: "A" }, b: "B" })).toBeNull();
+      expect(getFormatJsShape({})).toBeNull();
+    });
+  });
+
+  describe("parseFormatJsContent", () => {
+    it("should use defaultMessage as the text and keep descriptions as context", () => {
+      const parsed = parseFormatJsContent(
+        JSON.stringify({
+          "home.title": { defaultMessage: "Hello, {name}!", description: "Home page" },
+          "home.cta": { defaultMessage: "Start", description: { context: "Button", maxLength: 10 } },
+        })
+      )!;
+      expect(parsed.shape).toBe("extracted");
+      expect(extractFormatJsEntries(parsed)).toEqual([
+        { key: "home.title", value: "Hello, {name}!" },
+        { key: "home.cta", value: "Start" },
+      ]);
+      expect(parsed.messages[1].description).toBe('{"context":"Button","maxLength":10}');
+    });
+
+    it("should print compiled ASTs back to ICU messages", () => {
+      const parsed = parseFormatJsContent(
+        JSON.stringify({ greeting: [{ type: 0, value: "Hi " }, { type: 1, value: "name" }] })
+      )!;
+      expect(parsed.shape).toBe("compiled");
+      expect(parsed.messages).toEqual([{ id: "greeting", message: "Hi {name}" }]);
+    });
+  });
+
+  describe("printFormatJsAst", () => {
+    it("should print plurals, selects, formatted arguments and tags", () => {
+      expect(
+        printFormatJsAst([
+          {
+            type: 6,
+            value: "n",
+            offset: 1,
+            pluralType: "cardinal",
+            options: {
+              "=0": { value: [{ type: 0, value: "none" }] },
+              other: { value: [{ type: 7 }, { type: 0, value: " more" }] },
+            },
+          },
+          { type: 0, value: ", " },
+          {
+            type: 5,
+            value: "gender",
+            options: {
+              female: { value: [{ type: 0, value: "her" }] },
+              other: { value: [{ type: 0, value: "their" }] },
+            },
+          },
+          { type: 0, value: " " },
+          { type: 2, value: "price", style: "currency" },
+          { type: 3, value: "when" },
+          { type: 8, value: "b", children: [{ type: 0, value: "bold" }] },
+        ])
+      ).toBe(
+        "{n, plural, offset:1 =0 {none} other {# more}}, {gender, select, female {her} other {their}} {price, number, currency}{when, date}<b>bold</b>"
+      );
+    });
+
+    it("should print ordinal plurals as selectordinal", () => {
+      expect(
+        printFormatJsAst([{ type: 6, value: "pos", pluralType: "ordinal", options: { other: { value: [{ type: 7 }] } } }])
+      ).toBe("{pos, selectordinal, other {#}}");
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * FormatJS (react-intl) message file parser
+ *
+ * `formatjs extract` writes one object per message id:
+ *   {
+ *     "home.title": {
+ *       "defaultMessage": "Hello, {name}!",
+ *       "description": "Greeting on the home page"
+ *     }
+ *   }
+ *
+ * `formatjs compile --ast` turns each message into a parsed ICU AST:
+ *   { "home.title": [{ "type": 0, "value": "Hello, " }, { "type": 1, "value": "name" }] }
+ *
+ * Both are plain JSON on disk, so the shape is recognized from content. A
+ * message id is one key: `defaultMessage` is the text, `description` is
+ * translator context.
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { parseJsonSafe } from "./json-parser.js";
+
+export type FormatJsShape = "extracted" | "compiled";
+
+/**
+ * A single message
+ */
+export interface FormatJsMessage {
+  /** Message id */
+  id: string;
+  /** ICU message text (printed back from the AST for compiled files) */
+  message: string;
+  /** Translator description; structured descriptions are stringified */
+  description?: string;
+}
+
+/**
+ * Parsed content from a FormatJS message file
+ */
+export interface FormatJsContent {
+  shape: FormatJsShape;
+  /** Messages in document order */
+  messages: FormatJsMessage[];
+}
+
+/** Element types of @formatjs/icu-messageformat-parser's AST */
+const LITERAL = 0;
+const ARGUMENT = 1;
+const NUMBER = 2;
+const DATE = 3;
+const TIME = 4;
+const SELECT = 5;
+const PLURAL = 6;
+const POUND = 7;
+const TAG = 8;
+
+/**
+ * An element of a compiled message AST
+ */
+export interface FormatJsAstElement {
+  type: number;
+  value?: string;
+  style?: unknown;
+  options?: Record<string, { value: FormatJsAstElement[] }>;
+  offset?: number;
+  pluralType?: "cardinal" | "ordinal";
+  children?: FormatJsAstElement[];
+}
+
+/**
+ * Recognize the FormatJS shape of parsed JSON data
+ *
+ * @returns The shape, or null for ordinary key/value JSON
+ */
+export function getFormatJsShape(data: Record<string, unknown>): FormatJsShape | null {
+  const values = Object.values(data);
+  if (values.length === 0) return null;
+
+  const isExtracted = (v: unknown) =>
+    typeof v === "object" && v !== null && typeof (v as { defaultMessage?: unknown }).defaultMessage === "string";
+  if (values.every(isExtracted)) {
+    return "extracted";
+  }
+  if (values.every((v) => Array.isArray(v) && v.every(isAstElement))) {
+    return "compiled";
+  }
+  return null;
+}
+
+/**
+ * Parse a FormatJS message file content
+ *
+ * @returns Parsed messages, or null if the content is not in a FormatJS shape
+ */
+export function parseFormatJsContent(content: string): FormatJsContent | null {
+  const data = parseJsonSafe(content);
+  if (!data) return null;
+  const shape = getFormatJsShape(data);
+  if (!shape) return null;
+
+  const messages = Object.entries(data).map(([id, value]): FormatJsMessage => {
+    if (shape === "compiled") {
+      return { id, message: printFormatJsAst(value as FormatJsAstElement[]) };
+    }
+    const { defaultMessage, description } = value as { defaultMessage: string; description?: unknown };
+    return {
+      id,
+      message: defaultMessage,
+      description:
+        typeof description === "string"
+          ? description
+          : description !== undefined
+          ? JSON.stringify(description)
+          : undefined,
+    };
+  });
+
+  return { shape, messages };
+}
+
+/**
+ * Translatable key/value pairs, one per message id
+ */
+export function extractFormatJsEntries(parsed: FormatJsContent): KeyValue[] {
+  return parsed.messages.map((m) => ({ key: m.id, value: m.message }));
+}
+
+/**
+ * Print a compiled message AST back to ICU MessageFormat syntax
+ */
+export function printFormatJsAst(elements: FormatJsAstElement[]): string {
+  return elements.map(printElement).join("");
+}
+
+function printElement(element: FormatJsAstElement): string {
+  switch (element.type) {
+    case LITERAL:
+      return element.value ?? "";
+    case ARGUMENT:
+      return `{${element.value}}`;
+    case NUMBER:
+    case DATE:
+    case TIME: {
+      const kind = element.type === NUMBER ? "number" : element.type === DATE ? "date" : "time";
+      // Skeleton styles are objects; only named styles survive the round trip
+      return typeof element.style === "string"
+        ? `{${element.value}, ${kind}, ${element.style}}`
+        : `{${element.value}, ${kind}}`;
+    }
+    case SELECT:
+    case PLURAL: {
+      const kind =
+        element.type === SELECT ? "select" : element.pluralType === "ordinal" ? "selectordinal" : "plural";
+      const offset = element.offset ? ` offset:${element.offset}` : "";
+      const options = Object.entries(element.options ?? {})
+        .map(([key, option]) => `${key} {${printFormatJsAst(option.value)}}`)
+        .join(" ");
+      return `{${element.value}, ${kind},${offset} ${options}}`;
+    }
+    case POUND:
+      return "#";
+    case TAG:
+      return `<${element.value}>${printFormatJsAst(element.children ?? [])}</${element.value}>`;
+    default:
+      return "";
+  }
+}
+
+function isAstElement(value: unknown): boolean {
+  return typeof value === "object" && value !== null && typeof (value as { type?: unknown }).type === "number";
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { compareI18nextKeys, findSourcePluralForm } from "./i18next-keys.js";
+
+describe("i18next Keys", () => {
+  const source = ["title", "item_one", "item_other", "friend", "friend_male", "friend_male_one", "friend_male_other"];
+
+  describe("compareI18nextKeys", () => {
+    it("should expect each plural group in the target language's categories", () => {
+      const polish = ["title", "item_one", "item_few", "item_many", "item_other", "friend", "friend_male"];
+      expect(compareI18nextKeys(source, polish, "pl")).toEqual({
+        missing: ["friend_male_one", "friend_male_few", "friend_male_many", "friend_male_other"],
+        extra: [],
+      });
+
+      expect(compareI18nextKeys(source, ["title", "item_other", "item_one"], "ja")).toEqual({
+        missing: ["friend", "friend_male", "friend_male_other"],
+        extra: [],
+      });
+    });
+
+    it("should treat _zero as optional and fall back to the source's categories for unknown languages", () => {
+      const withZero = ["item_zero", "item_one", "item_other"];
+      expect(compareI18nextKeys(withZero, ["item_one", "item_other"], "de").missing).toEqual([]);
+      expect(compareI18nextKeys(withZero, ["item_other"], "tlh").missing).toEqual(["item_one"]);
+    });
+
+    it("should accept added context variants only for keys the source varies by context", () => {
+      const target = ["friend_female", "friend_female_few", "title_short", "title"];
+      expect(compareI18nextKeys(source, target, "pl").extra).toEqual(["title_short"]);
+    });
+
+    it("should not take snake_case keys for context variants", () => {
+      const snakeCase = ["error", "error_message"];
+      expect(compareI18nextKeys(snakeCase, ["error", "error_message", "error_foo"], "de").extra).toEqual([
+        "error_foo",
+      ]);
+
+      const contexts = ["friend", "friend_male", "friend_female"];
+      expect(compareI18nextKeys(contexts, [...contexts, "friend_divers", "friend_male_x"], "de").extra).toEqual([
+        "friend_male_x",
+      ]);
+    });
+
+    it("should compare keys without plural suffixes literally", () => {
+      expect(compareI18nextKeys(["a", "b"], ["b", "c"], "de")).toEqual({ missing: ["a"], extra: ["c"] });
+    });
+  });
+
+  describe("findSourcePluralForm", () => {
+    it("should map a target plural form to the matching or _other source form", () => {
+      const keys = new Set(source);
+      expect(findSourcePluralForm("item_one", keys)).toBe("item_one");
+      expect(findSourcePluralForm("item_few", keys)).toBe("item_other");
+      expect(findSourcePluralForm("missing_few", keys)).toBeUndefined();
+      expect(findSourcePluralForm("title_short", keys)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * i18next-aware key comparison
+ *
+ * i18next v21+ picks plural forms by key suffix, so a source key set and a
+ * translation legitimately differ:
+ *   en: item_one, item_other
+ *   pl: item_one, item_few, item_many, item_other
+ *   ja: item_other
+ * Plural groups are compared by base key, and each target is expected to
+ * have one key per CLDR category of its own language (`_zero` is optional:
+ * i18next uses it for a count of 0 in every language).
+ *
+ * Context variants (`friend_male`, `friend_female_one`) are chosen by the
+ * code, so the target needs the source's contexts. A target may add contexts
+ * to a key the source already varies by context (`friend_divers`): i18next
+ * falls back to the plain key in languages that don't use them. A key counts
+ * as varied by context when the source has it plain and with two or more
+ * contexts (`friend`, `friend_male`, `friend_female`), or with a pluralized
+ * context (`friend_male_one`); a single `error`/`error_message` pair is
+ * ordinary snake_case naming.
+ */
+
+import { getPluralCategories, groupI18nextPluralKeys, splitI18nextPluralKey } from "./plural-rules.js";
+
+/**
+ * Keys a target lacks or has beyond the source
+ */
+export interface I18nextKeyComparison {
+  /** Missing keys, with plural forms named for the target language (`item_few`) */
+  missing: string[];
+  /** Target keys that are neither source keys nor plural/context forms of one */
+  extra: string[];
+}
+
+/**
+ * Compare a target's keys with the source's, judging plural groups against
+ * the target language's plural categories
+ */
+export function compareI18nextKeys(
+  sourceKeys: string[],
+  targetKeys: string[],
+  targetLang: string
+): I18nextKeyComparison {
+  const pluralGroups = new Map(groupI18nextPluralKeys(sourceKeys).map((form) => [form.key, form.categories]));
+  const sourceKeySet = new Set(sourceKeys);
+  const targetKeySet = new Set(targetKeys);
+  const targetCategories = getPluralCategories(targetLang);
+
+  // Source order, with each plural group expanded to the target's categories
+  const expected: string[] = [];
+  const expandedGroups = new Set<string>();
+  for (const key of sourceKeys) {
+    const base = pluralBaseOf(key, pluralGroups);
+    if (base === null) {
+      expected.push(key);
+    } else if (!expandedGroups.has(base)) {
+      expandedGroups.add(base);
+      const categories = targetCategories ?? pluralGroups.get(base)!.filter((c) => c !== "zero");
+      expected.push(...categories.map((category) => `${base}_${category}`));
+    }
+  }
+
+  // Keys the source varies by context: `friend` with `friend_male` and
+  // `friend_female`, or with `friend_male_one`/`friend_male_other`
+  const plainKeys = new Set(sourceKeys.filter((k) => pluralBaseOf(k, pluralGroups) === null));
+  const names = new Set([...plainKeys, ...pluralGroups.keys()]);
+  const contexts = new Map<string, { count: number; pluralized: boolean }>();
+  for (const name of names) {
+    const base = contextBaseOf(name);
+    if (base === null || !plainKeys.has(base)) continue;
+    const variants = contexts.get(base) ?? { count: 0, pluralized: false };
+    variants.count++;
+    variants.pluralized ||= pluralGroups.has(name);
+    contexts.set(base, variants);
+  }
+  const contextBases = new Set(
+    [...contexts].filter(([, { count, pluralized }]) => count > 1 || pluralized).map(([base]) => base)
+  );
+
+  return {
+    missing: expected.filter((key) => !targetKeySet.has(key)),
+    extra: targetKeys.filter((key) => {
+      if (sourceKeySet.has(key) || pluralBaseOf(key, pluralGroups) !== null) return false;
+      const base = contextBaseOf(splitI18nextPluralKey(key)?.base ?? key);
+      return base === null || !contextBases.has(base);
+    }),
+  };
+}
+
+/**
+ * The source key whose text a target plural form is translated from: the
+ * same category if the source has it, else `_other`
+ */
+export function findSourcePluralForm(key: string, sourceKeys: Set<string>): string | undefined {
+  if (sourceKeys.has(key)) return key;
+  const split = splitI18nextPluralKey(key);
+  if (!split) return undefined;
+  const other = `${split.base}_other`;
+  return sourceKeys.has(other) ? other : undefined;
+}
+
+function pluralBaseOf(key: string, pluralGroups: Map<string, string[]>): string | null {
+  const split = splitI18nextPluralKey(key);
+  return split && pluralGroups.has(split.base) ? split.base : null;
+}
+
+/** friend_male -> friend */
+function contextBaseOf(name: string): string | null {
+  const separator = name.lastIndexOf("_");
+  return separator > 0 ? name.slice(0, separator) : null;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  findStaticProperties,
+  isJsModuleFile,
+  parseJsModule,
+  parseJsModuleSafe,
+  renameJsModuleBinding,
+  stringifyJsModule,
+} from "./js-module-parser.js";
+
+describe("JS Module Parser", () => {
+  describe("isJsModuleFile", () => {
+    it("should match script modules but not type declarations", () => {
+      expect(isJsModuleFile("src/locales/en.ts")).toBe(true);
+      expect(isJsModuleFile("locales/en.mjs")).toBe(true);
+      expect(isJsModuleFile("locales/en.cjs")).toBe(true);
+      expect(isJsModuleFile("src/locales/en.d.ts")).toBe(false);
+      expect(isJsModuleFile("src/locales/en.json")).toBe(false);
+    });
+  });
+
+  describe("parseJsModule", () => {
+    it("should read `export default { ... } as const` with nested objects", () => {
+      const content = `// Messages
+export default {
+  nav: {
+    home: 'Home', // inline comment
+    'sign-in': "Sign in",
+  },
+  /* block comment */
+  welcome: \`Welcome back!\`,
+  steps: ['One', 'Two'],
+} as const;
+`;
+      const result = parseJsModule(content);
+      expect(result.data).toEqual({
+        nav: { home: "Home", "sign-in": "Sign in" },
+        welcome: "Welcome back!",
+        steps: ["One", "Two"],
+      });
+      expect(result.layout).toEqual({
+        prefix: "// Messages\nexport default ",
+        suffix: " as const;\n",
+        quote: "'",
+        indent: "  ",
+      });
+    });
+
+    it("should read an exported const binding and module.exports", () => {
+      const typed = `import type { Messages } from "./types";
+
+const en: Messages = {
+    title: "Shop",
+};
+
+export default en;
+`;
+      expect(parseJsModule(typed).data).toEqual({ title: "Shop" });
+      expect(parseJsModule(typed).layout.quote).toBe('"');
+      expect(parseJsModule(typed).layout.indent).toBe("    ");
+      expect(parseJsModule("module.exports = { title: 'Shop' };\n").data).toEqual({ title: "Shop" });
+    });
+
+    it("should unescape strings and join concatenated literals", () => {
+      const content = `export default {
+  quote: 'It\\'s \\u00e9t\\u{e9}',
+  long: 'First line, ' +
+    'second line\\n',
+  ['computed']: 'ok',
+};`;
+      expect(parseJsModule(content).data).toEqual({
+        quote: "It's été",
+        long: "First line, second line\n",
+        computed: "ok",
+      });
+    });
+
+    it("should reject code it would have to execute", () => {
+      expect(() => parseJsModule("export default { year: new Date().getFullYear() };")).toThrow(
+        "Unsupported syntax"
+      );
+      expect(() => parseJsModule("export default { hi: `Hi ${name}` };")).toThrow("Template literal");
+      expect(() => parseJsModule("export default { ...common };")).toThrow("Unsupported syntax");
+      expect(() => parseJsModule("export const title = 'Shop';")).toThrow("No `export default");
+      expect(parseJsModuleSafe("export default messages;")).toBeNull();
+    });
+  });
+
+  describe("stringifyJsModule", () => {
+    it("should keep the wrapper and quote style when round-tripping", () => {
+      const content = `export default {
+  nav: {
+    home: 'Home',
+  },
+  'order-status': 'It\\'s on its way',
+} as const;
+`;
+      const { data, layout } = parseJsModule(content);
+      expect(stringifyJsModule(data, layout)).toBe(content);
+    });
+  });
+
+  describe("findStaticProperties", () => {
+    it("should find properties inside calls and const declarations", () => {
+      const content = `import { defineRouting } from "next-intl/routing";
+export const locales: string[] = ["en", "de"] as const;
+export const routing = defineRouting({ locales, defaultLocale: 'en', prefix: \`/\${base}\` });
+`;
+      expect(findStaticProperties(content, ["locales", "defaultLocale"])).toEqual([
+        { name: "locales", value: ["en", "de"], strings: ["en", "de"] },
+        { name: "defaultLocale", value: "en", strings: ["en"] },
+      ]);
+    });
+
+    it("should only collect the string literals of an expression", () => {
+      const content = `module.exports = {
+  localePath: typeof window === "undefined" ? require("path").resolve("./public/locales") : "/locales",
+  defaultNS: process.env.NS || "common",
+};`;
+      expect(findStaticProperties(content, ["localePath", "defaultNS"])).toEqual([
+        { name: "localePath", value: undefined, strings: ["undefined", "path", "./public/locales", "/locales"] },
+        { name: "defaultNS", value: undefined, strings: ["common"] },
+      ]);
+    });
+  });
+
+  describe("renameJsModuleBinding", () => {
+    it("should rename a binding named after the source language", () => {
+      const { layout } = parseJsModule("const en = { a: 'A' } as const;\n\nexport default en;\n");
+      const renamed = renameJsModuleBinding(layout, "en", "pt-BR");
+      expect(renamed.prefix).toBe("const ptBR = ");
+      expect(renamed.suffix).toBe(" as const;\n\nexport default ptBR;\n");
+    });
+
+    it("should leave other bindings alone", () => {
+      const { layout } = parseJsModule("const messages = { a: 'A' };\nexport default messages;\n");
+      expect(renameJsModuleBinding(layout, "en", "de")).toEqual(layout);
+    });
+  });
+});
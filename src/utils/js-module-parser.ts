@@ -0,0 +1,468 @@
+/**
+ * JS/TS locale module parser
+ *
+ * Some projects keep translations as modules so the messages get type
+ * inference:
+ *   // src/locales/en.ts
+ *   export default {
+ *     nav: { home: 'Home' },
+ *     welcome: 'Welcome back!',
+ *   } as const;
+ *
+ * Also read: `module.exports = { ... }` and
+ * `const en = { ... } as const; export default en;`.
+ *
+ * The module is never executed. Only object literals with string values
+ * (quoted or template literals without `${}`), nested objects and arrays are
+ * accepted; anything else is rejected with an error. Writing keeps the
+ * code around the object literal (the `export default` / `as const`
+ * wrapper, imports, `satisfies` clauses) and the original quote style.
+ */
+
+/**
+ * Layout of a locale module: everything around the messages object literal
+ */
+export interface JsModuleLayout {
+  /** Code before the object literal */
+  prefix: string;
+  /** Code after the object literal */
+  suffix: string;
+  /** Quote character for strings and quoted keys */
+  quote: "'" | '"';
+  /** Indentation unit */
+  indent: string;
+}
+
+/**
+ * Parsed locale module
+ */
+export interface JsModuleContent {
+  data: Record<string, unknown>;
+  layout: JsModuleLayout;
+}
+
+/**
+ * Check if a file is a JS/TS module (.ts, .js, .mjs, .cjs, .mts, .cts), not a
+ * type declaration
+ */
+export function isJsModuleFile(filePath: string): boolean {
+  return /\.(?:[mc]?ts|[mc]?js)$/i.test(filePath) && !/\.d\.[mc]?ts$/i.test(filePath);
+}
+
+type Token =
+  | { kind: "string"; value: string; quote: string; start: number; end: number }
+  | { kind: "word"; value: string; start: number; end: number }
+  | { kind: "punct"; value: string; start: number; end: number };
+
+class JsObjectReader {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  /** Index of the token that opens the exported object literal */
+  findExportedObject(): number {
+    for (let i = 0; i < this.tokens.length; i++) {
+      // export default { ... }  /  export default someName
+      if (this.isWordAt(i, "export") && this.isWordAt(i + 1, "default")) {
+        const next = this.tokens[i + 2];
+        if (next?.kind === "punct" && next.value === "{") return i + 2;
+        if (next?.kind === "word") return this.findConstObject(next.value);
+      }
+      // module.exports = { ... }
+      if (this.isWordAt(i, "module") && this.isPunctAt(i + 1, ".") && this.isWordAt(i + 2, "exports")) {
+        if (this.isPunctAt(i + 3, "=") && this.isPunctAt(i + 4, "{")) return i + 4;
+      }
+    }
+    throw new Error("No `export default { ... }` or `module.exports = { ... }` found");
+  }
+
+  /** const name = { ... } (with an optional type annotation) */
+  private findConstObject(name: string): number {
+    for (let i = 0; i < this.tokens.length; i++) {
+      if (!(this.isWordAt(i, "const") || this.isWordAt(i, "let") || this.isWordAt(i, "var"))) continue;
+      if (!this.isWordAt(i + 1, name)) continue;
+      for (let j = i + 2; j < this.tokens.length; j++) {
+        if (this.isPunctAt(j, "=")) {
+          if (this.isPunctAt(j + 1, "{")) return j + 1;
+          break;
+        }
+      }
+    }
+    throw new Error(`The exported value '${name}' is not an object literal`);
+  }
+
+  /** Parse the object literal starting at token index `start` */
+  parseObjectAt(start: number): { data: Record<string, unknown>; end: number } {
+    this.pos = start + 1;
+    const data = this.parseObject();
+    return { data, end: this.tokens[this.pos - 1].end };
+  }
+
+  /** Parse the literal value starting at token index `start` */
+  parseValueAt(start: number): { value: unknown; next: number } {
+    this.pos = start;
+    const value = this.parseValue();
+    return { value, next: this.pos };
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (!this.peekPunct("}")) {
+      const keyToken = this.next();
+      let key: string;
+      if (keyToken.kind === "string" || keyToken.kind === "word") {
+        key = keyToken.value;
+      } else if (keyToken.kind === "punct" && keyToken.value === "[") {
+        // Computed key: only a string literal is static
+        const inner = this.next();
+        if (inner.kind !== "string" || !this.peekPunct("]")) throw unsupported(inner);
+        this.pos++;
+        key = inner.value;
+      } else {
+        throw unsupported(keyToken);
+      }
+      this.expectPunct(":");
+      result[key] = this.parseValue();
+      if (this.peekPunct(",")) {
+        this.pos++;
+      } else if (!this.peekPunct("}")) {
+        throw unsupported(this.current());
+      }
+    }
+    this.pos++;
+    return result;
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = [];
+    while (!this.peekPunct("]")) {
+      result.push(this.parseValue());
+      if (this.peekPunct(",")) {
+        this.pos++;
+      } else if (!this.peekPunct("]")) {
+        throw unsupported(this.current());
+      }
+    }
+    this.pos++;
+    return result;
+  }
+
+  private parseValue(): unknown {
+    const token = this.next();
+    if (token.kind === "string") {
+      let value = token.value;
+      // 'a' + 'b' concatenation of literals
+      while (this.peekPunct("+")) {
+        this.pos++;
+        const next = this.next();
+        if (next.kind !== "string") throw unsupported(next);
+        value += next.value;
+      }
+      return value;
+    }
+    if (token.kind === "punct" && token.value === "{") return this.parseObject();
+    if (token.kind === "punct" && token.value === "[") return this.parseArray();
+    throw unsupported(token);
+  }
+
+  private next(): Token {
+    const token = this.current();
+    this.pos++;
+    return token;
+  }
+
+  private current(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) throw new Error("Unexpected end of file");
+    return token;
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.next();
+    if (token.kind !== "punct" || token.value !== value) throw unsupported(token);
+  }
+
+  private peekPunct(value: string): boolean {
+    return this.isPunctAt(this.pos, value);
+  }
+
+  private isPunctAt(index: number, value: string): boolean {
+    const token = this.tokens[index];
+    return token?.kind === "punct" && token.value === value;
+  }
+
+  private isWordAt(index: number, value: string): boolean {
+    const token = this.tokens[index];
+    return token?.kind === "word" && token.value === value;
+  }
+}
+
+function unsupported(token: Token): Error {
+  const text = token.kind === "string" ? `${token.quote}${token.value}${token.quote}` : token.value;
+  return new Error(`Unsupported syntax '${text}' at offset ${token.start}`);
+}
+
+/**
+ * Split module source into tokens, dropping whitespace and comments. With
+ * `allowInterpolation`, a template literal with `${}` becomes a word token
+ * instead of an error.
+ */
+function tokenize(src: string, allowInterpolation = false): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (src.startsWith("//", i)) {
+      while (i < src.length && src[i] !== "\n") i++;
+    } else if (src.startsWith("/*", i)) {
+      const end = src.indexOf("*/", i + 2);
+      i = end === -1 ? src.length : end + 2;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      let value = "";
+      let interpolated = false;
+      i++;
+      while (i < src.length && src[i] !== ch) {
+        if (src[i] === "\\" && i + 1 < src.length) {
+          const [text, length] = unescape(src, i + 1);
+          value += text;
+          i += 1 + length;
+          continue;
+        }
+        if (ch === "`" && src.startsWith("${", i)) {
+          if (!allowInterpolation) {
+            throw new Error(`Template literal interpolation is not supported at offset ${i}`);
+          }
+          interpolated = true;
+          i = skipInterpolation(src, i + 2);
+          continue;
+        }
+        value += src[i];
+        i++;
+      }
+      i++;
+      if (interpolated) {
+        tokens.push({ kind: "word", value: src.slice(start, i), start, end: i });
+      } else {
+        tokens.push({ kind: "string", value, quote: ch, start, end: i });
+      }
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const match = src.slice(i).match(/^[\w$]+/)!;
+      i += match[0].length;
+      tokens.push({ kind: "word", value: match[0], start, end: i });
+    } else if (/[0-9]/.test(ch)) {
+      const match = src.slice(i).match(/^[0-9][\w.]*/)!;
+      i += match[0].length;
+      tokens.push({ kind: "word", value: match[0], start, end: i });
+    } else {
+      i++;
+      tokens.push({ kind: "punct", value: ch, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+/** Index just past the `}` closing a `${` whose expression starts at `i` */
+function skipInterpolation(src: string, i: number): number {
+  let depth = 1;
+  while (i < src.length && depth > 0) {
+    if (src[i] === "{") depth++;
+    else if (src[i] === "}") depth--;
+    i++;
+  }
+  return i;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" };
+
+/**
+ * Decode the escape sequence starting at `i` (just past the backslash)
+ *
+ * @returns The decoded text and the number of characters consumed
+ */
+function unescape(src: string, i: number): [string, number] {
+  const ch = src[i];
+  if (ch in ESCAPES) return [ESCAPES[ch], 1];
+  if (ch === "\n") return ["", 1];
+  if (ch === "x") return [String.fromCharCode(parseInt(src.slice(i + 1, i + 3), 16)), 3];
+  if (ch === "u") {
+    if (src[i + 1] === "{") {
+      const close = src.indexOf("}", i);
+      return [String.fromCodePoint(parseInt(src.slice(i + 2, close), 16)), close - i + 1];
+    }
+    return [String.fromCharCode(parseInt(src.slice(i + 1, i + 5), 16)), 5];
+  }
+  return [ch, 1];
+}
+
+/**
+ * Parse a locale module without executing it
+ *
+ * @throws Error when the exported value is not a static object literal
+ */
+export function parseJsModule(content: string): JsModuleContent {
+  const tokens = tokenize(content);
+  const reader = new JsObjectReader(tokens);
+  const open = reader.findExportedObject();
+  const { data, end } = reader.parseObjectAt(open);
+
+  const firstString = tokens.find((t, i) => i > open && t.kind === "string" && t.quote !== "`");
+  const indent = content.slice(tokens[open].end).match(/\n([ \t]+)\S/)?.[1] ?? "  ";
+  return {
+    data,
+    layout: {
+      prefix: content.slice(0, tokens[open].start),
+      suffix: content.slice(end),
+      quote: firstString?.kind === "string" && firstString.quote === '"' ? '"' : "'",
+      indent,
+    },
+  };
+}
+
+/**
+ * Parse a locale module's messages, returning null if it can't be read
+ */
+export function parseJsModuleSafe(content: string): Record<string, unknown> | null {
+  try {
+    return parseJsModule(content).data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A `name: value` property or `const name = value` declaration
+ */
+export interface StaticProperty {
+  name: string;
+  /** The value, if it is a string, array or object literal */
+  value?: unknown;
+  /** String literals in the value expression, in order */
+  strings: string[];
+}
+
+/**
+ * Find properties and declarations by name anywhere in a module, without
+ * executing it. Config files keep the wanted values inside calls
+ * (`defineRouting({ ... })`) and next to code (`localePath:
+ * path.resolve("./public/locales")`), so there is no exported literal to
+ * parse; an expression that isn't a literal only yields its string literals.
+ */
+export function findStaticProperties(content: string, names: string[]): StaticProperty[] {
+  const tokens = tokenize(content, true);
+  const reader = new JsObjectReader(tokens);
+  const isPunct = (i: number, value: string) => tokens[i]?.kind === "punct" && tokens[i].value === value;
+  const isWord = (i: number, ...values: string[]) => tokens[i]?.kind === "word" && values.includes(tokens[i].value);
+  const found: StaticProperty[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === "punct" || !names.includes(token.value)) continue;
+
+    let start: number;
+    if (token.kind === "word" && isWord(i - 1, "const", "let", "var")) {
+      // Skip a type annotation up to `=`
+      let j = i + 1;
+      while (j < tokens.length && !isPunct(j, "=") && !isPunct(j, ";")) j++;
+      if (!isPunct(j, "=")) continue;
+      start = j + 1;
+    } else if (isPunct(i + 1, ":") && !isPunct(i - 1, "?")) {
+      start = i + 2;
+    } else {
+      continue;
+    }
+
+    // The expression runs to the next `,` `;` or closing bracket at its own depth
+    let end = start;
+    for (let depth = 0; end < tokens.length; end++) {
+      const t = tokens[end];
+      if (t.kind !== "punct") continue;
+      if ("([{".includes(t.value)) depth++;
+      else if (")]}".includes(t.value) && depth-- === 0) break;
+      else if ((t.value === "," || t.value === ";") && depth === 0) break;
+    }
+
+    let value: unknown;
+    try {
+      const parsed = reader.parseValueAt(start);
+      const next = tokens[parsed.next];
+      // `"en" as const` is still the literal; `"en" || x` or `x.y` is not
+      if (!next || next.kind !== "punct" || ",;)]}".includes(next.value)) value = parsed.value;
+    } catch {
+      // Not a literal
+    }
+
+    found.push({
+      name: token.value,
+      value,
+      strings: tokens
+        .slice(start, end)
+        .filter((t): t is Extract<Token, { kind: "string" }> => t.kind === "string")
+        .map((t) => t.value),
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Serialize messages into a module with the given layout
+ */
+export function stringifyJsModule(data: Record<string, unknown>, layout: JsModuleLayout): string {
+  return `${layout.prefix}${formatJsValue(data, layout, "")}${layout.suffix}`;
+}
+
+function formatJsValue(value: unknown, layout: JsModuleLayout, indent: string): string {
+  const inner = indent + layout.indent;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((item) => `${inner}${formatJsValue(item, layout, inner)},`).join("\n")}\n${indent}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return "{}";
+    const lines = entries.map(([key, item]) => {
+      const formattedKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteJs(key, layout.quote);
+      return `${inner}${formattedKey}: ${formatJsValue(item, layout, inner)},`;
+    });
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+  return quoteJs(String(value ?? ""), layout.quote);
+}
+
+function quoteJs(text: string, quote: "'" | '"'): string {
+  const escaped = text
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t")
+    .split(quote)
+    .join(`\\${quote}`);
+  return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Rename a module-local binding named after the source language
+ * (`const en = {` ... `export default en` -> `const de = {` ... `export default de`)
+ */
+export function renameJsModuleBinding(layout: JsModuleLayout, sourceLang: string, targetLang: string): JsModuleLayout {
+  const from = toIdentifier(sourceLang);
+  const binding = new RegExp(`\\b(const|let|var)\\s+${from}\\b`);
+  if (!binding.test(layout.prefix)) return layout;
+  const to = toIdentifier(targetLang);
+  return {
+    ...layout,
+    prefix: layout.prefix.replace(binding, `$1 ${to}`),
+    suffix: layout.suffix.replace(new RegExp(`(export\\s+default\\s+)${from}\\b`), `$1${to}`),
+  };
+}
+
+/** pt-BR -> ptBR */
+function toIdentifier(lang: string): string {
+  return lang.replace(/[-_]([A-Za-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
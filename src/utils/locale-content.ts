@@ -0,0 +1,362 @@
+/**
+ * Format-aware reading of locale file content
+ *
+ * Shared by the tools that inspect translations locally (status, XLIFF
+ * export/import). sync_translations leaves parsing to the server and only
+ * reads source strings here to record them in langapi.lock.
+ */
+
+import { readFile } from "fs/promises";
+import type { KeyValue } from "../api/types.js";
+import { flattenJson, parseJsonSafe } from "./json-parser.js";
+import { isArbFile, parseArbMessages } from "./arb-parser.js";
+import { isStringsDictFile, isStringsFile, isXCStringsFile } from "./apple-common.js";
+import { parseStringsContent } from "./strings-parser.js";
+import { extractStringsDictEntries, parseStringsDictContent } from "./stringsdict-parser.js";
+import {
+  extractLocaleFromXCStrings,
+  extractPluralVariationsFromXCStrings,
+  getXCStringsStates,
+  isTranslatableXCStringsEntry,
+  parseXCStringsContent,
+  type XCStringsFile,
+} from "./xcstrings-parser.js";
+import {
+  extractAndroidEntries,
+  isAndroidStringsFile,
+  parseAndroidStringsContent,
+} from "./android-parser.js";
+import {
+  extractPoSourceEntries,
+  extractPoTranslatedEntries,
+  getPoEntryKey,
+  isGettextFile,
+  parsePoContent,
+} from "./po-parser.js";
+import { isYamlFile, parseYamlLocaleContent } from "./yaml-parser.js";
+import { isPropertiesFile, parsePropertiesContent, readPropertiesFile } from "./properties-parser.js";
+import { extractResxEntries, isResxFile, parseResxContent } from "./resx-parser.js";
+import { extractFluentEntries, isFluentFile, parseFluentContent } from "./fluent-parser.js";
+import {
+  describeWebExtensionMessage,
+  extractWebExtensionEntries,
+  isWebExtensionMessagesFile,
+  parseWebExtensionContent,
+} from "./webextension-parser.js";
+import { extractFormatJsEntries, parseFormatJsContent } from "./formatjs-parser.js";
+import { isLaravelPhpFile, parsePhpArraySafe } from "./php-array-parser.js";
+import { isVueFile, parseVueI18nMessages } from "./vue-i18n-parser.js";
+import { isJsModuleFile, parseJsModuleSafe } from "./js-module-parser.js";
+import { extractXlfCatalogEntries, isXlfCatalogFile, parseXlfCatalog } from "./xlf-catalog-parser.js";
+import { analyzePlaceholders } from "./placeholders.js";
+import { groupI18nextPluralKeys, type PluralForm } from "./plural-rules.js";
+
+/**
+ * A translatable string with the context a human translator needs
+ */
+export interface TranslationUnit {
+  /** Flattened key (dot notation for nested formats) */
+  key: string;
+  /** Text in the file's language */
+  value: string;
+  /** Developer/translator note (.strings comment, ARB description, ...) */
+  note?: string;
+}
+
+/**
+ * Read a locale file's text. Java bundles may still be ISO-8859-1 encoded;
+ * everything else is UTF-8.
+ */
+export async function readLocaleFile(filePath: string): Promise<string> {
+  if (isPropertiesFile(filePath)) {
+    return (await readPropertiesFile(filePath)).content;
+  }
+  return readFile(filePath, "utf-8");
+}
+
+/**
+ * Read one locale file into a key -> value record for `lang`. Multi-language
+ * files (xcstrings) are narrowed to that language, without entries marked
+ * `shouldTranslate: false` or stale, and on the target side without
+ * localizations still in the `new` state; .strings files are flat;
+ * each .stringsdict plural entry is one key holding all its variants; ARB
+ * files skip `@`/`@@` metadata entries; gettext catalogs use the
+ * msgid as source text and only count complete, non-fuzzy translations as
+ * present on the target side; Android resources skip translatable="false";
+ * YAML files drop a Rails-style language root key; Laravel PHP arrays are
+ * read without executing them; Vue components yield the `lang` messages of
+ * their <i18n> blocks; JS/TS modules are read statically from their
+ * exported object literal; XLF catalogs are keyed by unit, with inline
+ * placeholders as {NAME}; Java bundles and .NET
+ * resources are flat; Fluent messages and attributes are flat keys
+ * (`login-input.placeholder`); WebExtension messages.json keeps only each
+ * key's `message`; FormatJS extracted/compiled files are keyed by message
+ * id. Everything else is read as JSON.
+ */
+export function parseLocaleFile(
+  filePath: string,
+  content: string,
+  lang: string,
+  role: "source" | "target"
+): Record<string, unknown> | null {
+  if (isXCStringsFile(filePath)) {
+    const parsed = parseXCStringsContent(content);
+    if (!parsed) return null;
+    return Object.fromEntries(readXCStringsLocale(parsed.metadata, lang, role).map((e) => [e.key, e.value]));
+  }
+
+  if (isStringsFile(filePath)) {
+    return Object.fromEntries(parseStringsContent(content).entries.map((e) => [e.key, e.value]));
+  }
+
+  if (isStringsDictFile(filePath)) {
+    const parsed = parseStringsDictContent(content);
+    return parsed ? Object.fromEntries(extractStringsDictEntries(parsed).map((e) => [e.key, e.value])) : null;
+  }
+
+  if (isArbFile(filePath)) {
+    return parseArbMessages(content);
+  }
+
+  if (isGettextFile(filePath)) {
+    const parsed = parsePoContent(content);
+    const entries =
+      role === "source" ? extractPoSourceEntries(parsed) : extractPoTranslatedEntries(parsed);
+    return Object.fromEntries(entries.map((e) => [e.key, e.value]));
+  }
+
+  if (isAndroidStringsFile(filePath)) {
+    const entries = extractAndroidEntries(parseAndroidStringsContent(content));
+    return Object.fromEntries(entries.map((e) => [e.key, e.value]));
+  }
+
+  if (isYamlFile(filePath)) {
+    return parseYamlLocaleContent(content, lang);
+  }
+
+  if (isLaravelPhpFile(filePath)) {
+    return parsePhpArraySafe(content);
+  }
+
+  if (isVueFile(filePath)) {
+    return parseVueI18nMessages(content)?.get(lang) ?? null;
+  }
+
+  if (isJsModuleFile(filePath)) {
+    return parseJsModuleSafe(content);
+  }
+
+  if (isXlfCatalogFile(filePath)) {
+    const catalog = parseXlfCatalog(content);
+    return catalog ? Object.fromEntries(extractXlfCatalogEntries(catalog, role).map((e) => [e.key, e.value])) : null;
+  }
+
+  if (isPropertiesFile(filePath)) {
+    return Object.fromEntries(parsePropertiesContent(content).entries.map((e) => [e.key, e.value]));
+  }
+
+  if (isResxFile(filePath)) {
+    return Object.fromEntries(extractResxEntries(parseResxContent(content)).map((e) => [e.key, e.value]));
+  }
+
+  if (isFluentFile(filePath)) {
+    return Object.fromEntries(extractFluentEntries(parseFluentContent(content)).map((e) => [e.key, e.value]));
+  }
+
+  if (isWebExtensionMessagesFile(filePath)) {
+    const parsed = parseWebExtensionContent(content);
+    return parsed ? Object.fromEntries(extractWebExtensionEntries(parsed).map((e) => [e.key, e.value])) : null;
+  }
+
+  const formatJs = parseFormatJsContent(content);
+  if (formatJs) {
+    return Object.fromEntries(extractFormatJsEntries(formatJs).map((e) => [e.key, e.value]));
+  }
+
+  return parseJsonSafe(content);
+}
+
+/**
+ * A String Catalog language's translatable entries. Target localizations in
+ * the `new` state are not translated yet.
+ */
+function readXCStringsLocale(xcstrings: XCStringsFile, lang: string, role: "source" | "target"): KeyValue[] {
+  const states = role === "target" ? getXCStringsStates(xcstrings, lang) : null;
+  return extractLocaleFromXCStrings(xcstrings, lang).filter(
+    (e) => isTranslatableXCStringsEntry(xcstrings.strings[e.key]) && states?.get(e.key) !== "new"
+  );
+}
+
+/**
+ * Read one locale file as translation units, attaching the notes each
+ * format carries: .strings comments, ARB `@key.description`, gettext
+ * extracted/translator comments, Android XML comments, xcstrings `comment`,
+ * .properties comments, RESX `<comment>`, Fluent `#` comments and
+ * WebExtension `description`/`placeholders`, FormatJS `description` and XLF
+ * `<note>`s. ARB
+ * `@`/`@@` metadata entries are not units, and neither are compiled FormatJS
+ * messages: they are build output, regenerated from the extracted ones.
+ * .stringsdict plural entries are left out: a unit holds one string, not a
+ * set of plural variants.
+ */
+export function readTranslationUnits(
+  filePath: string,
+  content: string,
+  lang: string,
+  role: "source" | "target"
+): TranslationUnit[] {
+  if (isStringsFile(filePath)) {
+    const parsed = parseStringsContent(content);
+    return parsed.entries.map((e) => ({ key: e.key, value: e.value, note: parsed.comments.get(e.key) }));
+  }
+
+  if (isStringsDictFile(filePath)) {
+    return [];
+  }
+
+  if (isArbFile(filePath)) {
+    const data = parseJsonSafe(content);
+    if (!data) return [];
+    const units: TranslationUnit[] = [];
+    for (const [key, value] of Object.entries(data)) {
+      if (key.startsWith("@") || typeof value !== "string") continue;
+      const meta = data[`@${key}`] as { description?: unknown } | undefined;
+      units.push({
+        key,
+        value,
+        note: typeof meta?.description === "string" ? meta.description : undefined,
+      });
+    }
+    return units;
+  }
+
+  if (isGettextFile(filePath)) {
+    const parsed = parsePoContent(content);
+    const notes = new Map(
+      parsed.entries.map((e) => [getPoEntryKey(e), [...e.extractedComments, ...e.translatorComments].join("\n")])
+    );
+    const entries = role === "source" ? extractPoSourceEntries(parsed) : extractPoTranslatedEntries(parsed);
+    return entries.map((e) => ({ key: e.key, value: e.value, note: notes.get(e.key) || undefined }));
+  }
+
+  if (isAndroidStringsFile(filePath)) {
+    const parsed = parseAndroidStringsContent(content);
+    const notes = new Map(parsed.resources.map((r) => [r.name, r.comment]));
+    return extractAndroidEntries(parsed).map((e) => ({
+      key: e.key,
+      value: e.value,
+      note: notes.get(e.key.replace(/\.\d+$/, "")),
+    }));
+  }
+
+  if (isPropertiesFile(filePath)) {
+    const parsed = parsePropertiesContent(content);
+    return parsed.entries.map((e) => ({ key: e.key, value: e.value, note: parsed.comments.get(e.key) }));
+  }
+
+  if (isResxFile(filePath)) {
+    return parseResxContent(content).entries.map((e) => ({ key: e.name, value: e.value, note: e.comment }));
+  }
+
+  if (isWebExtensionMessagesFile(filePath)) {
+    const parsed = parseWebExtensionContent(content);
+    if (!parsed) return [];
+    return parsed.messages.map((m) => ({ key: m.key, value: m.message, note: describeWebExtensionMessage(m) }));
+  }
+
+  if (isXlfCatalogFile(filePath)) {
+    const catalog = parseXlfCatalog(content);
+    if (!catalog) return [];
+    const notes = new Map(catalog.units.map((u) => [u.key, u.notes.join("\n")]));
+    return extractXlfCatalogEntries(catalog, role).map((e) => ({
+      key: e.key,
+      value: e.value,
+      note: notes.get(e.key) || undefined,
+    }));
+  }
+
+  if (isFluentFile(filePath)) {
+    return extractFluentEntries(parseFluentContent(content)).map((e) => ({
+      key: e.key,
+      value: e.value,
+      note: e.comment,
+    }));
+  }
+
+  if (isXCStringsFile(filePath)) {
+    const parsed = parseXCStringsContent(content);
+    if (!parsed) return [];
+    return readXCStringsLocale(parsed.metadata, lang, role).map((e) => ({
+      key: e.key,
+      value: e.value,
+      note: parsed.metadata.strings[e.key]?.comment,
+    }));
+  }
+
+  const formatJs = parseFormatJsContent(content);
+  if (formatJs) {
+    if (formatJs.shape === "compiled") return [];
+    return formatJs.messages.map((m) => ({ key: m.id, value: m.message, note: m.description }));
+  }
+
+  const parsed = parseLocaleFile(filePath, content, lang, role);
+  return parsed ? flattenJson(parsed) : [];
+}
+
+/**
+ * Read the plural messages of one locale file, to check them against the
+ * language's CLDR categories: .stringsdict plural rules and xcstrings plural
+ * variations; in every other format, ICU `plural` arguments and, in i18next
+ * projects, `_one`/`_other` key groups. Elsewhere those suffixes are
+ * ordinary key names.
+ */
+export function readPluralForms(
+  filePath: string,
+  content: string,
+  lang: string,
+  role: "source" | "target",
+  framework: string
+): PluralForm[] {
+  if (isXCStringsFile(filePath)) {
+    const parsed = parseXCStringsContent(content);
+    return parsed ? extractPluralVariationsFromXCStrings(parsed.metadata, lang) : [];
+  }
+
+  if (isStringsDictFile(filePath)) {
+    const parsed = parseStringsDictContent(content);
+    if (!parsed) return [];
+    return parsed.entries.flatMap((entry) =>
+      Object.entries(entry.pluralRules)
+        .filter(([, rule]) => rule.specTypeKey === "NSStringPluralRuleType")
+        .map(([argument, rule]): PluralForm => ({
+          key: entry.key,
+          argument,
+          syntax: "stringsdict",
+          categories: Object.keys(rule.variants),
+        }))
+    );
+  }
+
+  const parsed = parseLocaleFile(filePath, content, lang, role);
+  if (!parsed) return [];
+  const entries = flattenJson(parsed);
+
+  const forms: PluralForm[] = [];
+  for (const { key, value } of entries) {
+    if (!value.includes("plural")) continue;
+    for (const arg of analyzePlaceholders(value).icuArguments.values()) {
+      if (arg.type !== "plural") continue;
+      forms.push({
+        key,
+        argument: arg.name,
+        syntax: "icu",
+        // Exact matches (=0, =1) apply in every language
+        categories: arg.options.filter((option) => !option.startsWith("=")),
+      });
+    }
+  }
+  if (framework === "i18next") {
+    forms.push(...groupI18nextPluralKeys(entries.map((e) => e.key)));
+  }
+  return forms;
+}
@@ -0,0 +1,402 @@
+import { describe, it, expect } from "vitest";
+import { mergeTranslations } from "./locale-merge.js";
+import { parsePoContent } from "./po-parser.js";
+import { parseYaml } from "./yaml-parser.js";
+
+const translations = (entries: Record<string, string>) => new Map(Object.entries(entries));
+
+describe("mergeTranslations", () => {
+  it("merges nested JSON keys in source order, keeping the target's indent", () => {
+    const source = JSON.stringify({ app: { name: "App", tagline: "Hi" }, save: "Save" }, null, 2);
+    const existing = '{\n    "app": {\n        "name": "Anwendung"\n    }\n}\n';
+
+    const result = mergeTranslations(
+      "locales/de.json",
+      existing,
+      source,
+      translations({ save: "Speichern", "app.tagline": "Hallo" }),
+      "en",
+      "de"
+    );
+
+    expect(JSON.parse(result.content)).toEqual({
+      app: { name: "Anwendung", tagline: "Hallo" },
+      save: "Speichern",
+    });
+    expect(result.content).toContain('\n    "app"');
+    expect(result.content.endsWith("\n")).toBe(true);
+    expect(result.applied).toEqual(["save", "app.tagline"]);
+  });
+
+  it("keeps flat JSON keys flat", () => {
+    const source = '{ "app.name": "App" }';
+    const result = mergeTranslations("de.json", null, source, translations({ "app.name": "Anwendung" }), "en", "de");
+    expect(JSON.parse(result.content)).toEqual({ "app.name": "Anwendung" });
+  });
+
+  it("sets @@locale on new ARB files", () => {
+    const source = '{ "@@locale": "en", "hello": "Hello", "@hello": { "description": "Greeting" } }';
+    const result = mergeTranslations("lib/l10n/app_pt_BR.arb", null, source, translations({ hello: "Olá" }), "en", "pt-BR");
+    expect(JSON.parse(result.content)).toEqual({ "@@locale": "pt_BR", hello: "Olá" });
+  });
+
+  it("replaces and appends .strings entries", () => {
+    const source = '/* Title */\n"title" = "Title";\n"body" = "Body";\n';
+    const existing = '"title" = "Alt";\n';
+    const result = mergeTranslations(
+      "de.lproj/Localizable.strings",
+      existing,
+      source,
+      translations({ title: "Titel", body: 'Sag "hallo"' }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe('"title" = "Titel";\n\n"body" = "Sag \\"hallo\\"";\n');
+  });
+
+  it("adds a language to an .xcstrings file", () => {
+    const source = JSON.stringify(
+      { sourceLanguage: "en", version: "1.0", strings: { hello: { localizations: { en: { stringUnit: { state: "translated", value: "Hello" } } } } } },
+      null,
+      2
+    );
+    const result = mergeTranslations("Localizable.xcstrings", source, source, translations({ hello: "Hallo", gone: "x" }), "en", "de");
+    const data = JSON.parse(result.content);
+    expect(data.strings.hello.localizations.de.stringUnit).toEqual({ state: "translated", value: "Hallo" });
+    expect(data.strings.hello.localizations.en.stringUnit.value).toBe("Hello");
+    expect(result.skipped).toEqual(["gone"]);
+  });
+
+  it("creates a PO catalog from a template and skips plural entries", () => {
+    const pot = `# Project title
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+#. Greeting
+msgid "Hello"
+msgstr ""
+
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+`;
+    const result = mergeTranslations(
+      "locale/de/LC_MESSAGES/messages.po",
+      null,
+      pot,
+      translations({ Hello: "Hallo", "One file": "Eine Datei" }),
+      "en",
+      "de"
+    );
+
+    const parsed = parsePoContent(result.content);
+    expect(parsed.header.Language).toBe("de");
+    expect(parsed.headerComments).toEqual(["Project title"]);
+    expect(parsed.entries[0]).toMatchObject({ msgid: "Hello", msgstr: ["Hallo"], extractedComments: ["Greeting"] });
+    expect(result.skipped).toEqual(["One file"]);
+  });
+
+  it("clears the fuzzy flag on imported PO entries", () => {
+    const po = '#, fuzzy\nmsgid "Hello"\nmsgstr "Hallo?"\n';
+    const result = mergeTranslations("po/de.po", po, po, translations({ Hello: "Hallo" }), "en", "de");
+    expect(parsePoContent(result.content).entries[0]).toMatchObject({ msgstr: ["Hallo"], flags: [] });
+  });
+
+  it("updates and inserts Android strings", () => {
+    const source = '<resources>\n    <string name="title">Title</string>\n    <plurals name="items"><item quantity="other">%d</item></plurals>\n</resources>\n';
+    const existing = '<resources>\n    <string name="title">Alt</string>\n</resources>\n';
+    const result = mergeTranslations(
+      "res/values-de/strings.xml",
+      existing,
+      source,
+      translations({ title: "Titel", body: "Jetzt & immer's", items: "x", "planets.0": "Merkur" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe(
+      '<resources>\n    <string name="title">Titel</string>\n    <string name="body">Jetzt &amp; immer\\\'s</string>\n</resources>\n'
+    );
+    expect(result.skipped).toEqual(["items", "planets.0"]);
+  });
+
+  it("roots Rails YAML at the target language", () => {
+    const source = "en:\n  greeting: Hello\n  nav:\n    home: Home\n";
+    const result = mergeTranslations(
+      "config/locales/pt-BR.yml",
+      null,
+      source,
+      translations({ greeting: "Olá", "nav.home": "Início" }),
+      "en",
+      "pt-BR"
+    );
+    expect(parseYaml(result.content)).toEqual({ "pt-BR": { greeting: "Olá", nav: { home: "Início" } } });
+  });
+
+  it("edits YAML values in place, keeping comments, quoting and layout", () => {
+    const source = "en:\n  greeting: Hello\n  nav:\n    home: Home\n    about: About\n  footer: Bye\n";
+    const existing = [
+      "# keep me",
+      "de:",
+      "  greeting: 'Hallo' # informal",
+      "  nav:",
+      "    home: |",
+      "      Start",
+      "      seite",
+      "",
+      "    # legal pages",
+      '    "imprint": Impressum',
+      "",
+    ].join("\n");
+    const result = mergeTranslations(
+      "config/locales/de.yml",
+      existing,
+      source,
+      translations({ greeting: "Servus", "nav.home": "Start", "nav.about": "Über", footer: "yes" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe(
+      [
+        "# keep me",
+        "de:",
+        "  greeting: Servus # informal",
+        "  nav:",
+        "    home: Start",
+        "",
+        "    # legal pages",
+        '    "imprint": Impressum',
+        "    about: Über",
+        '  footer: "yes"',
+        "",
+      ].join("\n")
+    );
+    expect(result.skipped).toEqual([]);
+  });
+
+  it("skips YAML keys whose value is a nested mapping", () => {
+    const result = mergeTranslations(
+      "de.yml",
+      "nav:\n  home: Start\n",
+      "nav:\n  home: Home\n",
+      translations({ nav: "x", "nav.home.deep": "y" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe("nav:\n  home: Start\n");
+    expect(result.skipped).toEqual(["nav", "nav.home.deep"]);
+  });
+
+  it("updates Hugo's list form item by item", () => {
+    const source = "- id: home\n  translation: Home\n- id: about\n  translation: About\n";
+    const existing = "# Startseite\n- id: home\n  translation: Start # old\n- id: other\n  translation: Andere\n";
+    const result = mergeTranslations("i18n/de.yaml", existing, source, translations({ home: "Heim", about: "Über" }), "en", "de");
+    expect(result.content).toBe(
+      "# Startseite\n- id: home\n  translation: Heim # old\n- id: other\n  translation: Andere\n- id: about\n  translation: Über\n"
+    );
+  });
+
+  it("replaces continued .properties entries and appends new ones with their comment", () => {
+    const source = "greeting=Hello\n# Save button\nsave=Save\n";
+    const existing = "# German\ngreeting=Hallo \\\n    Welt\nother=x\n";
+    const result = mergeTranslations(
+      "src/main/resources/messages_de.properties",
+      existing,
+      source,
+      translations({ greeting: "Grüß dich", save: "Speichern" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe("# German\ngreeting=Gr\\u00fc\\u00df dich\nother=x\n# Save button\nsave=Speichern\n");
+  });
+
+  it("keeps literal UTF-8 in .properties files that already use it", () => {
+    const source = "name=Café\n";
+    const result = mergeTranslations("messages_de.properties", null, source, translations({ name: "Kaffee für" }), "en", "de");
+    expect(result.content).toBe("name=Kaffee für\n");
+  });
+
+  it("updates RESX values and creates new culture files from the source header", () => {
+    const source = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <!-- <data name="Sample"><value>x</value></data> -->
+  <resheader name="version">
+    <value>2.0</value>
+  </resheader>
+  <data name="Title" xml:space="preserve">
+    <value>Title</value>
+    <comment>Window title</comment>
+  </data>
+  <data name="Body" xml:space="preserve">
+    <value>Body</value>
+  </data>
+</root>
+`;
+    const created = mergeTranslations("Resources/Strings.de.resx", null, source, translations({ Title: "Titel & mehr" }), "en", "de");
+    expect(created.content).toContain('<!-- <data name="Sample"><value>x</value></data> -->');
+    expect(created.content).toContain("<value>2.0</value>");
+    expect(created.content).toContain(
+      '  <data name="Title" xml:space="preserve">\n    <value>Titel &amp; mehr</value>\n    <comment>Window title</comment>\n  </data>\n</root>'
+    );
+    expect(created.content).not.toContain("<value>Body</value>");
+
+    const updated = mergeTranslations("Resources/Strings.de.resx", created.content, source, translations({ Title: "Neu", Body: "Text" }), "en", "de");
+    expect(updated.content).toContain("<value>Neu</value>");
+    expect(updated.content).toContain('<data name="Body" xml:space="preserve">\n    <value>Text</value>');
+    expect(updated.content.match(/name="Title"/g)).toHaveLength(1);
+  });
+
+  it("rewrites Fluent messages in place and appends new ones with their comment", () => {
+    const source = `# Login field
+login-input = Email
+    .placeholder = you@example.com
+    .title = Your email
+emails =
+    { $count ->
+        [one] One email
+       *[other] { $count } emails
+    }
+`;
+    const existing = "### German\n\nlogin-input = E-Mail\n    .title = Deine E-Mail\nbye = Tschüss\n";
+    const result = mergeTranslations(
+      "locales/de/main.ftl",
+      existing,
+      source,
+      translations({
+        "login-input.placeholder": "du@example.com",
+        emails: "{ $count ->\n    [one] Eine E-Mail\n   *[other] { $count } E-Mails\n}",
+        "not a key": "x",
+      }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe(`### German
+
+login-input = E-Mail
+    .title = Deine E-Mail
+    .placeholder = du@example.com
+bye = Tschüss
+
+emails =
+    { $count ->
+        [one] Eine E-Mail
+       *[other] { $count } E-Mails
+    }
+`);
+    expect(result.skipped).toEqual(["not a key"]);
+  });
+
+  it("translates only the message of WebExtension keys", () => {
+    const source = JSON.stringify(
+      {
+        extName: { message: "Tab Saver", description: "Store name" },
+        greeting: { message: "Hello, $USER$!", placeholders: { user: { content: "$1" } } },
+      },
+      null,
+      2
+    );
+    const existing = '{\n    "extName": {\n        "message": "Alt",\n        "description": "Eigene"\n    }\n}\n';
+    const result = mergeTranslations(
+      "_locales/de/messages.json",
+      existing,
+      source,
+      translations({ greeting: "Hallo, $USER$!", extName: "Tab-Retter" }),
+      "en",
+      "de"
+    );
+    expect(JSON.parse(result.content)).toEqual({
+      extName: { message: "Tab-Retter", description: "Eigene" },
+      greeting: { message: "Hallo, $USER$!", placeholders: { user: { content: "$1" } } },
+    });
+    expect(result.content.startsWith('{\n    "extName"')).toBe(true);
+  });
+
+  it("merges FormatJS messages into extracted or plain catalogs", () => {
+    const source = JSON.stringify(
+      {
+        "app.title": { defaultMessage: "Dashboard", description: "Tab title" },
+        "nav.logout": { defaultMessage: "Log out" },
+      },
+      null,
+      2
+    );
+    const created = mergeTranslations("lang/de.json", null, source, translations({ "app.title": "Übersicht" }), "en", "de");
+    expect(JSON.parse(created.content)).toEqual({ "app.title": { defaultMessage: "Übersicht", description: "Tab title" } });
+
+    const plain = mergeTranslations(
+      "lang/de.json",
+      '{ "nav.logout": "Abmelden" }',
+      source,
+      translations({ "app.title": "Übersicht" }),
+      "en",
+      "de"
+    );
+    expect(JSON.parse(plain.content)).toEqual({ "app.title": "Übersicht", "nav.logout": "Abmelden" });
+  });
+
+  it("merges imported strings into a Vue component's <i18n> block only", () => {
+    const component = '<template />\n\n<i18n lang="json">\n{\n  "en": { "nav": { "home": "Home" } }\n}\n</i18n>\n';
+    const result = mergeTranslations(
+      "src/App.vue",
+      component,
+      component,
+      translations({ "nav.home": "Startseite" }),
+      "en",
+      "de"
+    );
+    expect(result.content.startsWith('<template />\n\n<i18n lang="json">\n')).toBe(true);
+    expect(result.content).toContain('"de": {\n    "nav": {\n      "home": "Startseite"');
+  });
+
+  it("imports XLF units into a catalog built from the source, skipping unknown units", () => {
+    const source =
+      '<xliff version="1.2"><file source-language="en" datatype="plaintext"><body>\n' +
+      '  <trans-unit id="hi"><source>Hi <x id="INTERPOLATION"/></source></trans-unit>\n' +
+      "</body></file></xliff>\n";
+    const result = mergeTranslations(
+      "src/locale/messages.de.xlf",
+      null,
+      source,
+      translations({ hi: "Hallo {INTERPOLATION}", gone: "Weg" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toContain('target-language="de"');
+    expect(result.content).toContain(
+      '<source>Hi <x id="INTERPOLATION"/></source><target state="translated">Hallo <x id="INTERPOLATION"/></target>'
+    );
+    expect(result.skipped).toEqual(["gone"]);
+  });
+
+  it("writes JS/TS module translations inside the source module's wrapper", () => {
+    const source = "const en = {\n  nav: { home: 'Home' },\n} as const;\n\nexport default en;\n";
+    const result = mergeTranslations(
+      "src/locales/de.ts",
+      null,
+      source,
+      translations({ "nav.home": "Startseite", "nav.back": "Zurück" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe(
+      "const de = {\n  nav: {\n    home: 'Startseite',\n    back: 'Zurück',\n  },\n} as const;\n\nexport default de;\n"
+    );
+  });
+
+  it("writes Laravel translations as a PHP array, keeping existing entries", () => {
+    const existing = "<?php\n\nreturn array(\n    'failed' => 'Alt',\n    'nav' => ['home' => 'Start'],\n);\n";
+    const result = mergeTranslations(
+      "lang/de/auth.php",
+      existing,
+      "",
+      translations({ failed: "Ungültige Anmeldedaten.", "nav.back": "Zurück" }),
+      "en",
+      "de"
+    );
+    expect(result.content).toBe(
+      "<?php\n\nreturn [\n    'failed' => 'Ungültige Anmeldedaten.',\n    'nav' => [\n        'home' => 'Start',\n        'back' => 'Zurück',\n    ],\n];\n"
+    );
+    expect(result.applied).toEqual(["failed", "nav.back"]);
+  });
+});
@@ -0,0 +1,685 @@
+/**
+ * Local merging of translated strings into locale files
+ *
+ * Used when translations come back from outside LangAPI (XLIFF from a
+ * translation agency) and must be written into the project without a
+ * server round-trip. Each format is edited in place where possible so
+ * comments, ordering and formatting of untouched entries survive.
+ */
+
+import { detectJsonFormat, stringifyWithFormat } from "./format-preserve.js";
+import { parseJsonSafe } from "./json-parser.js";
+import { isArbFile } from "./arb-parser.js";
+import { isStringsFile, isXCStringsFile } from "./apple-common.js";
+import { parseStringsContent } from "./strings-parser.js";
+import { isAndroidStringsFile } from "./android-parser.js";
+import {
+  getPoEntryKey,
+  isGettextFile,
+  parsePoContent,
+  stringifyPoContent,
+  toGettextLocale,
+} from "./po-parser.js";
+import {
+  getYamlRootLanguageKey,
+  isYamlFile,
+  parseYaml,
+  parseYamlLocaleContent,
+  parseYamlSafe,
+  setYamlListTranslations,
+  setYamlValues,
+} from "./yaml-parser.js";
+import {
+  escapePropertiesNonAscii,
+  formatPropertiesEntry,
+  isPropertiesFile,
+  parsePropertiesContent,
+} from "./properties-parser.js";
+import { escapeResxText, isResxFile, parseResxContent } from "./resx-parser.js";
+import {
+  formatFluentMessage,
+  isFluentFile,
+  parseFluentContent,
+  type FluentMessage,
+} from "./fluent-parser.js";
+import { isWebExtensionMessagesFile } from "./webextension-parser.js";
+import { getFormatJsShape } from "./formatjs-parser.js";
+import { isLaravelPhpFile, parsePhpArraySafe, stringifyPhpArray } from "./php-array-parser.js";
+import { isVueFile, parseVueI18nMessages, setVueI18nMessages } from "./vue-i18n-parser.js";
+import {
+  isJsModuleFile,
+  parseJsModule,
+  renameJsModuleBinding,
+  stringifyJsModule,
+  type JsModuleContent,
+} from "./js-module-parser.js";
+import {
+  extractXlfCatalogEntries,
+  isXlfCatalogFile,
+  parseXlfCatalog,
+  writeXlfCatalog,
+} from "./xlf-catalog-parser.js";
+import { escapeRegExp } from "./xml-common.js";
+
+/**
+ * Result of merging translations into one file
+ */
+export interface MergeResult {
+  /** New file content */
+  content: string;
+  /** Keys written */
+  applied: string[];
+  /** Keys that could not be written (unknown key, plural/array entries) */
+  skipped: string[];
+}
+
+/**
+ * Merge translated values into a target locale file
+ *
+ * @param targetPath Path of the target file (selects the format)
+ * @param existingContent Current target content, or null if the file does not exist yet
+ * @param sourceContent Source file content, used as the template for new files
+ * @param translations Key -> translated value
+ * @param sourceLang Source language code
+ * @param targetLang Target language code
+ */
+export function mergeTranslations(
+  targetPath: string,
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  sourceLang: string,
+  targetLang: string
+): MergeResult {
+  if (isXCStringsFile(targetPath)) {
+    return mergeXCStrings(existingContent ?? sourceContent, translations, targetLang);
+  }
+  if (isStringsFile(targetPath)) {
+    return mergeStrings(existingContent, sourceContent, translations);
+  }
+  if (isGettextFile(targetPath)) {
+    return mergePo(existingContent, sourceContent, translations, targetLang);
+  }
+  if (isAndroidStringsFile(targetPath)) {
+    return mergeAndroid(existingContent, sourceContent, translations);
+  }
+  if (isPropertiesFile(targetPath)) {
+    return mergeProperties(existingContent, sourceContent, translations);
+  }
+  if (isResxFile(targetPath)) {
+    return mergeResx(existingContent, sourceContent, translations);
+  }
+  if (isWebExtensionMessagesFile(targetPath)) {
+    return mergeWebExtension(existingContent, sourceContent, translations);
+  }
+  if (isFluentFile(targetPath)) {
+    return mergeFluent(existingContent, sourceContent, translations);
+  }
+  if (isXlfCatalogFile(targetPath)) {
+    return mergeXlfCatalog(existingContent, sourceContent, translations, targetLang);
+  }
+  if (isJsModuleFile(targetPath)) {
+    return mergeJsModule(existingContent, sourceContent, translations, sourceLang, targetLang);
+  }
+  if (isVueFile(targetPath)) {
+    return mergeVueI18n(existingContent ?? sourceContent, translations, targetLang);
+  }
+  if (isLaravelPhpFile(targetPath)) {
+    return mergeLaravelPhp(existingContent, translations);
+  }
+  if (isYamlFile(targetPath)) {
+    return mergeYaml(existingContent, sourceContent, translations, sourceLang, targetLang);
+  }
+  const source = parseJsonSafe(sourceContent);
+  if (!isArbFile(targetPath) && source && getFormatJsShape(source) === "extracted") {
+    return mergeFormatJs(existingContent, sourceContent, source, translations);
+  }
+  return mergeJson(targetPath, existingContent, sourceContent, translations, targetLang);
+}
+
+function mergeJson(
+  targetPath: string,
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  targetLang: string
+): MergeResult {
+  const source = parseJsonSafe(sourceContent) ?? {};
+  const existing = existingContent !== null ? parseJsonSafe(existingContent) : null;
+  const data: Record<string, unknown> = existing ?? {};
+  const applied: string[] = [];
+
+  if (isArbFile(targetPath)) {
+    data["@@locale"] = targetLang.replace("-", "_");
+    for (const [key, value] of translations) {
+      data[key] = value;
+      applied.push(key);
+    }
+  } else {
+    const flat = detectJsonFormat(sourceContent, source).keyStructure === "flat";
+    for (const [key, value] of translations) {
+      if (flat || key in data) {
+        data[key] = value;
+      } else {
+        setNestedValue(data, key.split("."), value);
+      }
+      applied.push(key);
+    }
+  }
+
+  // Keep the target's own indentation, but follow the source's key order so
+  // new keys land next to their neighbours
+  const format = detectJsonFormat(existingContent ?? sourceContent, existing ?? source);
+  format.keyOrder = detectJsonFormat(sourceContent, source).keyOrder;
+  return { content: stringifyWithFormat(data, format), applied, skipped: [] };
+}
+
+function mergeWebExtension(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  const source = parseJsonSafe(sourceContent) ?? {};
+  const existing = existingContent !== null ? parseJsonSafe(existingContent) : null;
+  const data: Record<string, unknown> = existing ?? {};
+
+  // Only `message` is translated; description and placeholders come from
+  // the source for new keys and are left alone for existing ones
+  for (const [key, value] of translations) {
+    const current = data[key];
+    if (typeof current === "object" && current !== null) {
+      (current as Record<string, unknown>).message = value;
+    } else {
+      const sourceEntry = source[key];
+      data[key] =
+        typeof sourceEntry === "object" && sourceEntry !== null
+          ? { ...(sourceEntry as Record<string, unknown>), message: value }
+          : { message: value };
+    }
+  }
+
+  const format = detectJsonFormat(existingContent ?? sourceContent, existing ?? source);
+  format.keyStructure = "flat";
+  format.keyOrder = Object.keys(source);
+  return { content: stringifyWithFormat(data, format), applied: [...translations.keys()], skipped: [] };
+}
+
+function mergeFormatJs(
+  existingContent: string | null,
+  sourceContent: string,
+  source: Record<string, unknown>,
+  translations: Map<string, string>
+): MergeResult {
+  const existing = existingContent !== null ? parseJsonSafe(existingContent) : null;
+  const data: Record<string, unknown> = existing ?? {};
+  // Translated catalogs are either in the extracted shape or plain id -> text;
+  // new files follow the source
+  const plain = existing !== null && Object.values(existing).some((v) => typeof v === "string");
+
+  for (const [id, value] of translations) {
+    const current = data[id];
+    if (typeof current === "object" && current !== null) {
+      (current as Record<string, unknown>).defaultMessage = value;
+    } else if (plain) {
+      data[id] = value;
+    } else {
+      data[id] = { ...(source[id] as Record<string, unknown> | undefined), defaultMessage: value };
+    }
+  }
+
+  const format = detectJsonFormat(existingContent ?? sourceContent, existing ?? source);
+  format.keyStructure = "flat";
+  format.keyOrder = Object.keys(source);
+  return { content: stringifyWithFormat(data, format), applied: [...translations.keys()], skipped: [] };
+}
+
+function mergeXCStrings(
+  content: string,
+  translations: Map<string, string>,
+  targetLang: string
+): MergeResult {
+  const data = parseJsonSafe(content) as { strings?: Record<string, Record<string, unknown>> } | null;
+  const applied: string[] = [];
+  const skipped: string[] = [];
+  if (!data?.strings) {
+    return { content, applied, skipped: [...translations.keys()] };
+  }
+
+  for (const [key, value] of translations) {
+    const entry = data.strings[key];
+    if (!entry) {
+      skipped.push(key);
+      continue;
+    }
+    const localizations = (entry.localizations ?? {}) as Record<string, unknown>;
+    localizations[targetLang] = { stringUnit: { state: "translated", value } };
+    entry.localizations = localizations;
+    applied.push(key);
+  }
+
+  const format = detectJsonFormat(content);
+  return { content: stringifyWithFormat(data, format), applied, skipped };
+}
+
+function mergeStrings(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  const comments = parseStringsContent(sourceContent).comments;
+  let content = existingContent ?? "";
+  const applied: string[] = [];
+
+  for (const [key, value] of translations) {
+    const line = `"${escapeStrings(key)}" = "${escapeStrings(value)}";`;
+    const pattern = new RegExp(`^"${escapeRegExp(escapeStrings(key))}"\\s*=\\s*"(?:[^"\\\\]|\\\\.)*"\\s*;`, "m");
+    if (pattern.test(content)) {
+      content = content.replace(pattern, () => line);
+    } else {
+      const comment = comments.get(key);
+      if (content !== "" && !content.endsWith("\n")) content += "\n";
+      if (content !== "") content += "\n";
+      content += comment ? `/* ${comment} */\n${line}\n` : `${line}\n`;
+    }
+    applied.push(key);
+  }
+
+  return { content, applied, skipped: [] };
+}
+
+function mergePo(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  targetLang: string
+): MergeResult {
+  // A missing catalog starts as a copy of the template with empty msgstrs
+  const parsed = parsePoContent(existingContent ?? sourceContent);
+  if (existingContent === null) {
+    parsed.header.Language = toGettextLocale(targetLang);
+    for (const entry of parsed.entries) {
+      entry.msgstr = entry.msgstr.map(() => "");
+    }
+  }
+
+  const applied: string[] = [];
+  const skipped: string[] = [];
+  const entries = new Map(parsed.entries.map((e) => [getPoEntryKey(e), e]));
+
+  for (const [key, value] of translations) {
+    const entry = entries.get(key);
+    // Plural forms can't be reconstructed from a single XLIFF segment
+    if (!entry || entry.msgidPlural !== undefined) {
+      skipped.push(key);
+      continue;
+    }
+    entry.msgstr = [value];
+    entry.flags = entry.flags.filter((f) => f !== "fuzzy");
+    applied.push(key);
+  }
+
+  return { content: stringifyPoContent(parsed), applied, skipped };
+}
+
+function mergeAndroid(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  let content =
+    existingContent ?? '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+  const applied: string[] = [];
+  const skipped: string[] = [];
+
+  for (const [key, value] of translations) {
+    // Array items (name.0) and plurals can't be addressed as a single string
+    const plurals = new RegExp(`<plurals\\b[^>]*name="${escapeRegExp(key)}"`);
+    if (/\.\d+$/.test(key) || plurals.test(sourceContent)) {
+      skipped.push(key);
+      continue;
+    }
+
+    const element = `<string name="${key}">${escapeAndroid(value)}</string>`;
+    const pattern = new RegExp(`<string\\b[^>]*name="${escapeRegExp(key)}"[^>]*?(?:/>|>[\\s\\S]*?</string>)`);
+    if (pattern.test(content)) {
+      content = content.replace(pattern, () => element);
+    } else {
+      content = content.replace(/([ \t]*)<\/resources>/, (_, indent: string) => `    ${element}\n${indent}</resources>`);
+    }
+    applied.push(key);
+  }
+
+  return { content, applied, skipped };
+}
+
+function mergeProperties(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  const comments = parsePropertiesContent(sourceContent).comments;
+  const lines = existingContent ? existingContent.replace(/\r?\n$/, "").split(/\r?\n/) : [];
+  // Files that keep to ASCII (\uXXXX escapes) stay ASCII
+  const asciiOnly = !/[\u0080-\uffff]/.test(existingContent ?? sourceContent);
+  const format = (key: string, value: string) => {
+    const line = formatPropertiesEntry(key, value);
+    return asciiOnly ? escapePropertiesNonAscii(line) : line;
+  };
+
+  // Locate each entry's logical line span (continuations included)
+  const spans = new Map<string, [number, number]>();
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].replace(/^[ \t\f]+/, "");
+    if (trimmed === "" || trimmed.startsWith("#") || trimmed.startsWith("!")) continue;
+    const start = i;
+    while (/(?:^|[^\\])(?:\\\\)*\\$/.test(lines[i]) && i + 1 < lines.length) i++;
+    const entry = parsePropertiesContent(lines.slice(start, i + 1).join("\n")).entries[0];
+    if (entry) spans.set(entry.key, [start, i]);
+  }
+
+  const replaced = new Map<number, string>();
+  const removed = new Set<number>();
+  const appended: string[] = [];
+  for (const [key, value] of translations) {
+    const span = spans.get(key);
+    if (span) {
+      replaced.set(span[0], format(key, value));
+      for (let i = span[0] + 1; i <= span[1]; i++) removed.add(i);
+    } else {
+      const comment = comments.get(key);
+      if (comment) appended.push(...comment.split("\n").map((c) => `# ${c}`));
+      appended.push(format(key, value));
+    }
+  }
+
+  const output = lines.flatMap((line, i) => (removed.has(i) ? [] : [replaced.get(i) ?? line]));
+  output.push(...appended);
+  return { content: output.join("\n") + "\n", applied: [...translations.keys()], skipped: [] };
+}
+
+function mergeResx(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  // Elements are matched outside comments: the standard header comment
+  // contains sample <data> elements
+  const dataPattern = /<!--[\s\S]*?-->|[ \t]*<data\b[^>]*?(?:\/>|>[\s\S]*?<\/data>)[ \t]*\r?\n?/g;
+  const nameOf = (element: string) => element.match(/<data\b[^>]*?\sname="([^"]*)"/)?.[1];
+
+  // A new culture file starts as the source's schema/header without its data
+  let content =
+    existingContent ?? sourceContent.replace(dataPattern, (m) => (m.startsWith("<!--") ? m : ""));
+  const comments = new Map(parseResxContent(sourceContent).entries.map((e) => [e.name, e.comment]));
+  const pending = new Map(translations);
+
+  content = content.replace(dataPattern, (element) => {
+    const name = nameOf(element);
+    if (element.startsWith("<!--") || name === undefined || !pending.has(name)) return element;
+    const value = escapeResxText(pending.get(name)!);
+    pending.delete(name);
+    return /<value>[\s\S]*?<\/value>/.test(element)
+      ? element.replace(/<value>[\s\S]*?<\/value>/, () => `<value>${value}</value>`)
+      : element.replace(/<\/data>/, () => `<value>${value}</value></data>`);
+  });
+
+  const added = [...pending].map(([name, value]) => {
+    const comment = comments.get(name);
+    return [
+      `  <data name="${escapeResxText(name).replace(/"/g, "&quot;")}" xml:space="preserve">`,
+      `    <value>${escapeResxText(value)}</value>`,
+      ...(comment ? [`    <comment>${escapeResxText(comment)}</comment>`] : []),
+      "  </data>",
+      "",
+    ].join("\n");
+  });
+  if (added.length > 0) {
+    content = content.replace(/<\/root>/, () => `${added.join("")}</root>`);
+  }
+
+  return { content, applied: [...translations.keys()], skipped: [] };
+}
+
+function mergeFluent(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>
+): MergeResult {
+  const sourceMessages = new Map(parseFluentContent(sourceContent).messages.map((m) => [m.id, m]));
+  const existingMessages = existingContent ? parseFluentContent(existingContent).messages : [];
+  const lines = existingContent ? existingContent.replace(/\r?\n$/, "").split(/\r?\n/) : [];
+  const applied: string[] = [];
+  const skipped: string[] = [];
+
+  // Group keys by message: "login-input.placeholder" is the placeholder
+  // attribute of login-input
+  type Update = { value?: string; attributes: Map<string, string> };
+  const updates = new Map<string, Update>();
+  for (const [key, value] of translations) {
+    const match = key.match(/^(-?[a-zA-Z][\w-]*)(?:\.([a-zA-Z][\w-]*))?$/);
+    if (!match) {
+      skipped.push(key);
+      continue;
+    }
+    const update = updates.get(match[1]) ?? { attributes: new Map<string, string>() };
+    if (match[2]) update.attributes.set(match[2], value);
+    else update.value = value;
+    updates.set(match[1], update);
+    applied.push(key);
+  }
+
+  const apply = (id: string, base: Pick<FluentMessage, "value" | "attributes">, update: Update) => {
+    const attributes = base.attributes.map((a) => ({
+      name: a.name,
+      value: update.attributes.get(a.name) ?? a.value,
+    }));
+    for (const [name, value] of update.attributes) {
+      if (!attributes.some((a) => a.name === name)) attributes.push({ name, value });
+    }
+    return formatFluentMessage({ id, value: update.value ?? base.value, attributes });
+  };
+
+  const replaced = new Map<number, string>();
+  const removed = new Set<number>();
+  for (const message of existingMessages) {
+    const update = updates.get(message.id);
+    if (!update) continue;
+    replaced.set(message.startLine, apply(message.id, message, update));
+    for (let i = message.startLine + 1; i <= message.endLine; i++) removed.add(i);
+    updates.delete(message.id);
+  }
+
+  // New messages keep the source's attribute order, but only translated parts
+  const appended: string[] = [];
+  for (const [id, update] of updates) {
+    const source = sourceMessages.get(id);
+    const base = {
+      value: null,
+      attributes: (source?.attributes ?? [])
+        .filter((a) => update.attributes.has(a.name))
+        .map((a) => ({ name: a.name, value: "" })),
+    };
+    const comment = source?.comment ? source.comment.split("\n").map((c) => (c ? `# ${c}` : "#")) : [];
+    appended.push([...comment, apply(id, base, update)].join("\n"));
+  }
+
+  const output = lines.flatMap((line, i) => (removed.has(i) ? [] : [replaced.get(i) ?? line]));
+  for (const block of appended) {
+    if (output.length > 0) output.push("");
+    output.push(block);
+  }
+  return { content: output.join("\n") + "\n", applied, skipped };
+}
+
+function mergeYaml(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  sourceLang: string,
+  targetLang: string
+): MergeResult {
+  let source: unknown = null;
+  try {
+    source = parseYaml(sourceContent);
+  } catch {
+    // Unparseable source: write the translations unwrapped
+  }
+
+  // Hugo keeps a list of { id, translation } entries
+  if (Array.isArray(source)) {
+    return {
+      content: setYamlListTranslations(existingContent ?? "", translations),
+      applied: [...translations.keys()],
+      skipped: [],
+    };
+  }
+
+  // Rails files are rooted at their language: keep the target's root, or
+  // root a new file like the source
+  const existing = existingContent !== null ? parseYamlSafe(existingContent) : null;
+  let rootKey = existing ? getYamlRootLanguageKey(existing, targetLang) : null;
+  if (rootKey === null && (existing === null || Object.keys(existing).length === 0)) {
+    const sourceRoot =
+      source !== null && typeof source === "object"
+        ? getYamlRootLanguageKey(source as Record<string, unknown>, sourceLang)
+        : null;
+    if (sourceRoot !== null) rootKey = sourceRoot.includes("_") ? targetLang.replace("-", "_") : targetLang;
+  }
+
+  // A key with dots is a nested path unless the file has it flat
+  const data = existingContent !== null ? parseYamlLocaleContent(existingContent, targetLang) ?? {} : {};
+  const prefix = rootKey !== null ? [rootKey] : [];
+  const { content, skipped } = setYamlValues(
+    existingContent ?? "",
+    [...translations].map(([key, value]) => [[...prefix, ...(key in data ? [key] : key.split("."))], value])
+  );
+  const skippedKeys = new Set(skipped.map((path) => path.slice(prefix.length).join(".")));
+  return {
+    content,
+    applied: [...translations.keys()].filter((key) => !skippedKeys.has(key)),
+    skipped: [...translations.keys()].filter((key) => skippedKeys.has(key)),
+  };
+}
+
+function mergeXlfCatalog(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  targetLang: string
+): MergeResult {
+  const existing = existingContent !== null ? parseXlfCatalog(existingContent) : null;
+  const merged: Record<string, string> = Object.fromEntries(
+    (existing ? extractXlfCatalogEntries(existing, "target") : []).map((e) => [e.key, e.value])
+  );
+  const sourceKeys = new Set(parseXlfCatalog(sourceContent)?.units.map((u) => u.key) ?? []);
+  const applied: string[] = [];
+  const skipped: string[] = [];
+  for (const [key, value] of translations) {
+    if (sourceKeys.has(key)) {
+      merged[key] = value;
+      applied.push(key);
+    } else {
+      skipped.push(key);
+    }
+  }
+  return { content: writeXlfCatalog(sourceContent, existingContent, merged, targetLang), applied, skipped };
+}
+
+function mergeJsModule(
+  existingContent: string | null,
+  sourceContent: string,
+  translations: Map<string, string>,
+  sourceLang: string,
+  targetLang: string
+): MergeResult {
+  const existing = existingContent !== null ? parseJsModuleOrNull(existingContent) : null;
+  // A new module takes the source module's wrapper and quote style
+  const source = existing ? null : parseJsModuleOrNull(sourceContent);
+  const layout =
+    existing?.layout ??
+    (source
+      ? renameJsModuleBinding(source.layout, sourceLang, targetLang)
+      : { prefix: "export default ", suffix: ";\n", quote: '"' as const, indent: "  " });
+  const data = existing?.data ?? {};
+  for (const [key, value] of translations) {
+    if (key in data) {
+      data[key] = value;
+    } else {
+      setNestedValue(data, key.split("."), value);
+    }
+  }
+  return { content: stringifyJsModule(data, layout), applied: [...translations.keys()], skipped: [] };
+}
+
+function parseJsModuleOrNull(content: string): JsModuleContent | null {
+  try {
+    return parseJsModule(content);
+  } catch {
+    return null;
+  }
+}
+
+function mergeVueI18n(content: string, translations: Map<string, string>, targetLang: string): MergeResult {
+  const data = parseVueI18nMessages(content)?.get(targetLang) ?? {};
+  for (const [key, value] of translations) {
+    if (key in data) {
+      data[key] = value;
+    } else {
+      setNestedValue(data, key.split("."), value);
+    }
+  }
+  return {
+    content: setVueI18nMessages(content, targetLang, data),
+    applied: [...translations.keys()],
+    skipped: [],
+  };
+}
+
+function mergeLaravelPhp(existingContent: string | null, translations: Map<string, string>): MergeResult {
+  const data: Record<string, unknown> =
+    existingContent !== null ? parsePhpArraySafe(existingContent) ?? {} : {};
+  for (const [key, value] of translations) {
+    if (key in data) {
+      data[key] = value;
+    } else {
+      setNestedValue(data, key.split("."), value);
+    }
+  }
+  return { content: stringifyPhpArray(data), applied: [...translations.keys()], skipped: [] };
+}
+
+/**
+ * Set a value at a dot-separated path, creating intermediate objects
+ */
+function setNestedValue(obj: Record<string, unknown>, path: string[], value: string): void {
+  let current = obj;
+  for (const part of path.slice(0, -1)) {
+    const next = current[part];
+    if (typeof next !== "object" || next === null) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  current[path[path.length - 1]] = value;
+}
+
+function escapeStrings(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t");
+}
+
+function escapeAndroid(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/^([@?])/, "\\$1");
+}
+
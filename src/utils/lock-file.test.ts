@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  createLangApiLock,
+  findChangedSourceKeys,
+  hashSourceText,
+  recordSyncedSource,
+  stringifyLangApiLock,
+} from "./lock-file.js";
+
+describe("langapi.lock", () => {
+  const entries = [
+    { key: "app.name", value: "My Application" },
+    { key: "auth.login", value: "Log in" },
+  ];
+
+  describe("hashSourceText", () => {
+    it("should be stable and differ for different text", () => {
+      expect(hashSourceText("Log in")).toBe(hashSourceText("Log in"));
+      expect(hashSourceText("Log in")).not.toBe(hashSourceText("Sign in"));
+      expect(hashSourceText("Log in")).toMatch(/^[0-9a-f]{16}$/);
+    });
+  });
+
+  describe("findChangedSourceKeys", () => {
+    it("should report keys whose source text changed since they were recorded", () => {
+      const lock = createLangApiLock();
+      recordSyncedSource(lock, "locales\\en.json", "de", entries);
+
+      const changed = [
+        { key: "app.name", value: "My App" },
+        { key: "auth.login", value: "Log in" },
+        { key: "auth.logout", value: "Log out" },
+      ];
+      expect(findChangedSourceKeys(lock, "locales/en.json", "de", changed)).toEqual(["app.name"]);
+    });
+
+    it("should report nothing for a language or file that was never synced", () => {
+      const lock = createLangApiLock();
+      recordSyncedSource(lock, "locales/en.json", "de", entries);
+
+      const changed = [{ key: "app.name", value: "My App" }];
+      expect(findChangedSourceKeys(lock, "locales/en.json", "fr", changed)).toEqual([]);
+      expect(findChangedSourceKeys(lock, "locales/other.json", "de", changed)).toEqual([]);
+    });
+  });
+
+  describe("recordSyncedSource", () => {
+    it("should replace the previous record for the same file and language", () => {
+      const lock = createLangApiLock();
+      recordSyncedSource(lock, "locales/en.json", "de", entries);
+      recordSyncedSource(lock, "locales/en.json", "de", [{ key: "app.name", value: "My App" }]);
+
+      expect(lock.files["locales/en.json"].de).toEqual({ "app.name": hashSourceText("My App") });
+    });
+  });
+
+  describe("stringifyLangApiLock", () => {
+    it("should sort files and languages", () => {
+      const lock = createLangApiLock();
+      recordSyncedSource(lock, "locales/en.json", "fr", entries.slice(0, 1));
+      recordSyncedSource(lock, "locales/en.json", "de", entries.slice(0, 1));
+      recordSyncedSource(lock, "app/en.json", "de", entries.slice(0, 1));
+
+      const parsed = JSON.parse(stringifyLangApiLock(lock));
+      expect(parsed.version).toBe(1);
+      expect(Object.keys(parsed.files)).toEqual(["app/en.json", "locales/en.json"]);
+      expect(Object.keys(parsed.files["locales/en.json"])).toEqual(["de", "fr"]);
+      expect(stringifyLangApiLock(lock).endsWith("}\n")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * langapi.lock: the source text each translation was made from.
+ *
+ * After a sync writes a target file, a hash of every source string that went
+ * into it is recorded per (source file, target language, key). The file is
+ * meant to be committed, so get_translation_status can tell — without asking
+ * the server — which translated keys now sit under changed source text:
+ *
+ *   {
+ *     "version": 1,
+ *     "files": {
+ *       "locales/en.json": {
+ *         "de": { "app.name": "9f86d081884c7d65", ... }
+ *       }
+ *     }
+ *   }
+ *
+ * Only hashes are stored, never the text itself. Files and languages are
+ * written in sorted order so re-syncs produce small diffs.
+ */
+
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { KeyValue } from "../api/types.js";
+
+export const LOCK_FILE_NAME = "langapi.lock";
+
+const LOCK_VERSION = 1;
+
+/**
+ * Parsed langapi.lock
+ */
+export interface LangApiLock {
+  version: number;
+  /** Source file (project-relative, `/`-separated) -> language -> key -> hash */
+  files: Record<string, Record<string, Record<string, string>>>;
+}
+
+/**
+ * Path of the lock file for a project
+ */
+export function getLockFilePath(projectPath: string): string {
+  return join(projectPath, LOCK_FILE_NAME);
+}
+
+/**
+ * Hash one source string (first 16 hex digits of SHA-256)
+ */
+export function hashSourceText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex").slice(0, 16);
+}
+
+function normalizeSourcePath(relativePath: string): string {
+  return relativePath.replace(/\\/g, "/");
+}
+
+/**
+ * Read a project's lock file
+ *
+ * @returns The lock, or null if the project has none or it can't be read
+ */
+export async function readLangApiLock(projectPath: string): Promise<LangApiLock | null> {
+  let content: string;
+  try {
+    content = await readFile(getLockFilePath(projectPath), "utf-8");
+  } catch {
+    return null;
+  }
+  try {
+    const data = JSON.parse(content) as Partial<LangApiLock>;
+    if (typeof data !== "object" || data === null || typeof data.files !== "object" || data.files === null) {
+      return null;
+    }
+    return { version: data.version ?? LOCK_VERSION, files: data.files };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An empty lock
+ */
+export function createLangApiLock(): LangApiLock {
+  return { version: LOCK_VERSION, files: {} };
+}
+
+/**
+ * Record the source strings a target language was just synced from,
+ * replacing what was recorded before for that (file, language)
+ */
+export function recordSyncedSource(
+  lock: LangApiLock,
+  sourcePath: string,
+  targetLang: string,
+  entries: KeyValue[]
+): void {
+  const path = normalizeSourcePath(sourcePath);
+  if (!lock.files[path]) lock.files[path] = {};
+  lock.files[path][targetLang] = Object.fromEntries(entries.map((e) => [e.key, hashSourceText(e.value)]));
+}
+
+/**
+ * Keys whose source text changed since the target language was last synced.
+ * Keys the lock has no record of are not reported: they are either missing
+ * from the target or were translated outside a sync.
+ */
+export function findChangedSourceKeys(
+  lock: LangApiLock,
+  sourcePath: string,
+  targetLang: string,
+  entries: KeyValue[]
+): string[] {
+  const recorded = lock.files[normalizeSourcePath(sourcePath)]?.[targetLang];
+  if (!recorded) return [];
+  return entries
+    .filter((e) => e.key in recorded && recorded[e.key] !== hashSourceText(e.value))
+    .map((e) => e.key);
+}
+
+/**
+ * Serialize a lock with files and languages in sorted order
+ */
+export function stringifyLangApiLock(lock: LangApiLock): string {
+  const files: LangApiLock["files"] = {};
+  for (const path of Object.keys(lock.files).sort()) {
+    const languages = lock.files[path];
+    files[path] = Object.fromEntries(Object.keys(languages).sort().map((lang) => [lang, languages[lang]]));
+  }
+  return `${JSON.stringify({ version: LOCK_VERSION, files }, null, 2)}\n`;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { addKnownRegions, parseWorkspaceProjectPaths, parseXcodeRegions } from "./pbxproj-parser.js";
+
+const PROJECT = `// !$*UTF8*$!
+{
+	objects = {
+/* Begin PBXProject section */
+		83CBB9F71A601CBA00E9B192 /* Project object */ = {
+			isa = PBXProject;
+			compatibilityVersion = "Xcode 14.0";
+			developmentRegion = en;
+			hasScannedForEncodings = 0;
+			knownRegions = (
+				en,
+				Base,
+				"pt-BR",
+			);
+			mainGroup = 83CBB9F61A601CBA00E9B192;
+		};
+/* End PBXProject section */
+	};
+}
+`;
+
+describe("Xcode Project Parser", () => {
+  describe("parseXcodeRegions", () => {
+    it("should read developmentRegion and knownRegions", () => {
+      expect(parseXcodeRegions(PROJECT)).toEqual({
+        developmentRegion: "en",
+        knownRegions: ["en", "Base", "pt-BR"],
+      });
+    });
+
+    it("should read single-line lists and quoted regions", () => {
+      expect(parseXcodeRegions(`developmentRegion = "zh-Hans"; knownRegions = (Base, "zh-Hans", ja);`)).toEqual({
+        developmentRegion: "zh-Hans",
+        knownRegions: ["Base", "zh-Hans", "ja"],
+      });
+    });
+
+    it("should return empty values for content without a project object", () => {
+      expect(parseXcodeRegions("{ objects = {}; }")).toEqual({ developmentRegion: null, knownRegions: [] });
+    });
+  });
+
+  describe("addKnownRegions", () => {
+    it("should append regions in Xcode's layout, quoting codes with a hyphen", () => {
+      const updated = addKnownRegions(PROJECT, ["de", "pt-BR", "zh-Hans"]);
+      expect(updated).toContain(`\t\t\tknownRegions = (
+				en,
+				Base,
+				"pt-BR",
+				de,
+				"zh-Hans",
+			);
+			mainGroup`);
+      expect(parseXcodeRegions(updated).knownRegions).toEqual(["en", "Base", "pt-BR", "de", "zh-Hans"]);
+    });
+
+    it("should leave the content untouched when every region is listed", () => {
+      expect(addKnownRegions(PROJECT, ["en", "pt-BR"])).toBe(PROJECT);
+    });
+
+    it("should fill an empty list", () => {
+      const updated = addKnownRegions("knownRegions = (\n\t\t\t);", ["en"]);
+      expect(parseXcodeRegions(updated).knownRegions).toEqual(["en"]);
+    });
+  });
+
+  describe("parseWorkspaceProjectPaths", () => {
+    it("should resolve group and container locations, nesting groups", () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<Workspace
+   version = "1.0">
+   <FileRef
+      location = "group:App/App.xcodeproj">
+   </FileRef>
+   <Group
+      location = "group:Modules"
+      name = "Modules">
+      <FileRef
+         location = "group:Kit/Kit.xcodeproj">
+      </FileRef>
+   </Group>
+   <FileRef
+      location = "container:Widgets.xcodeproj">
+   </FileRef>
+   <FileRef
+      location = "group:README.md">
+   </FileRef>
+   <FileRef
+      location = "absolute:/Users/dev/Shared.xcodeproj">
+   </FileRef>
+</Workspace>
+`;
+      expect(parseWorkspaceProjectPaths(content)).toEqual([
+        "App/App.xcodeproj",
+        "Modules/Kit/Kit.xcodeproj",
+        "Widgets.xcodeproj",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Xcode project (project.pbxproj) and workspace parser
+ *
+ * The project object in project.pbxproj (an old-style ASCII plist) declares
+ * the app's source language and the languages it is localized into:
+ *   developmentRegion = en;
+ *   knownRegions = (
+ *     en,
+ *     Base,
+ *     de,
+ *     "pt-BR",
+ *   );
+ *
+ * `Base` stands for Base Internationalization (Base.lproj), not a language.
+ *
+ * A workspace lists its projects in contents.xcworkspacedata:
+ *   <Workspace version = "1.0">
+ *     <FileRef location = "group:App/App.xcodeproj"></FileRef>
+ *   </Workspace>
+ */
+
+/**
+ * Regions declared by an Xcode project
+ */
+export interface XcodeRegions {
+  /** `developmentRegion`: the language the project is developed in */
+  developmentRegion: string | null;
+  /** `knownRegions`, as written (including `Base`) */
+  knownRegions: string[];
+}
+
+/** Base Internationalization's pseudo-region */
+export const BASE_REGION = "Base";
+
+const DEVELOPMENT_REGION = /\bdevelopmentRegion\s*=\s*("(?:[^"\\]|\\.)*"|[^\s;]+)\s*;/;
+const KNOWN_REGIONS = /(\bknownRegions\s*=\s*\()([^)]*)(\)\s*;)/;
+
+/** Characters an old-style plist string may use without quotes */
+const UNQUOTED_STRING = /^[A-Za-z0-9_$./]+$/;
+
+/**
+ * Read `developmentRegion` and `knownRegions` from project.pbxproj content
+ */
+export function parseXcodeRegions(content: string): XcodeRegions {
+  const development = DEVELOPMENT_REGION.exec(content);
+  const known = KNOWN_REGIONS.exec(content);
+  return {
+    developmentRegion: development ? unquote(development[1]) : null,
+    knownRegions: known ? splitPlistArray(known[2]) : [],
+  };
+}
+
+/**
+ * Add regions to `knownRegions`, in the list's own indentation and quoting
+ *
+ * @returns The updated content; unchanged if the project declares no
+ *   knownRegions or already lists every region
+ */
+export function addKnownRegions(content: string, regions: string[]): string {
+  const match = KNOWN_REGIONS.exec(content);
+  if (!match) return content;
+
+  const [, open, list, close] = match;
+  const existing = new Set(splitPlistArray(list));
+  const added = [...new Set(regions)].filter((region) => !existing.has(region));
+  if (added.length === 0) return content;
+
+  // Xcode writes one region per line, each followed by a comma
+  const indent = /\n([ \t]*)\S/.exec(list)?.[1] ?? "\t\t\t\t";
+  const closingIndent = /\n([ \t]*)$/.exec(list)?.[1] ?? indent.slice(0, -1);
+  const entries = list.replace(/\s+$/, "");
+  const separator = entries.trim() === "" || entries.endsWith(",") ? "" : ",";
+  const updated =
+    entries +
+    separator +
+    added.map((region) => `\n${indent}${quote(region)},`).join("") +
+    `\n${closingIndent}`;
+
+  return content.slice(0, match.index) + open + updated + close + content.slice(match.index + match[0].length);
+}
+
+/**
+ * Project paths a workspace refers to, relative to the directory holding
+ * the .xcworkspace. `group:` locations nest inside their enclosing groups;
+ * `container:` locations are relative to that directory. Absolute and
+ * `self:` references are skipped.
+ */
+export function parseWorkspaceProjectPaths(content: string): string[] {
+  const paths: string[] = [];
+  const groups: string[] = [];
+  const tag = /<(\/?)(Group|FileRef)\b([^>]*)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(content)) !== null) {
+    const [, closing, element, attributes] = match;
+    if (closing) {
+      if (element === "Group") groups.pop();
+      continue;
+    }
+
+    const location = /\blocation\s*=\s*"([^"]*)"/.exec(attributes)?.[1] ?? "";
+    const [kind, ...rest] = location.split(":");
+    const path = rest.join(":");
+    const resolved =
+      kind === "group" ? [...groups, path].filter(Boolean).join("/") : kind === "container" ? path : null;
+
+    if (element === "Group") {
+      groups.push(resolved ?? "");
+    } else if (resolved && resolved.endsWith(".xcodeproj")) {
+      paths.push(resolved);
+    }
+  }
+  return paths;
+}
+
+function splitPlistArray(list: string): string[] {
+  const items: string[] = [];
+  const item = /"((?:[^"\\]|\\.)*)"|([^\s,"]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = item.exec(list)) !== null) {
+    items.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : match[2]);
+  }
+  return items;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
+
+function quote(value: string): string {
+  return UNQUOTED_STRING.test(value) ? value : `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
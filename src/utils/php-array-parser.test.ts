@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePhpArray,
+  parsePhpArraySafe,
+  stringifyPhpArray,
+  isLaravelPhpFile,
+  extractLanguageFromLaravelPath,
+  computeLaravelTargetPath,
+} from "./php-array-parser.js";
+
+describe("PHP Array Parser", () => {
+  describe("parsePhpArray", () => {
+    it("should read short and long array syntax with nested arrays", () => {
+      const content = `<?php
+
+declare(strict_types=1);
+
+// Auth messages
+return [
+    'failed' => 'These credentials do not match our records.',
+    'nav' => array(
+        "home" => "Home", # trailing comment
+        'items' => ['One', 'Two'],
+    ),
+    /* block
+       comment */
+    'throttle' => 'Too many attempts. Try again in :seconds seconds.',
+];
+`;
+      expect(parsePhpArray(content)).toEqual({
+        failed: "These credentials do not match our records.",
+        nav: { home: "Home", items: ["One", "Two"] },
+        throttle: "Too many attempts. Try again in :seconds seconds.",
+      });
+    });
+
+    it("should unescape quotes and join concatenated literals", () => {
+      const content = `<?php return [
+    'single' => 'It\\'s a \\\\ path\\n',
+    'double' => "Tab\\there \\"quoted\\" \\$5",
+    'joined' => 'Hello, ' . "world",
+];`;
+      expect(parsePhpArray(content)).toEqual({
+        single: "It's a \\ path\\n",
+        double: 'Tab\there "quoted" $5',
+        joined: "Hello, world",
+      });
+    });
+
+    it("should reject code it would have to execute", () => {
+      expect(() => parsePhpArray("<?php return ['a' => trans('b')];")).toThrow(/Unsupported PHP syntax 'trans'/);
+      expect(() => parsePhpArray('<?php return ["a" => "Hi $name"];')).toThrow(/Interpolated variables/);
+      expect(() => parsePhpArray("<?php echo 'hi';")).toThrow(/No `return` statement/);
+      expect(parsePhpArraySafe("<?php return 'text';")).toBeNull();
+    });
+  });
+
+  describe("stringifyPhpArray", () => {
+    it("should write a Laravel language file that parses back to the same data", () => {
+      const data = { welcome: "Don't panic, :name", nav: { home: "Home" }, list: ["a"], empty: {} };
+      const content = stringifyPhpArray(data);
+      expect(content).toBe(`<?php
+
+return [
+    'welcome' => 'Don\\'t panic, :name',
+    'nav' => [
+        'home' => 'Home',
+    ],
+    'list' => [
+        'a',
+    ],
+    'empty' => [],
+];
+`);
+      expect(parsePhpArray(content)).toEqual({ ...data, empty: [] });
+    });
+  });
+
+  describe("paths", () => {
+    it("should only match PHP files inside a lang/<locale> directory", () => {
+      expect(isLaravelPhpFile("/app/lang/en/auth.php")).toBe(true);
+      expect(isLaravelPhpFile("/app/resources/lang/pt_BR/auth.php")).toBe(true);
+      expect(isLaravelPhpFile("/app/config/app.php")).toBe(false);
+      expect(isLaravelPhpFile("/app/lang/en.json")).toBe(false);
+    });
+
+    it("should map underscore locale directories to language codes", () => {
+      expect(extractLanguageFromLaravelPath("/app/lang/pt_BR/auth.php")).toBe("pt-BR");
+      expect(extractLanguageFromLaravelPath("/app/lang/de/auth.php")).toBe("de");
+      expect(extractLanguageFromLaravelPath("/app/lang/vendor/auth.php")).toBeNull();
+    });
+
+    it("should compute target paths and reject a mismatched source locale", () => {
+      expect(computeLaravelTargetPath("/app/lang/en/auth.php", "en", "pt-BR")).toBe("/app/lang/pt_BR/auth.php");
+      expect(computeLaravelTargetPath("/app/lang/de/auth.php", "en", "fr")).toBeNull();
+    });
+  });
+});
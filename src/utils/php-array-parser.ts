@@ -0,0 +1,302 @@
+/**
+ * Laravel PHP array language file parser
+ *
+ * Laravel keeps translations as PHP files that return an array, one
+ * directory per locale:
+ * - lang/en/messages.php          (resources/lang/ before Laravel 9)
+ * - lang/pt_BR/messages.php
+ *
+ *   <?php
+ *
+ *   return [
+ *       'welcome' => 'Welcome, :name',
+ *       'nav' => [
+ *           'home' => 'Home',
+ *       ],
+ *   ];
+ *
+ * The files are never executed. Only the static subset Laravel language
+ * files use is read: `[...]`/`array(...)` literals, single- and
+ * double-quoted strings, `.` concatenation of string literals, numbers and
+ * comments. Anything else (function calls, constants, interpolated
+ * variables) is rejected with an error.
+ */
+
+/**
+ * Check if a file is a Laravel PHP language file (lang/<locale>/*.php)
+ */
+export function isLaravelPhpFile(filePath: string): boolean {
+  return /(?:^|\/)lang\/[^/]+\/[^/]+\.php$/i.test(filePath);
+}
+
+type Token =
+  | { kind: "string"; value: string; line: number }
+  | { kind: "number"; value: string; line: number }
+  | { kind: "word"; value: string; line: number }
+  | { kind: "punct"; value: string; line: number };
+
+class PhpArrayReader {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(content: string) {
+    this.tokens = tokenize(content);
+  }
+
+  parseFile(): Record<string, unknown> {
+    // Skip the preamble (declare/namespace/use statements) up to `return`
+    while (this.pos < this.tokens.length && !this.isWord("return")) this.pos++;
+    if (this.pos >= this.tokens.length) {
+      throw new Error("No `return` statement found");
+    }
+    this.pos++;
+
+    const value = this.parseValue();
+    if (typeof value !== "object" || value === null) {
+      throw new Error("The file does not return an array");
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private parseValue(): unknown {
+    const token = this.next();
+    if (token.kind === "punct" && token.value === "[") {
+      return this.parseArray("]");
+    }
+    if (token.kind === "word" && token.value.toLowerCase() === "array" && this.peekPunct("(")) {
+      this.pos++;
+      return this.parseArray(")");
+    }
+    if (token.kind === "string") {
+      let value = token.value;
+      while (this.peekPunct(".")) {
+        this.pos++;
+        const next = this.next();
+        if (next.kind !== "string") throw unsupported(next);
+        value += next.value;
+      }
+      return value;
+    }
+    if (token.kind === "number") {
+      return token.value;
+    }
+    throw unsupported(token);
+  }
+
+  private parseArray(close: "]" | ")"): Record<string, unknown> | unknown[] {
+    const entries: Array<[string | null, unknown]> = [];
+
+    while (!this.peekPunct(close)) {
+      const first = this.parseValue();
+      if (this.peekPunct("=>")) {
+        this.pos++;
+        if (typeof first !== "string") {
+          throw new Error(`Array keys must be strings or numbers (line ${this.current().line})`);
+        }
+        entries.push([first, this.parseValue()]);
+      } else {
+        entries.push([null, first]);
+      }
+      if (this.peekPunct(",")) {
+        this.pos++;
+      } else if (!this.peekPunct(close)) {
+        throw unsupported(this.current());
+      }
+    }
+    this.pos++;
+
+    // A list without keys stays a list; anything keyed becomes a mapping
+    if (entries.every(([key]) => key === null)) {
+      return entries.map(([, value]) => value);
+    }
+    const result: Record<string, unknown> = {};
+    let index = 0;
+    for (const [key, value] of entries) {
+      result[key ?? String(index++)] = value;
+    }
+    return result;
+  }
+
+  private next(): Token {
+    const token = this.current();
+    this.pos++;
+    return token;
+  }
+
+  private current(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) throw new Error("Unexpected end of file");
+    return token;
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === "punct" && token.value === value;
+  }
+
+  private isWord(value: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === "word" && token.value.toLowerCase() === value;
+  }
+}
+
+function unsupported(token: Token): Error {
+  return new Error(`Unsupported PHP syntax '${token.value}' on line ${token.line}`);
+}
+
+/**
+ * Split PHP source into tokens, dropping whitespace, comments and the
+ * `<?php` / `?>` tags
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const src = content.replace(/^\uFEFF/, "");
+  let line = 1;
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (src.startsWith("<?php", i)) {
+      i += 5;
+    } else if (src.startsWith("?>", i)) {
+      i += 2;
+    } else if (src.startsWith("//", i) || (ch === "#" && src[i + 1] !== "[")) {
+      while (i < src.length && src[i] !== "\n") i++;
+    } else if (src.startsWith("/*", i)) {
+      const end = src.indexOf("*/", i + 2);
+      const stop = end === -1 ? src.length : end + 2;
+      line += (src.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+    } else if (ch === "'" || ch === '"') {
+      const start = line;
+      let value = "";
+      i++;
+      while (i < src.length && src[i] !== ch) {
+        if (src[i] === "\n") line++;
+        if (src[i] === "\\" && i + 1 < src.length) {
+          value += ch === "'" ? unescapeSingle(src[i + 1]) : unescapeDouble(src[i + 1]);
+          i += 2;
+          continue;
+        }
+        if (ch === '"' && src[i] === "$" && /[a-zA-Z_{]/.test(src[i + 1] ?? "")) {
+          throw new Error(`Interpolated variables are not supported (line ${line})`);
+        }
+        value += src[i];
+        i++;
+      }
+      i++;
+      tokens.push({ kind: "string", value, line: start });
+    } else if (/[0-9]/.test(ch) || (ch === "-" && /[0-9]/.test(src[i + 1] ?? ""))) {
+      const match = src.slice(i).match(/^-?[0-9][0-9_.]*/)!;
+      tokens.push({ kind: "number", value: match[0].replace(/_/g, ""), line });
+      i += match[0].length;
+    } else if (/[a-zA-Z_\\]/.test(ch)) {
+      const match = src.slice(i).match(/^[a-zA-Z_\\][\w\\]*/)!;
+      tokens.push({ kind: "word", value: match[0], line });
+      i += match[0].length;
+    } else if (src.startsWith("=>", i)) {
+      tokens.push({ kind: "punct", value: "=>", line });
+      i += 2;
+    } else {
+      tokens.push({ kind: "punct", value: ch, line });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/** In single quotes only \' and \\ are escapes; other backslashes are literal */
+function unescapeSingle(ch: string): string {
+  return ch === "'" || ch === "\\" ? ch : `\\${ch}`;
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  v: "\v",
+  e: "\x1b",
+  f: "\f",
+  "0": "\0",
+  "\\": "\\",
+  '"': '"',
+  $: "$",
+};
+
+function unescapeDouble(ch: string): string {
+  return DOUBLE_QUOTE_ESCAPES[ch] ?? `\\${ch}`;
+}
+
+/**
+ * Parse a Laravel language file without executing it
+ *
+ * @throws Error when the file uses syntax outside the supported subset
+ */
+export function parsePhpArray(content: string): Record<string, unknown> {
+  return new PhpArrayReader(content).parseFile();
+}
+
+/**
+ * Parse a Laravel language file, returning null if it can't be read
+ */
+export function parsePhpArraySafe(content: string): Record<string, unknown> | null {
+  try {
+    return parsePhpArray(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize translations as a Laravel language file
+ */
+export function stringifyPhpArray(data: Record<string, unknown>): string {
+  return `<?php\n\nreturn ${formatPhpValue(data, "")};\n`;
+}
+
+function formatPhpValue(value: unknown, indent: string): string {
+  if (typeof value === "object" && value !== null) {
+    const inner = `${indent}    `;
+    const lines = Array.isArray(value)
+      ? value.map((item) => `${inner}${formatPhpValue(item, inner)},`)
+      : Object.entries(value).map(
+          ([key, item]) => `${inner}${quotePhp(key)} => ${formatPhpValue(item, inner)},`
+        );
+    return lines.length > 0 ? `[\n${lines.join("\n")}\n${indent}]` : "[]";
+  }
+  return quotePhp(String(value ?? ""));
+}
+
+function quotePhp(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Extract the locale from a lang/<locale>/*.php path (pt_BR -> pt-BR)
+ */
+export function extractLanguageFromLaravelPath(filePath: string): string | null {
+  const match = filePath.match(/(?:^|\/)lang\/([a-z]{2,3}(?:[_-](?:[A-Z]{2}|[A-Z][a-z]{3}))?)\/[^/]+\.php$/);
+  return match ? match[1].replace("_", "-") : null;
+}
+
+/**
+ * Compute the target language file path (lang/en/auth.php -> lang/pt_BR/auth.php)
+ *
+ * @returns Target path or null if the source locale doesn't match sourceLang
+ */
+export function computeLaravelTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const match = sourcePath.match(/^(.*(?:^|\/)lang\/)([^/]+)(\/[^/]+\.php)$/i);
+  if (!match || match[2].replace("_", "-") !== sourceLang) return null;
+  return `${match[1]}${targetLang.replace("-", "_")}${match[3]}`;
+}
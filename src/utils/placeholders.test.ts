@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { analyzePlaceholders, checkSourcePlaceholders, comparePlaceholders } from "./placeholders.js";
+
+describe("Placeholders", () => {
+  describe("analyzePlaceholders", () => {
+    it("should find each placeholder style", () => {
+      const result = analyzePlaceholders("Hi {name}, {{count}} new, ${total} due, %@ and %1$s, 100%% done");
+      expect([...result.placeholders.values()]).toEqual(["%@", "%1$s", "{{count}}", "${total}", "{name}"]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should read ICU plural and select structure, including nested arguments", () => {
+      const result = analyzePlaceholders(
+        "{gender, select, male {He} female {She} other {They}} bought {count, plural, offset:1 =0 {nothing} one {# item for {price}} other {# items}}"
+      );
+      expect(result.icuArguments.get("gender")).toEqual({
+        name: "gender",
+        type: "select",
+        options: ["male", "female", "other"],
+      });
+      expect(result.icuArguments.get("count")?.options).toEqual(["=0", "one", "other"]);
+      expect(result.icuArguments.get("price")?.type).toBe("");
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should honour ICU apostrophe quoting but keep plain apostrophes literal", () => {
+      const result = analyzePlaceholders("Don't use '{braces}' for {name}");
+      expect([...result.icuArguments.keys()]).toEqual(["name"]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should report malformed messages", () => {
+      expect(analyzePlaceholders("Hello {name").errors).toEqual(["Unclosed '{name'"]);
+      expect(analyzePlaceholders("Hello name}").errors).toEqual(["Unmatched '}' at position 10"]);
+      expect(analyzePlaceholders("{n, plural, one {# item}}").errors).toEqual([
+        "'{n, plural}' has no 'other' option",
+      ]);
+      expect(analyzePlaceholders("{n, plural, one {# item").errors).toContain("Unclosed '{n'");
+      expect(analyzePlaceholders("{n, currency}").errors).toEqual(["Unknown argument type 'currency' in '{n}'"]);
+    });
+  });
+
+  describe("comparePlaceholders", () => {
+    it("should accept a translation with the same placeholders", () => {
+      expect(comparePlaceholders("Welcome, {name}!", "Willkommen, {name}!")).toEqual([]);
+      expect(comparePlaceholders("{{count}} items", "{{count}} Artikel")).toEqual([]);
+    });
+
+    it("should match reordered printf specifiers by position", () => {
+      expect(comparePlaceholders("%s sent %d files", "%2$d Dateien von %1$s")).toEqual([]);
+      expect(comparePlaceholders("Hello %@", "Hallo %d")).toEqual([
+        { type: "missing_placeholder", placeholder: "%@", message: "Translation is missing %@" },
+        { type: "extra_placeholder", placeholder: "%d", message: "Translation uses %d, which is not in the source" },
+      ]);
+    });
+
+    it("should flag missing and extra ICU arguments", () => {
+      expect(comparePlaceholders("Hi {name}", "Hallo {nom}").map((i) => [i.type, i.placeholder])).toEqual([
+        ["missing_placeholder", "{name}"],
+        ["extra_placeholder", "{nom}"],
+      ]);
+    });
+
+    it("should flag ICU type changes and translated select keys, but not plural categories", () => {
+      const source = "{count, plural, one {# item} other {# items}}";
+      expect(comparePlaceholders(source, "{count, plural, one {# Artikel} few {# Artikel} other {# Artikel}}")).toEqual(
+        []
+      );
+      expect(comparePlaceholders(source, "{count} Artikel")[0]).toMatchObject({
+        type: "icu_mismatch",
+        message: "{count} is a plural argument in the source but a simple argument in the translation",
+      });
+      expect(
+        comparePlaceholders("{g, select, male {He} other {They}}", "{g, select, männlich {Er} other {Sie}}")[0]
+      ).toMatchObject({
+        type: "icu_mismatch",
+        message: "Select options of {g} differ from the source: missing male; unknown männlich",
+      });
+    });
+
+    it("should report malformed translations and undeclared ARB placeholders", () => {
+      expect(comparePlaceholders("Hi {name}", "Hallo {name")[0]).toMatchObject({ type: "malformed" });
+      expect(comparePlaceholders("Hi {name}", "Hallo {name} {user}", ["name"])[0]).toMatchObject({
+        type: "extra_placeholder",
+        message: "Translation uses {user}, which is not in the source or @key.placeholders",
+      });
+    });
+  });
+
+  describe("checkSourcePlaceholders", () => {
+    it("should flag ARB arguments missing from @key.placeholders", () => {
+      expect(checkSourcePlaceholders("Hi {name} {date}", ["name"])).toEqual([
+        { type: "malformed", placeholder: "{date}", message: "{date} is not declared in @key.placeholders" },
+      ]);
+      expect(checkSourcePlaceholders("Hi {name} {date}")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Placeholder and ICU MessageFormat analysis for local translation QA
+ *
+ * A translation has to keep the source's runtime arguments, or the app
+ * shows a raw token, drops a value or crashes on a format string. Recognized:
+ * - ICU / FormatJS / ARB / Java MessageFormat arguments: {name}, {0},
+ *   {count, plural, one {...} other {...}}, {gender, select, ...}
+ * - i18next interpolation: {{count}}
+ * - JS template-style: ${name}
+ * - printf / Apple / Android / Python: %@, %d, %1$s, %lld, %(name)s
+ *
+ * printf specifiers are compared by position, so `%s … %d` matches a
+ * reordered `%2$d … %1$s`. ICU plural categories are not compared: each
+ * language has its own set, checked against CLDR in plural-rules.ts.
+ */
+
+/**
+ * An ICU argument and, for plural/select arguments, its option keys
+ */
+export interface IcuArgument {
+  name: string;
+  /** `plural`, `select`, `selectordinal`, `number`, ... or "" for a simple {name} */
+  type: string;
+  /** Option keys of a plural/select argument (`one`, `other`, `=0`, `male`) */
+  options: string[];
+}
+
+/**
+ * Placeholders found in one string
+ */
+export interface PlaceholderAnalysis {
+  /** Normalized placeholder -> how it is written in the string */
+  placeholders: Map<string, string>;
+  /** ICU arguments by name */
+  icuArguments: Map<string, IcuArgument>;
+  /** Syntax problems (unbalanced braces, plural without `other`, ...) */
+  errors: string[];
+}
+
+/**
+ * One difference between a source string and its translation
+ */
+export interface PlaceholderIssue {
+  type: "missing_placeholder" | "extra_placeholder" | "icu_mismatch" | "malformed";
+  /** The placeholder or ICU argument concerned, as written */
+  placeholder?: string;
+  message: string;
+}
+
+const ICU_PLURAL_TYPES = new Set(["plural", "selectordinal"]);
+const ICU_FORMAT_TYPES = new Set(["number", "date", "time", "spellout", "ordinal", "duration"]);
+
+// {{name}} and ${name} are matched before ICU so their braces aren't read as arguments
+const DOUBLE_BRACE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const TEMPLATE = /\$\{\s*([^{}]+?)\s*\}/g;
+const PRINTF = /%(?:(\d+)\$|\((\w+)\))?[-+#0]*\d*(?:\.\d+)?(hh|h|ll|l|q|z|t|j|L)?([@diuxXofegcsSp])/g;
+
+/**
+ * Find the placeholders and ICU arguments of a string
+ */
+export function analyzePlaceholders(text: string): PlaceholderAnalysis {
+  const placeholders = new Map<string, string>();
+
+  // %% is a literal percent sign
+  let printfIndex = 0;
+  for (const match of text.replace(/%%/g, "  ").matchAll(PRINTF)) {
+    const [raw, position, name, length = "", conversion] = match;
+    const slot = name ?? position ?? String(++printfIndex);
+    const key = `%${slot}$${length}${conversion}`;
+    if (!placeholders.has(key)) placeholders.set(key, raw);
+  }
+
+  let rest = text;
+  for (const pattern of [DOUBLE_BRACE, TEMPLATE]) {
+    rest = rest.replace(pattern, (raw, name: string) => {
+      const key = pattern === DOUBLE_BRACE ? `{{${name}}}` : `\${${name}}`;
+      if (!placeholders.has(key)) placeholders.set(key, raw);
+      return " ".repeat(raw.length);
+    });
+  }
+
+  const { icuArguments, errors } = new IcuReader(rest).read();
+  for (const arg of icuArguments.values()) {
+    placeholders.set(`{${arg.name}}`, `{${arg.name}}`);
+  }
+
+  return { placeholders, icuArguments, errors };
+}
+
+/**
+ * Reads the argument structure of an ICU message. Apostrophes quote
+ * syntax characters as in ICU4J (`'{'`, `''`); an apostrophe before any
+ * other character is literal, so "don't" needs no escaping.
+ */
+class IcuReader {
+  private pos = 0;
+  private readonly icuArguments = new Map<string, IcuArgument>();
+  private readonly errors: string[] = [];
+
+  constructor(private readonly text: string) {}
+
+  read(): { icuArguments: Map<string, IcuArgument>; errors: string[] } {
+    this.readMessage(false);
+    while (this.pos < this.text.length) {
+      // Only reached after an unmatched closing brace at the top level
+      this.errors.push(`Unmatched '}' at position ${this.pos}`);
+      this.pos++;
+      this.readMessage(false);
+    }
+    return { icuArguments: this.icuArguments, errors: this.errors };
+  }
+
+  /** Read message text up to a `}` (closing an option) or the end */
+  private readMessage(inPlural: boolean): void {
+    const text = this.text;
+    while (this.pos < text.length) {
+      const ch = text[this.pos];
+      if (ch === "'") {
+        const next = text[this.pos + 1];
+        if (next === "'") {
+          this.pos += 2;
+        } else if (next === "{" || next === "}" || (inPlural && next === "#")) {
+          const close = text.indexOf("'", this.pos + 2);
+          this.pos = close === -1 ? text.length : close + 1;
+        } else {
+          this.pos++;
+        }
+      } else if (ch === "{") {
+        this.pos++;
+        this.readArgument();
+      } else if (ch === "}") {
+        // Closes the option being read; the caller consumes it
+        return;
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  /** Read an argument after its `{` */
+  private readArgument(): void {
+    const name = this.readUntil(/[,}]/).trim();
+    if (this.pos >= this.text.length) {
+      this.errors.push(`Unclosed '{${name}'`);
+      return;
+    }
+    if (!/^[\p{L}\p{N}_.-]+$/u.test(name)) {
+      this.errors.push(name ? `Invalid argument name '{${name}'` : "Empty argument '{}'");
+    }
+
+    if (this.text[this.pos] === "}") {
+      this.pos++;
+      this.addArgument({ name, type: "", options: [] });
+      return;
+    }
+
+    this.pos++;
+    const type = this.readUntil(/[,}]/).trim();
+    if (ICU_PLURAL_TYPES.has(type) || type === "select") {
+      if (this.text[this.pos] !== ",") {
+        this.errors.push(`'{${name}, ${type}}' has no options`);
+        this.pos++;
+        this.addArgument({ name, type, options: [] });
+        return;
+      }
+      this.pos++;
+      const options = this.readOptions(name, ICU_PLURAL_TYPES.has(type));
+      if (!options.includes("other")) {
+        this.errors.push(`'{${name}, ${type}}' has no 'other' option`);
+      }
+      this.addArgument({ name, type, options });
+      return;
+    }
+
+    if (!ICU_FORMAT_TYPES.has(type)) {
+      this.errors.push(`Unknown argument type '${type}' in '{${name}}'`);
+    }
+    // Skip the style (`{n, number, ::currency/EUR}`)
+    this.readUntil(/\}/);
+    if (this.pos >= this.text.length) {
+      this.errors.push(`Unclosed '{${name}'`);
+      return;
+    }
+    this.pos++;
+    this.addArgument({ name, type, options: [] });
+  }
+
+  /** Read `key {message}` pairs up to the argument's closing `}` */
+  private readOptions(name: string, plural: boolean): string[] {
+    const options: string[] = [];
+    for (;;) {
+      this.readUntil(/\S/);
+      if (this.pos >= this.text.length) {
+        this.errors.push(`Unclosed '{${name}'`);
+        return options;
+      }
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return options;
+      }
+      const key = this.readUntil(/[\s{}]/);
+      if (plural && key.startsWith("offset:")) continue;
+      this.readUntil(/\S/);
+      if (this.text[this.pos] !== "{") {
+        this.errors.push(`Option '${key}' of '{${name}}' has no message`);
+        this.readUntil(/\}/);
+        this.pos++;
+        return options;
+      }
+      this.pos++;
+      options.push(key);
+      this.readMessage(plural);
+      this.pos++;
+    }
+  }
+
+  private readUntil(stop: RegExp): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !stop.test(this.text[this.pos])) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  private addArgument(arg: IcuArgument): void {
+    const existing = this.icuArguments.get(arg.name);
+    if (!existing) {
+      this.icuArguments.set(arg.name, arg);
+    } else if (existing.type === "" && arg.type !== "") {
+      // {count} inside a branch of {count, plural, ...}: keep the richer one
+      this.icuArguments.set(arg.name, arg);
+    }
+  }
+}
+
+/**
+ * Compare a translation's placeholders and ICU structure with its source
+ *
+ * @param declared ARB `@key.placeholders` names, when the source declares them
+ */
+export function comparePlaceholders(source: string, target: string, declared?: string[]): PlaceholderIssue[] {
+  const issues: PlaceholderIssue[] = [];
+  const src = analyzePlaceholders(source);
+  const tgt = analyzePlaceholders(target);
+
+  for (const error of tgt.errors) {
+    issues.push({ type: "malformed", message: error });
+  }
+
+  for (const [key, raw] of src.placeholders) {
+    if (!tgt.placeholders.has(key)) {
+      issues.push({ type: "missing_placeholder", placeholder: raw, message: `Translation is missing ${raw}` });
+    }
+  }
+  for (const [key, raw] of tgt.placeholders) {
+    if (src.placeholders.has(key)) continue;
+    const undeclared = declared !== undefined && key.startsWith("{") && !declared.includes(key.slice(1, -1));
+    issues.push({
+      type: "extra_placeholder",
+      placeholder: raw,
+      message: undeclared
+        ? `Translation uses ${raw}, which is not in the source or @key.placeholders`
+        : `Translation uses ${raw}, which is not in the source`,
+    });
+  }
+
+  for (const [name, srcArg] of src.icuArguments) {
+    const tgtArg = tgt.icuArguments.get(name);
+    if (!tgtArg) continue;
+    if (srcArg.type !== tgtArg.type) {
+      issues.push({
+        type: "icu_mismatch",
+        placeholder: `{${name}}`,
+        message: `{${name}} is ${describeType(srcArg.type)} in the source but ${describeType(tgtArg.type)} in the translation`,
+      });
+    } else if (srcArg.type === "select") {
+      // Select keys are values from the code; they must not be translated
+      const missing = srcArg.options.filter((o) => !tgtArg.options.includes(o));
+      const extra = tgtArg.options.filter((o) => !srcArg.options.includes(o));
+      if (missing.length > 0 || extra.length > 0) {
+        const parts = [
+          missing.length ? `missing ${missing.join(", ")}` : "",
+          extra.length ? `unknown ${extra.join(", ")}` : "",
+        ].filter(Boolean);
+        issues.push({
+          type: "icu_mismatch",
+          placeholder: `{${name}}`,
+          message: `Select options of {${name}} differ from the source: ${parts.join("; ")}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a source string on its own: ICU syntax, and for ARB that every
+ * argument is declared in `@key.placeholders`
+ */
+export function checkSourcePlaceholders(source: string, declared?: string[]): PlaceholderIssue[] {
+  const analysis = analyzePlaceholders(source);
+  const issues: PlaceholderIssue[] = analysis.errors.map((error) => ({ type: "malformed", message: error }));
+  if (declared !== undefined) {
+    for (const name of analysis.icuArguments.keys()) {
+      if (!declared.includes(name)) {
+        issues.push({
+          type: "malformed",
+          placeholder: `{${name}}`,
+          message: `{${name}} is not declared in @key.placeholders`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function describeType(type: string): string {
+  return type === "" ? "a simple argument" : `a ${type} argument`;
+}
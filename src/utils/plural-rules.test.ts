@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkPluralCategories,
+  describePluralCategoryCheck,
+  getPluralCategories,
+  groupI18nextPluralKeys,
+} from "./plural-rules.js";
+
+describe("Plural Rules", () => {
+  describe("getPluralCategories", () => {
+    it("should return the CLDR cardinal categories of a language", () => {
+      expect(getPluralCategories("en")).toEqual(["one", "other"]);
+      expect(getPluralCategories("ru")).toEqual(["one", "few", "many", "other"]);
+      expect(getPluralCategories("ar")).toEqual(["zero", "one", "two", "few", "many", "other"]);
+      expect(getPluralCategories("ja")).toEqual(["other"]);
+    });
+
+    it("should fall back to the base language and ignore case and separators", () => {
+      expect(getPluralCategories("pt-BR")).toEqual(["one", "many", "other"]);
+      expect(getPluralCategories("zh_Hant")).toEqual(["other"]);
+      expect(getPluralCategories("SR-Latn")).toEqual(["one", "few", "other"]);
+    });
+
+    it("should return null for languages not in the table", () => {
+      expect(getPluralCategories("tlh")).toBeNull();
+    });
+  });
+
+  describe("checkPluralCategories", () => {
+    it("should list missing and superfluous categories", () => {
+      const check = checkPluralCategories("pl", { key: "items", syntax: "icu", categories: ["one", "other"] });
+      expect(check).toEqual({
+        expected: ["one", "few", "many", "other"],
+        missing: ["few", "many"],
+        superfluous: [],
+      });
+
+      expect(
+        checkPluralCategories("ja", { key: "items", syntax: "stringsdict", categories: ["one", "other"] })
+      ).toMatchObject({ missing: [], superfluous: ["one"] });
+    });
+
+    it("should allow zero in Apple and i18next plurals but not in ICU", () => {
+      const categories = ["zero", "one", "other"];
+      expect(checkPluralCategories("en", { key: "k", syntax: "stringsdict", categories })?.superfluous).toEqual([]);
+      expect(checkPluralCategories("en", { key: "k", syntax: "i18next", categories })?.superfluous).toEqual([]);
+      expect(checkPluralCategories("en", { key: "k", syntax: "icu", categories })?.superfluous).toEqual(["zero"]);
+    });
+
+    it("should skip languages without known rules", () => {
+      expect(checkPluralCategories("tlh", { key: "k", syntax: "icu", categories: ["other"] })).toBeNull();
+    });
+  });
+
+  describe("groupI18nextPluralKeys", () => {
+    it("should group suffixed keys by base key", () => {
+      expect(
+        groupI18nextPluralKeys(["cart.item_one", "cart.item_few", "cart.item_other", "cart.title", "user_zero"])
+      ).toEqual([{ key: "cart.item", syntax: "i18next", categories: ["one", "few", "other"] }]);
+    });
+
+    it("should skip ordinal keys and lone suffixed flags", () => {
+      expect(groupI18nextPluralKeys(["place_ordinal_one", "place_ordinal_other", "is_one"])).toEqual([]);
+    });
+  });
+
+  describe("describePluralCategoryCheck", () => {
+    it("should name the expected, missing and unused categories", () => {
+      const check = checkPluralCategories("ru", { key: "k", syntax: "icu", categories: ["one", "two", "other"] })!;
+      expect(describePluralCategoryCheck("ru", check)).toBe(
+        "'ru' plurals use one, few, many, other; missing few, many; never used: two"
+      );
+    });
+  });
+});
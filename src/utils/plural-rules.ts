@@ -0,0 +1,150 @@
+/**
+ * CLDR cardinal plural categories per language
+ *
+ * A plural message needs exactly the categories its language's plural rules
+ * select: Russian and Polish use one/few/many/other, Japanese only other.
+ * A missing category makes the app fall back to `other` ("1 файлов"); an
+ * extra one is never selected. The table is bundled (CLDR 47) rather than
+ * read from Intl.PluralRules so results don't depend on the Node.js ICU build.
+ *
+ * Checked forms:
+ * - .stringsdict NSStringPluralRuleType variants
+ * - xcstrings `variations.plural` (and per-substitution plurals)
+ * - ICU `{n, plural, ...}` options (`=0`-style exact matches are always allowed)
+ * - i18next v21+ suffix keys (`item_one`, `item_few`, ...)
+ *
+ * Apple and i18next use a `zero` form for a count of 0 in every language, so
+ * it is optional there; in ICU `zero` is only selected where CLDR has it.
+ */
+
+import { PLURAL_VARIANTS, type PluralVariant } from "./stringsdict-parser.js";
+
+/**
+ * Space-separated language codes sharing one set of categories
+ */
+const CLDR_CARDINAL_CATEGORIES: Array<[PluralVariant[], string]> = [
+  [
+    ["other"],
+    "bm bo dz hnj id ig ii in ja jbo jv jw kde kea km ko lkt lo ms my nqo osa sah ses sg su th to tpi vi wo yo yue zh",
+  ],
+  [
+    ["one", "other"],
+    "af ak am an as asa ast az bal bem bez bg bho bn brx ce ceb cgg chr ckb csw da de doi dv ee el en eo et eu fa ff fi fil fo fur fy gl gsw gu guw ha haw hi hu hy ia io is jgo ji jmc ka kab kaj kcg kk kkj kl kn ks ksb ku ky lb lg lij ln mas mg mgo mk ml mn mr nah nb nd ne nl nn nnh no nr nso ny nyn om or os pa pap pcm ps rm rof rwk saq sc sd sdh seh si sn so sq ss ssy st sv sw syr ta te teo ti tig tk tl tn tr ts ug ur uz ve vo vun wa wae xh xog yi zu",
+  ],
+  [["zero", "one", "other"], "blo ksh lag lv prg"],
+  [["one", "two", "other"], "he iu iw naq sat se sma smi smj smn sms"],
+  [["one", "few", "other"], "bs hr mo ro sh shi sr"],
+  [["one", "many", "other"], "ca es fr it lld pt scn vec"],
+  [["one", "two", "few", "other"], "dsb gd hsb sl"],
+  [["one", "few", "many", "other"], "be cs lt pl ru sk uk"],
+  [["one", "two", "few", "many", "other"], "br ga gv mt"],
+  [["zero", "one", "two", "few", "many", "other"], "ar ars cy kw"],
+];
+
+const CATEGORIES_BY_LANGUAGE = new Map<string, PluralVariant[]>(
+  CLDR_CARDINAL_CATEGORIES.flatMap(([categories, languages]) =>
+    languages.split(" ").map((lang): [string, PluralVariant[]] => [lang, categories])
+  )
+);
+
+/**
+ * Syntax a plural form was written in
+ */
+export type PluralSyntax = "stringsdict" | "xcstrings" | "icu" | "i18next";
+
+/**
+ * The categories one plural message provides
+ */
+export interface PluralForm {
+  /** Message key (for i18next, the key without its plural suffix) */
+  key: string;
+  /** ICU argument or stringsdict/xcstrings variable the plural is chosen by */
+  argument?: string;
+  syntax: PluralSyntax;
+  /** Category keys as written (`one`, `few`, ...; ICU `=0` is left out) */
+  categories: string[];
+}
+
+/**
+ * Result of checking a plural form against its language
+ */
+export interface PluralCategoryCheck {
+  /** Categories the language's plural rules require */
+  expected: PluralVariant[];
+  missing: PluralVariant[];
+  /** Categories the language never selects, or keys that aren't categories */
+  superfluous: string[];
+}
+
+/**
+ * CLDR cardinal plural categories of a language (`pt-BR` falls back to `pt`)
+ *
+ * @returns The categories, or null if the language isn't in the table
+ */
+export function getPluralCategories(lang: string): PluralVariant[] | null {
+  const normalized = lang.toLowerCase().replace(/_/g, "-");
+  return (
+    CATEGORIES_BY_LANGUAGE.get(normalized) ?? CATEGORIES_BY_LANGUAGE.get(normalized.split("-")[0]) ?? null
+  );
+}
+
+/**
+ * Compare the categories of a plural form with the language's rules
+ *
+ * @returns The comparison, or null if the language's rules are unknown
+ */
+export function checkPluralCategories(lang: string, form: PluralForm): PluralCategoryCheck | null {
+  const expected = getPluralCategories(lang);
+  if (!expected) return null;
+
+  const zeroIsOptional = form.syntax !== "icu";
+  const missing = expected.filter((category) => !form.categories.includes(category));
+  const superfluous = form.categories.filter(
+    (category) => !(expected as string[]).includes(category) && !(zeroIsOptional && category === "zero")
+  );
+  return { expected, missing, superfluous };
+}
+
+const I18NEXT_PLURAL_SUFFIX = new RegExp(`^(.+)_(${PLURAL_VARIANTS.join("|")})$`);
+
+/**
+ * Split an i18next v21+ plural key into base key and category
+ * (`item_few` -> item, few). Ordinal keys (`place_ordinal_one`) use
+ * different rules and are not split.
+ */
+export function splitI18nextPluralKey(key: string): { base: string; category: PluralVariant } | null {
+  const match = key.match(I18NEXT_PLURAL_SUFFIX);
+  if (!match || match[1].endsWith("_ordinal")) return null;
+  return { base: match[1], category: match[2] as PluralVariant };
+}
+
+/**
+ * Group i18next v21+ plural keys (`item_one`, `item_other`) by base key.
+ * A group needs an `_other` key or two suffixes, so a lone `is_one` flag
+ * isn't taken for a plural.
+ */
+export function groupI18nextPluralKeys(keys: string[]): PluralForm[] {
+  const groups = new Map<string, string[]>();
+  for (const key of keys) {
+    const split = splitI18nextPluralKey(key);
+    if (!split) continue;
+    const categories = groups.get(split.base) ?? [];
+    categories.push(split.category);
+    groups.set(split.base, categories);
+  }
+
+  return [...groups]
+    .filter(([, categories]) => categories.includes("other") || categories.length > 1)
+    .map(([key, categories]) => ({ key, syntax: "i18next", categories }));
+}
+
+/**
+ * Describe a failed check for issue messages
+ */
+export function describePluralCategoryCheck(lang: string, check: PluralCategoryCheck): string {
+  const parts = [
+    check.missing.length ? `missing ${check.missing.join(", ")}` : "",
+    check.superfluous.length ? `never used: ${check.superfluous.join(", ")}` : "",
+  ].filter(Boolean);
+  return `'${lang}' plurals use ${check.expected.join(", ")}; ${parts.join("; ")}`;
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePoContent,
+  getPoEntryKey,
+  isTranslatedEntry,
+  extractPoSourceEntries,
+  extractPoTranslatedEntries,
+  extractLanguageFromGettextPath,
+  computeGettextTargetPath,
+  stringifyPoContent,
+} from "./po-parser.js";
+
+describe("PO Parser", () => {
+  const samplePo = `# German translation
+msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+# Shown on the home screen
+#. Greeting for a signed-in user
+#: src/app.py:12
+msgid "Hello"
+msgstr "Hallo"
+
+msgctxt "menu"
+msgid "File"
+msgstr "Datei"
+
+msgid "File"
+msgstr "Akte"
+
+#, fuzzy, python-format
+msgid "Welcome %(name)s"
+msgstr "Willkommen %(name)s"
+
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] "Eine Datei"
+msgstr[1] "%d Dateien"
+
+msgid ""
+"A long message "
+"split over lines"
+msgstr ""
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`;
+
+  describe("parsePoContent", () => {
+    it("should parse the header entry", () => {
+      const result = parsePoContent(samplePo);
+
+      expect(result.header["Language"]).toBe("de");
+      expect(result.header["Plural-Forms"]).toBe("nplurals=2; plural=(n != 1);");
+    });
+
+    it("should parse entries and skip obsolete ones", () => {
+      const result = parsePoContent(samplePo);
+
+      expect(result.entries.map((e) => e.msgid)).toEqual([
+        "Hello",
+        "File",
+        "File",
+        "Welcome %(name)s",
+        "One file",
+        "A long message split over lines",
+      ]);
+    });
+
+    it("should keep translator, extracted and reference comments", () => {
+      const [hello] = parsePoContent(samplePo).entries;
+
+      expect(hello.translatorComments).toEqual(["Shown on the home screen"]);
+      expect(hello.extractedComments).toEqual(["Greeting for a signed-in user"]);
+      expect(hello.references).toEqual(["src/app.py:12"]);
+    });
+
+    it("should parse msgctxt and key entries by context", () => {
+      const entries = parsePoContent(samplePo).entries;
+
+      expect(entries[1].msgctxt).toBe("menu");
+      expect(getPoEntryKey(entries[1])).toBe("menu|File");
+      expect(getPoEntryKey(entries[2])).toBe("File");
+    });
+
+    it("should parse plural forms", () => {
+      const plural = parsePoContent(samplePo).entries[4];
+
+      expect(plural.msgidPlural).toBe("%d files");
+      expect(plural.msgstr).toEqual(["Eine Datei", "%d Dateien"]);
+    });
+
+    it("should parse flags and treat fuzzy entries as untranslated", () => {
+      const fuzzy = parsePoContent(samplePo).entries[3];
+
+      expect(fuzzy.flags).toEqual(["fuzzy", "python-format"]);
+      expect(isTranslatedEntry(fuzzy)).toBe(false);
+    });
+
+    it("should unescape quoted strings", () => {
+      const result = parsePoContent(`msgid "Say \\"hi\\"\\n"\nmsgstr "Sag \\"hallo\\"\\n"\n`);
+
+      expect(result.entries[0].msgid).toBe('Say "hi"\n');
+      expect(result.entries[0].msgstr).toEqual(['Sag "hallo"\n']);
+    });
+
+    it("should handle empty file", () => {
+      const result = parsePoContent("");
+
+      expect(result.entries).toEqual([]);
+      expect(result.header).toEqual({});
+    });
+  });
+
+  describe("extractPoSourceEntries / extractPoTranslatedEntries", () => {
+    it("should use msgid as the source text for templates", () => {
+      const pot = parsePoContent(`msgid "Hello"\nmsgstr ""\n`);
+
+      expect(extractPoSourceEntries(pot)).toEqual([{ key: "Hello", value: "Hello" }]);
+    });
+
+    it("should only report complete, non-fuzzy translations", () => {
+      const keys = extractPoTranslatedEntries(parsePoContent(samplePo)).map((e) => e.key);
+
+      expect(keys).toEqual(["Hello", "menu|File", "File", "One file"]);
+    });
+  });
+
+  describe("extractLanguageFromGettextPath", () => {
+    it("should read the LC_MESSAGES parent directory", () => {
+      expect(extractLanguageFromGettextPath("/app/locale/de/LC_MESSAGES/messages.po")).toBe("de");
+    });
+
+    it("should convert underscore locales to BCP 47", () => {
+      expect(extractLanguageFromGettextPath("/app/locale/pt_BR/LC_MESSAGES/django.po")).toBe("pt-BR");
+    });
+
+    it("should read GNU-style flat catalogs", () => {
+      expect(extractLanguageFromGettextPath("/app/po/fr.po")).toBe("fr");
+    });
+
+    it("should not read a domain catalog's name as a language", () => {
+      expect(extractLanguageFromGettextPath("/app/po/app.po")).toBeNull();
+      expect(extractLanguageFromGettextPath("/app/po/web.po")).toBeNull();
+      expect(extractLanguageFromGettextPath("/app/po/FR.po")).toBeNull();
+    });
+
+    it("should return null for non-gettext paths", () => {
+      expect(extractLanguageFromGettextPath("/app/locales/en.json")).toBeNull();
+    });
+  });
+
+  describe("computeGettextTargetPath", () => {
+    it("should swap the LC_MESSAGES language directory", () => {
+      expect(computeGettextTargetPath("/app/locale/en/LC_MESSAGES/messages.po", "en", "pt-BR")).toBe(
+        "/app/locale/pt_BR/LC_MESSAGES/messages.po"
+      );
+    });
+
+    it("should map a .pot template to a per-language catalog", () => {
+      expect(computeGettextTargetPath("/app/locale/messages.pot", "en", "de")).toBe(
+        "/app/locale/de/LC_MESSAGES/messages.po"
+      );
+    });
+
+    it("should map a template in a GNU po/ directory to a flat catalog", () => {
+      expect(computeGettextTargetPath("/app/po/myapp.pot", "en", "de")).toBe("/app/po/de.po");
+    });
+
+    it("should return null for unrecognized layouts", () => {
+      expect(computeGettextTargetPath("/app/strings/messages.po", "en", "de")).toBeNull();
+    });
+  });
+
+  describe("stringifyPoContent", () => {
+    it("should round-trip entries, comments and plurals", () => {
+      const parsed = parsePoContent(samplePo);
+      expect(parsePoContent(stringifyPoContent(parsed))).toEqual(parsed);
+    });
+
+    it("should split multi-line strings after each newline", () => {
+      const output = stringifyPoContent({
+        header: {},
+        entries: [
+          { msgid: "Line one\nLine two", msgstr: [""], flags: [], translatorComments: [], extractedComments: [], references: [] },
+        ],
+      });
+      expect(output).toContain('msgid ""\n"Line one\\n"\n"Line two"');
+    });
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Gettext PO/POT file parser
+ *
+ * PO files are the translation catalogs used by GNU gettext, Python
+ * (Babel/Django), PHP and many C/C++ projects. Typical layout:
+ * - locale/messages.pot                  (template, msgstr left empty)
+ * - locale/de/LC_MESSAGES/messages.po    (one catalog per language)
+ * - po/de.po                             (GNU-style flat layout)
+ *
+ * Structure of a single entry:
+ *   # translator comment
+ *   #. extracted comment
+ *   #: src/app.py:42
+ *   #, fuzzy, python-format
+ *   msgctxt "menu"
+ *   msgid "File"
+ *   msgid_plural "Files"
+ *   msgstr[0] "Datei"
+ *   msgstr[1] "Dateien"
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { isLikelyLanguageCode } from "../locale-detection/patterns.js";
+
+/**
+ * A single PO catalog entry
+ */
+export interface PoEntry {
+  /** Disambiguating context (msgctxt), if any */
+  msgctxt?: string;
+  /** Source string */
+  msgid: string;
+  /** Plural source string (msgid_plural), if the entry is plural */
+  msgidPlural?: string;
+  /** Translations: one element for singular entries, one per plural form otherwise */
+  msgstr: string[];
+  /** Flags from `#,` lines (e.g. "fuzzy", "python-format") */
+  flags: string[];
+  /** Translator comments (`# ...`) */
+  translatorComments: string[];
+  /** Extracted (developer) comments (`#. ...`) */
+  extractedComments: string[];
+  /** Source references (`#: file:line`) */
+  references: string[];
+}
+
+/**
+ * Parsed content from a PO/POT file
+ */
+export interface PoContent {
+  /** Header fields from the msgid "" entry (e.g. "Language", "Plural-Forms") */
+  header: Record<string, string>;
+  /** Comments above the header entry (title, copyright) */
+  headerComments?: string[];
+  /** All non-header, non-obsolete entries */
+  entries: PoEntry[];
+}
+
+/**
+ * Check if a file is a gettext catalog (.po)
+ */
+export function isPoFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".po");
+}
+
+/**
+ * Check if a file is a gettext template (.pot)
+ */
+export function isPotFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".pot");
+}
+
+/**
+ * Check if a file is any gettext file (.po or .pot)
+ */
+export function isGettextFile(filePath: string): boolean {
+  return isPoFile(filePath) || isPotFile(filePath);
+}
+
+/**
+ * Build the key used to identify an entry. Entries with a msgctxt are keyed as
+ * `context|msgid` so the same msgid under two contexts stays distinct.
+ */
+export function getPoEntryKey(entry: PoEntry): string {
+  return entry.msgctxt !== undefined ? `${entry.msgctxt}|${entry.msgid}` : entry.msgid;
+}
+
+/**
+ * Whether an entry carries the `fuzzy` flag (needs translator review)
+ */
+export function isFuzzyEntry(entry: PoEntry): boolean {
+  return entry.flags.includes("fuzzy");
+}
+
+/**
+ * Whether an entry has a complete, non-fuzzy translation
+ */
+export function isTranslatedEntry(entry: PoEntry): boolean {
+  return !isFuzzyEntry(entry) && entry.msgstr.length > 0 && entry.msgstr.every((s) => s !== "");
+}
+
+type Keyword = "msgctxt" | "msgid" | "msgid_plural" | "msgstr";
+
+interface PendingEntry {
+  msgctxt?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: string[];
+  flags: string[];
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+}
+
+function emptyPending(): PendingEntry {
+  return { msgstr: [], flags: [], translatorComments: [], extractedComments: [], references: [] };
+}
+
+/**
+ * Parse a PO/POT file content
+ *
+ * Handles:
+ * - msgctxt, msgid, msgid_plural, msgstr and msgstr[n]
+ * - Multi-line strings (continuation lines starting with a quote)
+ * - Flags (`#,`), translator (`# `), extracted (`#.`) and reference (`#:`) comments
+ * - Obsolete entries (`#~`), which are skipped
+ *
+ * @param content Raw file content
+ * @returns Parsed header and entries
+ */
+export function parsePoContent(content: string): PoContent {
+  const entries: PoEntry[] = [];
+  let header: Record<string, string> = {};
+  let headerComments: string[] = [];
+
+  let pending = emptyPending();
+  // Which field continuation lines append to, plus msgstr index for plurals
+  let current: { keyword: Keyword; index: number } | null = null;
+
+  const flush = () => {
+    if (pending.msgid !== undefined) {
+      if (pending.msgid === "" && pending.msgctxt === undefined) {
+        header = parsePoHeader(pending.msgstr[0] ?? "");
+        headerComments = pending.translatorComments;
+      } else {
+        entries.push({
+          msgctxt: pending.msgctxt,
+          msgid: pending.msgid,
+          msgidPlural: pending.msgidPlural,
+          msgstr: pending.msgstr,
+          flags: pending.flags,
+          translatorComments: pending.translatorComments,
+          extractedComments: pending.extractedComments,
+          references: pending.references,
+        });
+      }
+    }
+    pending = emptyPending();
+    current = null;
+  };
+
+  const append = (value: string) => {
+    if (!current) return;
+    switch (current.keyword) {
+      case "msgctxt":
+        pending.msgctxt = (pending.msgctxt ?? "") + value;
+        break;
+      case "msgid":
+        pending.msgid = (pending.msgid ?? "") + value;
+        break;
+      case "msgid_plural":
+        pending.msgidPlural = (pending.msgidPlural ?? "") + value;
+        break;
+      case "msgstr":
+        pending.msgstr[current.index] = (pending.msgstr[current.index] ?? "") + value;
+        break;
+    }
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line === "") {
+      continue;
+    }
+
+    if (line.startsWith("#")) {
+      // Obsolete entries are kept by tools for history only
+      if (line.startsWith("#~")) continue;
+
+      // A comment after a msgstr starts the next entry
+      if (current?.keyword === "msgstr") flush();
+
+      if (line.startsWith("#,")) {
+        pending.flags.push(
+          ...line
+            .slice(2)
+            .split(",")
+            .map((f) => f.trim())
+            .filter((f) => f.length > 0)
+        );
+      } else if (line.startsWith("#.")) {
+        pending.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith("#:")) {
+        pending.references.push(...line.slice(2).trim().split(/\s+/).filter((r) => r.length > 0));
+      } else if (line.startsWith("#|")) {
+        // Previous msgid (used with fuzzy matching) - not needed here
+      } else {
+        pending.translatorComments.push(line.slice(1).trim());
+      }
+      continue;
+    }
+
+    if (line.startsWith('"')) {
+      append(parsePoString(line));
+      continue;
+    }
+
+    const match = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/);
+    if (!match) {
+      // Unknown line, ignore
+      continue;
+    }
+
+    const keyword = match[1] as Keyword;
+    const index = match[2] !== undefined ? parseInt(match[2], 10) : 0;
+
+    // msgctxt/msgid after a msgstr starts the next entry
+    if ((keyword === "msgctxt" || keyword === "msgid") && current?.keyword === "msgstr") {
+      flush();
+    }
+
+    current = { keyword, index };
+    if (keyword === "msgstr") {
+      pending.msgstr[index] = "";
+    }
+    append(parsePoString(match[3]));
+  }
+
+  flush();
+
+  return { header, headerComments, entries };
+}
+
+/**
+ * Parse the header entry's msgstr ("Key: value\n" lines) into a record
+ */
+function parsePoHeader(text: string): Record<string, string> {
+  const header: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      header[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+  }
+  return header;
+}
+
+/**
+ * Unescape a single quoted PO string token (including its surrounding quotes)
+ */
+function parsePoString(token: string): string {
+  const inner = token.replace(/^"/, "").replace(/"$/, "");
+  return inner.replace(/\\(.)/g, (_, ch: string) => {
+    switch (ch) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case '"':
+        return '"';
+      case "\\":
+        return "\\";
+      default:
+        return "\\" + ch;
+    }
+  });
+}
+
+/**
+ * Source-side key/value pairs. For a template (or an untranslated source
+ * catalog) the msgid is the source text; a filled singular msgstr wins when
+ * the source catalog overrides it.
+ */
+export function extractPoSourceEntries(parsed: PoContent): KeyValue[] {
+  return parsed.entries.map((entry) => ({
+    key: getPoEntryKey(entry),
+    value: entry.msgidPlural === undefined && entry.msgstr[0] ? entry.msgstr[0] : entry.msgid,
+  }));
+}
+
+/**
+ * Target-side key/value pairs: only entries with a complete, non-fuzzy
+ * translation count as present. Plural entries report their first form.
+ */
+export function extractPoTranslatedEntries(parsed: PoContent): KeyValue[] {
+  return parsed.entries
+    .filter(isTranslatedEntry)
+    .map((entry) => ({ key: getPoEntryKey(entry), value: entry.msgstr[0] }));
+}
+
+/**
+ * Convert a BCP 47 code to gettext's underscore locale form (pt-BR -> pt_BR)
+ */
+export function toGettextLocale(lang: string): string {
+  return lang.replace("-", "_");
+}
+
+/**
+ * Extract the language from a gettext path:
+ * - locale/pt_BR/LC_MESSAGES/messages.po -> "pt-BR"
+ * - po/de.po -> "de"
+ *
+ * @returns BCP 47 language code or null if the path has no gettext layout
+ */
+export function extractLanguageFromGettextPath(filePath: string): string | null {
+  const lcMatch = filePath.match(/\/([a-z]{2,3}(?:_[A-Z]{2}|_[A-Z][a-z]{3})?)\/LC_MESSAGES\//);
+  if (lcMatch) {
+    return lcMatch[1].replace("_", "-");
+  }
+
+  if (isPoFile(filePath)) {
+    // po/de.po, but not a domain catalog like po/app.po
+    const flatMatch = filePath.match(/(?:^|\/)([a-z]{2,3}(?:_[A-Z]{2}|_[A-Z][a-z]{3})?)\.po$/);
+    const lang = flatMatch?.[1].replace("_", "-");
+    if (lang && isLikelyLanguageCode(lang)) return lang;
+  }
+
+  return null;
+}
+
+/**
+ * Compute the target catalog path for a gettext source file:
+ * - locale/en/LC_MESSAGES/messages.po -> locale/de/LC_MESSAGES/messages.po
+ * - locale/messages.pot -> locale/de/LC_MESSAGES/messages.po
+ * - po/myapp.pot -> po/de.po (GNU-style `po/` directory)
+ *
+ * @returns Target path or null if the source is not a recognized gettext layout
+ */
+export function computeGettextTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const target = toGettextLocale(targetLang);
+
+  if (isPotFile(sourcePath)) {
+    const slash = sourcePath.lastIndexOf("/");
+    const dir = slash === -1 ? "" : sourcePath.slice(0, slash);
+    const domain = sourcePath.slice(slash + 1).replace(/\.pot$/i, "");
+    if (dir === "po" || dir.endsWith("/po")) {
+      return `${dir}/${target}.po`;
+    }
+    return `${dir ? dir + "/" : ""}${target}/LC_MESSAGES/${domain}.po`;
+  }
+
+  if (!isPoFile(sourcePath)) return null;
+
+  for (const source of new Set([toGettextLocale(sourceLang), sourceLang])) {
+    const lcPattern = `/${source}/LC_MESSAGES/`;
+    if (sourcePath.includes(lcPattern)) {
+      return sourcePath.replace(lcPattern, `/${target}/LC_MESSAGES/`);
+    }
+
+    const flatPattern = `/${source}.po`;
+    if (sourcePath.endsWith(flatPattern)) {
+      return sourcePath.slice(0, -flatPattern.length) + `/${target}.po`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serialize parsed PO content back to a catalog
+ */
+export function stringifyPoContent(parsed: PoContent): string {
+  const blocks: string[] = [];
+
+  const headerText = Object.entries(parsed.header)
+    .map(([key, value]) => `${key}: ${value}\n`)
+    .join("");
+  const headerComments = (parsed.headerComments ?? []).map((c) => (c ? `# ${c}` : "#"));
+  blocks.push([...headerComments, 'msgid ""', formatPoString("msgstr", headerText, true)].join("\n"));
+
+  for (const entry of parsed.entries) {
+    const lines: string[] = [];
+    for (const comment of entry.translatorComments) lines.push(comment ? `# ${comment}` : "#");
+    for (const comment of entry.extractedComments) lines.push(`#. ${comment}`);
+    if (entry.references.length) lines.push(`#: ${entry.references.join(" ")}`);
+    if (entry.flags.length) lines.push(`#, ${entry.flags.join(", ")}`);
+    if (entry.msgctxt !== undefined) lines.push(formatPoString("msgctxt", entry.msgctxt));
+    lines.push(formatPoString("msgid", entry.msgid));
+    if (entry.msgidPlural !== undefined) {
+      lines.push(formatPoString("msgid_plural", entry.msgidPlural));
+      const forms = entry.msgstr.length ? entry.msgstr : ["", ""];
+      forms.forEach((form, i) => lines.push(formatPoString(`msgstr[${i}]`, form ?? "")));
+    } else {
+      lines.push(formatPoString("msgstr", entry.msgstr[0] ?? ""));
+    }
+    blocks.push(lines.join("\n"));
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Format `keyword "value"`, splitting multi-line values after each \n the
+ * way gettext tools do
+ */
+function formatPoString(keyword: string, value: string, forceMultiline = false): string {
+  const escape = (s: string) =>
+    s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\t/g, "\\t");
+
+  const parts = value.split(/(?<=\n)/).filter((p) => p !== "");
+  if (!forceMultiline && parts.length <= 1) {
+    return `${keyword} "${escape(value)}"`;
+  }
+  return [`${keyword} ""`, ...parts.map((p) => `"${escape(p)}"`)].join("\n");
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  parsePropertiesContent,
+  decodePropertiesBuffer,
+  escapePropertiesNonAscii,
+  hasPropertiesUnicodeEscapes,
+  formatPropertiesEntry,
+  extractLanguageFromPropertiesPath,
+  isPropertiesDefaultBundle,
+  computePropertiesTargetPath,
+} from "./properties-parser.js";
+
+describe("Properties Parser", () => {
+  describe("parsePropertiesContent", () => {
+    it("should parse =, : and whitespace separators", () => {
+      const result = parsePropertiesContent("a=1\nb : 2\nc 3\nd=\n");
+      expect(result.entries).toEqual([
+        { key: "a", value: "1" },
+        { key: "b", value: "2" },
+        { key: "c", value: "3" },
+        { key: "d", value: "" },
+      ]);
+    });
+
+    it("should join continuation lines and strip their leading whitespace", () => {
+      const result = parsePropertiesContent("greeting=Hello, \\\n    world\\\n  !\nnext=x");
+      expect(result.entries).toEqual([
+        { key: "greeting", value: "Hello, world!" },
+        { key: "next", value: "x" },
+      ]);
+    });
+
+    it("should not treat an escaped trailing backslash as a continuation", () => {
+      const result = parsePropertiesContent("path=C:\\\\\nnext=x");
+      expect(result.entries).toEqual([
+        { key: "path", value: "C:\\" },
+        { key: "next", value: "x" },
+      ]);
+    });
+
+    it("should decode \\uXXXX and control escapes", () => {
+      const result = parsePropertiesContent("name=Caf\\u00e9\\tTab\\nLine\nkey\\=with\\:seps=v");
+      expect(result.entries).toEqual([
+        { key: "name", value: "Café\tTab\nLine" },
+        { key: "key=with:seps", value: "v" },
+      ]);
+    });
+
+    it("should keep # and ! comments for the following key", () => {
+      const result = parsePropertiesContent("# Title\n! of the app\napp.title=App\n\n# orphan\n\nother=x");
+      expect(result.comments.get("app.title")).toBe("Title\nof the app");
+      expect(result.comments.has("other")).toBe(false);
+    });
+  });
+
+  describe("decodePropertiesBuffer", () => {
+    it("should read valid UTF-8 as UTF-8", () => {
+      const result = decodePropertiesBuffer(Buffer.from("name=Café", "utf-8"));
+      expect(result).toEqual({ content: "name=Café", encoding: "utf-8" });
+    });
+
+    it("should fall back to ISO-8859-1 for legacy bundles", () => {
+      const result = decodePropertiesBuffer(Buffer.from("name=für", "latin1"));
+      expect(result).toEqual({ content: "name=für", encoding: "latin1" });
+    });
+  });
+
+  describe("escaping", () => {
+    it("should escape non-ASCII characters", () => {
+      expect(escapePropertiesNonAscii("name=Café 日本")).toBe("name=Caf\\u00e9 \\u65e5\\u672c");
+    });
+
+    it("should detect \\uXXXX escapes, but not an escaped backslash before u", () => {
+      expect(hasPropertiesUnicodeEscapes("name=Caf\\u00e9")).toBe(true);
+      expect(hasPropertiesUnicodeEscapes("\\u00e9=key")).toBe(true);
+      expect(hasPropertiesUnicodeEscapes("path=C:\\\\users")).toBe(false);
+      expect(hasPropertiesUnicodeEscapes("path=C:\\\\u0041")).toBe(false);
+      expect(hasPropertiesUnicodeEscapes("name=Café")).toBe(false);
+    });
+
+    it("should format entries that parse back to the same key and value", () => {
+      const line = formatPropertiesEntry("key with=sep", " leading\nnewline\\");
+      expect(parsePropertiesContent(line).entries).toEqual([
+        { key: "key with=sep", value: " leading\nnewline\\" },
+      ]);
+    });
+  });
+
+  describe("paths", () => {
+    it("should extract the language from the bundle suffix", () => {
+      expect(extractLanguageFromPropertiesPath("/res/messages_de.properties")).toBe("de");
+      expect(extractLanguageFromPropertiesPath("/res/messages_pt_BR.properties")).toBe("pt-BR");
+      expect(extractLanguageFromPropertiesPath("/res/error_messages_fr.properties")).toBe("fr");
+      expect(extractLanguageFromPropertiesPath("/res/messages.properties")).toBeNull();
+      expect(extractLanguageFromPropertiesPath("/res/errors_qa.properties")).toBeNull();
+    });
+
+    it("should identify default bundles", () => {
+      expect(isPropertiesDefaultBundle("/res/messages.properties")).toBe(true);
+      expect(isPropertiesDefaultBundle("/res/messages_de.properties")).toBe(false);
+    });
+
+    it("should compute target bundle paths", () => {
+      expect(computePropertiesTargetPath("/res/messages.properties", "en", "de")).toBe(
+        "/res/messages_de.properties"
+      );
+      expect(computePropertiesTargetPath("/res/messages_en.properties", "en", "zh-Hant")).toBe(
+        "/res/messages_zh_Hant.properties"
+      );
+      expect(computePropertiesTargetPath("/res/messages_fr.properties", "en", "de")).toBeNull();
+    });
+  });
+});
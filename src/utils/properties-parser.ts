@@ -0,0 +1,250 @@
+/**
+ * Java .properties resource bundle parser
+ *
+ * Java/Spring keep one bundle per locale next to an unsuffixed default:
+ * - src/main/resources/messages.properties        (default bundle)
+ * - src/main/resources/messages_de.properties     (German)
+ * - src/main/resources/messages_pt_BR.properties  (Brazilian Portuguese)
+ *
+ * Syntax (java.util.Properties):
+ *   # comment, or ! comment
+ *   app.title = My App
+ *   app.greeting: Hello \
+ *       world
+ *   app.name=Café
+ *
+ * Bundles were ISO-8859-1 until Java 9, so non-ASCII text is often written
+ * as \uXXXX escapes and older files may not be valid UTF-8.
+ */
+
+import { readFile } from "fs/promises";
+import type { KeyValue } from "../api/types.js";
+import { isLikelyLanguageCode } from "../locale-detection/patterns.js";
+
+/**
+ * Parsed content from a .properties file
+ */
+export interface PropertiesContent {
+  /** Key-value translation pairs */
+  entries: KeyValue[];
+  /** Comments directly preceding a key (key -> comment text) */
+  comments: Map<string, string>;
+}
+
+/**
+ * Check if a file is a Java .properties file
+ */
+export function isPropertiesFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".properties");
+}
+
+/**
+ * Decode raw .properties bytes. UTF-8 is used when the bytes are valid UTF-8,
+ * otherwise the file is read as ISO-8859-1 (the pre-Java 9 bundle encoding).
+ */
+export function decodePropertiesBuffer(buffer: Buffer): { content: string; encoding: "utf-8" | "latin1" } {
+  try {
+    const content = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return { content: content.replace(/^\uFEFF/, ""), encoding: "utf-8" };
+  } catch {
+    return { content: buffer.toString("latin1"), encoding: "latin1" };
+  }
+}
+
+/**
+ * Read and decode a .properties file (see decodePropertiesBuffer)
+ */
+export async function readPropertiesFile(
+  filePath: string
+): Promise<{ content: string; encoding: "utf-8" | "latin1" }> {
+  return decodePropertiesBuffer(await readFile(filePath));
+}
+
+/**
+ * Replace every non-ASCII character with a \uXXXX escape, so the file reads
+ * the same under ISO-8859-1 and UTF-8
+ */
+export function escapePropertiesNonAscii(content: string): string {
+  return content.replace(/[\u0080-\uffff]/g, (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+/**
+ * Check if .properties content writes any character as a \uXXXX escape
+ * (an escaped backslash followed by `u` is not one)
+ */
+export function hasPropertiesUnicodeEscapes(content: string): boolean {
+  return /(?:^|[^\\])(?:\\\\)*\\u[0-9a-fA-F]{4}/m.test(content);
+}
+
+/**
+ * Parse a .properties file content
+ *
+ * Handles:
+ * - `key=value`, `key: value` and `key value` separators
+ * - Line continuations (trailing backslash)
+ * - Escapes: \uXXXX, \t, \n, \r, \f and escaped separators
+ * - `#` and `!` comments, kept for the key that follows them
+ *
+ * @param content Decoded file content
+ * @returns Parsed entries and comments
+ */
+export function parsePropertiesContent(content: string): PropertiesContent {
+  const entries: KeyValue[] = [];
+  const comments = new Map<string, string>();
+  const lines = content.split(/\r\n|\r|\n/);
+  let pendingComment: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].replace(/^[ \t\f]+/, "");
+
+    if (trimmed === "") {
+      pendingComment = [];
+      continue;
+    }
+    if (trimmed.startsWith("#") || trimmed.startsWith("!")) {
+      pendingComment.push(trimmed.slice(1).trim());
+      continue;
+    }
+
+    // Join continuation lines (an odd number of trailing backslashes)
+    let logical = trimmed;
+    while (/(?:^|[^\\])(?:\\\\)*\\$/.test(logical) && i + 1 < lines.length) {
+      i++;
+      logical = logical.slice(0, -1) + lines[i].replace(/^[ \t\f]+/, "");
+    }
+
+    const { key, value } = splitKeyValue(logical);
+    entries.push({ key, value });
+    if (pendingComment.length > 0) {
+      comments.set(key, pendingComment.join("\n"));
+    }
+    pendingComment = [];
+  }
+
+  return { entries, comments };
+}
+
+/**
+ * Split a logical line at the first unescaped `=`, `:` or whitespace
+ */
+function splitKeyValue(line: string): KeyValue {
+  let pos = 0;
+  while (pos < line.length) {
+    const ch = line[pos];
+    if (ch === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (ch === "=" || ch === ":" || ch === " " || ch === "\t" || ch === "\f") break;
+    pos++;
+  }
+
+  const rawKey = line.slice(0, pos);
+  let rest = line.slice(pos).replace(/^[ \t\f]+/, "");
+  if (rest.startsWith("=") || rest.startsWith(":")) {
+    rest = rest.slice(1).replace(/^[ \t\f]+/, "");
+  }
+
+  return { key: unescapeProperties(rawKey), value: unescapeProperties(rest) };
+}
+
+function unescapeProperties(text: string): string {
+  return text.replace(/\\(u[0-9a-fA-F]{4}|.?)/g, (_, ch: string) => {
+    if (ch.length === 5) return String.fromCharCode(parseInt(ch.slice(1), 16));
+    switch (ch) {
+      case "t":
+        return "\t";
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "f":
+        return "\f";
+      default:
+        return ch;
+    }
+  });
+}
+
+/**
+ * Format a `key=value` line with the escapes java.util.Properties expects
+ */
+export function formatPropertiesEntry(key: string, value: string): string {
+  const escape = (text: string) =>
+    text
+      .replace(/\\/g, "\\\\")
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r")
+      .replace(/\t/g, "\\t")
+      .replace(/\f/g, "\\f");
+
+  const escapedKey = escape(key).replace(/([=: #!])/g, "\\$1");
+  const escapedValue = escape(value).replace(/^ /, "\\ ");
+  return `${escapedKey}=${escapedValue}`;
+}
+
+/**
+ * Convert a Java locale suffix to a BCP 47 language code
+ * - "de" -> "de", "pt_BR" -> "pt-BR", "zh_Hant" -> "zh-Hant"
+ */
+function javaLocaleToLanguage(suffix: string): string {
+  return suffix.replace(/_/g, "-");
+}
+
+/**
+ * Convert a BCP 47 language code to a Java bundle suffix
+ * - "pt-BR" -> "pt_BR"
+ */
+export function languageToJavaLocale(lang: string): string {
+  return lang.replace(/-/g, "_");
+}
+
+const LOCALE_SUFFIX = /^(.+?)_([a-z]{2}(?:_(?:[A-Z]{2}|[A-Z][a-z]{3}))?)\.properties$/;
+
+/**
+ * Extract the language from a bundle file name (messages_pt_BR.properties)
+ *
+ * @returns Language code, or null for the default bundle (messages.properties)
+ */
+export function extractLanguageFromPropertiesPath(filePath: string): string | null {
+  const fileName = filePath.split("/").pop() ?? filePath;
+  const match = fileName.match(LOCALE_SUFFIX);
+  if (!match) return null;
+  // errors_qa.properties is a bundle of its own, not a locale
+  const lang = javaLocaleToLanguage(match[2]);
+  return isLikelyLanguageCode(lang) ? lang : null;
+}
+
+/**
+ * Whether a .properties file is a default (unsuffixed) bundle
+ */
+export function isPropertiesDefaultBundle(filePath: string): boolean {
+  return isPropertiesFile(filePath) && extractLanguageFromPropertiesPath(filePath) === null;
+}
+
+/**
+ * Compute the target bundle path for a new language:
+ * - messages.properties -> messages_de.properties
+ * - messages_en.properties -> messages_pt_BR.properties
+ *
+ * @returns Target path or null if the source suffix doesn't match sourceLang
+ */
+export function computePropertiesTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const slash = sourcePath.lastIndexOf("/");
+  const dir = sourcePath.slice(0, slash + 1);
+  const fileName = sourcePath.slice(slash + 1);
+  const target = languageToJavaLocale(targetLang);
+
+  const sourceLocale = extractLanguageFromPropertiesPath(sourcePath);
+  if (sourceLocale === null) {
+    return `${dir}${fileName.replace(/\.properties$/i, "")}_${target}.properties`;
+  }
+  if (sourceLocale !== sourceLang) return null;
+
+  const match = fileName.match(LOCALE_SUFFIX)!;
+  return `${dir}${match[1]}_${target}.properties`;
+}
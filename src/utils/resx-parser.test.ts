@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseResxContent,
+  extractResxEntries,
+  extractLanguageFromResxPath,
+  isResxNeutralFile,
+  computeResxTargetPath,
+} from "./resx-parser.js";
+
+describe("RESX Parser", () => {
+  const sampleResx = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <!--
+    <data name="Name1"><value>this is my long string</value><comment>this is a comment</comment></data>
+  -->
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <data name="Greeting" xml:space="preserve">
+    <value>Hello &amp; welcome</value>
+    <comment>Shown on the home page</comment>
+  </data>
+  <data name="Markup" xml:space="preserve">
+    <value><![CDATA[<b>Bold</b>]]></value>
+  </data>
+  <data name="Empty" xml:space="preserve">
+    <value />
+  </data>
+  <data name="Icon" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>icon.ico;System.Drawing.Icon, System.Drawing</value>
+  </data>
+  <data name="Blob" mimetype="application/x-microsoft.net.object.binary.base64">
+    <value>AAEAAAD/////</value>
+  </data>
+</root>`;
+
+  describe("parseResxContent", () => {
+    it("should parse string resources with comments", () => {
+      const result = parseResxContent(sampleResx);
+      expect(result.entries[0]).toEqual({
+        name: "Greeting",
+        value: "Hello & welcome",
+        comment: "Shown on the home page",
+      });
+    });
+
+    it("should decode CDATA values", () => {
+      expect(parseResxContent(sampleResx).entries[1].value).toBe("<b>Bold</b>");
+    });
+
+    it("should skip typed resources and samples in comments", () => {
+      const names = parseResxContent(sampleResx).entries.map((e) => e.name);
+      expect(names).toEqual(["Greeting", "Markup", "Empty"]);
+    });
+
+    it("should extract key/value pairs", () => {
+      expect(extractResxEntries(parseResxContent(sampleResx))).toEqual([
+        { key: "Greeting", value: "Hello & welcome" },
+        { key: "Markup", value: "<b>Bold</b>" },
+        { key: "Empty", value: "" },
+      ]);
+    });
+  });
+
+  describe("paths", () => {
+    it("should extract the culture from the file name", () => {
+      expect(extractLanguageFromResxPath("/app/Resources/Strings.de.resx")).toBe("de");
+      expect(extractLanguageFromResxPath("/app/Resources/Strings.pt-BR.resx")).toBe("pt-BR");
+      expect(extractLanguageFromResxPath("/app/Resources/Views.Home.Index.fr.resx")).toBe("fr");
+      expect(extractLanguageFromResxPath("/app/Resources/Strings.resx")).toBeNull();
+    });
+
+    it("should identify neutral resource files", () => {
+      expect(isResxNeutralFile("/app/Resources/Strings.resx")).toBe(true);
+      expect(isResxNeutralFile("/app/Resources/Strings.de.resx")).toBe(false);
+    });
+
+    it("should compute target resource paths", () => {
+      expect(computeResxTargetPath("/app/Strings.resx", "en", "de")).toBe("/app/Strings.de.resx");
+      expect(computeResxTargetPath("/app/Strings.en.resx", "en", "pt-BR")).toBe("/app/Strings.pt-BR.resx");
+      expect(computeResxTargetPath("/app/Strings.fr.resx", "en", "de")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * .NET RESX resource file parser
+ *
+ * .NET keeps a neutral resource file next to one file per culture:
+ * - Resources/Strings.resx         (neutral/default culture)
+ * - Resources/Strings.de.resx      (German)
+ * - Resources/Strings.pt-BR.resx   (Brazilian Portuguese)
+ *
+ * String resources:
+ *   <data name="Greeting" xml:space="preserve">
+ *     <value>Hello</value>
+ *     <comment>Shown on the home page</comment>
+ *   </data>
+ *
+ * Non-string resources (images, files) carry a `type` or `mimetype`
+ * attribute and are not translatable.
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { decodeXmlText, getXmlAttribute } from "./xml-common.js";
+
+/**
+ * A single string resource
+ */
+export interface ResxEntry {
+  /** Resource name attribute */
+  name: string;
+  /** Resource text */
+  value: string;
+  /** Translator comment from <comment>, if any */
+  comment?: string;
+}
+
+/**
+ * Parsed content from a .resx file
+ */
+export interface ResxContent {
+  /** String resources in document order */
+  entries: ResxEntry[];
+}
+
+/**
+ * Check if a file is a .NET RESX resource file
+ */
+export function isResxFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".resx");
+}
+
+/**
+ * Parse a .resx file content
+ *
+ * @param content Raw XML content
+ * @returns String resources (non-string resources are skipped)
+ */
+export function parseResxContent(content: string): ResxContent {
+  const entries: ResxEntry[] = [];
+  // The standard RESX header comment contains sample <data> elements
+  const body = content.replace(/<!--[\s\S]*?-->/g, "");
+
+  for (const match of body.matchAll(/<data\b([^>]*?)(?:\/>|>([\s\S]*?)<\/data>)/g)) {
+    const attrs = match[1];
+    const inner = match[2] ?? "";
+    const name = getXmlAttribute(attrs, "name");
+    if (name === null || getXmlAttribute(attrs, "type") !== null || getXmlAttribute(attrs, "mimetype") !== null) {
+      continue;
+    }
+
+    const value = inner.match(/<value>([\s\S]*?)<\/value>/);
+    const comment = inner.match(/<comment>([\s\S]*?)<\/comment>/);
+    entries.push({
+      name,
+      value: value ? decodeXmlText(value[1]) : "",
+      comment: comment ? decodeXmlText(comment[1]) : undefined,
+    });
+  }
+
+  return { entries };
+}
+
+/**
+ * Translatable key/value pairs, keyed by resource name
+ */
+export function extractResxEntries(parsed: ResxContent): KeyValue[] {
+  return parsed.entries.map((e) => ({ key: e.name, value: e.value }));
+}
+
+const CULTURE_SUFFIX = /^(.+)\.([a-z]{2,3}(?:-(?:[A-Z]{2}|[A-Z][a-z]{3}))?)\.resx$/;
+
+/**
+ * Extract the culture from a resource file name (Strings.pt-BR.resx)
+ *
+ * @returns Language code, or null for the neutral resource file (Strings.resx)
+ */
+export function extractLanguageFromResxPath(filePath: string): string | null {
+  const fileName = filePath.split("/").pop() ?? filePath;
+  const match = fileName.match(CULTURE_SUFFIX);
+  return match ? match[2] : null;
+}
+
+/**
+ * Whether a .resx file is the neutral (culture-less) resource file
+ */
+export function isResxNeutralFile(filePath: string): boolean {
+  return isResxFile(filePath) && extractLanguageFromResxPath(filePath) === null;
+}
+
+/**
+ * Compute the target resource path for a new culture:
+ * - Strings.resx -> Strings.de.resx
+ * - Strings.en.resx -> Strings.pt-BR.resx
+ *
+ * @returns Target path or null if the source culture doesn't match sourceLang
+ */
+export function computeResxTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const slash = sourcePath.lastIndexOf("/");
+  const dir = sourcePath.slice(0, slash + 1);
+  const fileName = sourcePath.slice(slash + 1);
+
+  const match = fileName.match(CULTURE_SUFFIX);
+  if (!match) {
+    return `${dir}${fileName.replace(/\.resx$/i, "")}.${targetLang}.resx`;
+  }
+  if (match[2] !== sourceLang) return null;
+  return `${dir}${match[1]}.${targetLang}.resx`;
+}
+
+/**
+ * Escape text for a <value> or <comment> element
+ */
+export function escapeResxText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
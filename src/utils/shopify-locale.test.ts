@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseShopifyLocaleFileName,
+  isShopifyLocaleFile,
+  computeShopifyTargetPath,
+} from "./shopify-locale.js";
+
+describe("Shopify locale naming", () => {
+  describe("parseShopifyLocaleFileName", () => {
+    it("should split the language from the .default and .schema infixes", () => {
+      expect(parseShopifyLocaleFileName("/theme/locales/en.default.schema.json")).toEqual({
+        lang: "en",
+        isDefault: true,
+        isSchema: true,
+      });
+      expect(parseShopifyLocaleFileName("/theme/locales/pt-BR.json")).toEqual({
+        lang: "pt-BR",
+        isDefault: false,
+        isSchema: false,
+      });
+      expect(parseShopifyLocaleFileName("/theme/config/settings_schema.json")).toBeNull();
+    });
+
+    it("should only claim files that carry a Shopify infix", () => {
+      expect(isShopifyLocaleFile("/theme/locales/en.default.json")).toBe(true);
+      expect(isShopifyLocaleFile("/theme/locales/de.schema.json")).toBe(true);
+      expect(isShopifyLocaleFile("/theme/locales/de.json")).toBe(false);
+    });
+  });
+
+  describe("computeShopifyTargetPath", () => {
+    it("should drop the .default marker and keep .schema", () => {
+      expect(computeShopifyTargetPath("/theme/locales/en.default.json", "en", "de")).toBe("/theme/locales/de.json");
+      expect(computeShopifyTargetPath("/theme/locales/en.default.schema.json", "en", "pt-BR")).toBe(
+        "/theme/locales/pt-BR.schema.json"
+      );
+      expect(computeShopifyTargetPath("/theme/locales/en.default.json", "fr", "de")).toBeNull();
+    });
+  });
+});
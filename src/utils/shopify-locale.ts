@@ -0,0 +1,65 @@
+/**
+ * Shopify theme locale file naming
+ *
+ * Shopify themes keep all languages flat in locales/, marking the theme's
+ * default language with a `.default` infix and editor (theme settings)
+ * translations with a `.schema` infix:
+ * - locales/en.default.json         storefront, default language
+ * - locales/en.default.schema.json  theme editor, default language
+ * - locales/de.json
+ * - locales/de.schema.json
+ *
+ * Only one language carries `.default`; translated files never do.
+ */
+
+/**
+ * Parts of a Shopify locale file name
+ */
+export interface ShopifyLocaleFileName {
+  /** Language code (en, pt-BR) */
+  lang: string;
+  /** Marked as the theme's default language (`.default`) */
+  isDefault: boolean;
+  /** Theme editor translations (`.schema`) */
+  isSchema: boolean;
+}
+
+const SHOPIFY_LOCALE_FILE = /(?:^|\/)locales\/([a-z]{2,3}(?:-[A-Z]{2}|-[A-Z][a-z]{3})?)(\.default)?(\.schema)?\.json$/;
+
+/**
+ * Parse a locales/<lang>[.default][.schema].json file name
+ *
+ * @returns The parts, or null if the path is not in that form
+ */
+export function parseShopifyLocaleFileName(filePath: string): ShopifyLocaleFileName | null {
+  const match = filePath.match(SHOPIFY_LOCALE_FILE);
+  if (!match) return null;
+  return { lang: match[1], isDefault: match[2] !== undefined, isSchema: match[3] !== undefined };
+}
+
+/**
+ * Check if a file uses Shopify's `.default` or `.schema` naming. A plain
+ * locales/de.json is indistinguishable from other flat JSON locales and is
+ * left to the generic rules.
+ */
+export function isShopifyLocaleFile(filePath: string): boolean {
+  const parsed = parseShopifyLocaleFileName(filePath);
+  return parsed !== null && (parsed.isDefault || parsed.isSchema);
+}
+
+/**
+ * Compute the target file path for a new language, dropping the `.default`
+ * marker (locales/en.default.schema.json -> locales/de.schema.json)
+ *
+ * @returns Target path or null if the source language doesn't match sourceLang
+ */
+export function computeShopifyTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const parsed = parseShopifyLocaleFileName(sourcePath);
+  if (!parsed || parsed.lang !== sourceLang) return null;
+  const dir = sourcePath.slice(0, sourcePath.lastIndexOf("/") + 1);
+  return `${dir}${targetLang}${parsed.isSchema ? ".schema" : ""}.json`;
+}
@@ -211,7 +211,7 @@ function parseQuotedString(
           value += "\\";
           break;
         case "U":
-        case "u":
+        case "u": {
           // Unicode escape: \U0000 or \u0000
           const hexLength = escaped === "U" ? 4 : 4;
           const hex = content.slice(pos + 1, pos + 1 + hexLength);
@@ -224,6 +224,7 @@ function parseQuotedString(
             value += "\\" + escaped;
           }
           break;
+        }
         default:
           // Unknown escape, keep both characters
           value += "\\" + escaped;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseStringsDictContent } from "./stringsdict-parser.js";
+import { extractStringsDictEntries, parseStringsDictContent } from "./stringsdict-parser.js";
 
 describe("Stringsdict Parser", () => {
   const sampleXml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -73,4 +73,12 @@ describe("Stringsdict Parser", () => {
       expect(result!.entries).toHaveLength(0);
     });
   });
+
+  describe("extractStringsDictEntries", () => {
+    it("should return one entry per key holding every plural variant", () => {
+      const result = parseStringsDictContent(sampleXml);
+
+      expect(extractStringsDictEntries(result!)).toEqual([{ key: "items_count", value: "%d item\n%d items" }]);
+    });
+  });
 });
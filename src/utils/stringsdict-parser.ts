@@ -24,6 +24,7 @@
  */
 
 import type { KeyValue } from "../api/types.js";
+import { decodeXmlText } from "./xml-common.js";
 
 /**
  * Plural variant types supported by iOS
@@ -116,6 +117,21 @@ export function parseStringsDictContent(
   }
 }
 
+/**
+ * Flatten entries to one key-value pair per entry. The value holds the text
+ * of every plural variant, one per line, so word counts cover all forms; a
+ * target language with fewer plural categories still has the entry.
+ */
+export function extractStringsDictEntries(content: StringsDictContent): KeyValue[] {
+  return content.entries.map((entry) => ({
+    key: entry.key,
+    value: Object.values(entry.pluralRules)
+      .flatMap((rule) => PLURAL_VARIANTS.map((variant) => rule.variants[variant]))
+      .filter((text): text is string => text !== undefined)
+      .join("\n"),
+  }));
+}
+
 /**
  * Extract content between <dict> and </dict> tags, handling nesting
  */
@@ -166,7 +182,7 @@ function parseRootDictPairs(content: string): Array<[string, string]> {
       break;
     }
 
-    const keyName = decodeXmlEntities(keyMatch[1]);
+    const keyName = decodeXmlText(keyMatch[1]);
     pos += keyMatch.index + keyMatch[0].length;
 
     // Skip whitespace
@@ -255,7 +271,7 @@ function extractDictPairs(
       break;
     }
 
-    const pairKey = decodeXmlEntities(keyMatch[1]);
+    const pairKey = decodeXmlText(keyMatch[1]);
     pos += keyMatch.index + keyMatch[0].length;
 
     // Skip whitespace
@@ -268,7 +284,7 @@ function extractDictPairs(
       // String value
       const stringMatch = content.slice(pos).match(/<string>([^<]*)<\/string>/i);
       if (stringMatch) {
-        pairs.push([pairKey, decodeXmlEntities(stringMatch[1])]);
+        pairs.push([pairKey, decodeXmlText(stringMatch[1])]);
         pos += stringMatch[0].length;
       }
     } else if (content.slice(pos, pos + 6).toLowerCase() === "<dict>") {
@@ -339,14 +355,3 @@ function parsePluralRuleDict(
   };
 }
 
-/**
- * Decode XML entities
- */
-function decodeXmlEntities(text: string): string {
-  return text
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&amp;/g, "&")
-    .replace(/&apos;/g, "'")
-    .replace(/&quot;/g, '"');
-}
@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { resolve, relative, isAbsolute } from "path";
+import { resolve } from "path";
 
 /**
  * BCP 47 language code pattern. Matches a 2–3 letter language subtag plus an
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  findVueI18nBlocks,
+  parseVueI18nMessages,
+  setVueI18nMessages,
+  isVueFile,
+} from "./vue-i18n-parser.js";
+
+const component = `<template>
+  <i18n-t keypath="hello" tag="p" />
+</template>
+
+<i18n lang="json">
+{
+  "en": { "hello": "Hello" },
+  "de": { "hello": "Hallo" }
+}
+</i18n>
+
+<style>p { margin: 0; }</style>
+`;
+
+describe("Vue i18n Parser", () => {
+  describe("findVueI18nBlocks", () => {
+    it("should find <i18n> blocks but not <i18n-t> components or src imports", () => {
+      const content = `${component}<i18n src="./messages.json"></i18n>\n<i18n locale="fr" lang="yml">hello: Bonjour</i18n>\n`;
+      const blocks = findVueI18nBlocks(content);
+      expect(blocks.map((b) => [b.lang, b.locale])).toEqual([
+        ["json", undefined],
+        ["yaml", "fr"],
+      ]);
+      expect(content.slice(blocks[1].start, blocks[1].end)).toBe("hello: Bonjour");
+    });
+  });
+
+  describe("parseVueI18nMessages", () => {
+    it("should collect messages by locale from shared and per-locale blocks", () => {
+      const messages = parseVueI18nMessages(`${component}<i18n locale="fr" lang="yaml">\nhello: Bonjour\n</i18n>\n`);
+      expect(Object.fromEntries(messages!)).toEqual({
+        en: { hello: "Hello" },
+        de: { hello: "Hallo" },
+        fr: { hello: "Bonjour" },
+      });
+    });
+
+    it("should return null for components without messages", () => {
+      expect(parseVueI18nMessages("<template><p /></template>")).toBeNull();
+    });
+  });
+
+  describe("setVueI18nMessages", () => {
+    it("should rewrite only the shared block, keeping its indentation", () => {
+      const result = setVueI18nMessages(component, "cs", { hello: "Ahoj" });
+      const blockStart = result.indexOf('<i18n lang="json">');
+      expect(result.slice(0, blockStart)).toBe(component.slice(0, blockStart));
+      expect(result.endsWith("</i18n>\n\n<style>p { margin: 0; }</style>\n")).toBe(true);
+      expect(parseVueI18nMessages(result)!.get("cs")).toEqual({ hello: "Ahoj" });
+      expect(result).toContain('  "cs": {\n    "hello": "Ahoj"\n  }\n}\n</i18n>');
+    });
+
+    it("should replace a locale's own block, or add one after the last block", () => {
+      const perLocale = '<template />\n\n<i18n locale="en" lang="yaml">\nhello: Hello\n</i18n>\n';
+      const added = setVueI18nMessages(perLocale, "de", { hello: "Hallo" });
+      expect(added).toBe(
+        '<template />\n\n<i18n locale="en" lang="yaml">\nhello: Hello\n</i18n>\n\n<i18n locale="de" lang="yaml">\nhello: Hallo\n</i18n>\n'
+      );
+      const replaced = setVueI18nMessages(added, "de", { hello: "Servus" });
+      expect(parseVueI18nMessages(replaced)!.get("de")).toEqual({ hello: "Servus" });
+      expect(findVueI18nBlocks(replaced)).toHaveLength(2);
+    });
+  });
+
+  describe("isVueFile", () => {
+    it("should match .vue files", () => {
+      expect(isVueFile("src/components/Cart.vue")).toBe(true);
+      expect(isVueFile("src/locales/en.json")).toBe(false);
+    });
+  });
+});
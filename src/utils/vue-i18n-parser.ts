@@ -0,0 +1,164 @@
+/**
+ * Vue single-file component <i18n> block parser
+ *
+ * vue-i18n lets a component carry its own messages in a custom block,
+ * keyed by locale:
+ *   <i18n lang="json">
+ *   { "en": { "hello": "Hello!" }, "de": { "hello": "Hallo!" } }
+ *   </i18n>
+ *
+ * or one block per locale:
+ *   <i18n locale="en" lang="yaml">
+ *   hello: Hello!
+ *   </i18n>
+ *
+ * Each component is treated as a virtual locale file holding every
+ * language, like .xcstrings. Edits only ever replace the content of an
+ * <i18n> block; the rest of the component is left byte-for-byte intact.
+ * Blocks that import an external file (`src="..."`) are ignored — that file
+ * is detected on its own.
+ */
+
+import { detectJsonFormat, stringifyWithFormat } from "./format-preserve.js";
+import { parseJsonSafe } from "./json-parser.js";
+import { parseYamlSafe, stringifyYaml } from "./yaml-parser.js";
+
+/**
+ * An inline <i18n> custom block
+ */
+export interface VueI18nBlock {
+  /** Offset where the block content starts (after the opening tag) */
+  start: number;
+  /** Offset where the block content ends (before the closing tag) */
+  end: number;
+  /** Content language (`lang` attribute, JSON by default) */
+  lang: "json" | "yaml";
+  /** Locale of a single-locale block (`locale` attribute) */
+  locale?: string;
+  /** Raw block content */
+  content: string;
+}
+
+/**
+ * Check if a file is a Vue single-file component
+ */
+export function isVueFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(".vue");
+}
+
+/**
+ * Find the inline <i18n> blocks of a component, in document order
+ */
+export function findVueI18nBlocks(content: string): VueI18nBlock[] {
+  const blocks: VueI18nBlock[] = [];
+  // `<i18n` must be followed by whitespace or `>` so <i18n-t> is not a block
+  const pattern = /<i18n(\s[^>]*)?>([\s\S]*?)<\/i18n\s*>/g;
+
+  for (const match of content.matchAll(pattern)) {
+    const attrs = parseAttributes(match[1] ?? "");
+    if ("src" in attrs) continue;
+
+    const start = match.index! + match[0].indexOf(">") + 1;
+    const lang = (attrs.lang ?? "json").toLowerCase();
+    blocks.push({
+      start,
+      end: start + match[2].length,
+      lang: lang === "yaml" || lang === "yml" ? "yaml" : "json",
+      locale: attrs.locale,
+      content: match[2],
+    });
+  }
+
+  return blocks;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attrs;
+}
+
+function parseBlock(block: VueI18nBlock): Record<string, unknown> | null {
+  if (block.content.trim() === "") return {};
+  return block.lang === "yaml" ? parseYamlSafe(block.content) : parseJsonSafe(block.content);
+}
+
+/**
+ * Messages of a component by locale
+ *
+ * @returns Locale -> messages, or null if the component has no inline <i18n> block
+ */
+export function parseVueI18nMessages(content: string): Map<string, Record<string, unknown>> | null {
+  const blocks = findVueI18nBlocks(content);
+  if (blocks.length === 0) return null;
+
+  const messages = new Map<string, Record<string, unknown>>();
+  for (const block of blocks) {
+    const data = parseBlock(block);
+    if (!data) continue;
+    if (block.locale) {
+      messages.set(block.locale, data);
+      continue;
+    }
+    for (const [locale, value] of Object.entries(data)) {
+      if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+        messages.set(locale, value as Record<string, unknown>);
+      }
+    }
+  }
+  return messages;
+}
+
+/**
+ * Replace one locale's messages in a component, editing only an <i18n>
+ * block: the locale's own block, else the shared multi-locale block, else
+ * a new block after the last one.
+ */
+export function setVueI18nMessages(
+  content: string,
+  locale: string,
+  messages: Record<string, unknown>
+): string {
+  const blocks = findVueI18nBlocks(content);
+
+  const own = blocks.find((b) => b.locale === locale);
+  if (own) {
+    return replaceBlock(content, own, messages);
+  }
+
+  const shared = blocks.find((b) => !b.locale && parseBlock(b) !== null);
+  if (shared) {
+    const data = parseBlock(shared)!;
+    data[locale] = messages;
+    return replaceBlock(content, shared, data);
+  }
+
+  const last = blocks[blocks.length - 1];
+  const lang = last?.lang ?? "json";
+  const block = `<i18n locale="${locale}" lang="${lang}">\n${formatBlockData(messages, lang, null)}\n</i18n>`;
+  if (!last) {
+    return `${content.replace(/\s*$/, "")}\n\n${block}\n`;
+  }
+  const insertAt = content.indexOf(">", last.end) + 1;
+  return `${content.slice(0, insertAt)}\n\n${block}${content.slice(insertAt)}`;
+}
+
+function replaceBlock(content: string, block: VueI18nBlock, data: Record<string, unknown>): string {
+  const leading = block.content.match(/^\s*/)![0];
+  const trailing = block.content.slice(leading.length).match(/\s*$/)![0];
+  const body = formatBlockData(data, block.lang, block.content.trim() || null);
+  return `${content.slice(0, block.start)}${leading || "\n"}${body}${trailing || "\n"}${content.slice(block.end)}`;
+}
+
+/**
+ * Serialize block data, following the existing JSON indentation if there is one
+ */
+function formatBlockData(data: Record<string, unknown>, lang: "json" | "yaml", existing: string | null): string {
+  if (lang === "yaml") {
+    return stringifyYaml(data).replace(/\n$/, "");
+  }
+  const format = detectJsonFormat(existing ?? "{}");
+  return stringifyWithFormat(data, { ...format, keyOrder: undefined, trailingNewline: false });
+}
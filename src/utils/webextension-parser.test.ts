@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseWebExtensionContent,
+  extractWebExtensionEntries,
+  describeWebExtensionMessage,
+  isWebExtensionMessagesFile,
+  extractLanguageFromWebExtensionPath,
+  computeWebExtensionTargetPath,
+} from "./webextension-parser.js";
+
+describe("WebExtension Parser", () => {
+  describe("parseWebExtensionContent", () => {
+    const content = JSON.stringify({
+      greeting: {
+        message: "Hello, $USER$!",
+        description: "Popup header",
+        placeholders: { user: { content: "$1", example: "Cira" } },
+      },
+      plain: { message: "Save" },
+      broken: { description: "No message" },
+    });
+
+    it("should only expose message as the translatable value", () => {
+      const parsed = parseWebExtensionContent(content)!;
+      expect(extractWebExtensionEntries(parsed)).toEqual([
+        { key: "greeting", value: "Hello, $USER$!" },
+        { key: "plain", value: "Save" },
+      ]);
+    });
+
+    it("should keep description and placeholders as context", () => {
+      const parsed = parseWebExtensionContent(content)!;
+      expect(describeWebExtensionMessage(parsed.messages[0])).toBe("Popup header\n$USER$: $1 (e.g. Cira)");
+      expect(describeWebExtensionMessage(parsed.messages[1])).toBeUndefined();
+    });
+
+    it("should return null for invalid JSON", () => {
+      expect(parseWebExtensionContent("not json")).toBeNull();
+    });
+  });
+
+  describe("paths", () => {
+    it("should only match messages.json inside _locales", () => {
+      expect(isWebExtensionMessagesFile("/ext/_locales/en/messages.json")).toBe(true);
+      expect(isWebExtensionMessagesFile("/app/locales/en/messages.json")).toBe(false);
+      expect(isWebExtensionMessagesFile("/ext/_locales/en/other.json")).toBe(false);
+    });
+
+    it("should map underscore locale directories to language codes", () => {
+      expect(extractLanguageFromWebExtensionPath("/ext/_locales/pt_BR/messages.json")).toBe("pt-BR");
+      expect(extractLanguageFromWebExtensionPath("/ext/_locales/es_419/messages.json")).toBe("es-419");
+    });
+
+    it("should compute target paths and reject a mismatched source locale", () => {
+      expect(computeWebExtensionTargetPath("/ext/_locales/en/messages.json", "en", "zh-TW")).toBe(
+        "/ext/_locales/zh_TW/messages.json"
+      );
+      expect(computeWebExtensionTargetPath("/ext/_locales/de/messages.json", "en", "fr")).toBeNull();
+    });
+  });
+});
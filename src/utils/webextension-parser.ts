@@ -0,0 +1,145 @@
+/**
+ * Chrome/WebExtension messages.json parser
+ *
+ * Browser extensions keep one messages.json per locale under _locales/,
+ * with underscore-separated locale directories:
+ * - _locales/en/messages.json
+ * - _locales/pt_BR/messages.json
+ *
+ * Each key maps to an object; only `message` is translatable:
+ *   "greeting": {
+ *     "message": "Hello, $USER$!",
+ *     "description": "Shown in the popup",
+ *     "placeholders": { "user": { "content": "$1", "example": "Cira" } }
+ *   }
+ *
+ * `description` and `placeholders` are context for the translator and are
+ * never sent as keys of their own.
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { parseJsonSafe } from "./json-parser.js";
+
+/**
+ * A placeholder definition (`$USER$` -> content "$1")
+ */
+export interface WebExtensionPlaceholder {
+  content: string;
+  example?: string;
+}
+
+/**
+ * A single message
+ */
+export interface WebExtensionMessage {
+  /** Message name */
+  key: string;
+  /** Translatable text */
+  message: string;
+  /** Translator description, if any */
+  description?: string;
+  /** Placeholder definitions, keyed by lowercase name */
+  placeholders?: Record<string, WebExtensionPlaceholder>;
+}
+
+/**
+ * Parsed content from a messages.json file
+ */
+export interface WebExtensionContent {
+  /** Messages in document order */
+  messages: WebExtensionMessage[];
+}
+
+/**
+ * Check if a file is a WebExtension _locales/<locale>/messages.json file
+ */
+export function isWebExtensionMessagesFile(filePath: string): boolean {
+  return /(?:^|\/)_locales\/[^/]+\/messages\.json$/i.test(filePath);
+}
+
+/**
+ * Parse a messages.json file content
+ *
+ * @param content Raw JSON content
+ * @returns Parsed messages, or null if the content is not a JSON object
+ */
+export function parseWebExtensionContent(content: string): WebExtensionContent | null {
+  const data = parseJsonSafe(content);
+  if (!data) return null;
+
+  const messages: WebExtensionMessage[] = [];
+  for (const [key, entry] of Object.entries(data)) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { message, description, placeholders } = entry as Record<string, unknown>;
+    if (typeof message !== "string") continue;
+    messages.push({
+      key,
+      message,
+      description: typeof description === "string" ? description : undefined,
+      placeholders:
+        typeof placeholders === "object" && placeholders !== null
+          ? (placeholders as Record<string, WebExtensionPlaceholder>)
+          : undefined,
+    });
+  }
+
+  return { messages };
+}
+
+/**
+ * Translatable key/value pairs (the `message` of each key)
+ */
+export function extractWebExtensionEntries(parsed: WebExtensionContent): KeyValue[] {
+  return parsed.messages.map((m) => ({ key: m.key, value: m.message }));
+}
+
+/**
+ * Translator context for a message: its description plus placeholder examples
+ */
+export function describeWebExtensionMessage(message: WebExtensionMessage): string | undefined {
+  const lines: string[] = [];
+  if (message.description) lines.push(message.description);
+  for (const [name, placeholder] of Object.entries(message.placeholders ?? {})) {
+    const example = placeholder.example ? ` (e.g. ${placeholder.example})` : "";
+    lines.push(`$${name.toUpperCase()}$: ${placeholder.content}${example}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+/**
+ * Convert a WebExtension locale directory to a language code (pt_BR -> pt-BR)
+ */
+export function webExtensionLocaleToLanguage(locale: string): string {
+  return locale.replace(/_/g, "-");
+}
+
+/**
+ * Convert a language code to a WebExtension locale directory (pt-BR -> pt_BR)
+ */
+export function languageToWebExtensionLocale(lang: string): string {
+  return lang.replace(/-/g, "_");
+}
+
+/**
+ * Extract the language from a _locales/<locale>/messages.json path
+ */
+export function extractLanguageFromWebExtensionPath(filePath: string): string | null {
+  const match = filePath.match(/(?:^|\/)_locales\/([^/]+)\/messages\.json$/i);
+  return match ? webExtensionLocaleToLanguage(match[1]) : null;
+}
+
+/**
+ * Compute the target messages.json path for a new language
+ * (_locales/en/messages.json -> _locales/pt_BR/messages.json)
+ *
+ * @returns Target path or null if the source locale doesn't match sourceLang
+ */
+export function computeWebExtensionTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const match = sourcePath.match(/^(.*_locales\/)([^/]+)(\/messages\.json)$/i);
+  if (!match || webExtensionLocaleToLanguage(match[2]) !== sourceLang) return null;
+  return `${match[1]}${languageToWebExtensionLocale(targetLang)}${match[3]}`;
+}
@@ -2,6 +2,9 @@ import { describe, it, expect } from "vitest";
 import {
   parseXCStringsContent,
   extractLocaleFromXCStrings,
+  extractPluralVariationsFromXCStrings,
+  getXCStringsStates,
+  removeXCStringsLocalizations,
   type XCStringsFile,
 } from "./xcstrings-parser.js";
 
@@ -107,4 +110,89 @@ describe("XCStrings Parser", () => {
       expect(result).toEqual([{ key: "greeting", value: "Hallo" }]);
     });
   });
+
+  describe("extractPluralVariationsFromXCStrings", () => {
+    it("should list plural categories of keys and substitutions", () => {
+      const unit = (value: string) => ({ stringUnit: { state: "translated" as const, value } });
+      const xcstrings: XCStringsFile = {
+        sourceLanguage: "en",
+        version: "1.0",
+        strings: {
+          items: {
+            localizations: {
+              ru: {
+                variations: { plural: { one: unit("%lld файл"), few: unit("%lld файла"), other: unit("%lld файлов") } },
+              },
+            },
+          },
+          summary: {
+            localizations: {
+              ru: {
+                stringUnit: { state: "translated", value: "%#@files@" },
+                substitutions: {
+                  files: { variations: { plural: { one: unit("%arg файл"), other: unit("%arg файлов") } } },
+                },
+              },
+            },
+          },
+          greeting: { localizations: { ru: unit("Привет") } },
+        },
+      };
+
+      expect(extractPluralVariationsFromXCStrings(xcstrings, "ru")).toEqual([
+        { key: "items", syntax: "xcstrings", categories: ["one", "few", "other"] },
+        { key: "summary", argument: "files", syntax: "xcstrings", categories: ["one", "other"] },
+      ]);
+      expect(extractPluralVariationsFromXCStrings(xcstrings, "en")).toEqual([]);
+    });
+  });
+
+  describe("getXCStringsStates", () => {
+    const catalog: XCStringsFile = {
+      sourceLanguage: "en",
+      version: "1.0",
+      strings: {
+        title: { localizations: { de: { stringUnit: { state: "needs_review", value: "Titel" } } } },
+        items: {
+          localizations: {
+            de: {
+              variations: {
+                plural: {
+                  one: { stringUnit: { state: "translated", value: "%lld Artikel" } },
+                  other: { stringUnit: { state: "new", value: "" } },
+                },
+              },
+            },
+          },
+        },
+        brand: {
+          shouldTranslate: false,
+          localizations: { de: { stringUnit: { state: "translated", value: "Acme" } } },
+        },
+        removed: {
+          extractionState: "stale",
+          localizations: { de: { stringUnit: { state: "translated", value: "Alt" } } },
+        },
+        farewell: { localizations: { en: { stringUnit: { state: "translated", value: "Bye" } } } },
+      },
+    };
+
+    it("should report the least finished state per translatable entry", () => {
+      expect(getXCStringsStates(catalog, "de")).toEqual(
+        new Map([
+          ["title", "needs_review"],
+          ["items", "new"],
+        ])
+      );
+    });
+
+    it("should remove localizations in a given state", () => {
+      const content = JSON.stringify(catalog);
+      const result = JSON.parse(removeXCStringsLocalizations(content, "de", "needs_review"));
+
+      expect(result.strings.title.localizations.de).toBeUndefined();
+      expect(result.strings.items.localizations.de).toBeDefined();
+      expect(removeXCStringsLocalizations(content, "de", "stale")).toBe(content);
+    });
+  });
 });
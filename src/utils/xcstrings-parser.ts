@@ -10,6 +10,7 @@
  */
 
 import type { KeyValue } from "../api/types.js";
+import type { PluralForm } from "./plural-rules.js";
 
 /**
  * String unit state - translation status
@@ -31,6 +32,8 @@ export interface XCLocalization {
   stringUnit?: StringUnit;
   /** Variations for plurals, device-specific strings, etc. */
   variations?: Record<string, unknown>;
+  /** Format arguments (`%#@count@`) with their own variations */
+  substitutions?: Record<string, { variations?: Record<string, unknown> }>;
 }
 
 /**
@@ -39,6 +42,8 @@ export interface XCLocalization {
 export interface XCStringEntry {
   /** Manual, migrated, stale, etc. */
   extractionState?: string;
+  /** False for strings the developer marked "Don't Translate" */
+  shouldTranslate?: boolean;
   /** Developer comment/description */
   comment?: string;
   /** Localizations keyed by language code */
@@ -92,7 +97,7 @@ export function parseXCStringsContent(content: string): XCStringsContent | null
     // Extract all languages and their translations
     const languages = new Set<string>();
 
-    for (const [key, entry] of Object.entries(data.strings)) {
+    for (const entry of Object.values(data.strings)) {
       if (entry.localizations) {
         for (const lang of Object.keys(entry.localizations)) {
           languages.add(lang);
@@ -159,3 +164,107 @@ export function extractLocaleFromXCStrings(
 
   return entries;
 }
+
+/**
+ * Plural variations of a locale: one form per key with
+ * `variations.plural`, plus one per substitution that varies by plural
+ *
+ * @param xcstrings Parsed xcstrings data
+ * @param locale Language code to extract
+ */
+export function extractPluralVariationsFromXCStrings(
+  xcstrings: XCStringsFile,
+  locale: string
+): PluralForm[] {
+  const forms: PluralForm[] = [];
+  const categoriesOf = (variations: Record<string, unknown> | undefined): string[] | null => {
+    const plural = variations?.plural;
+    return typeof plural === "object" && plural !== null ? Object.keys(plural) : null;
+  };
+
+  for (const [key, entry] of Object.entries(xcstrings.strings)) {
+    const localization = entry.localizations?.[locale];
+    if (!localization || !isTranslatableXCStringsEntry(entry)) continue;
+
+    const categories = categoriesOf(localization.variations);
+    if (categories) forms.push({ key, syntax: "xcstrings", categories });
+
+    for (const [argument, substitution] of Object.entries(localization.substitutions ?? {})) {
+      const substitutionCategories = categoriesOf(substitution.variations);
+      if (substitutionCategories) {
+        forms.push({ key, argument, syntax: "xcstrings", categories: substitutionCategories });
+      }
+    }
+  }
+
+  return forms;
+}
+
+/**
+ * Whether an entry is meant to be translated. Xcode marks strings excluded
+ * from translation with `shouldTranslate: false`, and strings no longer
+ * found in the code with `extractionState: "stale"`.
+ */
+export function isTranslatableXCStringsEntry(entry: XCStringEntry | undefined): boolean {
+  return entry !== undefined && entry.shouldTranslate !== false && entry.extractionState !== "stale";
+}
+
+// The state that needs the most work wins when variations disagree
+const STATE_PRIORITY: StringUnitState[] = ["new", "needs_review", "stale", "translated"];
+
+/**
+ * Translation state of each translatable entry localized into a locale. An
+ * entry with plural or device variations takes the least finished state of
+ * its variations.
+ *
+ * @param xcstrings Parsed xcstrings data
+ * @param locale Language code to inspect
+ */
+export function getXCStringsStates(xcstrings: XCStringsFile, locale: string): Map<string, StringUnitState> {
+  const states = new Map<string, StringUnitState>();
+
+  for (const [key, entry] of Object.entries(xcstrings.strings)) {
+    const localization = entry.localizations?.[locale];
+    if (!localization || !isTranslatableXCStringsEntry(entry)) continue;
+
+    const found = new Set<StringUnitState>();
+    collectStringUnitStates(localization, found);
+    const state = STATE_PRIORITY.find((s) => found.has(s));
+    if (state) states.set(key, state);
+  }
+
+  return states;
+}
+
+function collectStringUnitStates(node: unknown, found: Set<StringUnitState>): void {
+  if (typeof node !== "object" || node === null) return;
+  for (const [name, value] of Object.entries(node)) {
+    if (name === "stringUnit") {
+      const state = (value as Partial<StringUnit> | null)?.state;
+      // Units written without a state are treated as translated
+      found.add(state && STATE_PRIORITY.includes(state) ? state : "translated");
+    } else {
+      collectStringUnitStates(value, found);
+    }
+  }
+}
+
+/**
+ * Drop a locale's localizations that are in the given state, so a sync
+ * translates them again
+ *
+ * @param content Raw .xcstrings JSON
+ * @returns The content without those localizations (unchanged if there were none)
+ */
+export function removeXCStringsLocalizations(content: string, locale: string, state: StringUnitState): string {
+  const parsed = parseXCStringsContent(content);
+  if (!parsed) return content;
+
+  let removed = false;
+  for (const [key, entryState] of getXCStringsStates(parsed.metadata, locale)) {
+    if (entryState !== state) continue;
+    delete parsed.metadata.strings[key].localizations![locale];
+    removed = true;
+  }
+  return removed ? JSON.stringify(parsed.metadata, null, 2) : content;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseXlfCatalog,
+  extractXlfCatalogEntries,
+  writeXlfCatalog,
+  getXlfCatalogLanguage,
+  getXlfCatalogName,
+  computeXlfCatalogTargetPath,
+} from "./xlf-catalog-parser.js";
+
+const angular12 = `<?xml version="1.0" encoding="UTF-8" ?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" datatype="plaintext" original="ng2.template">
+    <body>
+      <trans-unit id="greeting" datatype="html">
+        <source>Hi <x id="INTERPOLATION" equiv-text="{{ name }}"/> &amp; welcome</source>
+        <context-group purpose="location">
+          <context context-type="sourcefile">src/app/app.component.html</context>
+        </context-group>
+        <note priority="1" from="description">Header greeting</note>
+      </trans-unit>
+      <trans-unit id="items" datatype="html">
+        <source>{VAR_PLURAL, plural, =1 {one item} other {<x id="INTERPOLATION"/> items}}</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+describe("XLF Catalog Parser", () => {
+  describe("parseXlfCatalog", () => {
+    it("should expose inline placeholders as {NAME} tokens, including inside ICU", () => {
+      const catalog = parseXlfCatalog(angular12)!;
+      expect(catalog).toMatchObject({ version: "1.2", sourceLang: "en", targetLang: null });
+      expect(extractXlfCatalogEntries(catalog, "source")).toEqual([
+        { key: "greeting", value: "Hi {INTERPOLATION} & welcome" },
+        { key: "items", value: "{VAR_PLURAL, plural, =1 {one item} other {{INTERPOLATION} items}}" },
+      ]);
+      expect(catalog.units[0].notes).toEqual(["Header greeting"]);
+    });
+
+    it("should name XLIFF 2.0 placeholders by equiv and pair <pc> elements", () => {
+      const content = `<xliff version="2.0" srcLang="en" trgLang="de">
+  <file id="ngi18n" original="ng.template">
+    <unit id="promo">
+      <segment>
+        <source>Get <pc id="0" equivStart="START_BOLD_TEXT" equivEnd="CLOSE_BOLD_TEXT" type="fmt">50% off</pc> <ph id="1" equiv="INTERPOLATION" disp="{{ when }}"/></source>
+        <target>Jetzt <pc id="0" equivStart="START_BOLD_TEXT" equivEnd="CLOSE_BOLD_TEXT" type="fmt">50% Rabatt</pc> <ph id="1" equiv="INTERPOLATION" disp="{{ when }}"/></target>
+      </segment>
+    </unit>
+  </file>
+</xliff>`;
+      const catalog = parseXlfCatalog(content)!;
+      expect(catalog.targetLang).toBe("de");
+      expect(extractXlfCatalogEntries(catalog, "target")).toEqual([
+        { key: "promo", value: "Jetzt {START_BOLD_TEXT}50% Rabatt{CLOSE_BOLD_TEXT} {INTERPOLATION}" },
+      ]);
+    });
+
+    it("should prefer resname keys and <target> text in Symfony source catalogs", () => {
+      const content = `<xliff version="1.2"><file source-language="en" target-language="en"><body>
+  <trans-unit id="a1b2" resname="cart.checkout"><source>cart.checkout</source><target>Checkout</target></trans-unit>
+</body></file></xliff>`;
+      expect(extractXlfCatalogEntries(parseXlfCatalog(content)!, "source")).toEqual([
+        { key: "cart.checkout", value: "Checkout" },
+      ]);
+    });
+  });
+
+  describe("writeXlfCatalog", () => {
+    it("should add targets to a copy of the source catalog, restoring placeholder elements", () => {
+      const result = writeXlfCatalog(
+        angular12,
+        null,
+        { greeting: "Hallo {INTERPOLATION} & willkommen" },
+        "de"
+      );
+      expect(result).toContain('<file source-language="en" target-language="de" datatype="plaintext"');
+      expect(result).toContain(
+        '        <source>Hi <x id="INTERPOLATION" equiv-text="{{ name }}"/> &amp; welcome</source>\n' +
+          '        <target state="translated">Hallo <x id="INTERPOLATION" equiv-text="{{ name }}"/> &amp; willkommen</target>\n' +
+          '        <context-group purpose="location">'
+      );
+      expect(result).toContain('<note priority="1" from="description">Header greeting</note>');
+      expect(result).not.toContain("<target state=\"translated\">{VAR_PLURAL");
+    });
+
+    it("should keep an unchanged previous target element as-is", () => {
+      const previous = writeXlfCatalog(angular12, null, { greeting: "Hallo {INTERPOLATION}" }, "de").replace(
+        'state="translated"',
+        'state="final"'
+      );
+      const result = writeXlfCatalog(
+        angular12,
+        previous,
+        { greeting: "Hallo {INTERPOLATION}", items: "{VAR_PLURAL, plural, other {{INTERPOLATION} Artikel}}" },
+        "de"
+      );
+      expect(result).toContain('<target state="final">Hallo <x id="INTERPOLATION" equiv-text="{{ name }}"/></target>');
+      expect(result).toContain(
+        '<target state="translated">{VAR_PLURAL, plural, other {<x id="INTERPOLATION"/> Artikel}}</target>'
+      );
+    });
+  });
+
+  describe("paths", () => {
+    it("should read the language from the file name or the catalog itself", () => {
+      expect(getXlfCatalogLanguage("src/locale/messages.pt-BR.xlf", "")).toBe("pt-BR");
+      expect(getXlfCatalogLanguage("translations/messages+intl-icu.fr_FR.xlf", "")).toBe("fr-FR");
+      expect(getXlfCatalogLanguage("src/locale/messages.xlf", angular12)).toBe("en");
+      expect(getXlfCatalogName("translations/messages+intl-icu.fr_FR.xlf")).toBe("messages+intl-icu");
+    });
+
+    it("should compute per-locale target catalogs", () => {
+      expect(computeXlfCatalogTargetPath("/app/src/locale/messages.xlf", "en", "de")).toBe(
+        "/app/src/locale/messages.de.xlf"
+      );
+      expect(computeXlfCatalogTargetPath("/app/translations/messages.en_US.xlf", "en-US", "pt-BR")).toBe(
+        "/app/translations/messages.pt_BR.xlf"
+      );
+      expect(computeXlfCatalogTargetPath("/app/translations/messages.fr.xlf", "en", "de")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * XLF message catalog parser (Angular, Symfony)
+ *
+ * Unlike the XLIFF interchange files written by export_xliff, these
+ * catalogs are the project's locale files themselves:
+ * - messages.xlf       Angular source catalog from `ng extract-i18n`
+ * - messages.de.xlf    Angular/Symfony catalog for one language
+ *
+ *   <trans-unit id="cartCount" datatype="html">
+ *     <source>{VAR_PLURAL, plural, =1 {one item} other {<x id="INTERPOLATION" equiv-text="{{ n }}"/> items}}</source>
+ *     <target state="translated">...</target>
+ *     <context-group purpose="location">...</context-group>
+ *     <note priority="1" from="description">Cart badge</note>
+ *   </trans-unit>
+ *
+ * Inline placeholder elements (<x>, <ph>, <pc>, <g>) are exposed as
+ * `{NAME}` tokens, which read naturally inside ICU messages, and are turned
+ * back into the original elements on write. Writing a target catalog edits
+ * a copy of the source catalog, so unit ids, context groups and notes are
+ * kept as they are.
+ */
+
+import type { KeyValue } from "../api/types.js";
+import { isXliffFile } from "./xliff.js";
+import { decodeXmlText, escapeXml, getXmlAttribute } from "./xml-common.js";
+
+/**
+ * A single translation unit
+ */
+export interface XlfCatalogUnit {
+  /** Unit key: `resname` (Symfony) if present, else `id` (Angular) */
+  key: string;
+  /** Source text, inline placeholders as {NAME} */
+  source: string;
+  /** Target text, inline placeholders as {NAME} */
+  target?: string;
+  /** Raw <target> element, if present */
+  targetXml?: string;
+  /** Notes (description, meaning) */
+  notes: string[];
+  /** Placeholder name -> original inline element */
+  placeholders: Record<string, string>;
+  /** Offset of the unit's opening tag */
+  start: number;
+  /** Offset just past the unit's closing tag */
+  end: number;
+}
+
+/**
+ * Parsed content from an XLF catalog
+ */
+export interface XlfCatalog {
+  version: "1.2" | "2.0";
+  sourceLang: string | null;
+  targetLang: string | null;
+  units: XlfCatalogUnit[];
+}
+
+/**
+ * Check if a file is an XLF catalog (.xlf or .xliff)
+ */
+export function isXlfCatalogFile(filePath: string): boolean {
+  return isXliffFile(filePath);
+}
+
+/**
+ * Parse an XLF 1.2 or 2.0 catalog
+ *
+ * @returns Parsed catalog, or null if the content is not XLIFF
+ */
+export function parseXlfCatalog(content: string): XlfCatalog | null {
+  const root = content.match(/<xliff\b([^>]*)>/);
+  if (!root) return null;
+
+  const version = getXmlAttribute(root[1], "version")?.startsWith("2") ? "2.0" : "1.2";
+  const file = content.match(/<file\b([^>]*)>/);
+  const sourceLang = getXmlAttribute(root[1], "srcLang") ?? (file ? getXmlAttribute(file[1], "source-language") : null);
+  const targetLang = getXmlAttribute(root[1], "trgLang") ?? (file ? getXmlAttribute(file[1], "target-language") : null);
+
+  const unitPattern =
+    version === "2.0" ? /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g : /<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g;
+  const units: XlfCatalogUnit[] = [];
+
+  for (const match of content.matchAll(unitPattern)) {
+    const attrs = match[1];
+    const inner = match[2];
+    const key =
+      version === "2.0"
+        ? getXmlAttribute(attrs, "name") ?? getXmlAttribute(attrs, "id")
+        : getXmlAttribute(attrs, "resname") ?? getXmlAttribute(attrs, "id");
+    if (key === null) continue;
+
+    const placeholders: Record<string, string> = {};
+    const source = inner.match(/<source\b[^>]*>([\s\S]*?)<\/source>/);
+    const target = inner.match(/<target\b[^>]*?(?:\/>|>([\s\S]*?)<\/target>)/);
+    units.push({
+      key,
+      source: source ? tokenizeInline(source[1], placeholders) : "",
+      target: target && target[1] !== undefined ? tokenizeInline(target[1], placeholders) : undefined,
+      targetXml: target?.[0],
+      notes: [...inner.matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map((m) => decodeXmlText(m[1])),
+      placeholders,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+
+  return { version, sourceLang, targetLang, units };
+}
+
+/**
+ * Translatable key/value pairs. A catalog in the source language may carry
+ * its text as <target> (Symfony keeps keys in <source>), so source catalogs
+ * prefer the target; target catalogs only count translated units.
+ */
+export function extractXlfCatalogEntries(catalog: XlfCatalog, role: "source" | "target"): KeyValue[] {
+  const entries: KeyValue[] = [];
+  for (const unit of catalog.units) {
+    const value = role === "source" ? unit.target ?? unit.source : unit.target;
+    if (value !== undefined && value !== "") entries.push({ key: unit.key, value });
+  }
+  return entries;
+}
+
+/**
+ * Write a catalog for another language from the source catalog
+ *
+ * Units with a translation get a <target>; an existing target element from
+ * the previous catalog is kept verbatim (state included) when its text is
+ * unchanged. Units without a translation are left without a target.
+ *
+ * @param sourceContent Source catalog
+ * @param previousContent Current target catalog, if any
+ * @param translations Key -> text with {NAME} placeholder tokens
+ * @param targetLang Target language code
+ */
+export function writeXlfCatalog(
+  sourceContent: string,
+  previousContent: string | null,
+  translations: Record<string, string>,
+  targetLang: string
+): string {
+  const source = parseXlfCatalog(sourceContent);
+  if (!source) return sourceContent;
+  const previous = new Map(
+    (previousContent !== null ? parseXlfCatalog(previousContent)?.units ?? [] : []).map((u) => [u.key, u])
+  );
+
+  let result = sourceContent;
+  // Splice from the end so earlier offsets stay valid
+  for (const unit of [...source.units].reverse()) {
+    const unitXml = result.slice(unit.start, unit.end);
+    const text = translations[unit.key];
+    const old = previous.get(unit.key);
+
+    let targetXml: string | null = null;
+    if (typeof text === "string") {
+      if (old?.target === text && old.targetXml) {
+        targetXml = old.targetXml;
+      } else {
+        const inline = detokenizeInline(text, { ...old?.placeholders, ...unit.placeholders });
+        targetXml = source.version === "2.0" ? `<target>${inline}</target>` : `<target state="translated">${inline}</target>`;
+      }
+    }
+
+    result = result.slice(0, unit.start) + setUnitTarget(unitXml, targetXml) + result.slice(unit.end);
+  }
+
+  return setTargetLanguage(result, source.version, targetLang);
+}
+
+function setUnitTarget(unitXml: string, targetXml: string | null): string {
+  const existing = /[ \t]*<target\b[^>]*?(?:\/>|>[\s\S]*?<\/target>)\r?\n?/;
+  if (existing.test(unitXml)) {
+    return unitXml.replace(existing, (match) => {
+      if (targetXml === null) return "";
+      const indent = match.match(/^[ \t]*/)![0];
+      return `${indent}${targetXml}${match.endsWith("\n") ? "\n" : ""}`;
+    });
+  }
+  if (targetXml === null) return unitXml;
+
+  const source = unitXml.match(/([ \t]*)<source\b[^>]*>[\s\S]*?<\/source>/);
+  if (!source) return unitXml;
+  const insertAt = source.index! + source[0].length;
+  const separator = source[1] ? `\n${source[1]}` : "";
+  return `${unitXml.slice(0, insertAt)}${separator}${targetXml}${unitXml.slice(insertAt)}`;
+}
+
+function setTargetLanguage(content: string, version: "1.2" | "2.0", targetLang: string): string {
+  const [tag, attr] = version === "2.0" ? ["xliff", "trgLang"] : ["file", "target-language"];
+  return content.replace(new RegExp(`<${tag}\\b[^>]*>`, "g"), (open) => {
+    const existing = new RegExp(`(\\s${attr}\\s*=\\s*)"[^"]*"`);
+    if (existing.test(open)) return open.replace(existing, `$1"${targetLang}"`);
+    const sourceAttr = version === "2.0" ? /\ssrcLang\s*=\s*"[^"]*"/ : /\ssource-language\s*=\s*"[^"]*"/;
+    const anchor = open.match(sourceAttr);
+    if (anchor) {
+      const at = anchor.index! + anchor[0].length;
+      return `${open.slice(0, at)} ${attr}="${targetLang}"${open.slice(at)}`;
+    }
+    return open.replace(/\s*(\/?)>$/, ` ${attr}="${targetLang}"$1>`);
+  });
+}
+
+/**
+ * Replace inline placeholder elements with {NAME} tokens and decode the
+ * remaining text, recording each element under its token name
+ */
+function tokenizeInline(xml: string, placeholders: Record<string, string>): string {
+  const open: string[] = [];
+  let result = "";
+  let last = 0;
+
+  for (const match of xml.matchAll(/<(\/?)(x|ph|pc|g)\b([^>]*?)(\/?)>/g)) {
+    result += decodeXmlText(xml.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [element, closing, tag, attrs, selfClosing] = match;
+    const id = getXmlAttribute(attrs, "id") ?? "";
+    let name: string;
+    if (closing) {
+      name = open.pop() ?? `CLOSE_${id}`;
+    } else if (selfClosing || tag === "x" || tag === "ph") {
+      name = getXmlAttribute(attrs, "equiv") ?? id;
+    } else {
+      name = getXmlAttribute(attrs, "equivStart") ?? `START_${id}`;
+      open.push(getXmlAttribute(attrs, "equivEnd") ?? `CLOSE_${id}`);
+    }
+    placeholders[name] = element;
+    result += `{${name}}`;
+  }
+
+  return result + decodeXmlText(xml.slice(last));
+}
+
+function detokenizeInline(text: string, placeholders: Record<string, string>): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(/\{([A-Za-z0-9_]+)\}/g)) {
+    const element = placeholders[match[1]];
+    if (element === undefined) continue;
+    result += escapeXml(text.slice(last, match.index)) + element;
+    last = match.index! + match[0].length;
+  }
+  return result + escapeXml(text.slice(last));
+}
+
+/** Language suffix before the extension: messages.pt-BR.xlf, messages+intl-icu.fr_FR.xlf */
+const LANGUAGE_SUFFIX = /\.([a-z]{2,3}(?:[-_](?:[A-Z]{2}|[A-Z][a-z]{3}|\d{3}))?)\.(?:xlf|xliff)$/;
+
+/**
+ * Language of a catalog from its file name (messages.de.xlf), falling back
+ * to the languages declared in its content (Angular's messages.xlf)
+ */
+export function getXlfCatalogLanguage(filePath: string, content: string): string | null {
+  const fromName = extractLanguageFromXlfPath(filePath);
+  if (fromName) return fromName;
+  const catalog = parseXlfCatalog(content);
+  return catalog?.targetLang ?? catalog?.sourceLang ?? null;
+}
+
+/**
+ * Extract the language suffix of a catalog file name
+ * (messages.pt-BR.xlf -> pt-BR, messages+intl-icu.fr_FR.xlf -> fr-FR)
+ */
+export function extractLanguageFromXlfPath(filePath: string): string | null {
+  const match = filePath.match(LANGUAGE_SUFFIX);
+  return match ? match[1].replace("_", "-") : null;
+}
+
+/**
+ * Catalog name without language suffix and extension (messages.de.xlf -> "messages")
+ */
+export function getXlfCatalogName(filePath: string): string {
+  const fileName = filePath.slice(filePath.lastIndexOf("/") + 1);
+  const match = fileName.match(LANGUAGE_SUFFIX);
+  return match ? fileName.slice(0, match.index) : fileName.replace(/\.(?:xlf|xliff)$/, "");
+}
+
+/**
+ * Compute the target catalog path for a new language
+ * (messages.xlf -> messages.de.xlf, messages.en.xlf -> messages.de.xlf)
+ *
+ * @returns Target path or null if the source file is named for another language
+ */
+export function computeXlfCatalogTargetPath(
+  sourcePath: string,
+  sourceLang: string,
+  targetLang: string
+): string | null {
+  const ext = sourcePath.match(/\.(?:xlf|xliff)$/)?.[0];
+  if (!ext) return null;
+
+  const match = sourcePath.match(LANGUAGE_SUFFIX);
+  if (!match) {
+    // Angular's source catalog has no language in its name
+    return `${sourcePath.slice(0, -ext.length)}.${targetLang}${ext}`;
+  }
+  const suffix = match[1];
+  if (suffix.replace("_", "-") !== sourceLang) return null;
+  const target = suffix.includes("_") ? targetLang.replace("-", "_") : targetLang;
+  return `${sourcePath.slice(0, match.index! + 1)}${target}${ext}`;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { isXliffFile, parseXliffContent, stringifyXliff, type XliffDocument } from "./xliff.js";
+
+describe("XLIFF", () => {
+  const doc: XliffDocument = {
+    version: "1.2",
+    sourceLang: "en",
+    targetLang: "de",
+    files: [
+      {
+        original: "locales/en.json",
+        units: [
+          { key: "app.name", source: "My App", notes: ["Shown in the title bar"], state: "initial" },
+          { key: "auth.login", source: "Log <b>in</b> & go", target: "Anmelden", notes: [], state: "final" },
+        ],
+      },
+    ],
+  };
+
+  describe("isXliffFile", () => {
+    it("matches .xlf and .xliff", () => {
+      expect(isXliffFile("xliff/de.xlf")).toBe(true);
+      expect(isXliffFile("messages.de.XLIFF")).toBe(true);
+      expect(isXliffFile("locales/de.json")).toBe(false);
+    });
+  });
+
+  describe("XLIFF 1.2", () => {
+    it("writes trans-units with state, notes and escaped text", () => {
+      const xml = stringifyXliff(doc);
+      expect(xml).toContain('<xliff version="1.2"');
+      expect(xml).toContain('source-language="en" target-language="de"');
+      expect(xml).toContain('<trans-unit id="app.name" resname="app.name">');
+      expect(xml).toContain('<target state="new"/>');
+      expect(xml).toContain("<note>Shown in the title bar</note>");
+      expect(xml).toContain("<source>Log &lt;b&gt;in&lt;/b&gt; &amp; go</source>");
+      expect(xml).toContain('approved="yes"');
+    });
+
+    it("round-trips", () => {
+      expect(parseXliffContent(stringifyXliff(doc))).toEqual(doc);
+    });
+
+    it("maps 1.2 states", () => {
+      const xml = `<?xml version="1.0"?>
+<xliff version="1.2">
+  <file original="a.json" source-language="en" target-language="fr">
+    <body>
+      <trans-unit id="a"><source>A</source><target state="signed-off">A-fr</target></trans-unit>
+      <trans-unit id="b"><source>B</source><target state="needs-review-translation">B-fr</target></trans-unit>
+      <trans-unit id="c" approved="yes"><source>C</source><target><![CDATA[C & <fr>]]></target></trans-unit>
+    </body>
+  </file>
+</xliff>`;
+      const parsed = parseXliffContent(xml);
+      expect(parsed?.sourceLang).toBe("en");
+      expect(parsed?.targetLang).toBe("fr");
+      expect(parsed?.files[0].units.map((u) => u.state)).toEqual(["reviewed", "translated", "final"]);
+      expect(parsed?.files[0].units[2].target).toBe("C & <fr>");
+    });
+  });
+
+  describe("XLIFF 2.0", () => {
+    const doc20: XliffDocument = { ...doc, version: "2.0" };
+
+    it("keeps the key in the unit name", () => {
+      const xml = stringifyXliff(doc20);
+      expect(xml).toContain('version="2.0" srcLang="en" trgLang="de"');
+      expect(xml).toContain('<unit id="u1" name="app.name">');
+      expect(xml).toContain('<segment state="final">');
+    });
+
+    it("round-trips", () => {
+      expect(parseXliffContent(stringifyXliff(doc20))).toEqual(doc20);
+    });
+  });
+
+  it("returns null for non-XLIFF content", () => {
+    expect(parseXliffContent("<resources/>")).toBeNull();
+  });
+});
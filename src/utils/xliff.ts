@@ -0,0 +1,262 @@
+/**
+ * XLIFF 1.2 / 2.0 reading and writing
+ *
+ * XLIFF is the interchange format translation agencies and CAT tools work
+ * in. One XLIFF document carries one source/target language pair; each
+ * <file> element maps back to one locale file in the project (its
+ * `original` attribute holds the source file's project-relative path).
+ *
+ * XLIFF 1.2:
+ *   <file original="locales/en.json" source-language="en" target-language="de">
+ *     <body>
+ *       <trans-unit id="app.name" resname="app.name">
+ *         <source>My App</source>
+ *         <target state="new"/>
+ *         <note>Shown in the title bar</note>
+ *       </trans-unit>
+ *
+ * XLIFF 2.0:
+ *   <xliff version="2.0" srcLang="en" trgLang="de">
+ *     <file id="f1" original="locales/en.json">
+ *       <unit id="u1" name="app.name">
+ *         <notes><note>Shown in the title bar</note></notes>
+ *         <segment state="initial"><source>My App</source></segment>
+ */
+
+import { decodeXmlText, escapeXml, getXmlAttribute } from "./xml-common.js";
+
+export type XliffVersion = "1.2" | "2.0";
+
+/**
+ * Translation state normalized across XLIFF versions
+ */
+export type XliffState = "initial" | "translated" | "reviewed" | "final";
+
+/**
+ * A single translation unit
+ */
+export interface XliffUnit {
+  /** Locale file key */
+  key: string;
+  /** Source text */
+  source: string;
+  /** Target text, if present */
+  target?: string;
+  /** Translator notes */
+  notes: string[];
+  /** Normalized state */
+  state: XliffState;
+}
+
+/**
+ * A <file> element - the units of one project locale file
+ */
+export interface XliffFile {
+  /** Project-relative path of the source locale file */
+  original: string;
+  units: XliffUnit[];
+}
+
+/**
+ * A parsed or to-be-written XLIFF document
+ */
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLang: string;
+  targetLang: string;
+  files: XliffFile[];
+}
+
+/** Ordering used to compare states ("at least reviewed") */
+export const XLIFF_STATE_RANK: Record<XliffState, number> = {
+  initial: 0,
+  translated: 1,
+  reviewed: 2,
+  final: 3,
+};
+
+/**
+ * Check if a file is an XLIFF file (.xlf or .xliff)
+ */
+export function isXliffFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return lower.endsWith(".xlf") || lower.endsWith(".xliff");
+}
+
+/**
+ * Serialize a document as XLIFF 1.2 or 2.0
+ */
+export function stringifyXliff(doc: XliffDocument): string {
+  return doc.version === "2.0" ? stringifyXliff20(doc) : stringifyXliff12(doc);
+}
+
+function stringifyXliff12(doc: XliffDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  ];
+
+  for (const file of doc.files) {
+    lines.push(
+      `  <file original="${escapeXml(file.original)}" source-language="${doc.sourceLang}" target-language="${doc.targetLang}" datatype="plaintext">`,
+      "    <body>"
+    );
+    for (const unit of file.units) {
+      const approved = unit.state === "final" ? ' approved="yes"' : "";
+      lines.push(
+        `      <trans-unit id="${escapeXml(unit.key)}" resname="${escapeXml(unit.key)}"${approved}>`,
+        `        <source>${escapeXml(unit.source)}</source>`
+      );
+      const state = STATE_TO_12[unit.state];
+      lines.push(
+        unit.target !== undefined
+          ? `        <target state="${state}">${escapeXml(unit.target)}</target>`
+          : `        <target state="${state}"/>`
+      );
+      for (const note of unit.notes) {
+        lines.push(`        <note>${escapeXml(note)}</note>`);
+      }
+      lines.push("      </trans-unit>");
+    }
+    lines.push("    </body>", "  </file>");
+  }
+
+  lines.push("</xliff>", "");
+  return lines.join("\n");
+}
+
+function stringifyXliff20(doc: XliffDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${doc.sourceLang}" trgLang="${doc.targetLang}">`,
+  ];
+
+  doc.files.forEach((file, fileIndex) => {
+    lines.push(`  <file id="f${fileIndex + 1}" original="${escapeXml(file.original)}">`);
+    file.units.forEach((unit, unitIndex) => {
+      // 2.0 ids must be NMTOKENs, so the locale key travels in `name`
+      lines.push(`    <unit id="u${unitIndex + 1}" name="${escapeXml(unit.key)}">`);
+      if (unit.notes.length > 0) {
+        lines.push("      <notes>");
+        for (const note of unit.notes) {
+          lines.push(`        <note>${escapeXml(note)}</note>`);
+        }
+        lines.push("      </notes>");
+      }
+      lines.push(`      <segment state="${unit.state}">`, `        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target !== undefined) {
+        lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+      }
+      lines.push("      </segment>", "    </unit>");
+    });
+    lines.push("  </file>");
+  });
+
+  lines.push("</xliff>", "");
+  return lines.join("\n");
+}
+
+/** Normalized state -> XLIFF 1.2 state attribute */
+const STATE_TO_12: Record<XliffState, string> = {
+  initial: "new",
+  translated: "translated",
+  reviewed: "signed-off",
+  final: "final",
+};
+
+/**
+ * Normalize an XLIFF 1.2 state attribute
+ */
+function stateFrom12(state: string | null, approved: boolean): XliffState {
+  if (approved) return "final";
+  switch (state) {
+    case "final":
+      return "final";
+    case "signed-off":
+      return "reviewed";
+    case "translated":
+    case "needs-review-translation":
+    case "needs-review-adaptation":
+    case "needs-review-l10n":
+      return "translated";
+    default:
+      return "initial";
+  }
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document
+ *
+ * @param content Raw XML content
+ * @returns Parsed document or null if the content is not XLIFF
+ */
+export function parseXliffContent(content: string): XliffDocument | null {
+  const root = content.match(/<xliff\b([^>]*)>/);
+  if (!root) return null;
+
+  const version: XliffVersion = getXmlAttribute(root[1], "version")?.startsWith("2") ? "2.0" : "1.2";
+  let sourceLang = getXmlAttribute(root[1], "srcLang") ?? "";
+  let targetLang = getXmlAttribute(root[1], "trgLang") ?? "";
+  const files: XliffFile[] = [];
+
+  for (const fileMatch of content.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const fileAttrs = fileMatch[1];
+    const body = fileMatch[2];
+    const units: XliffUnit[] = [];
+
+    if (version === "1.2") {
+      sourceLang ||= getXmlAttribute(fileAttrs, "source-language") ?? "";
+      targetLang ||= getXmlAttribute(fileAttrs, "target-language") ?? "";
+
+      for (const unitMatch of body.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+        const attrs = unitMatch[1];
+        const inner = unitMatch[2];
+        const key = getXmlAttribute(attrs, "resname") ?? getXmlAttribute(attrs, "id");
+        if (key === null) continue;
+
+        const target = inner.match(/<target\b([^>]*?)(?:\/>|>([\s\S]*?)<\/target>)/);
+        units.push({
+          key,
+          source: readElementText(inner, "source") ?? "",
+          target: target && target[2] !== undefined ? decodeXmlText(target[2]) : undefined,
+          notes: readAllElementText(inner, "note"),
+          state: stateFrom12(target ? getXmlAttribute(target[1], "state") : null, getXmlAttribute(attrs, "approved") === "yes"),
+        });
+      }
+    } else {
+      for (const unitMatch of body.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+        const attrs = unitMatch[1];
+        const inner = unitMatch[2];
+        const key = getXmlAttribute(attrs, "name") ?? getXmlAttribute(attrs, "id");
+        if (key === null) continue;
+
+        const segment = inner.match(/<segment\b([^>]*)>/);
+        const state = (segment ? getXmlAttribute(segment[1], "state") : null) as XliffState | null;
+        units.push({
+          key,
+          source: readElementText(inner, "source") ?? "",
+          target: readElementText(inner, "target") ?? undefined,
+          notes: readAllElementText(inner, "note"),
+          state: state && state in XLIFF_STATE_RANK ? state : "initial",
+        });
+      }
+    }
+
+    files.push({ original: getXmlAttribute(fileAttrs, "original") ?? "", units });
+  }
+
+  return { version, sourceLang, targetLang, files };
+}
+
+function readElementText(content: string, tag: string): string | null {
+  const match = content.match(new RegExp(`<${tag}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${tag}>)`));
+  if (!match) return null;
+  return decodeXmlText(match[1] ?? "");
+}
+
+function readAllElementText(content: string, tag: string): string[] {
+  return [...content.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "g"))].map((m) =>
+    decodeXmlText(m[1])
+  );
+}
+
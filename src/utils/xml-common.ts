@@ -0,0 +1,48 @@
+/**
+ * Common utilities for the XML formats read with regular expressions
+ * (Android strings.xml, RESX, .stringsdict, XLIFF and XLF catalogs), and for
+ * building those expressions from keys and names
+ */
+
+/**
+ * Escape special regex characters in a string
+ */
+export function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Decode XML text: CDATA sections and entities. Inline markup is kept as-is.
+ */
+export function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, cdata: string) =>
+      cdata.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Read an attribute value from an element's attribute string
+ */
+export function getXmlAttribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${escapeRegExp(name)}\\s*=\\s*"([^"]*)"`));
+  return match ? decodeXmlText(match[1]) : null;
+}
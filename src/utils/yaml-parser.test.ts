@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseYaml,
+  parseYamlSafe,
+  parseYamlLocaleContent,
+  getYamlRootLanguageKey,
+  renameYamlRootKey,
+  stringifyYaml,
+} from "./yaml-parser.js";
+
+describe("YAML Parser", () => {
+  describe("parseYaml", () => {
+    it("should parse nested mappings", () => {
+      const content = `# Greetings
+en:
+  greeting:
+    hello: Hello
+    bye: Goodbye
+  title: Home
+`;
+
+      expect(parseYaml(content)).toEqual({
+        en: { greeting: { hello: "Hello", bye: "Goodbye" }, title: "Home" },
+      });
+    });
+
+    it("should parse quoted scalars and keys", () => {
+      const content = `"quoted key": "Say \\"hi\\"\\n"
+single: 'It''s here'
+plain: Value # trailing comment
+colon: "Note: read this"`;
+
+      expect(parseYaml(content)).toEqual({
+        "quoted key": 'Say "hi"\n',
+        single: "It's here",
+        plain: "Value",
+        colon: "Note: read this",
+      });
+    });
+
+    it("should parse literal and folded block scalars", () => {
+      const content = `literal: |
+  Line one
+  Line two
+folded: >-
+  Folded
+  text
+next: value`;
+
+      expect(parseYaml(content)).toEqual({
+        literal: "Line one\nLine two\n",
+        folded: "Folded text",
+        next: "value",
+      });
+    });
+
+    it("should parse sequences, including ones at the parent's indentation", () => {
+      const content = `days:
+- Monday
+- Tuesday
+months:
+  - January
+flow: [a, "b, c"]`;
+
+      expect(parseYaml(content)).toEqual({
+        days: ["Monday", "Tuesday"],
+        months: ["January"],
+        flow: ["a", "b, c"],
+      });
+    });
+
+    it("should resolve anchors and merge keys", () => {
+      const content = `base: &base
+  save: Save
+  cancel: Cancel
+form:
+  <<: *base
+  cancel: Abort`;
+
+      expect(parseYaml(content)).toEqual({
+        base: { save: "Save", cancel: "Cancel" },
+        form: { save: "Save", cancel: "Abort" },
+      });
+    });
+
+    it("should coerce booleans, numbers and null", () => {
+      expect(parseYaml("a: true\nb: 3\nc: ~\nd: yes")).toEqual({ a: true, b: 3, c: null, d: "yes" });
+    });
+  });
+
+  describe("parseYamlSafe", () => {
+    it("should return null for non-mapping documents", () => {
+      expect(parseYamlSafe("- a\n- b")).toBeNull();
+      expect(parseYamlSafe("")).toBeNull();
+    });
+  });
+
+  describe("parseYamlLocaleContent", () => {
+    it("should unwrap a Rails language root key", () => {
+      expect(parseYamlLocaleContent("en:\n  hello: Hello\n", "en")).toEqual({ hello: "Hello" });
+    });
+
+    it("should unwrap underscore locale root keys", () => {
+      expect(parseYamlLocaleContent("pt_BR:\n  hello: Olá\n", "pt-BR")).toEqual({ hello: "Olá" });
+    });
+
+    it("should keep Symfony-style files without a root key as-is", () => {
+      expect(parseYamlLocaleContent("hello: Hello\nbye: Bye\n", "en")).toEqual({
+        hello: "Hello",
+        bye: "Bye",
+      });
+    });
+
+    it("should convert Hugo's legacy id/translation list", () => {
+      const content = `- id: home
+  translation: Home
+- id: about
+  translation: About us`;
+
+      expect(parseYamlLocaleContent(content, "en")).toEqual({ home: "Home", about: "About us" });
+    });
+  });
+
+  describe("getYamlRootLanguageKey", () => {
+    it("should detect a language root key without a language hint", () => {
+      expect(getYamlRootLanguageKey({ de: {} })).toBe("de");
+      expect(getYamlRootLanguageKey({ greeting: {} })).toBeNull();
+      expect(getYamlRootLanguageKey({ en: {}, de: {} })).toBeNull();
+    });
+  });
+
+  describe("renameYamlRootKey", () => {
+    it("should rename the root language key only", () => {
+      const content = "# Generated\nen:\n  en: English\n";
+
+      expect(renameYamlRootKey(content, "en", "de")).toBe("# Generated\nde:\n  en: English\n");
+    });
+
+    it("should keep the underscore form for regional locales", () => {
+      expect(renameYamlRootKey("en_US:\n  a: b\n", "en-US", "pt-BR")).toBe("pt_BR:\n  a: b\n");
+    });
+
+    it("should quote a Norwegian root key so YAML 1.1 parsers don't read it as false", () => {
+      expect(renameYamlRootKey("en:\n  a: b\n", "en", "no")).toBe('"no":\n  a: b\n');
+    });
+
+    it("should leave files without a language root untouched", () => {
+      const content = "hello: Hello\n";
+
+      expect(renameYamlRootKey(content, "en", "de")).toBe(content);
+    });
+  });
+
+  describe("stringifyYaml", () => {
+    it("should round-trip nested mappings", () => {
+      const data = { en: { greeting: "Hello, %{name}!", nav: { home: "Home" }, items: ["a", "b"] } };
+      expect(parseYaml(stringifyYaml(data))).toEqual(data);
+    });
+
+    it("should quote strings that would not read back as themselves", () => {
+      const data = { a: "yes", b: "123", c: "key: value", d: "", e: " padded", f: "- dash", g: "line\nbreak" };
+      expect(parseYaml(stringifyYaml(data))).toEqual(data);
+      expect(stringifyYaml({ plain: "Hello world" })).toBe("plain: Hello world\n");
+    });
+
+    it("should quote YAML 1.1 boolean and null words in keys and values", () => {
+      expect(stringifyYaml({ yes: "Yes", on: "on", no: { n: "Off", title: "Null" } })).toBe(
+        '"yes": "Yes"\n"on": "on"\n"no":\n  "n": "Off"\n  title: "Null"\n'
+      );
+    });
+  });
+});
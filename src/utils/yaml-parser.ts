@@ -0,0 +1,716 @@
+/**
+ * YAML locale file parser
+ *
+ * Covers the subset of YAML used by Rails (config/locales/en.yml), Symfony
+ * (translations/messages.en.yaml) and Hugo (i18n/en.yaml) translation files:
+ * - Nested block mappings and block sequences
+ * - Plain, single-quoted and double-quoted scalars (including multi-line)
+ * - Literal (|) and folded (>) block scalars with chomping indicators
+ * - Simple flow collections ([a, b], {a: b})
+ * - Comments, document markers, anchors, aliases and `<<` merge keys
+ *
+ * Tags, complex keys and multi-document streams are not supported; locale
+ * files do not use them.
+ */
+
+interface YamlLine {
+  /** Column of the first non-space character */
+  indent: number;
+  /** Line content without leading indentation */
+  text: string;
+}
+
+class YamlReader {
+  private lines: string[];
+  private pos = 0;
+  private anchors = new Map<string, unknown>();
+
+  constructor(content: string) {
+    this.lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  }
+
+  parseDocument(): unknown {
+    const first = this.peek();
+    if (!first) return null;
+    return this.parseBlock(first.indent);
+  }
+
+  /**
+   * Next meaningful line (skips blanks, comments and document markers)
+   */
+  private peek(): YamlLine | null {
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      const trimmed = raw.trim();
+      if (trimmed === "" || trimmed.startsWith("#") || trimmed === "---" || trimmed === "...") {
+        this.pos++;
+        continue;
+      }
+      if (trimmed.startsWith("%")) {
+        // Directive (%YAML 1.2)
+        this.pos++;
+        continue;
+      }
+      const indent = raw.length - raw.trimStart().length;
+      return { indent, text: trimmed };
+    }
+    return null;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(line.indent);
+    }
+    return this.parseMapping(line.indent);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (isSequenceItem(line.text)) break;
+
+      const pair = splitKeyValue(line.text);
+      if (!pair) {
+        // Not a mapping entry; skip the line rather than fail the whole file
+        this.pos++;
+        continue;
+      }
+
+      this.pos++;
+      const value = this.parseValue(pair.rest, indent);
+
+      if (pair.key === "<<" && value !== null && typeof value === "object" && !Array.isArray(value)) {
+        for (const [k, v] of Object.entries(value)) {
+          if (!(k in result)) result[k] = v;
+        }
+      } else {
+        result[pair.key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent && isSequenceItem(line.text); line = this.peek()) {
+      const rest = line.text === "-" ? "" : line.text.slice(2);
+      const offset = line.text.length - rest.trimStart().length;
+
+      if (rest.trim() !== "" && splitKeyValue(rest.trim()) && !/^["'[{]/.test(rest.trim())) {
+        // "- key: value" opens a mapping whose keys align with "key"
+        this.lines[this.pos] = " ".repeat(indent + offset) + rest.trimStart();
+        result.push(this.parseMapping(indent + offset));
+        continue;
+      }
+
+      this.pos++;
+      result.push(this.parseValue(rest, indent));
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse the value part of "key: value" or "- value"; `indent` is the
+   * indentation of the owning key or sequence item.
+   */
+  private parseValue(rest: string, indent: number): unknown {
+    let text = rest.trim();
+
+    let anchor: string | null = null;
+    const anchorMatch = text.match(/^&([^\s]+)\s*/);
+    if (anchorMatch) {
+      anchor = anchorMatch[1];
+      text = text.slice(anchorMatch[0].length);
+    }
+
+    let value: unknown;
+    if (text === "" || text.startsWith("#")) {
+      const next = this.peek();
+      if (next && next.indent > indent) {
+        value = this.parseBlock(next.indent);
+      } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+        // Sequences may sit at the same indentation as their parent key
+        value = this.parseSequence(indent);
+      } else {
+        value = null;
+      }
+    } else if (/^[|>]/.test(text)) {
+      value = this.parseBlockScalar(text, indent);
+    } else if (text.startsWith("*")) {
+      value = this.anchors.get(text.slice(1).trim()) ?? null;
+    } else if (text.startsWith('"') || text.startsWith("'")) {
+      value = this.parseQuoted(text);
+    } else if (text.startsWith("[") || text.startsWith("{")) {
+      value = parseFlow(text);
+    } else {
+      value = this.parsePlain(text, indent);
+    }
+
+    if (anchor) this.anchors.set(anchor, value);
+    return value;
+  }
+
+  private parseBlockScalar(header: string, indent: number): string {
+    const folded = header.startsWith(">");
+    const chomp = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip";
+
+    const body: string[] = [];
+    let blockIndent = -1;
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      if (raw.trim() === "") {
+        body.push("");
+        this.pos++;
+        continue;
+      }
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= indent) break;
+      if (blockIndent === -1) blockIndent = lineIndent;
+      if (lineIndent < blockIndent) break;
+      body.push(raw.slice(blockIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to chomping, not content
+    let trailing = 0;
+    while (body.length && body[body.length - 1] === "") {
+      body.pop();
+      trailing++;
+    }
+
+    let text: string;
+    if (folded) {
+      text = "";
+      for (let i = 0; i < body.length; i++) {
+        const line = body[i];
+        if (i === 0) {
+          text = line;
+        } else if (line === "" || body[i - 1] === "" || /^\s/.test(line)) {
+          text += "\n" + line;
+        } else {
+          text += " " + line;
+        }
+      }
+      text = text.replace(/\n(?=\n)/g, "");
+    } else {
+      text = body.join("\n");
+    }
+
+    if (chomp === "strip" || body.length === 0) return text;
+    if (chomp === "keep") return text + "\n".repeat(trailing + 1);
+    return text + "\n";
+  }
+
+  private parseQuoted(text: string): string {
+    const quote = text[0];
+    let buffer = text;
+
+    // Quoted scalars may span lines; fold continuation lines with spaces
+    while (findClosingQuote(buffer, quote) === -1 && this.pos < this.lines.length) {
+      const next = this.lines[this.pos].trim();
+      this.pos++;
+      buffer += next === "" ? "\n" : " " + next;
+    }
+
+    const end = findClosingQuote(buffer, quote);
+    const inner = end === -1 ? buffer.slice(1) : buffer.slice(1, end);
+    return quote === "'" ? inner.replace(/''/g, "'") : unescapeDoubleQuoted(inner);
+  }
+
+  private parsePlain(text: string, indent: number): unknown {
+    let value = stripComment(text);
+
+    // Plain scalars continue onto more-indented lines that are not entries
+    for (let next = this.peek(); next && next.indent > indent; next = this.peek()) {
+      if (splitKeyValue(next.text) || isSequenceItem(next.text)) break;
+      value += " " + stripComment(next.text);
+      this.pos++;
+    }
+
+    return coerceScalar(value);
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * Split "key: rest" (key may be quoted). Returns null if the line is not a
+ * mapping entry.
+ */
+function splitKeyValue(text: string): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findClosingQuote(text, text[0]);
+    if (end === -1) return null;
+    const after = text.slice(end + 1);
+    const colon = after.match(/^\s*:(\s|$)/);
+    if (!colon) return null;
+    const rawKey = text.slice(1, end);
+    const key = text[0] === "'" ? rawKey.replace(/''/g, "'") : unescapeDoubleQuoted(rawKey);
+    return { key, rest: after.slice(colon[0].length) };
+  }
+
+  const match = text.match(/^([^#][^:]*?)\s*:(?:\s+|$)/);
+  if (!match) return null;
+  return { key: match[1], rest: text.slice(match[0].length) };
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeDoubleQuoted(text: string): string {
+  return text.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_, ch: string) => {
+    if (ch.length > 1) return String.fromCharCode(parseInt(ch.slice(1), 16));
+    switch (ch) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "0":
+        return "\0";
+      default:
+        return ch;
+    }
+  });
+}
+
+function stripComment(text: string): string {
+  const hash = text.search(/\s#/);
+  return (hash === -1 ? text : text.slice(0, hash)).trim();
+}
+
+function coerceScalar(value: string): unknown {
+  if (value === "~" || value === "null" || value === "Null" || value === "NULL") return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?\d+$/.test(value)) return parseInt(value, 10);
+  if (/^[-+]?\d*\.\d+$/.test(value)) return parseFloat(value);
+  return value;
+}
+
+/**
+ * Parse a single-line flow collection ([a, b] or {a: b, c: d})
+ */
+function parseFlow(text: string): unknown {
+  const close = text.startsWith("[") ? "]" : "}";
+  const end = text.lastIndexOf(close);
+  const inner = (end === -1 ? text.slice(1) : text.slice(1, end)).trim();
+  const items = inner === "" ? [] : splitFlowItems(inner);
+
+  const scalar = (item: string): unknown => {
+    const t = item.trim();
+    if (t.startsWith('"')) return unescapeDoubleQuoted(t.slice(1, findClosingQuote(t, '"')));
+    if (t.startsWith("'")) return t.slice(1, findClosingQuote(t, "'")).replace(/''/g, "'");
+    if (t.startsWith("[") || t.startsWith("{")) return parseFlow(t);
+    return coerceScalar(t);
+  };
+
+  if (close === "]") return items.map(scalar);
+
+  const result: Record<string, unknown> = {};
+  for (const item of items) {
+    const pair = splitKeyValue(item.trim());
+    if (pair) result[pair.key] = scalar(pair.rest);
+  }
+  return result;
+}
+
+function splitFlowItems(inner: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (const ch of inner) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim() !== "") items.push(current);
+  return items;
+}
+
+/**
+ * Check if a file is a YAML file (.yml or .yaml)
+ */
+export function isYamlFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return lower.endsWith(".yml") || lower.endsWith(".yaml");
+}
+
+/**
+ * Parse YAML content into a plain value. Lines that are not valid entries
+ * are skipped rather than failing the whole document.
+ */
+export function parseYaml(content: string): unknown {
+  return new YamlReader(content).parseDocument();
+}
+
+/**
+ * Parse YAML content safely, returning the root mapping or null
+ */
+export function parseYamlSafe(content: string): Record<string, unknown> | null {
+  try {
+    const parsed = parseYaml(content);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Translation messages from a YAML locale file.
+ *
+ * Rails nests every key under a root key named after the language
+ * (`en: { greeting: ... }`), which is unwrapped when it matches `lang`.
+ * Hugo's legacy list form (`- id: home\n  translation: Home`) is converted
+ * to a mapping.
+ */
+export function parseYamlLocaleContent(
+  content: string,
+  lang?: string
+): Record<string, unknown> | null {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch {
+    return null;
+  }
+
+  if (Array.isArray(parsed)) {
+    const result: Record<string, unknown> = {};
+    for (const item of parsed) {
+      if (item && typeof item === "object" && "id" in item && "translation" in item) {
+        const entry = item as { id: unknown; translation: unknown };
+        result[String(entry.id)] = entry.translation;
+      }
+    }
+    return result;
+  }
+
+  if (typeof parsed !== "object" || parsed === null) return null;
+  const data = parsed as Record<string, unknown>;
+
+  const rootKey = getYamlRootLanguageKey(data, lang);
+  if (rootKey !== null) {
+    const inner = data[rootKey];
+    return typeof inner === "object" && inner !== null && !Array.isArray(inner)
+      ? (inner as Record<string, unknown>)
+      : {};
+  }
+
+  return data;
+}
+
+/**
+ * The Rails-style language root key of a parsed YAML file, if it has one:
+ * a single root key equal to `lang` (underscore/hyphen insensitive) or, when
+ * no language is given, a single root key that looks like a language code.
+ */
+export function getYamlRootLanguageKey(
+  data: Record<string, unknown>,
+  lang?: string
+): string | null {
+  const keys = Object.keys(data);
+  if (keys.length !== 1) return null;
+  const key = keys[0];
+  const normalized = key.replace("_", "-");
+  if (lang !== undefined) {
+    return normalized.toLowerCase() === lang.toLowerCase() ? key : null;
+  }
+  return /^[a-z]{2,3}(-([A-Z]{2}|[A-Z][a-z]{3}))?$/.test(normalized) ? key : null;
+}
+
+/**
+ * Rename a Rails-style language root key in YAML text (`en:` -> `de:`),
+ * leaving everything else byte-for-byte intact. Returns the content
+ * unchanged if the first mapping key is not `fromLang`.
+ */
+export function renameYamlRootKey(content: string, fromLang: string, toLang: string): string {
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed === "" || trimmed.startsWith("#") || trimmed === "---") continue;
+
+    const match = lines[i].match(/^(["']?)([A-Za-z_-]+)\1(\s*:.*)$/);
+    if (!match) return content;
+    const candidates = new Set([fromLang, fromLang.replace("-", "_")]);
+    if (!candidates.has(match[2])) return content;
+
+    const target = match[2].includes("_") ? toLang.replace("-", "_") : toLang;
+    const quote = match[1] || (YAML_1_1_KEYWORD.test(target) ? '"' : "");
+    lines[i] = `${quote}${target}${quote}${match[3]}`;
+    return lines.join("\n");
+  }
+  return content;
+}
+
+/**
+ * Serialize a plain value as block-style YAML. Strings are quoted only when
+ * a plain scalar would be read back differently.
+ */
+export function stringifyYaml(value: unknown, indent = 0): string {
+  const pad = " ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]\n`;
+    return value
+      .map((item) =>
+        item !== null && typeof item === "object"
+          ? `${pad}-\n${stringifyYaml(item, indent + 2)}`
+          : `${pad}- ${formatYamlScalar(item)}\n`
+      )
+      .join("");
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return `${pad}{}\n`;
+    return entries
+      .map(([key, item]) => {
+        const formattedKey = formatYamlScalar(key);
+        if (item !== null && typeof item === "object") {
+          const isEmpty = Array.isArray(item) ? item.length === 0 : Object.keys(item).length === 0;
+          if (isEmpty) return `${pad}${formattedKey}: ${Array.isArray(item) ? "[]" : "{}"}\n`;
+          return `${pad}${formattedKey}:\n${stringifyYaml(item, indent + 2)}`;
+        }
+        return `${pad}${formattedKey}: ${formatYamlScalar(item)}\n`;
+      })
+      .join("");
+  }
+
+  return `${pad}${formatYamlScalar(value)}\n`;
+}
+
+/**
+ * Plain scalars YAML 1.1 parsers (Ruby's Psych, PyYAML) read as booleans or
+ * null: a Norwegian `no:` root key would load as `false:`
+ */
+const YAML_1_1_KEYWORD = /^(?:y|n|yes|no|on|off|true|false|null|~)$/i;
+
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "~";
+  if (typeof value !== "string") return String(value);
+
+  const needsQuotes =
+    value === "" ||
+    value !== value.trim() ||
+    /[:#\n\t"\\]|^[-?!&*|>'%@`{}[\],]/.test(value) ||
+    YAML_1_1_KEYWORD.test(value) ||
+    coerceScalar(value) !== value;
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * A mapping entry's place in YAML text
+ */
+interface YamlEntrySpan {
+  path: string[];
+  indent: number;
+  /** Line of the key */
+  start: number;
+  /** Last line of the value (trailing blank and comment lines excluded) */
+  end: number;
+  /** The value is on the lines below the key (a nested mapping or sequence) */
+  nested: boolean;
+}
+
+/**
+ * Locate the mapping entries of YAML text, line by line. Entries inside
+ * sequences and the bodies of block and multi-line quoted scalars are not
+ * entries of their own.
+ */
+function scanYamlEntries(lines: string[]): YamlEntrySpan[] {
+  const entries: YamlEntrySpan[] = [];
+  // Enclosing keys; null for a sequence item, whose entries aren't addressed
+  const stack: Array<{ indent: number; key: string | null }> = [];
+  const meaningful = (i: number) => {
+    const trimmed = lines[i].trim();
+    return !(trimmed === "" || trimmed.startsWith("#") || trimmed === "---" || trimmed === "..." || trimmed.startsWith("%"));
+  };
+  const indentOf = (i: number) => lines[i].length - lines[i].trimStart().length;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!meaningful(i)) continue;
+    const indent = indentOf(i);
+    const text = lines[i].trim();
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    if (isSequenceItem(text)) {
+      stack.push({ indent, key: null });
+      continue;
+    }
+    const pair = splitKeyValue(text);
+    if (!pair) continue;
+    stack.push({ indent, key: pair.key });
+    const start = i;
+
+    const value = pair.rest.replace(/^&\S+\s*/, "").trim();
+    if (/^[|>]/.test(value)) {
+      // Block scalar body: every more-indented (or blank) line
+      while (i + 1 < lines.length && (lines[i + 1].trim() === "" || indentOf(i + 1) > indent)) i++;
+    } else if (/^["']/.test(value) && findClosingQuote(value, value[0]) === -1) {
+      // Quoted scalar continued on the following lines
+      let buffer = value;
+      while (findClosingQuote(buffer, value[0]) === -1 && i + 1 < lines.length) buffer += " " + lines[++i].trim();
+    }
+
+    const keys = stack.map((s) => s.key);
+    if (keys.includes(null)) continue;
+    entries.push({ path: keys as string[], indent, start, end: i, nested: value === "" || value.startsWith("#") });
+  }
+
+  // An entry runs until the next line at its indentation or less
+  for (const entry of entries) {
+    let next = entry.start + 1;
+    while (next < lines.length && (!meaningful(next) || indentOf(next) > entry.indent)) next++;
+    let end = next - 1;
+    while (end > entry.start && !meaningful(end)) end--;
+    entry.end = end;
+  }
+  return entries;
+}
+
+/**
+ * Set string values in YAML text by key path, rewriting only the lines of
+ * those values so comments, quoting and layout elsewhere stay as they are.
+ * A missing key is added at the end of its nearest existing parent mapping.
+ *
+ * @returns The new content and the paths that could not be set (the key
+ *   holds a nested mapping, or a parent holds a scalar or a sequence)
+ */
+export function setYamlValues(
+  content: string,
+  values: Array<[path: string[], value: string]>
+): { content: string; skipped: string[][] } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content === "" ? [] : content.replace(/\r?\n$/, "").split(/\r?\n/);
+  const indents = lines.filter((l) => /^ +\S/.test(l) && !l.trim().startsWith("#")).map((l) => l.search(/\S/));
+  const step = indents.length > 0 ? Math.min(...indents) : 2;
+  const skipped: string[][] = [];
+
+  for (const [path, value] of values) {
+    const entries = scanYamlEntries(lines);
+    const find = (p: string[]) => entries.find((e) => e.path.length === p.length && e.path.every((k, i) => k === p[i]));
+
+    const entry = find(path);
+    if (entry) {
+      if (entry.nested && entry.end > entry.start) {
+        skipped.push(path);
+      } else {
+        lines.splice(entry.start, entry.end - entry.start + 1, formatEntryLine(lines[entry.start], entry.indent, value));
+      }
+      continue;
+    }
+
+    let depth = path.length - 1;
+    let parent: YamlEntrySpan | undefined;
+    for (; depth > 0; depth--) {
+      parent = find(path.slice(0, depth));
+      if (parent) break;
+    }
+    const children = entries.filter(
+      (e) => e.path.length === depth + 1 && path.slice(0, depth).every((k, i) => e.path[i] === k)
+    );
+    if (parent && (!parent.nested || (parent.end > parent.start && children.length === 0))) {
+      skipped.push(path);
+      continue;
+    }
+
+    const indent = children[0]?.indent ?? (parent ? parent.indent + step : 0);
+    const added = path.slice(depth).map((key, j, keys) => {
+      const pad = " ".repeat(indent + j * step);
+      return j === keys.length - 1
+        ? `${pad}${formatYamlScalar(key)}: ${formatYamlScalar(value)}`
+        : `${pad}${formatYamlScalar(key)}:`;
+    });
+    lines.splice(parent ? parent.end + 1 : lines.length, 0, ...added);
+  }
+
+  return { content: lines.length > 0 ? lines.join(eol) + eol : "", skipped };
+}
+
+/**
+ * Rewrite `key: value` with a new value, keeping the key as written and a
+ * comment after a single-line value
+ */
+function formatEntryLine(line: string, indent: number, value: string): string {
+  const text = line.trim();
+  const rest = splitKeyValue(text)!.rest;
+  const key = text.slice(0, text.length - rest.length).trimEnd();
+  const valueEnd = /^["']/.test(rest) ? findClosingQuote(rest, rest[0]) + 1 : rest.search(/\s#/);
+  const comment = valueEnd > 0 ? rest.slice(valueEnd).match(/^\s+#.*$/)?.[0] ?? "" : "";
+  return `${" ".repeat(indent)}${key} ${formatYamlScalar(value)}${comment}`;
+}
+
+/**
+ * Set translations in Hugo's legacy list form (`- id: home\n  translation:
+ * Home`) in place; ids not in the list are appended as new items
+ */
+export function setYamlListTranslations(content: string, translations: Map<string, string>): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content === "" ? [] : content.replace(/\r?\n$/, "").split(/\r?\n/);
+  const firstItem = lines.find((l) => isSequenceItem(l.trim()));
+  const base = firstItem ? firstItem.search(/\S/) : 0;
+  const pad = " ".repeat(base);
+  const pending = new Map(translations);
+
+  const starts = lines.flatMap((l, i) => (l.startsWith(`${pad}-`) && isSequenceItem(l.slice(base)) ? [i] : []));
+  const output = lines.slice(0, starts[0] ?? lines.length);
+  starts.forEach((start, n) => {
+    const block = lines.slice(start, starts[n + 1] ?? lines.length);
+    const item = (parseYaml(block.join("\n")) as unknown[] | null)?.[0] as Record<string, unknown> | undefined;
+    const id = item && item.id !== undefined ? String(item.id) : undefined;
+    const value = id !== undefined ? pending.get(id) : undefined;
+    if (id === undefined || value === undefined) {
+      output.push(...block);
+      return;
+    }
+    pending.delete(id);
+    // Edit the item as a mapping: "- " reads as two columns of indentation
+    const mapping = [`${pad}  ${block[0].slice(base + 2)}`, ...block.slice(1)].join("\n");
+    const edited = setYamlValues(mapping + "\n", [[["translation"], value]]).content.replace(/\n$/, "").split("\n");
+    output.push(`${pad}- ${edited[0].slice(base + 2)}`, ...edited.slice(1));
+  });
+
+  for (const [id, value] of pending) {
+    output.push(`${pad}- id: ${formatYamlScalar(id)}`, `${pad}  translation: ${formatYamlScalar(value)}`);
+  }
+  return output.join(eol) + eol;
+}
@@ -0,0 +1,293 @@
+/**
+ * Tests for reading locale settings out of the app's own i18n config files.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdir, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { copyFixtureToTemp, type TempTestDir } from "../helpers/temp-directory.js";
+import { detectLocales, getDeclaredLocalesWithoutFiles } from "../../src/locale-detection/index.js";
+import { extractLocaleSettings } from "../../src/locale-detection/framework-config.js";
+
+function xcodeProject(developmentRegion: string, knownRegions: string[]): string {
+  return `// !$*UTF8*$!
+{
+	objects = {
+		83CBB9F71A601CBA00E9B192 /* Project object */ = {
+			isa = PBXProject;
+			developmentRegion = ${developmentRegion};
+			knownRegions = (
+${knownRegions.map((region) => `\t\t\t\t"${region}",\n`).join("")}\t\t\t);
+		};
+	};
+}
+`;
+}
+
+describe("Framework Config", () => {
+  describe("extractLocaleSettings", () => {
+    it("should read next-i18next.config.js", () => {
+      const content = `const path = require("path");
+
+module.exports = {
+  i18n: {
+    defaultLocale: "de",
+    locales: ["default", "de", "en", "fr"],
+  },
+  localePath: typeof window === "undefined" ? path.resolve("./public/translations") : "/translations",
+  defaultNS: "common",
+  reloadOnPrerender: process.env.NODE_ENV === "development",
+};
+`;
+      expect(extractLocaleSettings(content)).toEqual({
+        locales: ["de", "en", "fr"],
+        defaultLocale: "de",
+        localePath: "public/translations",
+        defaultNamespace: "common",
+      });
+    });
+
+    it("should read next-intl routing with locales declared as a const", () => {
+      const content = `import { defineRouting } from "next-intl/routing";
+
+export const locales = ["en", "pt-BR"] as const;
+
+export const routing = defineRouting({
+  locales,
+  defaultLocale: "en",
+});
+`;
+      expect(extractLocaleSettings(content)).toEqual({ locales: ["en", "pt-BR"], defaultLocale: "en" });
+    });
+
+    it("should read i18next init options and map public URL paths to public/", () => {
+      const content = `i18n.use(initReactI18next).init({
+  supportedLngs: ["en", "es", "cimode"],
+  defaultNS: "translation",
+  backend: { loadPath: "/locales/{{lng}}/{{ns}}.json" },
+  localePath: "/static/locales",
+});`;
+      expect(extractLocaleSettings(content)).toEqual({
+        locales: ["en", "es"],
+        defaultNamespace: "translation",
+        localePath: "public/static/locales",
+      });
+    });
+
+    it("should ignore values that aren't literals", () => {
+      expect(extractLocaleSettings("module.exports = { i18n: { locales: getLocales(), defaultLocale: env.LANG } };")).toEqual(
+        {}
+      );
+    });
+  });
+
+  describe("detectLocales", () => {
+    let tempDir: TempTestDir;
+
+    afterEach(async () => {
+      await tempDir.cleanup();
+    });
+
+    it("should take source, targets and locale directory from next-i18next.config.js", async () => {
+      tempDir = await copyFixtureToTemp("i18next");
+      await rm(join(tempDir.path, "public", "locales", "de"), { recursive: true });
+      await writeFile(
+        join(tempDir.path, "next-i18next.config.js"),
+        `/** @type {import("next-i18next").UserConfig} */
+module.exports = {
+  i18n: { defaultLocale: "de", locales: ["de", "en", "fr"] },
+  localePath: require("path").resolve("./public/locales"),
+};
+`,
+        "utf-8"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({
+        framework: "i18next",
+        sourceLang: "de",
+        targetLangs: ["en", "fr"],
+        frameworkSettings: {
+          files: ["next-i18next.config.js"],
+          locales: ["de", "en", "fr"],
+          defaultLocale: "de",
+          localePath: "public/locales",
+        },
+        settingSources: {
+          framework: "inferred",
+          sourceLang: "framework_config",
+          targetLangs: "framework_config",
+          localeFiles: "framework_config",
+        },
+      });
+      expect(getDeclaredLocalesWithoutFiles(detection)).toEqual(["de", "fr"]);
+    });
+
+    it("should find ARB files in l10n.yaml's arb-dir and take the source from the template", async () => {
+      tempDir = await copyFixtureToTemp("flutter-arb");
+      await mkdir(join(tempDir.path, "assets", "i18n"), { recursive: true });
+      await rename(join(tempDir.path, "lib/l10n/app_en.arb"), join(tempDir.path, "assets/i18n/intl_en.arb"));
+      await rename(join(tempDir.path, "lib/l10n/app_de.arb"), join(tempDir.path, "assets/i18n/intl_de.arb"));
+      await writeFile(join(tempDir.path, "assets/i18n/intl_pt_BR.arb"), `{ "appName": "Meu App" }`);
+      await writeFile(
+        join(tempDir.path, "l10n.yaml"),
+        "arb-dir: assets/i18n\ntemplate-arb-file: intl_de.arb\noutput-localization-file: app_localizations.dart\n"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({
+        framework: "flutter",
+        sourceLang: "de",
+        frameworkSettings: {
+          files: ["l10n.yaml"],
+          defaultLocale: "de",
+          localePath: "assets/i18n",
+          templateFile: "assets/i18n/intl_de.arb",
+        },
+        settingSources: { sourceLang: "framework_config", localeFiles: "framework_config" },
+      });
+      expect(detection.targetLangs.sort()).toEqual(["en", "pt-BR"]);
+    });
+
+    it("should use gen-l10n's defaults when pubspec.yaml enables generate", async () => {
+      tempDir = await copyFixtureToTemp("flutter-arb");
+      await writeFile(
+        join(tempDir.path, "pubspec.yaml"),
+        "name: sample\ndependencies:\n  flutter_localizations:\n    sdk: flutter\nflutter:\n  generate: true\n"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection.frameworkSettings).toEqual({
+        files: ["pubspec.yaml"],
+        defaultLocale: "en",
+        localePath: "lib/l10n",
+        localeGlobs: ["lib/l10n/*.arb"],
+        templateFile: "lib/l10n/app_en.arb",
+      });
+      expect(detection.locales.map((l) => l.lang).sort()).toEqual(["de", "en"]);
+    });
+
+    it("should take the source and targets from the Xcode project's regions", async () => {
+      tempDir = await copyFixtureToTemp("ios-strings");
+      await mkdir(join(tempDir.path, "App.xcodeproj"));
+      await writeFile(
+        join(tempDir.path, "App.xcodeproj/project.pbxproj"),
+        xcodeProject("en", ["en", "Base", "de", "fr"]),
+        "utf-8"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({
+        framework: "ios-macos",
+        configFile: "App.xcodeproj/project.pbxproj",
+        sourceLang: "en",
+        targetLangs: ["de", "fr"],
+        frameworkSettings: { files: ["App.xcodeproj/project.pbxproj"], locales: ["en", "de", "fr"], defaultLocale: "en" },
+        settingSources: { sourceLang: "framework_config", targetLangs: "framework_config" },
+      });
+      expect(getDeclaredLocalesWithoutFiles(detection)).toEqual(["fr"]);
+    });
+
+    it("should read every project in the workspace but CocoaPods' Pods project", async () => {
+      tempDir = await copyFixtureToTemp("ios-strings");
+      for (const [project, regions] of [
+        ["App/App.xcodeproj", ["de", "Base", "en"]],
+        ["Widgets/Widgets.xcodeproj", ["de", "ja"]],
+        ["Pods/Pods.xcodeproj", ["en", "Base"]],
+      ] as const) {
+        await mkdir(join(tempDir.path, project), { recursive: true });
+        await writeFile(join(tempDir.path, project, "project.pbxproj"), xcodeProject("de", [...regions]), "utf-8");
+      }
+      await mkdir(join(tempDir.path, "App.xcworkspace"));
+      await writeFile(
+        join(tempDir.path, "App.xcworkspace/contents.xcworkspacedata"),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Workspace
+   version = "1.0">
+   <FileRef
+      location = "group:App/App.xcodeproj">
+   </FileRef>
+   <FileRef
+      location = "group:Widgets/Widgets.xcodeproj">
+   </FileRef>
+   <FileRef
+      location = "group:Pods/Pods.xcodeproj">
+   </FileRef>
+</Workspace>
+`,
+        "utf-8"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection.framework).toBe("ios-macos");
+      expect(detection.frameworkSettings).toEqual({
+        files: ["App/App.xcodeproj/project.pbxproj", "Widgets/Widgets.xcodeproj/project.pbxproj"],
+        locales: ["de", "en", "ja"],
+        defaultLocale: "de",
+      });
+      expect(detection.sourceLang).toBe("de");
+      expect(detection.targetLangs).toEqual(["en", "ja"]);
+      expect(getDeclaredLocalesWithoutFiles(detection)).toEqual(["ja"]);
+    });
+
+    it("should take the source locale and translation files from angular.json", async () => {
+      tempDir = await copyFixtureToTemp("angular");
+      await mkdir(join(tempDir.path, "src/i18n"));
+      await rename(join(tempDir.path, "src/locale/messages.xlf"), join(tempDir.path, "src/i18n/source.xlf"));
+      await rename(join(tempDir.path, "src/locale/messages.de.xlf"), join(tempDir.path, "src/i18n/de.xlf"));
+      await writeFile(
+        join(tempDir.path, "angular.json"),
+        JSON.stringify({
+          version: 1,
+          projects: {
+            shop: {
+              i18n: {
+                sourceLocale: { code: "en", baseHref: "/" },
+                locales: { de: { translation: "src/i18n/de.xlf" }, fr: ["src/i18n/fr.xlf"] },
+              },
+              architect: { "extract-i18n": { options: { outputPath: "src/i18n", outFile: "source.xlf" } } },
+            },
+          },
+        }),
+        "utf-8"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({
+        framework: "angular",
+        sourceLang: "en",
+        targetLangs: ["de", "fr"],
+        frameworkSettings: {
+          files: ["angular.json"],
+          locales: ["en", "de", "fr"],
+          defaultLocale: "en",
+          localePath: "src/i18n",
+          localeGlobs: ["src/i18n/source.xlf", "src/i18n/de.xlf", "src/i18n/fr.xlf"],
+        },
+        settingSources: { sourceLang: "framework_config", localeFiles: "framework_config" },
+      });
+      expect(detection.locales.map((l) => [l.lang, l.files.map((f) => f.relativePath)])).toEqual([
+        ["en", ["src/i18n/source.xlf"]],
+        ["de", ["src/i18n/de.xlf"]],
+      ]);
+      expect(getDeclaredLocalesWithoutFiles(detection)).toEqual(["fr"]);
+    });
+
+    it("should let langapi.config.json override the app's declared locales", async () => {
+      tempDir = await copyFixtureToTemp("i18next");
+      await writeFile(join(tempDir.path, "langapi.config.json"), JSON.stringify({ sourceLang: "en" }), "utf-8");
+      await writeFile(
+        join(tempDir.path, "next.config.js"),
+        `module.exports = { i18n: { defaultLocale: "de", locales: ["de", "en", "ja"] } };\n`,
+        "utf-8"
+      );
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection.sourceLang).toBe("en");
+      // next-i18next.config.js is read before next.config.js
+      expect(detection.targetLangs).toEqual(["de"]);
+      expect(detection.frameworkSettings?.files).toEqual(["next-i18next.config.js"]);
+      expect(detection.settingSources).toMatchObject({ sourceLang: "config", targetLangs: "framework_config" });
+    });
+  });
+});
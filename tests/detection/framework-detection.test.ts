@@ -0,0 +1,51 @@
+/**
+ * Tests for telling the framework from the project's config files.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { createTempTestDir, type TempTestDir } from "../helpers/temp-directory.js";
+import { detectLocales } from "../../src/locale-detection/index.js";
+
+describe("Framework Detection", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  async function detectFrameworkOf(files: Record<string, string>): Promise<string> {
+    tempDir = await createTempTestDir();
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(tempDir.path, file)), { recursive: true });
+      await writeFile(join(tempDir.path, file), content, "utf-8");
+    }
+    return (await detectLocales(tempDir.path, false)).framework;
+  }
+
+  it.each([
+    ["vue-i18n", { "package.json": JSON.stringify({ dependencies: { "vue-i18n": "^9.0.0" } }) }],
+    ["fluent", { "package.json": JSON.stringify({ dependencies: { "@fluent/bundle": "^0.18.0" } }) }],
+    ["gettext", { "pyproject.toml": `[project]\ndependencies = ["Flask-Babel>=4.0"]\n` }],
+    ["gettext", { "pyproject.toml": `[tool.poetry.dependencies]\nbabel = "^2.14"\n` }],
+    ["gettext", { "mysite/settings.py": `MIDDLEWARE = ["django.middleware.locale.LocaleMiddleware"]\n` }],
+    ["gettext", { "CMakeLists.txt": `find_package(Gettext REQUIRED)\n` }],
+    ["java", { "pom.xml": `<project xmlns="http://maven.apache.org/POM/4.0.0"></project>\n` }],
+    ["dotnet", { "global.json": JSON.stringify({ sdk: { version: "8.0.100" }, "msbuild-sdks": { "Microsoft.Build.NoTargets": "3.7.0" } }) }],
+  ])("should detect %s from its dependency or settings", async (framework, files) => {
+    expect(await detectFrameworkOf(files)).toBe(framework);
+  });
+
+  it.each([
+    ["a script that mentions vue-i18n", { "package.json": JSON.stringify({ scripts: { i18n: "vue-i18n-extract report" } }) }],
+    ["a description that mentions Fluent", { "package.json": JSON.stringify({ description: "Wraps @fluent/ in React" }) }],
+    ["a Python project using Django without translations", { "pyproject.toml": `[project]\ndependencies = ["django>=5"]\n` }],
+    ["a Django settings module without translations", { "mysite/settings.py": `INSTALLED_APPS = ["django.contrib.admin"]\n` }],
+    ["a CMake project that names Babel", { "CMakeLists.txt": `add_subdirectory(third_party/babel)\n` }],
+    ["a Gradle build that only names java", { "build.gradle": `plugins { id 'java' }\n` }],
+    ["a global.json that only pins the SDK", { "global.json": JSON.stringify({ sdk: { version: "8.0.100" } }) }],
+  ])("should not flag %s", async (_, files) => {
+    expect(await detectFrameworkOf(files)).toBe("generic");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for langapi.config.json / .langapirc and how detection applies it.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { copyFixtureToTemp, type TempTestDir } from "../helpers/temp-directory.js";
+import { detectLocales } from "../../src/locale-detection/index.js";
+import { loadProjectConfig } from "../../src/locale-detection/project-config.js";
+
+type ToolHandler = (args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
+
+async function loadListHandler(): Promise<ToolHandler> {
+  const { registerListLocalLocales } = await import("../../src/tools/list-local-locales.js");
+  let handler: ToolHandler | undefined;
+  const fakeServer = {
+    tool: (_name: string, _desc: string, _shape: unknown, fn: ToolHandler) => {
+      handler = fn;
+    },
+  } as unknown as McpServer;
+  registerListLocalLocales(fakeServer);
+  if (!handler) throw new Error("list_local_locales tool was not registered");
+  return handler;
+}
+
+async function writeConfig(dir: string, config: unknown, file = "langapi.config.json"): Promise<void> {
+  await writeFile(join(dir, file), JSON.stringify(config), "utf-8");
+}
+
+describe("Project Config", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  describe("loadProjectConfig", () => {
+    it("should return null when the project has no config file", async () => {
+      tempDir = await copyFixtureToTemp("json-flat");
+      expect(await loadProjectConfig(tempDir.path)).toBeNull();
+    });
+
+    it("should read .langapirc", async () => {
+      tempDir = await copyFixtureToTemp("json-flat");
+      await writeConfig(tempDir.path, { sourceLang: "de", targetLangs: ["en"] }, ".langapirc");
+
+      expect(await loadProjectConfig(tempDir.path)).toEqual({
+        file: ".langapirc",
+        projectPath: tempDir.path,
+        config: { sourceLang: "de", targetLangs: ["en"] },
+      });
+    });
+
+    it("should reject invalid JSON, unknown settings and unusable values", async () => {
+      tempDir = await copyFixtureToTemp("json-flat");
+
+      await writeFile(join(tempDir.path, "langapi.config.json"), "{ sourceLang: de }", "utf-8");
+      await expect(loadProjectConfig(tempDir.path)).rejects.toThrow(/^Invalid langapi\.config\.json: /);
+
+      await writeConfig(tempDir.path, { sourceLanguage: "de" });
+      await expect(loadProjectConfig(tempDir.path)).rejects.toThrow(/Unrecognized key/);
+
+      await writeConfig(tempDir.path, { framework: "rails-i18n", pathTemplates: { json: "locales/de.json" } });
+      await expect(loadProjectConfig(tempDir.path)).rejects.toThrow(
+        /framework: Unknown framework.*; pathTemplates\.json: A path template needs a \{lang\}/
+      );
+
+      for (const template of ["../shared/{lang}.json", "locales/../../{lang}.json", "/tmp/{lang}.json"]) {
+        await writeConfig(tempDir.path, { pathTemplates: { json: template } });
+        await expect(loadProjectConfig(tempDir.path)).rejects.toThrow(
+          "pathTemplates.json: A path template must stay within the project"
+        );
+      }
+    });
+  });
+
+  describe("detectLocales", () => {
+    it("should take framework, languages and exclusions from the config", async () => {
+      tempDir = await copyFixtureToTemp("i18next");
+      await writeConfig(tempDir.path, {
+        framework: "i18next",
+        sourceLang: "de",
+        targetLangs: ["en", "fr"],
+        exclude: ["public/locales/en/home.json"],
+      });
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({
+        framework: "i18next",
+        confidence: "high",
+        sourceLang: "de",
+        targetLangs: ["en", "fr"],
+        settingSources: { framework: "config", sourceLang: "config", targetLangs: "config", localeFiles: "inferred" },
+      });
+      expect(detection.locales.find((l) => l.lang === "en")?.files.map((f) => f.relativePath)).toEqual([
+        join("public", "locales", "en", "common.json"),
+      ]);
+    });
+
+    it("should replace the framework's globs with include", async () => {
+      tempDir = await copyFixtureToTemp("json-flat");
+      await writeConfig(tempDir.path, { framework: "flutter", include: ["src/lang/en.json"] });
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection).toMatchObject({ framework: "flutter", confidence: "high", configFile: null });
+      expect(detection.locales.map((l) => l.lang)).toEqual(["en"]);
+      expect(detection.targetLangs).toEqual([]);
+      expect(detection.settingSources.localeFiles).toBe("config");
+    });
+
+    it("should put files without a locale of their own in the declared source language", async () => {
+      tempDir = await copyFixtureToTemp("android");
+      await writeConfig(tempDir.path, { sourceLang: "fr" });
+
+      const detection = await detectLocales(tempDir.path, false);
+      expect(detection.sourceLang).toBe("fr");
+      expect(detection.locales.map((l) => l.lang).sort()).toEqual(["de", "fr"]);
+    });
+  });
+
+  describe("list_local_locales", () => {
+    it("should report which values came from the config", async () => {
+      tempDir = await copyFixtureToTemp("json-flat");
+      await writeConfig(tempDir.path, { targetLangs: ["de", "pt-BR"] });
+
+      const handler = await loadListHandler();
+      const output = JSON.parse(
+        (await handler({ project_path: tempDir.path, include_key_count: false })).content[0].text
+      );
+
+      expect(output).toMatchObject({
+        source_lang: "en",
+        target_langs: ["de", "pt-BR"],
+        project_config: "langapi.config.json",
+        value_sources: { framework: "inferred", source_lang: "inferred", target_langs: "config", locale_files: "inferred" },
+      });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for monorepo workspace detection.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { cp, mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { createTempTestDir, getFixturesPath, type TempTestDir } from "../helpers/temp-directory.js";
+import {
+  detectWorkspace,
+  detectWorkspaceLocales,
+  findWorkspacePackage,
+} from "../../src/locale-detection/workspace.js";
+
+describe("Workspace Detection", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(tempDir.path, file)), { recursive: true });
+      await writeFile(join(tempDir.path, file), content, "utf-8");
+    }
+  }
+
+  it("should read pnpm-workspace.yaml globs and exclusions", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({
+      "pnpm-workspace.yaml": `packages:\n  - "apps/*"\n  - "packages/*"\n  - "!packages/legacy"\n`,
+      "apps/web/package.json": JSON.stringify({ name: "@acme/web" }),
+      "packages/ui/package.json": JSON.stringify({ name: "@acme/ui" }),
+      "packages/legacy/package.json": JSON.stringify({ name: "@acme/legacy" }),
+      "packages/no-manifest/README.md": "",
+      "apps/web/node_modules/dep/package.json": JSON.stringify({ name: "dep" }),
+    });
+
+    expect(await detectWorkspace(tempDir.path)).toEqual({
+      files: ["pnpm-workspace.yaml"],
+      packages: [
+        { name: "@acme/web", path: "apps/web" },
+        { name: "@acme/ui", path: "packages/ui" },
+      ],
+    });
+  });
+
+  it("should read package.json workspaces in either form", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({
+      "package.json": JSON.stringify({ private: true, workspaces: { packages: ["./packages/*"] } }),
+      "packages/site/package.json": JSON.stringify({ name: "site" }),
+    });
+
+    const workspace = await detectWorkspace(tempDir.path);
+    expect(workspace).toEqual({ files: ["package.json"], packages: [{ name: "site", path: "packages/site" }] });
+    expect(findWorkspacePackage(workspace!, "./packages/site/")).toEqual({ name: "site", path: "packages/site" });
+    expect(findWorkspacePackage(workspace!, "site")?.path).toBe("packages/site");
+    expect(findWorkspacePackage(workspace!, "other")).toBeUndefined();
+  });
+
+  it("should find Nx projects by project.json and Turborepo's default layout", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({
+      "nx.json": JSON.stringify({ workspaceLayout: { appsDir: "projects" } }),
+      "projects/admin/project.json": JSON.stringify({ name: "admin" }),
+      "tools/scripts/project.json": JSON.stringify({}),
+      "turbo.json": JSON.stringify({ tasks: {} }),
+      "apps/docs/package.json": JSON.stringify({ name: "docs" }),
+    });
+
+    expect(await detectWorkspace(tempDir.path)).toEqual({
+      files: ["nx.json", "turbo.json"],
+      packages: [
+        { name: "docs", path: "apps/docs" },
+        { name: "admin", path: "projects/admin" },
+        { name: "tools/scripts", path: "tools/scripts" },
+      ],
+    });
+  });
+
+  it("should return null outside a monorepo", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({ "package.json": JSON.stringify({ name: "app" }) });
+
+    expect(await detectWorkspace(tempDir.path)).toBeNull();
+  });
+
+  it("should detect each package with locale files on its own", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({
+      "pnpm-workspace.yaml": `packages:\n  - "apps/*"\n  - "packages/*"\n`,
+      "apps/web/package.json": JSON.stringify({ name: "@acme/web" }),
+      "apps/mobile/package.json": JSON.stringify({ name: "@acme/mobile" }),
+      "apps/mobile/pubspec.yaml": "name: mobile\ndependencies:\n  flutter_localizations:\n    sdk: flutter\n",
+      "packages/utils/package.json": JSON.stringify({ name: "@acme/utils" }),
+      "apps/web/langapi.config.json": JSON.stringify({ sourceLang: "de" }),
+    });
+    await cp(join(getFixturesPath(), "i18next"), join(tempDir.path, "apps/web"), { recursive: true });
+    await cp(join(getFixturesPath(), "flutter-arb"), join(tempDir.path, "apps/mobile"), { recursive: true });
+
+    const result = await detectWorkspaceLocales(tempDir.path, false);
+    expect(result?.workspace.packages).toHaveLength(3);
+    expect(
+      result?.packages.map(({ name, detection }) => [name, detection.framework, detection.sourceLang])
+    ).toEqual([
+      ["@acme/mobile", "flutter", "en"],
+      ["@acme/web", "i18next", "de"],
+    ]);
+    expect(result?.packages[1].detection.locales[0].files[0].relativePath).toMatch(/^public\/locales\//);
+  });
+
+  it("should list the root project's own locale files as package '.'", async () => {
+    tempDir = await createTempTestDir();
+    await writeFiles({
+      "pnpm-workspace.yaml": `packages:\n  - "apps/*"\n`,
+      "apps/web/package.json": JSON.stringify({ name: "@acme/web" }),
+    });
+    await cp(join(getFixturesPath(), "json-nested"), tempDir.path, { recursive: true });
+    await cp(join(getFixturesPath(), "json-nested"), join(tempDir.path, "apps/web"), { recursive: true });
+
+    const result = await detectWorkspaceLocales(tempDir.path, false);
+    expect(result?.packages.map(({ name, path }) => [name, path])).toEqual([
+      [".", "."],
+      ["@acme/web", "apps/web"],
+    ]);
+    expect(result?.packages[0].detection.locales.flatMap((l) => l.files.map((f) => f.relativePath))).toEqual([
+      "locales/en.json",
+      "locales/de.json",
+    ]);
+    expect(findWorkspacePackage(result!.workspace, ".")).toEqual({ name: ".", path: "." });
+  });
+});
@@ -0,0 +1,6 @@
+-brand-name = Acme
+
+app-title = { -brand-name } Übersicht
+login-input = E-Mail
+    .placeholder = du@example.com
+login-button = Anmelden
@@ -0,0 +1,23 @@
+### Main application strings
+
+-brand-name = Acme
+
+## Header
+
+# Shown in the window title
+app-title = { -brand-name } Dashboard
+welcome = Welcome back, { $name }!
+
+## Login form
+
+login-input = Email
+    .placeholder = you@example.com
+    .aria-label = Login email
+login-button = Log in
+
+# $count (Number) - number of unread messages
+unread-messages =
+    { $count ->
+        [one] You have one unread message.
+       *[other] You have { $count } unread messages.
+    }
@@ -0,0 +1,5 @@
+<?php
+
+return array(
+    'welcome' => 'Willkommen zurück, :name!',
+);
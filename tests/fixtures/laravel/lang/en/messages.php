@@ -0,0 +1,11 @@
+<?php
+
+// Storefront copy
+return [
+    'welcome' => 'Welcome back, :name!',
+    'cart' => [
+        'empty' => "Your cart is empty",
+        'items' => '{1} :count item|[2,*] :count items',
+    ],
+    'footer' => 'Open daily ' . 'until 10:30 PM',
+];
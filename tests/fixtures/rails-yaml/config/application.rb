@@ -0,0 +1,8 @@
+require_relative "boot"
+require "rails/all"
+
+module Sample
+  class Application < Rails::Application
+    config.i18n.default_locale = :en
+  end
+end
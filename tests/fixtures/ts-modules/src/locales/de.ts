@@ -0,0 +1,6 @@
+export default {
+  nav: {
+    home: 'Startseite',
+  },
+  welcome: 'Willkommen zurück!',
+} as const;
@@ -0,0 +1,9 @@
+// Source messages; other locales are typed against this module
+export default {
+  nav: {
+    home: 'Home',
+    cart: 'Cart',
+  },
+  welcome: 'Welcome back!',
+  "order-status": 'Your order hasn\'t shipped yet',
+} as const;
@@ -68,6 +68,26 @@ function translateArb(sourceContent: string, targetLang: string): { translated:
   return { translated: JSON.stringify(translated, null, 2) + "\n", newKeys: countJsonLeafKeys(data, skipKey) };
 }
 
+function translateWebExtension(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Only each key's `message` is translatable; description/placeholders pass through.
+  const data = JSON.parse(sourceContent) as Record<string, Record<string, unknown>>;
+  const translated: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(data)) {
+    translated[key] = { ...entry, message: mockTranslate(String(entry.message), targetLang) };
+  }
+  return { translated: JSON.stringify(translated, null, 2) + "\n", newKeys: Object.keys(data) };
+}
+
+function translateFormatJs(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Only `defaultMessage` is translatable; description passes through.
+  const data = JSON.parse(sourceContent) as Record<string, Record<string, unknown>>;
+  const translated: Record<string, unknown> = {};
+  for (const [id, entry] of Object.entries(data)) {
+    translated[id] = { ...entry, defaultMessage: mockTranslate(String(entry.defaultMessage), targetLang) };
+  }
+  return { translated: JSON.stringify(translated, null, 2) + "\n", newKeys: Object.keys(data) };
+}
+
 function translateStrings(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
   const lines = sourceContent.split("\n");
   const keys: string[] = [];
@@ -121,6 +141,104 @@ function translateStringsDict(sourceContent: string, targetLang: string): { tran
   return { translated, newKeys: keys };
 }
 
+function translateAndroid(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: translate <string> and <item> text, leaving translatable="false"
+  // resources and the XML structure untouched.
+  const keys: string[] = [];
+  const translated = sourceContent
+    .replace(/<string name="([^"]+)"( translatable="false")?>([^<]*)<\/string>/g, (full, name: string, fixed, value: string) => {
+      if (fixed) return full;
+      keys.push(name);
+      return `<string name="${name}">${mockTranslate(value, targetLang)}</string>`;
+    })
+    .replace(/<item([^>]*)>([^<]*)<\/item>/g, (_full, attrs: string, value: string) => {
+      keys.push(value);
+      return `<item${attrs}>${mockTranslate(value, targetLang)}</item>`;
+    });
+  return { translated, newKeys: keys };
+}
+
+function translateYaml(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: translate "key: value" leaf lines, leaving mapping-only lines
+  // (including the Rails language root key) untouched.
+  const keys: string[] = [];
+  const translated = sourceContent
+    .split("\n")
+    .map((line) => {
+      const match = line.match(/^(\s*)([\w.-]+): (?:"([^"]*)"|(.+))$/);
+      if (!match) return line;
+      const value = match[3] ?? match[4];
+      keys.push(match[2]);
+      return `${match[1]}${match[2]}: "${mockTranslate(value, targetLang)}"`;
+    })
+    .join("\n");
+  return { translated, newKeys: keys };
+}
+
+function translateProperties(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: translate single-line "key=value" entries, leaving comments untouched.
+  const keys: string[] = [];
+  const translated = sourceContent
+    .split("\n")
+    .map((line) => {
+      const match = line.match(/^([\w.]+)(\s*[=:]\s*)([^\\]+)$/);
+      if (!match) return line;
+      keys.push(match[1]);
+      return `${match[1]}${match[2]}${mockTranslate(match[3], targetLang)}`;
+    })
+    .join("\n");
+  return { translated, newKeys: keys };
+}
+
+function translatePo(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: fill each single-line msgstr from the msgid above it.
+  const keys: string[] = [];
+  let msgid = "";
+  const translated = sourceContent
+    .split("\n")
+    .map((line) => {
+      const id = line.match(/^msgid "(.*)"$/);
+      if (id) msgid = id[1];
+      if (!line.startsWith("msgstr ") || msgid === "") return line;
+      keys.push(msgid);
+      return `msgstr "${mockTranslate(msgid, targetLang)}"`;
+    })
+    .join("\n");
+  return { translated, newKeys: keys };
+}
+
+function translateResx(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: translate the <value> of untyped <data> elements.
+  const keys: string[] = [];
+  const translated = sourceContent.replace(
+    /<data name="([^"]+)" xml:space="preserve">(\s*)<value>([^<]*)<\/value>/g,
+    (_full, name: string, space: string, value: string) => {
+      keys.push(name);
+      return `<data name="${name}" xml:space="preserve">${space}<value>${mockTranslate(value, targetLang)}</value>`;
+    }
+  );
+  return { translated, newKeys: keys };
+}
+
+function translateFluent(sourceContent: string, targetLang: string): { translated: string; newKeys: string[] } {
+  // Simplified: translate single-line message/attribute values and variants,
+  // leaving terms and comments untouched.
+  const keys: string[] = [];
+  const translated = sourceContent
+    .split("\n")
+    .map((line) => {
+      const message = line.match(/^(\s*\.?)([a-zA-Z][\w-]*)( = )(.+)$/);
+      if (message) {
+        keys.push(message[2]);
+        return `${message[1]}${message[2]}${message[3]}${mockTranslate(message[4], targetLang)}`;
+      }
+      const variant = line.match(/^(\s*\*?\[\w+\] )(.+)$/);
+      return variant ? `${variant[1]}${mockTranslate(variant[2], targetLang)}` : line;
+    })
+    .join("\n");
+  return { translated, newKeys: keys };
+}
+
 function translateByFormat(request: TranslateFileRequest): { translated: string; newKeys: string[] } {
   switch (request.file_format) {
     case "arb":
@@ -131,6 +249,22 @@ function translateByFormat(request: TranslateFileRequest): { translated: string;
       return translateStringsDict(request.source_file_content, request.target_lang);
     case "xcstrings":
       return translateXCStrings(request);
+    case "android":
+      return translateAndroid(request.source_file_content, request.target_lang);
+    case "yaml":
+      return translateYaml(request.source_file_content, request.target_lang);
+    case "properties":
+      return translateProperties(request.source_file_content, request.target_lang);
+    case "po":
+      return translatePo(request.source_file_content, request.target_lang);
+    case "resx":
+      return translateResx(request.source_file_content, request.target_lang);
+    case "fluent":
+      return translateFluent(request.source_file_content, request.target_lang);
+    case "webextension":
+      return translateWebExtension(request.source_file_content, request.target_lang);
+    case "formatjs":
+      return translateFormatJs(request.source_file_content, request.target_lang);
     default:
       return translateJson(request.source_file_content, request.target_lang);
   }
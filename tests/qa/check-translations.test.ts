@@ -0,0 +1,185 @@
+/**
+ * Integration tests for the check_translations tool.
+ *
+ * The tool runs entirely locally: handlers read real fixture copies (with
+ * deliberately broken translations written in) and the assertions check the
+ * reported issues.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { copyFixtureToTemp, type TempTestDir } from "../helpers/temp-directory.js";
+
+type ToolHandler = (args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
+
+async function loadCheckHandler(): Promise<ToolHandler> {
+  const { registerCheckTranslations } = await import("../../src/tools/check-translations.js");
+  let handler: ToolHandler | undefined;
+  const fakeServer = {
+    tool: (_name: string, _desc: string, _shape: unknown, fn: ToolHandler) => {
+      handler = fn;
+    },
+  } as unknown as McpServer;
+  registerCheckTranslations(fakeServer);
+  if (!handler) throw new Error("check_translations tool was not registered");
+  return handler;
+}
+
+function parseOutput(result: { content: Array<{ type: "text"; text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe("check_translations", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  it("reports no issues for consistent translations", async () => {
+    tempDir = await copyFixtureToTemp("json-nested");
+    const handler = await loadCheckHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.success).toBe(true);
+    expect(output.checked).toEqual({ languages: 1, translations: 3 });
+    expect(output.issues).toEqual([]);
+  });
+
+  it("lists missing, extra and malformed placeholders per key, file and language", async () => {
+    tempDir = await copyFixtureToTemp("json-nested");
+    await writeFile(
+      join(tempDir.path, "locales/de.json"),
+      JSON.stringify({
+        variables: {
+          greeting: "Willkommen!",
+          itemCount: "Du hast {anzahl} Artikel",
+          lastLogin: "Letzte Anmeldung: {date",
+        },
+      })
+    );
+    const handler = await loadCheckHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.issues).toEqual([
+      {
+        file: "locales/de.json",
+        language: "de",
+        key: "variables.greeting",
+        type: "missing_placeholder",
+        placeholder: "{name}",
+        message: "Translation is missing {name}",
+      },
+      expect.objectContaining({ key: "variables.itemCount", type: "missing_placeholder", placeholder: "{count}" }),
+      expect.objectContaining({ key: "variables.itemCount", type: "extra_placeholder", placeholder: "{anzahl}" }),
+      expect.objectContaining({ key: "variables.lastLogin", type: "malformed", message: "Unclosed '{date'" }),
+      expect.objectContaining({ key: "variables.lastLogin", type: "missing_placeholder", placeholder: "{date}" }),
+    ]);
+    expect(output.summary).toEqual({ missing_placeholder: 3, extra_placeholder: 1, icu_mismatch: 0, malformed: 1, plural_categories: 0 });
+  });
+
+  it("checks ARB translations against the declared @key.placeholders", async () => {
+    tempDir = await copyFixtureToTemp("flutter-arb");
+    await writeFile(
+      join(tempDir.path, "lib/l10n/app_de.arb"),
+      JSON.stringify({
+        "@@locale": "de",
+        variablesGreeting: "Willkommen, {name} {user}!",
+        variablesItemCount: "{count, plural, one {Ein Artikel} other {{count} Artikel}}",
+      })
+    );
+    const handler = await loadCheckHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.issues).toEqual([
+      expect.objectContaining({
+        file: "lib/l10n/app_de.arb",
+        key: "variablesGreeting",
+        type: "extra_placeholder",
+        message: "Translation uses {user}, which is not in the source or @key.placeholders",
+      }),
+      expect.objectContaining({ key: "variablesItemCount", type: "icu_mismatch", placeholder: "{count}" }),
+    ]);
+  });
+
+  it("compares iOS format specifiers in .strings files", async () => {
+    tempDir = await copyFixtureToTemp("ios-strings");
+    await writeFile(
+      join(tempDir.path, "de.lproj/Localizable.strings"),
+      '"variables.greeting" = "Willkommen, %d!";\n"variables.item_count" = "Du hast %d Artikel";\n'
+    );
+    const handler = await loadCheckHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.issues.map((i: { key: string; type: string }) => [i.key, i.type])).toEqual([
+      ["variables.greeting", "missing_placeholder"],
+      ["variables.greeting", "extra_placeholder"],
+    ]);
+    expect(output.issues[0].file).toBe("de.lproj/Localizable.strings");
+  });
+
+  it("checks plural categories of i18next suffix keys and ICU plurals per language", async () => {
+    tempDir = await copyFixtureToTemp("i18next");
+    const locales = join(tempDir.path, "public/locales");
+    const messages = {
+      item_one: "{{count}} item",
+      item_other: "{{count}} items",
+      files: "{count, plural, =0 {No files} one {# file} other {# files}}",
+    };
+    await writeFile(join(locales, "en/common.json"), JSON.stringify(messages));
+    await mkdir(join(locales, "pl"));
+    await writeFile(
+      join(locales, "pl/common.json"),
+      JSON.stringify({
+        item_one: "{{count}} element",
+        item_few: "{{count}} elementy",
+        item_many: "{{count}} elementów",
+        item_other: "{{count}} elementu",
+        files: "{count, plural, =0 {Brak plików} one {# plik} other {# plików}}",
+      })
+    );
+    const handler = await loadCheckHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["pl"], project_path: tempDir.path })
+    );
+
+    expect(output.issues).toEqual([
+      {
+        file: "public/locales/pl/common.json",
+        language: "pl",
+        key: "files",
+        type: "plural_categories",
+        placeholder: "{count}",
+        message: "'pl' plurals use one, few, many, other; missing few, many",
+      },
+    ]);
+    expect(output.summary.plural_categories).toBe(1);
+
+    await mkdir(join(locales, "ja"));
+    await writeFile(join(locales, "ja/common.json"), JSON.stringify(messages));
+    const japanese = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["ja"], project_path: tempDir.path })
+    );
+
+    expect(japanese.issues).toEqual([
+      expect.objectContaining({ key: "files", message: "'ja' plurals use other; never used: one" }),
+      expect.objectContaining({ key: "item", message: "'ja' plurals use other; never used: one" }),
+    ]);
+    expect(japanese.issues[1].placeholder).toBeUndefined();
+  });
+
+  it("treats plural-looking key suffixes as plain keys outside i18next projects", async () => {
+    tempDir = await copyFixtureToTemp("json-flat");
+    const lang = join(tempDir.path, "src/lang");
+    await writeFile(join(lang, "en.json"), JSON.stringify({ share_one: "Share one", share_other: "Share all" }));
+    await writeFile(join(lang, "ja.json"), JSON.stringify({ share_one: "1つ共有", share_other: "すべて共有" }));
+    const handler = await loadCheckHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["ja"], project_path: tempDir.path })
+    );
+
+    expect(output.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Integration tests for the get_translation_status tool.
+ *
+ * The tool runs entirely locally: handlers read real fixture copies and
+ * the assertions check the reported key sets.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { cp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  copyFixtureToTemp,
+  createTempTestDir,
+  getFixturesPath,
+  type TempTestDir,
+} from "../helpers/temp-directory.js";
+import { hashSourceText } from "../../src/utils/lock-file.js";
+
+type ToolHandler = (args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
+
+async function loadStatusHandler(): Promise<ToolHandler> {
+  const { registerGetTranslationStatus } = await import("../../src/tools/get-translation-status.js");
+  let handler: ToolHandler | undefined;
+  const fakeServer = {
+    tool: (_name: string, _desc: string, _shape: unknown, fn: ToolHandler) => {
+      handler = fn;
+    },
+  } as unknown as McpServer;
+  registerGetTranslationStatus(fakeServer);
+  if (!handler) throw new Error("get_translation_status tool was not registered");
+  return handler;
+}
+
+function parseOutput(result: { content: Array<{ type: "text"; text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe("get_translation_status", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  it("compares FormatJS messages per id, not per defaultMessage/description leaf", async () => {
+    tempDir = await copyFixtureToTemp("react-intl");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(4);
+    expect(output.targets).toEqual([
+      expect.objectContaining({
+        lang: "de",
+        status: "outdated",
+        keys: { total: 2, missing: ["home.greeting", "inbox.unread"], extra: [], outdated_keys: [] },
+      }),
+    ]);
+  });
+
+  it("lists translated keys whose source text changed since the last sync in outdated_keys", async () => {
+    tempDir = await copyFixtureToTemp("json-nested");
+    const handler = await loadStatusHandler();
+    const before = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+    expect(before.targets[0].keys.outdated_keys).toEqual([]);
+
+    const lock = {
+      version: 1,
+      files: {
+        "locales/en.json": {
+          de: {
+            "app.name": hashSourceText("My App"),
+            "auth.login": hashSourceText("Log in"),
+          },
+        },
+      },
+    };
+    await writeFile(join(tempDir.path, "langapi.lock"), JSON.stringify(lock));
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.targets[0].status).toBe("outdated");
+    expect(output.targets[0].keys.outdated_keys).toEqual(["app.name"]);
+    expect(output.targets[0].keys.missing).toEqual(before.targets[0].keys.missing);
+    // Re-translating "My Application" adds two words
+    expect(output.cost_estimate.words_to_translate).toBe(before.cost_estimate.words_to_translate + 2);
+    expect(output.status_semantics).toContain("langapi.lock");
+  });
+
+  it("reads Angular XLF trans-units from the source and translated catalogs", async () => {
+    tempDir = await copyFixtureToTemp("angular");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(3);
+    expect(output.targets[0]).toMatchObject({
+      lang: "de",
+      status: "outdated",
+      keys: { total: 1, missing: ["greeting", "cartCount"], extra: [] },
+    });
+  });
+
+  it("reads JS/TS locale modules without executing them", async () => {
+    tempDir = await copyFixtureToTemp("ts-modules");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(4);
+    expect(output.targets[0].keys.missing).toEqual(["nav.cart", "order-status"]);
+  });
+
+  it("reads .strings files and ignores %@ / %d format specifiers when counting words", async () => {
+    tempDir = await copyFixtureToTemp("ios-strings");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(15);
+    expect(output.targets[0]).toMatchObject({ lang: "de", status: "outdated", keys: { total: 4, extra: [] } });
+    expect(output.targets[0].keys.missing).toHaveLength(11);
+    expect(output.targets[0].keys.missing).toContain("variables.greeting");
+    // "Welcome, !" + "You have items" + "Last login:" among the 11 missing strings
+    expect(output.cost_estimate.words_to_translate).toBe(21);
+  });
+
+  it("counts each .stringsdict plural entry once, with the words of every variant", async () => {
+    tempDir = await copyFixtureToTemp("ios-stringsdict");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+    );
+
+    expect(output.source_keys).toBe(1);
+    expect(output.targets[0].keys.missing).toEqual(["items_count"]);
+    // "You have one item" + "You have many items"
+    expect(output.cost_estimate.words_to_translate).toBe(8);
+  });
+
+  it("reports plural categories a translation lacks or never uses for its language", async () => {
+    tempDir = await copyFixtureToTemp("ios-stringsdict");
+    const source = await readFile(join(tempDir.path, "en.lproj/Localizable.stringsdict"), "utf-8");
+    for (const lang of ["ru", "ja"]) {
+      await mkdir(join(tempDir.path, `${lang}.lproj`));
+      // An English-shaped translation: one/other only
+      await writeFile(join(tempDir.path, `${lang}.lproj/Localizable.stringsdict`), source);
+    }
+    const handler = await loadStatusHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["ru", "ja"], project_path: tempDir.path })
+    );
+
+    expect(output.targets[0].lang).toBe("ru");
+    expect(output.targets[0].plural_issues).toEqual([
+      { key: "items_count", argument: "items", missing: ["few", "many"], superfluous: [] },
+    ]);
+    expect(output.targets[1].plural_issues).toEqual([
+      { key: "items_count", argument: "items", missing: [], superfluous: ["one"] },
+    ]);
+  });
+
+  it("judges i18next plural keys against the target language's plural categories", async () => {
+    tempDir = await copyFixtureToTemp("i18next");
+    const locales = join(tempDir.path, "public/locales");
+    await rm(join(locales, "en/home.json"));
+    await writeFile(
+      join(locales, "en/common.json"),
+      JSON.stringify({ title: "Cart", item_one: "{{count}} item", item_other: "{{count}} items in cart" })
+    );
+    await mkdir(join(locales, "pl"));
+    await writeFile(
+      join(locales, "pl/common.json"),
+      JSON.stringify({ title: "Koszyk", item_one: "{{count}} produkt", item_few: "{{count}} produkty" })
+    );
+    const handler = await loadStatusHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["pl", "ja"], project_path: tempDir.path })
+    );
+
+    const [polish, japanese] = output.targets;
+    expect(polish.keys).toMatchObject({ missing: ["item_many", "item_other"], extra: [] });
+    expect(japanese).toMatchObject({ status: "missing", keys: { missing: ["title", "item_other"] } });
+    // item_many is translated from "items in cart": 3 + 3 (pl) + 1 + 3 (ja)
+    expect(output.cost_estimate.words_to_translate).toBe(10);
+  });
+
+  it("compares plural-looking keys literally outside i18next projects", async () => {
+    tempDir = await copyFixtureToTemp("json-flat");
+    const lang = join(tempDir.path, "src/lang");
+    await writeFile(join(lang, "en.json"), JSON.stringify({ item_one: "One item", item_other: "Items" }));
+    await writeFile(join(lang, "pl.json"), JSON.stringify({ item_one: "Jeden", item_few: "Kilka" }));
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", target_langs: ["pl"], project_path: tempDir.path }));
+
+    expect(output.targets[0].keys).toMatchObject({ missing: ["item_other"], extra: ["item_few"] });
+    expect(output.targets[0].plural_issues).toEqual([]);
+  });
+
+  it("compares the locales next-i18next.config.js declares and flags those without files", async () => {
+    tempDir = await copyFixtureToTemp("i18next");
+    await writeFile(
+      join(tempDir.path, "next-i18next.config.js"),
+      `module.exports = { i18n: { defaultLocale: "en", locales: ["en", "de", "fr", "es"] } };\n`
+    );
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.targets.map((t: { lang: string; status: string }) => [t.lang, t.status])).toEqual([
+      ["de", "outdated"],
+      ["fr", "missing"],
+      ["es", "missing"],
+    ]);
+    expect(output.declared_without_files).toEqual(["fr", "es"]);
+  });
+
+  it("reports String Catalog states and skips strings that should not be translated", async () => {
+    tempDir = await copyFixtureToTemp("ios-xcstrings");
+    const path = join(tempDir.path, "Localizable.xcstrings");
+    const catalog = JSON.parse(await readFile(path, "utf-8"));
+    catalog.strings["app.tagline"].localizations.de.stringUnit.state = "needs_review";
+    catalog.strings["auth.logout"].localizations.de.stringUnit.state = "new";
+    catalog.strings["common.cancel"].shouldTranslate = false;
+    catalog.strings["common.delete"].extractionState = "stale";
+    await writeFile(path, JSON.stringify(catalog));
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(13);
+    const [de] = output.targets;
+    expect(de.keys.total).toBe(3);
+    expect(de.keys.missing).toHaveLength(10);
+    expect(de.keys.missing).toContain("auth.logout");
+    expect(de.keys.missing).not.toContain("common.cancel");
+    expect(de.keys.missing).not.toContain("common.delete");
+    expect(de.keys.outdated_keys).toEqual(["app.tagline"]);
+    expect(de.xcstrings_states).toEqual({
+      counts: { translated: 2, needs_review: 1, new: 1, stale: 0 },
+      needs_review: ["app.tagline"],
+      new: ["auth.logout"],
+      stale: [],
+    });
+  });
+
+  it("does not report ARB @metadata entries as missing translations", async () => {
+    tempDir = await copyFixtureToTemp("flutter-arb");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    expect(output.source_keys).toBe(15);
+    expect(output.targets[0].keys.total).toBe(3);
+    expect(output.targets[0].keys.missing).toHaveLength(12);
+    expect(output.targets[0].keys.missing.some((k: string) => k.startsWith("@"))).toBe(false);
+    expect(output.targets[0].keys.extra).toEqual([]);
+  });
+
+  it("summarizes every workspace package, or reports one package in full", async () => {
+    tempDir = await createTempTestDir();
+    await writeFile(join(tempDir.path, "pnpm-workspace.yaml"), `packages:\n  - "apps/*"\n  - "packages/*"\n`);
+    for (const [path, name, fixture] of [
+      ["apps/web", "@acme/web", "json-nested"],
+      ["packages/ui", "@acme/ui", "react-intl"],
+      ["packages/utils", "@acme/utils", null],
+    ] as const) {
+      await mkdir(join(tempDir.path, path), { recursive: true });
+      if (fixture) await cp(join(getFixturesPath(), fixture), join(tempDir.path, path), { recursive: true });
+      await writeFile(join(tempDir.path, path, "package.json"), JSON.stringify({ name }));
+    }
+    const handler = await loadStatusHandler();
+
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+    expect(output.workspace).toEqual(["pnpm-workspace.yaml"]);
+    expect(output.packages.map((p: { name: string }) => p.name)).toEqual(["@acme/web", "@acme/ui"]);
+    expect(output.packages[1]).toMatchObject({
+      path: "packages/ui",
+      source_lang: "en",
+      source_keys: 4,
+      targets: [{ lang: "de", status: "outdated", missing_keys: 2, outdated_keys: 0 }],
+    });
+    expect(output.cost_estimate.words_to_translate).toBe(
+      output.packages[0].cost_estimate.words_to_translate + output.packages[1].cost_estimate.words_to_translate
+    );
+
+    const ui = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, package: "@acme/ui" }));
+    expect(ui.package).toEqual({ name: "@acme/ui", path: "packages/ui" });
+    expect(ui.targets[0].keys.missing).toEqual(["home.greeting", "inbox.unread"]);
+
+    const missing = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, package: "@acme/api" }));
+    expect(missing).toEqual({
+      success: false,
+      error: { code: "PACKAGE_NOT_FOUND", message: "Package '@acme/api' not found in the workspace" },
+    });
+  });
+
+  it("includes the root project's own locale files and flags packages declaring another source language", async () => {
+    tempDir = await createTempTestDir();
+    await writeFile(join(tempDir.path, "pnpm-workspace.yaml"), `packages:\n  - "apps/*"\n`);
+    await cp(join(getFixturesPath(), "json-nested"), tempDir.path, { recursive: true });
+    await cp(join(getFixturesPath(), "json-flat"), join(tempDir.path, "apps/admin"), { recursive: true });
+    await writeFile(join(tempDir.path, "apps/admin/package.json"), JSON.stringify({ name: "@acme/admin" }));
+    await writeFile(join(tempDir.path, "apps/admin/langapi.config.json"), JSON.stringify({ sourceLang: "de" }));
+    const handler = await loadStatusHandler();
+
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+    expect(output.packages).toEqual([
+      expect.objectContaining({ name: ".", source_lang: "en" }),
+      {
+        name: "@acme/admin",
+        path: "apps/admin",
+        error: "The package's langapi.config.json declares source language 'de', not 'en'",
+      },
+    ]);
+
+    const root = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, package: "." }));
+    expect(root.package).toEqual({ name: ".", path: "." });
+    expect(root.targets.map((t: { lang: string }) => t.lang)).toEqual(["de"]);
+
+    const mismatch = parseOutput(
+      await handler({ source_lang: "en", project_path: tempDir.path, package: "@acme/admin" })
+    );
+    expect(mismatch).toMatchObject({ success: false, error: { code: "SOURCE_LANG_MISMATCH" } });
+
+    const admin = parseOutput(await handler({ source_lang: "de", project_path: tempDir.path, package: "@acme/admin" }));
+    expect(admin.source_lang).toBe("de");
+    expect(admin.targets.map((t: { lang: string }) => t.lang)).toEqual(["en"]);
+  });
+
+  it("compares Shopify theme editor files apart from the storefront translations", async () => {
+    tempDir = await copyFixtureToTemp("shopify");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    // Both en.default.json and en.default.schema.json have a `sections` object
+    expect(output.source_keys).toBe(5);
+    expect(output.targets[0].keys).toEqual({
+      total: 2,
+      missing: ["schema:sections.header.name", "general.cart.view", "sections.header.menu"],
+      extra: [],
+      outdated_keys: [],
+    });
+  });
+
+  it("compares Vue <i18n> messages per component", async () => {
+    tempDir = await copyFixtureToTemp("vue-i18n");
+    await writeFile(
+      join(tempDir.path, "src/components/SiteFooter.vue"),
+      `<i18n lang="json">\n{ "en": { "subscribe": "Sign up" }, "de": { "subscribe": "Anmelden" } }\n</i18n>\n`
+    );
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, target_langs: ["de"] }));
+
+    // SiteFooter's German `subscribe` doesn't translate NewsletterForm's
+    expect(output.targets[0].keys.missing).toEqual([
+      "NewsletterForm:subscribe",
+      "NewsletterForm:privacy.note",
+      "CartButton:items",
+    ]);
+  });
+
+  it("reads Laravel PHP arrays and ignores :placeholders when counting words", async () => {
+    tempDir = await copyFixtureToTemp("laravel");
+    const handler = await loadStatusHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path }));
+
+    // lang/en.json and lang/en/messages.php are separate namespaces
+    expect(output.targets[0].keys.missing).toEqual(["messages:cart.empty", "messages:cart.items", "messages:footer"]);
+    // "Your cart is empty" + "item|[2,*] items" + "Open daily until 10:30 PM"
+    expect(output.cost_estimate.words_to_translate).toBe(11);
+  });
+});
@@ -66,6 +66,135 @@ describe("Sync Helper Functions", () => {
       expect(result).toBe("/project/locales/es-MX/messages.json");
     });
 
+    it("should handle gettext LC_MESSAGES catalogs (en -> pt_BR)", () => {
+      const result = computeTargetFilePath(
+        "/project/locale/en/LC_MESSAGES/messages.po",
+        "en",
+        "pt-BR"
+      );
+      expect(result).toBe("/project/locale/pt_BR/LC_MESSAGES/messages.po");
+    });
+
+    it("should map a gettext .pot template to a per-language .po", () => {
+      const result = computeTargetFilePath("/project/locale/messages.pot", "en", "de");
+      expect(result).toBe("/project/locale/de/LC_MESSAGES/messages.po");
+    });
+
+    it("should handle Android resource qualifiers (values/ -> values-cs/)", () => {
+      const result = computeTargetFilePath(
+        "/project/app/src/main/res/values/strings.xml",
+        "en",
+        "cs"
+      );
+      expect(result).toBe("/project/app/src/main/res/values-cs/strings.xml");
+    });
+
+    it("should handle Rails YAML files (en.yml -> de.yml)", () => {
+      const result = computeTargetFilePath("/project/config/locales/en.yml", "en", "de");
+      expect(result).toBe("/project/config/locales/de.yml");
+    });
+
+    it("should handle Symfony YAML files (messages.en.yaml -> messages.de.yaml)", () => {
+      const result = computeTargetFilePath("/project/translations/messages.en.yaml", "en", "de");
+      expect(result).toBe("/project/translations/messages.de.yaml");
+    });
+
+    it("should handle Java bundle suffixes (messages.properties -> messages_pt_BR.properties)", () => {
+      expect(
+        computeTargetFilePath("/project/src/main/resources/messages.properties", "en", "pt-BR")
+      ).toBe("/project/src/main/resources/messages_pt_BR.properties");
+      expect(
+        computeTargetFilePath("/project/src/main/resources/messages_en.properties", "en", "de")
+      ).toBe("/project/src/main/resources/messages_de.properties");
+    });
+
+    it("should handle .NET culture suffixes (Strings.resx -> Strings.de.resx)", () => {
+      expect(computeTargetFilePath("/project/Resources/Strings.resx", "en", "de")).toBe(
+        "/project/Resources/Strings.de.resx"
+      );
+      expect(computeTargetFilePath("/project/Resources/Strings.en.resx", "en", "zh-Hant")).toBe(
+        "/project/Resources/Strings.zh-Hant.resx"
+      );
+    });
+
+    it("should handle Fluent locale directories (locales/en-US/main.ftl)", () => {
+      expect(computeTargetFilePath("/project/locales/en-US/main.ftl", "en-US", "de")).toBe(
+        "/project/locales/de/main.ftl"
+      );
+    });
+
+    it("should map WebExtension locale directories to underscores (_locales/pt_BR)", () => {
+      expect(computeTargetFilePath("/project/_locales/en/messages.json", "en", "pt-BR")).toBe(
+        "/project/_locales/pt_BR/messages.json"
+      );
+      expect(computeTargetFilePath("/project/_locales/pt_BR/messages.json", "pt-BR", "es-419")).toBe(
+        "/project/_locales/es_419/messages.json"
+      );
+    });
+
+    it("should map Laravel locale directories to underscores (lang/pt_BR)", () => {
+      expect(computeTargetFilePath("/project/lang/en/auth.php", "en", "pt-BR")).toBe(
+        "/project/lang/pt_BR/auth.php"
+      );
+      expect(computeTargetFilePath("/project/lang/en.json", "en", "pt-BR")).toBe("/project/lang/pt-BR.json");
+    });
+
+    it("should keep the module extension for JS/TS locale modules", () => {
+      expect(computeTargetFilePath("/project/src/locales/en.ts", "en", "de")).toBe("/project/src/locales/de.ts");
+      expect(computeTargetFilePath("/project/locales/en/common.js", "en", "fr")).toBe(
+        "/project/locales/fr/common.js"
+      );
+    });
+
+    it("should drop Shopify's .default marker and keep .schema files apart", () => {
+      expect(computeTargetFilePath("/project/locales/en.default.json", "en", "de")).toBe(
+        "/project/locales/de.json"
+      );
+      expect(computeTargetFilePath("/project/locales/en.default.schema.json", "en", "de")).toBe(
+        "/project/locales/de.schema.json"
+      );
+      expect(computeTargetFilePath("/project/locales/de.schema.json", "de", "fr")).toBe(
+        "/project/locales/fr.schema.json"
+      );
+    });
+
+    it("should add a locale suffix to XLF catalogs (messages.xlf -> messages.de.xlf)", () => {
+      expect(computeTargetFilePath("/project/src/locale/messages.xlf", "en", "de")).toBe(
+        "/project/src/locale/messages.de.xlf"
+      );
+      expect(computeTargetFilePath("/project/translations/messages.en.xlf", "en", "fr")).toBe(
+        "/project/translations/messages.fr.xlf"
+      );
+    });
+
+    it("should keep Vue components as their own target (every language in <i18n>)", () => {
+      expect(computeTargetFilePath("/project/src/components/Cart.vue", "en", "de")).toBe(
+        "/project/src/components/Cart.vue"
+      );
+    });
+
+    it("should follow the project config's path template for the file type", () => {
+      const projectConfig = {
+        file: "langapi.config.json",
+        projectPath: "/project",
+        config: { pathTemplates: { json: "web/{lang_underscore}/{file}.json" } },
+      };
+      expect(computeTargetFilePath("/project/random/messages.json", "en", "pt-BR", projectConfig)).toBe(
+        "/project/web/pt_BR/messages.json"
+      );
+      // Other file types keep their conventions; xcstrings still map to themselves
+      expect(computeTargetFilePath("/project/po/en.po", "en", "de", projectConfig)).toBe("/project/po/de.po");
+      expect(computeTargetFilePath("/project/App/Localizable.xcstrings", "en", "de", projectConfig)).toBe(
+        "/project/App/Localizable.xcstrings"
+      );
+    });
+
+    it("should name new Flutter ARB files after the template with an underscore locale", () => {
+      expect(computeTargetFilePath("/project/lib/l10n/intl_en.arb", "en", "pt-BR")).toBe(
+        "/project/lib/l10n/intl_pt_BR.arb"
+      );
+    });
+
     it("should return null when pattern cannot be determined", () => {
       const result = computeTargetFilePath(
         "/project/random/file.json",
@@ -93,6 +222,33 @@ describe("Sync Helper Functions", () => {
       expect(detectFileFormat("/project/Localizable.xcstrings")).toBe("xcstrings");
     });
 
+    it("should detect gettext .po and .pot files", () => {
+      expect(detectFileFormat("/project/locale/de/LC_MESSAGES/messages.po")).toBe("po");
+      expect(detectFileFormat("/project/locale/messages.pot")).toBe("po");
+    });
+
+    it("should detect Android strings.xml files", () => {
+      expect(detectFileFormat("/project/res/values-de/strings.xml")).toBe("android");
+    });
+
+    it("should detect YAML files", () => {
+      expect(detectFileFormat("/project/config/locales/en.yml")).toBe("yaml");
+      expect(detectFileFormat("/project/translations/messages.en.yaml")).toBe("yaml");
+    });
+
+    it("should detect Java .properties and .NET .resx files", () => {
+      expect(detectFileFormat("/project/src/main/resources/messages_de.properties")).toBe("properties");
+      expect(detectFileFormat("/project/Resources/Strings.de.resx")).toBe("resx");
+    });
+
+    it("should detect Fluent .ftl files", () => {
+      expect(detectFileFormat("/project/locales/de/main.ftl")).toBe("fluent");
+    });
+
+    it("should detect WebExtension messages.json files", () => {
+      expect(detectFileFormat("/project/_locales/pt_BR/messages.json")).toBe("webextension");
+    });
+
     it("should default to json for everything else", () => {
       expect(detectFileFormat("/project/locales/en.json")).toBe("json");
       expect(detectFileFormat("/project/locales/en/messages.json")).toBe("json");
@@ -5,14 +5,23 @@
  * tool handler end-to-end: it reads the real fixture files, mocks only the
  * network boundary (POST /api/v1/translate-file), and asserts on what gets
  * written to disk — verifying the thin-client contract (read source +
- * previous translation, send both, write back whatever comes back).
+ * previous translation, send both, write back whatever comes back in the
+ * target file's own formatting).
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { cp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { copyFixtureToTemp, type TempTestDir } from "../helpers/temp-directory.js";
+import {
+  copyFixtureToTemp,
+  createTempTestDir,
+  getFixturesPath,
+  type TempTestDir,
+} from "../helpers/temp-directory.js";
 import { readJsonFixture, readRawFixture, fileExists } from "../helpers/fixture-loader.js";
 import { mockTranslateFileFetch } from "../mocks/api-client.mock.js";
+import { hashSourceText } from "../../src/utils/lock-file.js";
 
 vi.mock("../../src/config/env.js", () => ({
   API_BASE_URL: "https://mock.langapi.io",
@@ -121,7 +130,7 @@ describe("sync_translations (thin client)", () => {
     expect(written).toBe(true);
   });
 
-  it("writes the server's translated_file_content verbatim for each target language", async () => {
+  it("writes the server's translated_file_content for each target language", async () => {
     const handler = await loadSyncTranslationsHandler();
     const result = await handler({
       source_lang: "en",
@@ -143,6 +152,34 @@ describe("sync_translations (thin client)", () => {
     expect((fr.app as Record<string, unknown>).name).toBe("My Application-fr");
   });
 
+  it("records the synced source text in langapi.lock", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de", "fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const lock = await readJsonFixture(tempDir.path, "langapi.lock");
+    const files = lock.files as Record<string, Record<string, Record<string, string>>>;
+    expect(Object.keys(files["locales/en.json"])).toEqual(["de", "fr"]);
+    expect(files["locales/en.json"].de["app.name"]).toBe(hashSourceText("My Application"));
+    expect(Object.keys(files["locales/en.json"].fr)).toHaveLength(15);
+  });
+
+  it("leaves langapi.lock alone on dry runs", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    expect(await fileExists(tempDir.path, "langapi.lock")).toBe(false);
+  });
+
   it("does not write to disk when write_to_files is false", async () => {
     const handler = await loadSyncTranslationsHandler();
     await handler({
@@ -155,6 +192,44 @@ describe("sync_translations (thin client)", () => {
 
     const written = await fileExists(tempDir.path, "locales/fr.json");
     expect(written).toBe(false);
+    expect(await fileExists(tempDir.path, "langapi.lock")).toBe(false);
+  });
+
+  it("takes target languages, path template and glossary from langapi.config.json", async () => {
+    await writeFile(
+      join(tempDir.path, "langapi.config.json"),
+      JSON.stringify({
+        targetLangs: ["fr"],
+        pathTemplates: { json: "translations/{lang}.json" },
+        glossary: "glossary.json",
+      }),
+      "utf-8"
+    );
+    await writeFile(
+      join(tempDir.path, "glossary.json"),
+      JSON.stringify({ doNotTranslate: [{ term: "LangAPI" }] }),
+      "utf-8"
+    );
+
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, dry_run: false }));
+
+    expect(output.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.target_lang).toBe("fr");
+    expect(body.glossary).toEqual([expect.objectContaining({ source_text: "LangAPI", target_text: "LangAPI" })]);
+    expect(await fileExists(tempDir.path, "translations/fr.json")).toBe(true);
+    expect(await fileExists(tempDir.path, "locales/fr.json")).toBe(false);
+  });
+
+  it("returns an error when neither the call nor the project config names target languages", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, dry_run: true }));
+
+    expect(output.success).toBe(false);
+    expect(output.error.code).toBe("NO_TARGET_LANGUAGES");
   });
 
   it("returns an error when the source language is not found", async () => {
@@ -172,6 +247,75 @@ describe("sync_translations (thin client)", () => {
   });
 });
 
+describe("sync_translations (JSON format preservation)", () => {
+  let tempDir: TempTestDir;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("json-nested");
+    vi.stubGlobal("fetch", vi.fn(mockTranslateFileFetch));
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  async function sync(targetLang: string): Promise<void> {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: [targetLang],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+  }
+
+  it("keeps the existing target's indentation and missing trailing newline", async () => {
+    await writeFile(
+      join(tempDir.path, "locales/de.json"),
+      JSON.stringify({ app: { name: "Meine Anwendung" } }, null, 4)
+    );
+    await sync("de");
+
+    const de = await readRawFixture(tempDir.path, "locales/de.json");
+    expect(de.startsWith('{\n    "app": {\n        "name": "My Application-de",\n')).toBe(true);
+    expect(de.endsWith("\n}")).toBe(true);
+  });
+
+  it("keeps the existing target's key order, adding new keys after it", async () => {
+    await writeFile(
+      join(tempDir.path, "locales/de.json"),
+      JSON.stringify({ auth: { logout: "Abmelden", login: "Anmelden" }, app: { name: "Meine Anwendung" } }, null, 2) +
+        "\n"
+    );
+    await sync("de");
+
+    const de = await readJsonFixture(tempDir.path, "locales/de.json");
+    expect(Object.keys(de)).toEqual(["auth", "app", "common", "errors", "variables"]);
+    expect(Object.keys(de.auth as Record<string, unknown>)).toEqual(["logout", "login", "signup", "forgot_password"]);
+  });
+
+  it("keeps a flat, tab-indented target flat", async () => {
+    await writeFile(join(tempDir.path, "locales/de.json"), '{\n\t"app.name": "Meine Anwendung"\n}\n');
+    await sync("de");
+
+    const de = await readRawFixture(tempDir.path, "locales/de.json");
+    expect(de.startsWith('{\n\t"app.name": "My Application-de",\n\t"app.tagline": ')).toBe(true);
+    expect(JSON.parse(de)["auth.login"]).toBe("Log in-de");
+  });
+
+  it("formats a new language like the source file", async () => {
+    const source = await readJsonFixture(tempDir.path, "locales/en.json");
+    await writeFile(join(tempDir.path, "locales/en.json"), JSON.stringify(source, null, "\t"));
+    await sync("fr");
+
+    const fr = await readRawFixture(tempDir.path, "locales/fr.json");
+    expect(fr.startsWith('{\n\t"app": {\n\t\t"name": "My Application-fr",')).toBe(true);
+    expect(fr.endsWith("}")).toBe(true);
+  });
+});
+
 describe("sync_translations (xcstrings — single file for all locales)", () => {
   let tempDir: TempTestDir;
   let fetchMock: ReturnType<typeof vi.fn>;
@@ -213,6 +357,30 @@ describe("sync_translations (xcstrings — single file for all locales)", () =>
     expect(parsed.strings[anyKey].localizations.de).toBeDefined();
   });
 
+  it("sends needs_review translations as untranslated when retranslate_needs_review is set", async () => {
+    const path = join(tempDir.path, "Localizable.xcstrings");
+    const catalog = JSON.parse(await readFile(path, "utf-8"));
+    catalog.strings["app.tagline"].localizations.de.stringUnit.state = "needs_review";
+    await writeFile(path, JSON.stringify(catalog));
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path, dry_run: true });
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+      retranslate_needs_review: true,
+    });
+
+    const [kept, retranslated] = fetchMock.mock.calls.map(([, init]) =>
+      JSON.parse(JSON.parse((init as RequestInit).body as string).previous_target_file_content)
+    );
+    expect(kept.strings["app.tagline"].localizations.de).toBeDefined();
+    expect(retranslated.strings["app.tagline"].localizations.de).toBeUndefined();
+    expect(retranslated.strings["app.name"].localizations.de).toBeDefined();
+  });
+
   it("preserves earlier languages when syncing multiple locales into one file (#4)", async () => {
     const handler = await loadSyncTranslationsHandler();
     await handler({
@@ -291,6 +459,22 @@ describe("sync_translations (arb — Flutter .arb files)", () => {
     expect(de["@@locale"]).toBe("de");
   });
 
+  it("keeps the existing arb file's indentation", async () => {
+    const existing = await readJsonFixture(tempDir.path, "lib/l10n/app_de.arb");
+    await writeFile(join(tempDir.path, "lib/l10n/app_de.arb"), JSON.stringify(existing, null, 4) + "\n");
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const de = await readRawFixture(tempDir.path, "lib/l10n/app_de.arb");
+    expect(de).toMatch(/^\{\n    "/);
+    expect(JSON.parse(de).appName).toBe("My Application-de");
+  });
+
   it("creates a brand new arb file for a language not yet present", async () => {
     const handler = await loadSyncTranslationsHandler();
     await handler({
@@ -364,6 +548,49 @@ describe("sync_translations (strings — iOS .strings files)", () => {
     const fr = await readRawFixture(tempDir.path, "fr.lproj/Localizable.strings");
     expect(fr).toContain('"app.name" = "My Application-fr";');
   });
+
+  it("offers to register new languages in the Xcode project's knownRegions", async () => {
+    await mkdir(join(tempDir.path, "App.xcodeproj"));
+    const pbxproj = join(tempDir.path, "App.xcodeproj/project.pbxproj");
+    const project = `{
+	objects = {
+		83CBB9F71A601CBA00E9B192 /* Project object */ = {
+			isa = PBXProject;
+			developmentRegion = en;
+			knownRegions = (
+				en,
+				Base,
+				de,
+			);
+		};
+	};
+}
+`;
+    await writeFile(pbxproj, project);
+    const handler = await loadSyncTranslationsHandler();
+
+    const preview = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["de", "pt-BR"], project_path: tempDir.path })
+    );
+    expect(preview.known_regions).toEqual({
+      languages: ["pt-BR"],
+      projects: ["App.xcodeproj/project.pbxproj"],
+      registered: false,
+    });
+    expect(preview.message).toContain("register_known_regions=true");
+
+    const output = parseOutput(
+      await handler({
+        source_lang: "en",
+        target_langs: ["de", "pt-BR"],
+        project_path: tempDir.path,
+        dry_run: false,
+        register_known_regions: true,
+      })
+    );
+    expect(output.known_regions).toMatchObject({ languages: ["pt-BR"], registered: true });
+    expect(await readFile(pbxproj, "utf-8")).toBe(project.replace("\t\t\t\tde,\n", '\t\t\t\tde,\n\t\t\t\t"pt-BR",\n'));
+  });
 });
 
 describe("sync_translations (i18next — directory-per-locale JSON)", () => {
@@ -485,3 +712,869 @@ describe("sync_translations (stringsdict — iOS .stringsdict plurals)", () => {
     expect(await fileExists(tempDir.path, "de.lproj/Localizable.stringsdict")).toBe(false);
   });
 });
+
+describe("sync_translations (android — res/values*/strings.xml)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("android");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=android and threads the existing values-de translation", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    // values-night/ is a theme qualifier, not a locale — only values/ is synced.
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("android");
+    expect(body.previous_target_file_content).toContain("Anmelden");
+  });
+
+  it("creates a qualifier directory for a brand new language", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["cs", "pt-BR"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const cs = await readRawFixture(tempDir.path, "app/src/main/res/values-cs/strings.xml");
+    expect(cs).toContain('<string name="auth_login">Log in-cs</string>');
+    expect(cs).toContain('<string name="app_name" translatable="false">LangAPI Sample</string>');
+    expect(await fileExists(tempDir.path, "app/src/main/res/values-pt-rBR/strings.xml")).toBe(true);
+  });
+
+  it("translates each target once when values/ and values-en/ map to it", async () => {
+    const res = join(tempDir.path, "app/src/main/res");
+    await mkdir(join(res, "values-en"));
+    await writeFile(join(res, "values-en/strings.xml"), await readFile(join(res, "values/strings.xml")));
+    await writeFile(join(res, "values/colors.xml"), '<resources>\n    <color name="primary">#6200EE</color>\n</resources>\n');
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, dry_run: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await fileExists(tempDir.path, "app/src/main/res/values-fr/strings.xml")).toBe(true);
+    expect(await fileExists(tempDir.path, "app/src/main/res/values-fr/colors.xml")).toBe(false);
+  });
+});
+
+describe("sync_translations (yaml — Rails config/locales)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("rails-yaml");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=yaml and roots the written file at the target language", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("yaml");
+
+    const fr = await readRawFixture(tempDir.path, "config/locales/fr.yml");
+    expect(fr.startsWith("fr:\n")).toBe(true);
+    expect(fr).toContain('login: "Log in-fr"');
+  });
+});
+
+describe("sync_translations (gettext — locale/*/LC_MESSAGES/*.po)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const catalog = (msgstr: string) => `msgid ""\nmsgstr ""\n"Content-Type: text/plain; charset=UTF-8\\n"\n\nmsgid "Log in"\nmsgstr "${msgstr}"\n`;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir();
+    await writeFile(join(tempDir.path, "babel.cfg"), "[python: **.py]\n");
+    await mkdir(join(tempDir.path, "locale/en/LC_MESSAGES"), { recursive: true });
+    await writeFile(join(tempDir.path, "locale/messages.pot"), catalog(""));
+    await writeFile(join(tempDir.path, "locale/en/LC_MESSAGES/messages.po"), catalog("Log in"));
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("translates each target once when the .pot and the source .po map to it", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["de", "fr"], project_path: tempDir.path, dry_run: false })
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(output.results.map((r: { language: string }) => r.language)).toEqual(["de", "fr"]);
+    // The template is the source
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.source_file_content).toContain('msgid "Log in"\nmsgstr ""');
+    const de = await readRawFixture(tempDir.path, "locale/de/LC_MESSAGES/messages.po");
+    expect(de).toContain('msgstr "Log in-de"');
+  });
+});
+
+describe("sync_translations (properties — Java resource bundles)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("java-properties");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=properties and decodes an ISO-8859-1 previous translation", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("properties");
+    expect(body.source_file_content).toContain("common.cafe=Café");
+    expect(body.previous_target_file_content).toContain("Speichern für später");
+  });
+
+  it("writes a suffixed bundle for a new language", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["pt-BR"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const pt = await readRawFixture(tempDir.path, "src/main/resources/messages_pt_BR.properties");
+    expect(pt).toContain("app.title=My Application-pt-BR");
+    expect(pt).toContain("common.cafe=Café-pt-BR");
+  });
+
+  it("keeps an ISO-8859-1 bundle ASCII-only with \\uXXXX escapes", async () => {
+    const sourcePath = join(tempDir.path, "src/main/resources/messages.properties");
+    await writeFile(sourcePath, Buffer.from(await readFile(sourcePath, "utf-8"), "latin1"));
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const fr = await readRawFixture(tempDir.path, "src/main/resources/messages_fr.properties");
+    expect(fr).toContain("common.cafe=Caf\\u00e9-fr");
+  });
+
+  it("keeps a bundle that writes \\uXXXX escapes ASCII-only", async () => {
+    const sourcePath = join(tempDir.path, "src/main/resources/messages.properties");
+    await writeFile(sourcePath, `${await readFile(sourcePath, "utf-8")}\ncommon.greeting=Gr\\u00fc\\u00dfe\n`);
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const fr = await readRawFixture(tempDir.path, "src/main/resources/messages_fr.properties");
+    expect(fr).toContain("common.cafe=Caf\\u00e9-fr");
+    expect(fr).toContain("common.greeting=Gr\\u00fc\\u00dfe");
+  });
+
+  it("keeps \\uXXXX escapes in a target bundle written with them", async () => {
+    await writeFile(
+      join(tempDir.path, "src/main/resources/messages_de.properties"),
+      "app.title=Meine Anwendung\ncommon.save=Speichern f\\u00fcr sp\\u00e4ter\n"
+    );
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const de = await readRawFixture(tempDir.path, "src/main/resources/messages_de.properties");
+    expect(de).toContain("common.cafe=Caf\\u00e9-de");
+    expect(de).not.toMatch(/[^\x00-\x7f]/);
+  });
+
+  it("translates each target once when messages.properties and messages_en.properties map to it", async () => {
+    const resources = join(tempDir.path, "src/main/resources");
+    await writeFile(join(resources, "messages_en.properties"), await readFile(join(resources, "messages.properties")));
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, dry_run: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await fileExists(tempDir.path, "src/main/resources/messages_fr.properties")).toBe(true);
+  });
+});
+
+describe("sync_translations (resx — .NET resources)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("dotnet-resx");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=resx and writes a culture-suffixed file", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de", "fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("resx");
+    expect(body.previous_target_file_content).toContain("Anmelden");
+
+    const fr = await readRawFixture(tempDir.path, "Resources/Strings.fr.resx");
+    expect(fr).toContain("<value>Log in-fr</value>");
+  });
+
+  it("translates each target once when Strings.resx and Strings.en.resx map to it", async () => {
+    const resources = join(tempDir.path, "Resources");
+    await writeFile(join(resources, "Strings.en.resx"), await readFile(join(resources, "Strings.resx")));
+
+    const handler = await loadSyncTranslationsHandler();
+    await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, dry_run: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await fileExists(tempDir.path, "Resources/Strings.fr.resx")).toBe(true);
+  });
+});
+
+describe("sync_translations (fluent — locales/{lang}/*.ftl)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("fluent");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=fluent with the existing translation and writes a new locale directory", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en-US",
+      target_langs: ["de", "fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("fluent");
+    expect(body.previous_target_file_content).toContain("login-button = Anmelden");
+
+    const fr = await readRawFixture(tempDir.path, "locales/fr/main.ftl");
+    expect(fr).toContain("    .placeholder = you@example.com-fr");
+    expect(fr).toContain("       *[other] You have { $count } unread messages.-fr");
+    expect(fr).toContain("-brand-name = Acme\n");
+  });
+});
+
+describe("sync_translations (webextension — _locales/*/messages.json)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("webextension");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends file_format=webextension and threads the underscore locale directory", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["pt-BR"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("webextension");
+    expect(body.previous_target_file_content).toContain("Salvador de Abas");
+  });
+
+  it("writes a new locale with only messages translated", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["zh-CN"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const zh = await readJsonFixture(tempDir.path, "_locales/zh_CN/messages.json");
+    expect(zh.greeting).toEqual({
+      message: "Hello, $USER$!-zh-CN",
+      description: "Shown at the top of the popup",
+      placeholders: { user: { content: "$1", example: "Cira" } },
+    });
+  });
+});
+
+describe("sync_translations (formatjs — react-intl extracted messages)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("react-intl");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends extracted messages as file_format=formatjs and skips compiled output", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.file_format).toBe("formatjs");
+
+    const fr = await readJsonFixture(tempDir.path, "lang/fr.json");
+    expect(fr["home.greeting"]).toEqual({
+      defaultMessage: "Welcome back, {name}!-fr",
+      description: "Greeting on the home page",
+    });
+    expect(await fileExists(tempDir.path, "compiled-lang/fr.json")).toBe(false);
+  });
+});
+
+describe("sync_translations (laravel — lang/*/*.php)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("laravel");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends PHP language files to the server as JSON", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    const php = bodies.find((b) => "cart" in JSON.parse(b.source_file_content));
+    expect(php.file_format).toBe("json");
+    expect(JSON.parse(php.source_file_content).footer).toBe("Open daily until 10:30 PM");
+    expect(JSON.parse(php.previous_target_file_content)).toEqual({ welcome: "Willkommen zurück, :name!" });
+  });
+
+  it("writes new locales as PHP arrays under an underscore locale directory", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["pt-BR"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const php = await readRawFixture(tempDir.path, "lang/pt_BR/messages.php");
+    expect(php.startsWith("<?php\n\nreturn [\n    'welcome' => 'Welcome back, :name!-pt-BR',\n")).toBe(true);
+    expect(php).toContain("        'empty' => 'Your cart is empty-pt-BR',\n");
+    expect(await readJsonFixture(tempDir.path, "lang/pt-BR.json")).toEqual({ Checkout: "Checkout-pt-BR" });
+  });
+
+  it("refuses PHP it would have to execute", async () => {
+    await writeFile(
+      join(tempDir.path, "lang/en/messages.php"),
+      "<?php\n\nreturn ['year' => date('Y')];\n"
+    );
+    const handler = await loadSyncTranslationsHandler();
+    const result = await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const output = JSON.parse(result.content[0].text);
+    expect(output.success).toBe(false);
+    expect(output.error.code).toBe("PARSE_ERROR");
+    expect(output.error.message).toContain("lang/en/messages.php");
+  });
+});
+
+describe("sync_translations (ts-modules — src/locales/en.ts)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("ts-modules");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends module messages to the server as JSON", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.file_format).toBe("json");
+    expect(JSON.parse(body.source_file_content)["order-status"]).toBe("Your order hasn't shipped yet");
+    expect(JSON.parse(body.previous_target_file_content)).toEqual({
+      nav: { home: "Startseite" },
+      welcome: "Willkommen zurück!",
+    });
+  });
+
+  it("writes new modules with the source's wrapper and quote style", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const fr = await readRawFixture(tempDir.path, "src/locales/fr.ts");
+    expect(fr.startsWith("// Source messages; other locales are typed against this module\nexport default {\n")).toBe(
+      true
+    );
+    expect(fr).toContain("    home: 'Home-fr',\n");
+    expect(fr).toContain("  'order-status': 'Your order hasn\\'t shipped yet-fr',\n");
+    expect(fr.endsWith("} as const;\n")).toBe(true);
+  });
+
+  it("refuses modules it would have to execute", async () => {
+    await writeFile(
+      join(tempDir.path, "src/locales/en.ts"),
+      "export default { year: String(new Date().getFullYear()) } as const;\n"
+    );
+    const handler = await loadSyncTranslationsHandler();
+    const result = await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const output = JSON.parse(result.content[0].text);
+    expect(output.success).toBe(false);
+    expect(output.error.code).toBe("PARSE_ERROR");
+    expect(output.error.message).toContain("src/locales/en.ts");
+  });
+});
+
+describe("sync_translations (shopify — locales/en.default.json)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("shopify");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("pairs storefront and schema files with their existing translations", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const previous = fetchMock.mock.calls.map(
+      ([, init]) => JSON.parse((init as RequestInit).body as string).previous_target_file_content
+    );
+    expect(previous).toEqual(
+      expect.arrayContaining([expect.stringContaining("Mit Passwort"), expect.stringContaining("Farben")])
+    );
+  });
+
+  it("writes new locales without the .default marker", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const storefront = await readJsonFixture(tempDir.path, "locales/fr.json");
+    expect(storefront.sections).toEqual({ header: { menu: "Menu-fr" } });
+    const schema = await readJsonFixture(tempDir.path, "locales/fr.schema.json");
+    expect(schema.sections).toEqual({ header: { name: "Header-fr" } });
+    expect(await fileExists(tempDir.path, "locales/fr.default.json")).toBe(false);
+  });
+});
+
+describe("sync_translations (vue-i18n — SFC <i18n> blocks)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("vue-i18n");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends one language of a component's messages as JSON", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    const cart = bodies.find((b) => b.source_file_content.includes("Add to cart"));
+    expect(JSON.parse(cart.source_file_content)).toEqual({
+      add: "Add to cart",
+      items: "no items | one item | {n} items",
+    });
+    expect(JSON.parse(cart.previous_target_file_content)).toEqual({ add: "In den Warenkorb" });
+  });
+
+  it("rewrites only the <i18n> blocks, threading every target language", async () => {
+    const original = await readRawFixture(tempDir.path, "src/components/CartButton.vue");
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr", "cs"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const cart = await readRawFixture(tempDir.path, "src/components/CartButton.vue");
+    const blockStart = original.indexOf("<i18n lang");
+    expect(cart.slice(0, blockStart)).toBe(original.slice(0, blockStart));
+    expect(cart.endsWith("</i18n>\n\n<style scoped>\nbutton { color: red; }\n</style>\n")).toBe(true);
+    expect(cart).toContain('    "fr": {\n        "add": "Add to cart-fr",');
+    expect(cart).toContain('    "cs": {\n        "add": "Add to cart-cs",');
+
+    const newsletter = await readRawFixture(tempDir.path, "src/components/NewsletterForm.vue");
+    expect(newsletter).toContain('<i18n locale="fr" lang="yaml">\nsubscribe: Subscribe-fr\n');
+    expect(newsletter).toContain('<i18n locale="cs" lang="yaml">\nsubscribe: Subscribe-cs\n');
+    expect(await fileExists(tempDir.path, "src/locales/fr.json")).toBe(true);
+  });
+});
+
+describe("sync_translations (angular — XLF catalogs)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await copyFixtureToTemp("angular");
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("sends trans-units as JSON with placeholder tokens", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["de"],
+      project_path: tempDir.path,
+      dry_run: true,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(JSON.parse(body.source_file_content)).toEqual({
+      homeTitle: "Welcome to the shop",
+      greeting: "Hello, {INTERPOLATION}! {START_BOLD_TEXT}New{CLOSE_BOLD_TEXT} deals & more",
+      cartCount: "{VAR_PLURAL, plural, =0 {Your cart is empty} =1 {One item} other {{INTERPOLATION} items}}",
+    });
+    expect(JSON.parse(body.previous_target_file_content)).toEqual({ homeTitle: "Willkommen im Shop" });
+  });
+
+  it("writes a per-locale catalog that keeps unit ids and context groups", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    await handler({
+      source_lang: "en",
+      target_langs: ["fr"],
+      project_path: tempDir.path,
+      dry_run: false,
+    });
+
+    const fr = await readRawFixture(tempDir.path, "src/locale/messages.fr.xlf");
+    expect(fr).toContain('<file source-language="en" target-language="fr" datatype="plaintext" original="ng2.template">');
+    expect(fr).toContain(
+      '<target state="translated">Hello, <x id="INTERPOLATION" equiv-text="{{ name }}"/>! ' +
+        '<x id="START_BOLD_TEXT" ctype="x-b" equiv-text="&lt;b&gt;"/>New' +
+        '<x id="CLOSE_BOLD_TEXT" ctype="x-b" equiv-text="&lt;/b&gt;"/> deals &amp; more-fr</target>'
+    );
+    expect(fr).toContain('<context context-type="sourcefile">src/app/cart.component.html</context>');
+    expect(fr.match(/<trans-unit id="(\w+)"/g)).toEqual([
+      '<trans-unit id="homeTitle"',
+      '<trans-unit id="greeting"',
+      '<trans-unit id="cartCount"',
+    ]);
+    // The source catalog itself is untouched
+    expect(await readRawFixture(tempDir.path, "src/locale/messages.xlf")).not.toContain("<target");
+  });
+});
+
+describe("sync_translations (workspace — pnpm monorepo packages)", () => {
+  let tempDir: TempTestDir;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    tempDir = await createTempTestDir();
+    await writeFile(join(tempDir.path, "pnpm-workspace.yaml"), `packages:\n  - "apps/*"\n`);
+    for (const [path, fixture] of [
+      ["apps/admin", "json-flat"],
+      ["apps/web", "json-nested"],
+    ]) {
+      await cp(join(getFixturesPath(), fixture), join(tempDir.path, path), { recursive: true });
+      await writeFile(join(tempDir.path, path, "package.json"), JSON.stringify({ name: `@acme/${path.slice(5)}` }));
+    }
+    fetchMock = vi.fn(mockTranslateFileFetch);
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("previews every package with a result per package", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(await handler({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path }));
+
+    expect(output).toMatchObject({ success: true, dry_run: true, workspace: ["pnpm-workspace.yaml"] });
+    expect(output.packages.map((p: { name: string; success: boolean }) => [p.name, p.success])).toEqual([
+      ["@acme/admin", true],
+      ["@acme/web", true],
+    ]);
+    expect(output.summary).toEqual({
+      packages: 2,
+      credits: output.packages[0].summary.credits_required + output.packages[1].summary.credits_required,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("syncs only the package named by the filter", async () => {
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(
+      await handler({
+        source_lang: "en",
+        target_langs: ["fr"],
+        project_path: tempDir.path,
+        package: "apps/web",
+        dry_run: false,
+      })
+    );
+
+    expect(output.success).toBe(true);
+    expect(output.results).toHaveLength(1);
+    expect(await fileExists(tempDir.path, "apps/web/locales/fr.json")).toBe(true);
+    expect(await fileExists(tempDir.path, "apps/admin/locales/fr.json")).toBe(false);
+    expect(await fileExists(tempDir.path, "apps/web/langapi.lock")).toBe(true);
+
+    const missing = parseOutput(await handler({ source_lang: "en", project_path: tempDir.path, package: "@acme/api" }));
+    expect(missing.error.code).toBe("PACKAGE_NOT_FOUND");
+  });
+
+  it("syncs the root project's own locale files along with the packages", async () => {
+    await cp(join(getFixturesPath(), "json-nested"), tempDir.path, { recursive: true });
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(await handler({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path }));
+
+    expect(output.packages.map((p: { name: string; path: string }) => [p.name, p.path])).toEqual([
+      [".", "."],
+      ["@acme/admin", "apps/admin"],
+      ["@acme/web", "apps/web"],
+    ]);
+    // The packages' files are theirs, not the root project's
+    expect(output.packages[0].per_language.map((l: { file: string }) => l.file)).toEqual(["locales/en.json"]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const root = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, package: ".", dry_run: false })
+    );
+    expect(root.success).toBe(true);
+    expect(await fileExists(tempDir.path, "locales/fr.json")).toBe(true);
+    expect(await fileExists(tempDir.path, "apps/web/locales/fr.json")).toBe(false);
+  });
+
+  it("rejects a source_lang other than the one a package's config declares", async () => {
+    await writeFile(join(tempDir.path, "apps/admin/langapi.config.json"), JSON.stringify({ sourceLang: "de" }));
+    const handler = await loadSyncTranslationsHandler();
+    const mismatch = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, package: "@acme/admin" })
+    );
+    expect(mismatch).toEqual({
+      success: false,
+      error: {
+        code: "SOURCE_LANG_MISMATCH",
+        message: "The package's langapi.config.json declares source language 'de', not 'en'",
+      },
+    });
+
+    // Across the workspace, nothing is synced until every package agrees
+    const workspace = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, dry_run: false })
+    );
+    expect(workspace).toMatchObject({
+      success: false,
+      packages: [{ name: "@acme/admin", success: false, error: { code: "SOURCE_LANG_MISMATCH" } }],
+      not_synced: ["apps/web"],
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const output = parseOutput(
+      await handler({ source_lang: "de", target_langs: ["fr"], project_path: tempDir.path, package: "@acme/admin" })
+    );
+    expect(output.success).toBe(true);
+    expect(output.per_language.map((l: { language: string; file: string }) => [l.language, l.file])).toEqual([
+      ["fr", "src/lang/de.json"],
+    ]);
+  });
+
+  it("stops at the first package that fails", async () => {
+    await rm(join(tempDir.path, "apps/admin/src/lang/en.json"));
+    const handler = await loadSyncTranslationsHandler();
+    const output = parseOutput(
+      await handler({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path, dry_run: false })
+    );
+
+    expect(output.success).toBe(false);
+    expect(output.packages).toEqual([
+      expect.objectContaining({
+        name: "@acme/admin",
+        success: false,
+        error: expect.objectContaining({ code: "SOURCE_NOT_FOUND" }),
+      }),
+    ]);
+    expect(output.not_synced).toEqual(["apps/web"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Integration tests for the export_xliff / import_xliff tools.
+ *
+ * Both tools run entirely locally, so nothing is mocked: the handlers read
+ * real fixture copies and the assertions check the XLIFF and locale files
+ * they leave on disk.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { copyFixtureToTemp, type TempTestDir } from "../helpers/temp-directory.js";
+import { readJsonFixture, fileExists } from "../helpers/fixture-loader.js";
+import { parseXliffContent } from "../../src/utils/xliff.js";
+import { hashSourceText } from "../../src/utils/lock-file.js";
+
+type ToolHandler = (args: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
+
+async function loadHandler(name: "export_xliff" | "import_xliff"): Promise<ToolHandler> {
+  const { registerExportXliff } = await import("../../src/tools/export-xliff.js");
+  const { registerImportXliff } = await import("../../src/tools/import-xliff.js");
+  const handlers = new Map<string, ToolHandler>();
+  const fakeServer = {
+    tool: (toolName: string, _desc: string, _shape: unknown, fn: ToolHandler) => {
+      handlers.set(toolName, fn);
+    },
+  } as unknown as McpServer;
+  registerExportXliff(fakeServer);
+  registerImportXliff(fakeServer);
+  const handler = handlers.get(name);
+  if (!handler) throw new Error(`${name} tool was not registered`);
+  return handler;
+}
+
+function parseOutput(result: { content: Array<{ type: "text"; text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+/**
+ * Mark every unit of an exported XLIFF 1.2 file as translated + approved
+ */
+function approveAll(xml: string, translate: (source: string) => string): string {
+  return xml.replace(
+    /(<trans-unit\b[^>]*)>(\s*<source>([\s\S]*?)<\/source>\s*)<target state="new"\/>/g,
+    (_, open: string, source: string, text: string) =>
+      `${open} approved="yes">${source}<target state="final">${translate(text)}</target>`
+  );
+}
+
+describe("XLIFF tools", () => {
+  let tempDir: TempTestDir;
+
+  afterEach(async () => {
+    await tempDir.cleanup();
+  });
+
+  describe("JSON", () => {
+    it("exports only the keys the target is missing", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+      );
+
+      expect(output.success).toBe(true);
+      expect(output.files).toHaveLength(1);
+      expect(output.files[0].file).toBe(join(tempDir.path, "xliff", "de.xlf"));
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      expect(doc?.sourceLang).toBe("en");
+      expect(doc?.targetLang).toBe("de");
+      expect(doc?.files[0].original).toBe("locales/en.json");
+      const keys = doc?.files[0].units.map((u) => u.key);
+      expect(keys).toContain("auth.signup");
+      expect(keys).not.toContain("auth.login");
+      expect(doc?.files[0].units.every((u) => u.state === "initial")).toBe(true);
+    });
+
+    it("includes existing translations with include='all'", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({
+          source_lang: "en",
+          target_langs: ["de"],
+          project_path: tempDir.path,
+          include: "all",
+          xliff_version: "2.0",
+        })
+      );
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      expect(doc?.version).toBe("2.0");
+      const login = doc?.files[0].units.find((u) => u.key === "auth.login");
+      expect(login).toMatchObject({ source: "Log in", target: "Anmelden", state: "translated" });
+    });
+
+    it("round-trips approved units back into the locale file", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const exportXliff = await loadHandler("export_xliff");
+      const importXliff = await loadHandler("import_xliff");
+
+      const exported = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+      );
+      const xliffPath = exported.files[0].file;
+      await writeFile(xliffPath, approveAll(await readFile(xliffPath, "utf-8"), (s) => `DE ${s}`));
+
+      const preview = parseOutput(await importXliff({ xliff_file: "xliff/de.xlf", project_path: tempDir.path }));
+      expect(preview.dry_run).toBe(true);
+      expect(preview.files[0].imported).toBe(exported.files[0].units);
+      expect(await readJsonFixture(tempDir.path, "locales/de.json")).not.toHaveProperty("common");
+
+      const result = parseOutput(
+        await importXliff({ xliff_file: "xliff/de.xlf", project_path: tempDir.path, dry_run: false })
+      );
+      expect(result.files[0].target_file).toBe(join(tempDir.path, "locales/de.json"));
+
+      const de = await readJsonFixture(tempDir.path, "locales/de.json");
+      expect(de).toMatchObject({
+        app: { name: "Meine Anwendung", tagline: "DE Build something amazing" },
+        auth: { login: "Anmelden", signup: "DE Sign up" },
+        common: { save: "DE Save" },
+      });
+      expect(Object.keys(de)).toEqual(["app", "auth", "common", "errors", "variables"]);
+    });
+
+    it("skips units below min_state", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const importXliff = await loadHandler("import_xliff");
+      await writeFile(
+        join(tempDir.path, "de.xlf"),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2">
+  <file original="locales/en.json" source-language="en" target-language="de">
+    <body>
+      <trans-unit id="common.save"><source>Save</source><target state="translated">Speichern</target></trans-unit>
+      <trans-unit id="common.cancel"><source>Cancel</source><target state="final">Abbrechen</target></trans-unit>
+    </body>
+  </file>
+</xliff>
+`
+      );
+
+      const result = parseOutput(
+        await importXliff({ xliff_file: "de.xlf", project_path: tempDir.path, dry_run: false })
+      );
+
+      expect(result.units_below_min_state).toBe(1);
+      const de = await readJsonFixture(tempDir.path, "locales/de.json");
+      expect(de.common).toEqual({ cancel: "Abbrechen" });
+    });
+
+    it("ignores <file> entries that point outside the project", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const importXliff = await loadHandler("import_xliff");
+      await writeFile(
+        join(tempDir.path, "de.xlf"),
+        `<xliff version="1.2"><file original="../outside/en.json" source-language="en" target-language="de"><body>
+<trans-unit id="a" approved="yes"><source>A</source><target>B</target></trans-unit>
+</body></file></xliff>`
+      );
+
+      const result = parseOutput(
+        await importXliff({ xliff_file: "de.xlf", project_path: tempDir.path, dry_run: false })
+      );
+      expect(result.files).toEqual([]);
+    });
+
+    it("rejects an XLIFF file outside the project", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      const importXliff = await loadHandler("import_xliff");
+
+      const result = parseOutput(await importXliff({ xliff_file: "../de.xlf", project_path: tempDir.path }));
+      expect(result).toEqual({
+        success: false,
+        error: { code: "INVALID_PATH", message: "XLIFF file '../de.xlf' is outside the project" },
+      });
+    });
+  });
+
+  describe("Apple .strings", () => {
+    it("exports comments as notes and imports into the .lproj file", async () => {
+      tempDir = await copyFixtureToTemp("ios-strings");
+      const exportXliff = await loadHandler("export_xliff");
+      const importXliff = await loadHandler("import_xliff");
+
+      const exported = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["fr"], project_path: tempDir.path })
+      );
+      const xliffPath = exported.files[0].file;
+      const doc = parseXliffContent(await readFile(xliffPath, "utf-8"));
+      expect(doc?.files[0].units.find((u) => u.key === "common.save")?.notes).toEqual(["Common section"]);
+
+      await writeFile(xliffPath, approveAll(await readFile(xliffPath, "utf-8"), (s) => `FR ${s}`));
+      await importXliff({ xliff_file: xliffPath, project_path: tempDir.path, dry_run: false });
+
+      const fr = await readFile(join(tempDir.path, "fr.lproj/Localizable.strings"), "utf-8");
+      expect(fr).toContain('/* Common section */\n"common.save" = "FR Save";');
+    });
+  });
+
+  describe("Flutter ARB", () => {
+    it("exports ARB descriptions as notes", async () => {
+      tempDir = await copyFixtureToTemp("flutter-arb");
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+      );
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      const units = doc?.files[0].units ?? [];
+      expect(units.find((u) => u.key === "commonSave")?.notes).toEqual(["Save button text"]);
+      expect(units.some((u) => u.key.startsWith("@"))).toBe(false);
+      expect(units.some((u) => u.key === "appName")).toBe(false);
+    });
+  });
+
+  describe("include='missing'", () => {
+    it("exports keys whose source text changed since the last sync", async () => {
+      tempDir = await copyFixtureToTemp("json-nested");
+      await writeFile(
+        join(tempDir.path, "langapi.lock"),
+        JSON.stringify({ version: 1, files: { "locales/en.json": { de: { "auth.login": hashSourceText("Sign in") } } } })
+      );
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+      );
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      const login = doc?.files[0].units.find((u) => u.key === "auth.login");
+      expect(login).toMatchObject({ source: "Log in", target: "Anmelden", state: "initial" });
+      expect(login?.notes).toEqual(["The source text changed since this was translated."]);
+      expect(doc?.files[0].units.map((u) => u.key)).toContain("auth.signup");
+    });
+
+    it("exports String Catalog translations that need review", async () => {
+      tempDir = await copyFixtureToTemp("ios-xcstrings");
+      const path = join(tempDir.path, "Localizable.xcstrings");
+      const catalog = JSON.parse(await readFile(path, "utf-8"));
+      catalog.strings["app.tagline"].localizations.de.stringUnit.state = "needs_review";
+      await writeFile(path, JSON.stringify(catalog));
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["de"], project_path: tempDir.path })
+      );
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      const keys = doc?.files[0].units.map((u) => u.key);
+      expect(keys).toContain("app.tagline");
+      expect(keys).not.toContain("app.title");
+    });
+
+    it("exports the i18next plural forms the target language needs", async () => {
+      tempDir = await copyFixtureToTemp("i18next");
+      const locales = join(tempDir.path, "public/locales");
+      await rm(join(locales, "en/home.json"));
+      await writeFile(
+        join(locales, "en/common.json"),
+        JSON.stringify({ title: "Cart", item_one: "{{count}} item", item_other: "{{count}} items" })
+      );
+      await mkdir(join(locales, "pl"));
+      await writeFile(join(locales, "pl/common.json"), JSON.stringify({ title: "Koszyk", item_one: "{{count}} produkt" }));
+      const exportXliff = await loadHandler("export_xliff");
+
+      const output = parseOutput(
+        await exportXliff({ source_lang: "en", target_langs: ["pl"], project_path: tempDir.path })
+      );
+
+      const doc = parseXliffContent(await readFile(output.files[0].file, "utf-8"));
+      expect(doc?.files[0].units.map((u) => [u.key, u.source])).toEqual([
+        ["item_other", "{{count}} items"],
+        ["item_few", "{{count}} items"],
+        ["item_many", "{{count}} items"],
+      ]);
+    });
+  });
+
+  it("writes nothing when every target is complete", async () => {
+    tempDir = await copyFixtureToTemp("json-nested");
+    const exportXliff = await loadHandler("export_xliff");
+
+    const output = parseOutput(
+      await exportXliff({ source_lang: "en", target_langs: ["en"], project_path: tempDir.path })
+    );
+
+    expect(output.files).toEqual([]);
+    expect(await fileExists(join(tempDir.path, "xliff"))).toBe(false);
+  });
+});